@@ -61,7 +61,15 @@ export class CLIChannel {
         }
       }
 
-      // Process message through gateway
+      // Process message through gateway, printing the response as it streams.
+      // `streamed` holds the text of the current round (reset on tool calls).
+      let streamed = '';
+      let printedText = false;
+      const clearIndicator = () => {
+        readline.clearLine(process.stdout, 0);
+        readline.cursorTo(process.stdout, 0);
+      };
+
       try {
         process.stdout.write(chalk.gray('  thinking...'));
 
@@ -69,18 +77,56 @@ export class CLIChannel {
           this.userId,
           input,
           'cli',
-          this.conversationId
+          this.conversationId,
+          {
+            onEvent: (event) => {
+              if (event.type === 'text') {
+                if (!printedText) {
+                  clearIndicator();
+                  process.stdout.write(chalk.cyan(`${this.assistantName}: `));
+                  printedText = true;
+                }
+                streamed += event.delta;
+                process.stdout.write(event.delta);
+              } else if (event.type === 'tool_call') {
+                if (printedText) {
+                  process.stdout.write('\n');
+                  printedText = false;
+                } else {
+                  clearIndicator();
+                }
+                streamed = '';
+                process.stdout.write(chalk.gray(`  using ${event.name}...`));
+              } else if (event.type === 'retry') {
+                if (printedText) {
+                  process.stdout.write('\n');
+                  printedText = false;
+                } else {
+                  clearIndicator();
+                }
+                streamed = '';
+                process.stdout.write(chalk.gray(`  model busy, retrying with ${event.model}...`));
+              }
+            }
+          }
         );
 
         // Store conversation ID for session continuity
         this.conversationId = result.conversationId;
 
-        // Clear thinking indicator
-        readline.clearLine(process.stdout, 0);
-        readline.cursorTo(process.stdout, 0);
-
-        // Display response
-        console.log(chalk.cyan(`${this.assistantName}: `) + result.response);
+        if (printedText && result.response.startsWith(streamed)) {
+          // The final answer already streamed; print anything appended after it
+          // (e.g. a confirmation prompt for a held tool call)
+          process.stdout.write(result.response.slice(streamed.length) + '\n');
+        } else {
+          // Nothing streamed (e.g. workflow trigger) or the final text differs
+          if (printedText) {
+            process.stdout.write('\n');
+          } else {
+            clearIndicator();
+          }
+          console.log(chalk.cyan(`${this.assistantName}: `) + result.response);
+        }
 
         // Show debug info if enabled
         if (process.env.HIVE_LOG_LEVEL === 'debug') {
@@ -94,9 +140,12 @@ export class CLIChannel {
 
         console.log('');
       } catch (error) {
-        // Clear thinking indicator on error
-        readline.clearLine(process.stdout, 0);
-        readline.cursorTo(process.stdout, 0);
+        // Clear thinking indicator (or finish the partial line) on error
+        if (printedText) {
+          process.stdout.write('\n');
+        } else {
+          clearIndicator();
+        }
 
         const message = error instanceof Error ? error.message : String(error);
         console.log(chalk.red(`Error: ${message}\n`));
@@ -146,6 +195,7 @@ export class CLIChannel {
       case '/help':
         console.log(chalk.gray('  /quit  - Exit the assistant'));
         console.log(chalk.gray('  /new   - Start a new conversation'));
+        console.log(chalk.gray('  /think <question> - Think it through first (/nothink to skip)'));
         console.log(chalk.gray('  /help  - Show this help\n'));
         return true;
 
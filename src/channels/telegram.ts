@@ -1,15 +1,21 @@
 import { Bot, Context } from 'grammy';
 import chalk from 'chalk';
-import { Gateway } from '../core/gateway';
+import { Gateway, HandleMessageOptions } from '../core/gateway';
+import { ProviderError } from '../core/providers/interface';
+import { Attachment, isSupportedAttachmentType, toAttachment } from '../core/attachments';
 import { loadSoul } from '../core/soul';
 import { FileAccessService } from '../services/file-access';
+import { VoiceNoteOptions } from '../services/transcription';
 
 const TELEGRAM_MAX_MESSAGE_LENGTH = 4096;
 
+/** Minimum gap between progressive edits, to stay under Telegram's rate limits. */
+const STREAM_EDIT_INTERVAL_MS = 1200;
+
 /**
  * Telegram channel using grammY.
- * Runs a bot that listens for text messages via long polling
- * and routes them through the gateway.
+ * Runs a bot that listens for text messages, photos, documents and voice
+ * notes via long polling and routes them through the gateway.
  */
 export class TelegramChannel {
   private gateway: Gateway;
@@ -18,11 +24,18 @@ export class TelegramChannel {
   private conversations: Map<string, string> = new Map();
   private assistantName: string;
   private fileAccess?: FileAccessService;
-
-  constructor(gateway: Gateway, botToken: string, fileAccess?: FileAccessService) {
+  private voice?: VoiceNoteOptions;
+
+  constructor(
+    gateway: Gateway,
+    botToken: string,
+    fileAccess?: FileAccessService,
+    voice?: VoiceNoteOptions
+  ) {
     this.gateway = gateway;
     this.bot = new Bot(botToken);
     this.fileAccess = fileAccess;
+    this.voice = voice;
 
     try {
       this.assistantName = loadSoul().name || 'Hive';
@@ -48,10 +61,12 @@ export class TelegramChannel {
     // /help command
     this.bot.command('help', async (ctx) => {
       await ctx.reply(
-        `I'm ${this.assistantName}. Just send me a message and I'll respond.\n\n` +
+        `I'm ${this.assistantName}. Just send me a message and I'll respond. ` +
+        'You can also send voice notes, or photos, screenshots and PDFs with a question as the caption.\n\n' +
         'Commands:\n' +
         '/start - Welcome message\n' +
         '/new - Start a new conversation\n' +
+        '/think <question> - Think it through before answering (/nothink to skip)\n' +
         '/help - Show this help'
       );
     });
@@ -69,9 +84,24 @@ export class TelegramChannel {
       await this.handleTextMessage(ctx);
     });
 
-    // Handle document/file uploads
+    // Handle photos (compressed images) with their caption
+    this.bot.on('message:photo', async (ctx) => {
+      await this.handlePhotoMessage(ctx);
+    });
+
+    // Handle voice notes: transcribe and answer the transcript
+    this.bot.on('message:voice', async (ctx) => {
+      await this.handleVoiceMessage(ctx);
+    });
+
+    // Handle document/file uploads: images and PDFs go to the assistant, the rest are saved
     this.bot.on('message:document', async (ctx) => {
-      await this.handleDocumentMessage(ctx);
+      const mimeType = ctx.message.document.mime_type || '';
+      if (isSupportedAttachmentType(mimeType)) {
+        await this.handleMediaDocument(ctx);
+      } else {
+        await this.handleDocumentMessage(ctx);
+      }
     });
 
     // Error handler
@@ -100,20 +130,142 @@ export class TelegramChannel {
    */
   private async handleTextMessage(ctx: Context): Promise<void> {
     if (!ctx.from || !ctx.message?.text) return;
+    await this.respond(ctx, ctx.message.text);
+  }
+
+  /**
+   * Handle an incoming photo. Telegram sends several sizes; the largest
+   * is passed to the assistant along with the caption.
+   */
+  private async handlePhotoMessage(ctx: Context): Promise<void> {
+    if (!ctx.from || !ctx.message?.photo?.length) return;
+
+    const photo = ctx.message.photo[ctx.message.photo.length - 1];
+    let attachment: Attachment;
+    try {
+      const buffer = await this.downloadFile(ctx, photo.file_id);
+      attachment = toAttachment(buffer, 'image/jpeg', 'photo.jpg');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(chalk.red(`Telegram photo error for tg:${ctx.from.id}: ${message}`));
+      await ctx.reply(`Sorry, I couldn't read that photo: ${message}`).catch(() => {});
+      return;
+    }
+
+    await this.respond(ctx, ctx.message.caption || '', { attachments: [attachment] });
+  }
+
+  /**
+   * Handle a voice note: download, transcribe locally, optionally echo the
+   * transcript, then answer it like a text message.
+   */
+  private async handleVoiceMessage(ctx: Context): Promise<void> {
+    if (!ctx.from || !ctx.message?.voice) return;
+
+    if (!this.voice) {
+      await ctx.reply('Voice notes are not set up on this server. Please send text instead.');
+      return;
+    }
+
+    const userId = `tg:${ctx.from.id}`;
+    const voice = ctx.message.voice;
+    let transcript: string;
+    try {
+      await ctx.api.sendChatAction(ctx.chat!.id, 'typing');
+      const buffer = await this.downloadFile(ctx, voice.file_id);
+      transcript = await this.voice.transcriber.transcribe(buffer, voice.mime_type || 'audio/ogg');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(chalk.red(`Telegram transcription error for ${userId}: ${message}`));
+      await ctx.reply('Sorry, I couldn\'t transcribe that voice note. Please try again or send text.').catch(() => {});
+      return;
+    }
+
+    if (!transcript) {
+      await ctx.reply('I couldn\'t hear anything in that voice note.');
+      return;
+    }
+    console.log(chalk.gray(`  [TG ${ctx.from.id}] Voice note (${voice.duration}s) transcribed: "${transcript.substring(0, 80)}"`));
+
+    if (this.voice.echoTranscript) {
+      await ctx.reply(`🎤 "${transcript}"`).catch(() => {});
+    }
+    await this.respond(ctx, transcript, { voiceNote: true });
+  }
+
+  /**
+   * Handle an image or PDF sent as a file (e.g. an uncompressed screenshot).
+   * PDFs are also saved to the user's files, as other uploads are.
+   */
+  private async handleMediaDocument(ctx: Context): Promise<void> {
+    if (!ctx.from || !ctx.message?.document) return;
+
+    const userId = `tg:${ctx.from.id}`;
+    const doc = ctx.message.document;
+    const filename = doc.file_name || `file_${Date.now()}`;
+    let attachment: Attachment;
+    try {
+      const buffer = await this.downloadFile(ctx, doc.file_id);
+      attachment = toAttachment(buffer, doc.mime_type || '', filename);
+
+      if (this.fileAccess && attachment.type === 'document') {
+        try {
+          const savedName = await this.fileAccess.saveFileWithVersioning(userId, filename, buffer);
+          console.log(chalk.gray(`  [TG ${ctx.from.id}] File saved: ${savedName}`));
+        } catch {
+          // Non-critical: the assistant still gets the PDF
+        }
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(chalk.red(`Telegram file error for ${userId}: ${message}`));
+      await ctx.reply(`Sorry, I couldn't read that file: ${message}`).catch(() => {});
+      return;
+    }
+
+    await this.respond(ctx, ctx.message.caption || '', { attachments: [attachment] });
+  }
+
+  /**
+   * Route a message (and any attachments) through the gateway, streaming
+   * the response into an edited preview message.
+   */
+  private async respond(
+    ctx: Context,
+    text: string,
+    extra?: Pick<HandleMessageOptions, 'attachments' | 'voiceNote'>
+  ): Promise<void> {
+    if (!ctx.from) return;
 
     const userId = `tg:${ctx.from.id}`;
-    const text = ctx.message.text;
+    const chatId = ctx.chat!.id;
+    const stream = new TelegramStreamWriter(ctx, chatId);
 
     try {
       // Show typing indicator
-      await ctx.api.sendChatAction(ctx.chat!.id, 'typing');
+      await ctx.api.sendChatAction(chatId, 'typing');
 
       const conversationId = this.conversations.get(userId);
-      const result = await this.gateway.handleMessage(userId, text, 'telegram', conversationId);
+      const result = await this.gateway.handleMessage(userId, text, 'telegram', conversationId, {
+        ...extra,
+        onEvent: (event) => {
+          if (event.type === 'text') {
+            stream.append(event.delta);
+          } else if (event.type === 'tool_call') {
+            stream.setStatus(`Using ${event.name}...`);
+            ctx.api.sendChatAction(chatId, 'typing').catch(() => {});
+          } else if (event.type === 'retry') {
+            stream.reset('Model busy, retrying...');
+          }
+        }
+      });
       this.conversations.set(userId, result.conversationId);
 
-      // Send response (split if too long)
-      await this.sendLongMessage(ctx, result.response);
+      // Replace the streamed preview with the final response (split if too long)
+      const overflow = await stream.finish(result.response);
+      for (const chunk of overflow) {
+        await ctx.reply(chunk);
+      }
 
       if (process.env.HIVE_LOG_LEVEL === 'debug') {
         console.log(chalk.gray(
@@ -124,7 +276,11 @@ export class TelegramChannel {
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       console.error(chalk.red(`Telegram error for ${userId}: ${message}`));
-      await ctx.reply('Sorry, something went wrong. Please try again.').catch(() => {});
+      await stream.abandon();
+      const reply = error instanceof ProviderError && error.retryable
+        ? 'The AI service is overloaded right now. Please try again in a minute.'
+        : 'Sorry, something went wrong. Please try again.';
+      await ctx.reply(reply).catch(() => {});
     }
   }
 
@@ -147,22 +303,12 @@ export class TelegramChannel {
     try {
       await ctx.api.sendChatAction(ctx.chat!.id, 'typing');
 
-      // Download file from Telegram
-      const file = await ctx.api.getFile(doc.file_id);
-      const fileUrl = `https://api.telegram.org/file/bot${this.bot.token}/${file.file_path}`;
-
-      const response = await fetch(fileUrl);
-      if (!response.ok) {
-        throw new Error(`Failed to download file: HTTP ${response.status}`);
-      }
-
-      const arrayBuffer = await response.arrayBuffer();
-      const buffer = Buffer.from(arrayBuffer);
+      const buffer = await this.downloadFile(ctx, doc.file_id);
 
       // Save to user's files directory (with versioning if tracked)
       const savedName = await this.fileAccess.saveFileWithVersioning(userId, filename, buffer);
 
-      // Try text extraction for PDF/Excel
+      // Try text extraction for PDF/Excel/Word
       let extractedName: string | null = null;
       try {
         extractedName = await this.fileAccess.extractText(userId, savedName);
@@ -184,17 +330,136 @@ export class TelegramChannel {
     }
   }
 
+  /** Download a file from Telegram by its file ID. */
+  private async downloadFile(ctx: Context, fileId: string): Promise<Buffer> {
+    const file = await ctx.api.getFile(fileId);
+    const fileUrl = `https://api.telegram.org/file/bot${this.bot.token}/${file.file_path}`;
+
+    const response = await fetch(fileUrl);
+    if (!response.ok) {
+      throw new Error(`Failed to download file: HTTP ${response.status}`);
+    }
+
+    return Buffer.from(await response.arrayBuffer());
+  }
+}
+
+/**
+ * Shows a response as it streams in by sending one message and then
+ * editing it in place. Edits are throttled and serialized so a fast stream
+ * never floods the Bot API; the final text always wins.
+ */
+class TelegramStreamWriter {
+  private ctx: Context;
+  private chatId: number;
+  private text = '';
+  private status = '';
+  private messageId: number | null = null;
+  private lastRendered = '';
+  private lastEditAt = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(ctx: Context, chatId: number) {
+    this.ctx = ctx;
+    this.chatId = chatId;
+  }
+
+  /** Append a text delta and schedule an edit. */
+  append(delta: string): void {
+    this.text += delta;
+    this.status = '';
+    this.schedule();
+  }
+
+  /** Show a short status line (e.g. a tool in progress) under the text so far. */
+  setStatus(status: string): void {
+    this.status = status;
+    this.schedule();
+  }
+
+  /** Drop the text streamed so far (e.g. a failed attempt being retried). */
+  reset(status: string): void {
+    this.text = '';
+    this.status = status;
+    this.schedule();
+  }
+
   /**
-   * Send a message, splitting into chunks if it exceeds Telegram's limit.
+   * Render the final response. The first chunk replaces the streamed
+   * message; anything beyond Telegram's length limit is returned so the
+   * caller can send it as follow-up messages.
    */
-  private async sendLongMessage(ctx: Context, text: string): Promise<void> {
-    if (text.length <= TELEGRAM_MAX_MESSAGE_LENGTH) {
-      await ctx.reply(text);
-      return;
+  async finish(finalText: string): Promise<string[]> {
+    this.cancelTimer();
+    await this.pending;
+
+    const chunks: string[] = [];
+    for (let i = 0; i < finalText.length; i += TELEGRAM_MAX_MESSAGE_LENGTH) {
+      chunks.push(finalText.slice(i, i + TELEGRAM_MAX_MESSAGE_LENGTH));
+    }
+    if (chunks.length === 0) chunks.push(finalText);
+
+    const [first, ...rest] = chunks;
+    if (this.messageId === null) {
+      await this.ctx.reply(first);
+    } else if (first !== this.lastRendered) {
+      await this.ctx.api.editMessageText(this.chatId, this.messageId, first).catch(async () => {
+        // Edit failed (message deleted, too old, ...): fall back to a fresh reply
+        await this.ctx.reply(first);
+      });
+    }
+    return rest;
+  }
+
+  /** Remove the partial preview after a failure. */
+  async abandon(): Promise<void> {
+    this.cancelTimer();
+    await this.pending;
+    if (this.messageId !== null) {
+      await this.ctx.api.deleteMessage(this.chatId, this.messageId).catch(() => {});
+      this.messageId = null;
     }
+  }
+
+  private schedule(): void {
+    if (this.timer) return;
+    const wait = Math.max(0, this.lastEditAt + STREAM_EDIT_INTERVAL_MS - Date.now());
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.pending = this.pending.then(() => this.flush());
+    }, wait);
+  }
+
+  private cancelTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
 
-    for (let i = 0; i < text.length; i += TELEGRAM_MAX_MESSAGE_LENGTH) {
-      await ctx.reply(text.slice(i, i + TELEGRAM_MAX_MESSAGE_LENGTH));
+  private async flush(): Promise<void> {
+    let rendered = this.text;
+    if (this.status) rendered += (rendered ? '\n\n' : '') + this.status;
+    rendered = rendered.trim();
+    if (!rendered || rendered === this.lastRendered) return;
+
+    // Keep the live preview within a single message; the tail shows on finish
+    if (rendered.length > TELEGRAM_MAX_MESSAGE_LENGTH) {
+      rendered = rendered.slice(0, TELEGRAM_MAX_MESSAGE_LENGTH - 1) + '…';
+    }
+
+    this.lastEditAt = Date.now();
+    try {
+      if (this.messageId === null) {
+        const sent = await this.ctx.reply(rendered);
+        this.messageId = sent.message_id;
+      } else {
+        await this.ctx.api.editMessageText(this.chatId, this.messageId, rendered);
+      }
+      this.lastRendered = rendered;
+    } catch {
+      // Preview updates are best-effort; the final response is sent on finish
     }
   }
 }
@@ -3,7 +3,9 @@ import makeWASocket, {
   useMultiFileAuthState,
   fetchLatestBaileysVersion,
   makeCacheableSignalKeyStore,
+  downloadMediaMessage,
   WASocket,
+  WAMessage,
   proto
 } from '@whiskeysockets/baileys';
 import { Boom } from '@hapi/boom';
@@ -13,7 +15,10 @@ import * as path from 'path';
 import * as fs from 'fs';
 import chalk from 'chalk';
 import { Gateway } from '../core/gateway';
+import { ProviderError } from '../core/providers/interface';
+import { Attachment, isSupportedAttachmentType, toAttachment } from '../core/attachments';
 import { getConfig } from '../utils/config';
+import { VoiceNoteOptions } from '../services/transcription';
 
 const HIVE_DIR = path.join(process.env.HOME || process.env.USERPROFILE || '~', '.hive');
 const MAX_RECONNECT_ATTEMPTS = 5;
@@ -43,9 +48,11 @@ export class WhatsAppChannel {
   private reconnectAttempts = 0;
   private credentialsPath: string;
   private ownerJid: string | null = null;
+  private voice?: VoiceNoteOptions;
 
-  constructor(gateway: Gateway) {
+  constructor(gateway: Gateway, voice?: VoiceNoteOptions) {
     this.gateway = gateway;
+    this.voice = voice;
     this.credentialsPath = path.join(HIVE_DIR, 'credentials', 'whatsapp');
 
     // Load the owner's phone number from config for self-chat replies
@@ -183,9 +190,9 @@ export class WhatsAppChannel {
         if (jid === 'status@broadcast') continue;
 
         const text = this.extractText(msg);
-        if (!text) continue;
+        if (!text && !this.hasMedia(msg) && !msg.message?.audioMessage) continue;
 
-        await this.handleIncomingMessage(jid, text);
+        await this.handleIncomingMessage(jid, msg, text || '');
       }
     });
   }
@@ -202,13 +209,18 @@ export class WhatsAppChannel {
   }
 
   /**
-   * Handle a single incoming message.
+   * Handle a single incoming message. Images and PDFs are downloaded and
+   * passed to the gateway as attachments, with the caption as the text.
+   * Voice notes are transcribed and passed on as text.
    */
-  private async handleIncomingMessage(jid: string, text: string): Promise<void> {
+  private async handleIncomingMessage(jid: string, msg: proto.IWebMessageInfo, text: string): Promise<void> {
     // Resolve the reply JID: if the incoming JID is a LID, use the owner's phone JID instead
     const replyJid = this.resolveReplyJid(jid);
     const userId = this.getUserId(replyJid);
-    console.log(chalk.gray(`  [WA] Message from ${userId}: "${text.substring(0, 80)}${text.length > 80 ? '...' : ''}"`));
+    const audio = msg.message?.audioMessage;
+    console.log(chalk.gray(audio
+      ? `  [WA] Voice note from ${userId} (${audio.seconds ?? '?'}s)`
+      : `  [WA] Message from ${userId}: "${text.substring(0, 80)}${text.length > 80 ? '...' : ''}"`));
 
     try {
       // Mark as read
@@ -216,21 +228,22 @@ export class WhatsAppChannel {
         await this.sock.readMessages([{ remoteJid: jid, id: '' }]).catch(() => {});
       }
 
+      if (audio) {
+        const transcript = await this.transcribeVoiceNote(msg, replyJid);
+        if (!transcript) return;
+        text = transcript;
+      }
+
+      const attachments = await this.downloadAttachments(msg);
       const conversationId = this.conversations.get(userId);
-      const result = await this.gateway.handleMessage(userId, text, 'whatsapp', conversationId);
+      const result = await this.gateway.handleMessage(userId, text, 'whatsapp', conversationId, {
+        attachments,
+        voiceNote: !!audio
+      });
       this.conversations.set(userId, result.conversationId);
 
       // Send response to the phone number JID (not the LID)
-      if (this.sock) {
-        const sent = await this.sock.sendMessage(replyJid, { text: result.response });
-        if (sent?.key?.id) {
-          this.sentMessageIds.add(sent.key.id);
-          // Store message content for retry/re-encryption support
-          if (sent.message) {
-            this.sentMessages.set(sent.key.id, sent.message);
-          }
-        }
-      }
+      await this.sendText(replyJid, result.response);
 
       console.log(chalk.green(`  [WA] Reply sent to ${userId} (${result.usage.tokensIn}+${result.usage.tokensOut} tokens)`));
     } catch (error) {
@@ -238,16 +251,64 @@ export class WhatsAppChannel {
       console.error(chalk.red(`  [WA] Error for ${userId}: ${message}`));
 
       // Try to send error message to user
-      if (this.sock) {
-        const sent = await this.sock.sendMessage(replyJid, {
-          text: 'Sorry, something went wrong processing your message. Please try again.'
-        }).catch(() => undefined);
-        if (sent?.key?.id) {
-          this.sentMessageIds.add(sent.key.id);
-          if (sent.message) {
-            this.sentMessages.set(sent.key.id, sent.message);
-          }
-        }
+      await this.sendText(replyJid, error instanceof ProviderError && error.retryable
+        ? 'The AI service is overloaded right now. Please try again in a minute.'
+        : 'Sorry, something went wrong processing your message. Please try again.'
+      ).catch(() => {});
+    }
+  }
+
+  /**
+   * Download and transcribe a voice note, echoing the transcript if configured.
+   * Replies to the user and returns null when there is nothing to answer.
+   */
+  private async transcribeVoiceNote(msg: proto.IWebMessageInfo, replyJid: string): Promise<string | null> {
+    if (!this.voice) {
+      await this.sendText(replyJid, 'Voice notes are not set up on this server. Please send text instead.');
+      return null;
+    }
+
+    let transcript: string;
+    try {
+      const buffer = await downloadMediaMessage(msg as WAMessage, 'buffer', {}) as Buffer;
+      transcript = await this.voice.transcriber.transcribe(buffer, msg.message?.audioMessage?.mimetype || 'audio/ogg');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(chalk.red(`  [WA] Transcription error: ${message}`));
+      await this.sendText(replyJid, 'Sorry, I couldn\'t transcribe that voice note. Please try again or send text.');
+      return null;
+    }
+
+    if (!transcript) {
+      await this.sendText(replyJid, 'I couldn\'t hear anything in that voice note.');
+      return null;
+    }
+    if (this.voice.echoTranscript) {
+      await this.sendText(replyJid, `🎤 "${transcript}"`);
+    }
+    return transcript;
+  }
+
+  /**
+   * Send a notification (e.g. a reminder) to a phone number.
+   * Throws if WhatsApp isn't connected, so the sender can try another channel.
+   */
+  async sendNotification(phone: string, text: string): Promise<void> {
+    if (!this.sock) {
+      throw new Error('WhatsApp is not connected');
+    }
+    await this.sendText(`${phone}@s.whatsapp.net`, text);
+  }
+
+  /** Send a text message, remembering its ID so the echo isn't handled as input. */
+  private async sendText(jid: string, text: string): Promise<void> {
+    if (!this.sock) return;
+    const sent = await this.sock.sendMessage(jid, { text });
+    if (sent?.key?.id) {
+      this.sentMessageIds.add(sent.key.id);
+      // Store message content for retry/re-encryption support
+      if (sent.message) {
+        this.sentMessages.set(sent.key.id, sent.message);
       }
     }
   }
@@ -264,7 +325,7 @@ export class WhatsAppChannel {
   }
 
   /**
-   * Extract text content from a WhatsApp message.
+   * Extract text content from a WhatsApp message (media captions included).
    */
   private extractText(msg: proto.IWebMessageInfo): string | null {
     const message = msg.message;
@@ -272,9 +333,42 @@ export class WhatsAppChannel {
 
     return message.conversation
       || message.extendedTextMessage?.text
+      || message.imageMessage?.caption
+      || this.getDocument(msg)?.caption
       || null;
   }
 
+  /** Check if a message carries an image or PDF the assistant can read. */
+  private hasMedia(msg: proto.IWebMessageInfo): boolean {
+    return this.getMediaType(msg) !== null;
+  }
+
+  /**
+   * Download a message's image or PDF as an attachment.
+   * Returns an empty list for text-only messages and unsupported media.
+   */
+  private async downloadAttachments(msg: proto.IWebMessageInfo): Promise<Attachment[]> {
+    const mediaType = this.getMediaType(msg);
+    if (!mediaType) return [];
+
+    const buffer = await downloadMediaMessage(msg as WAMessage, 'buffer', {}) as Buffer;
+    return [toAttachment(buffer, mediaType, this.getDocument(msg)?.fileName || undefined)];
+  }
+
+  /** MIME type of a supported image or PDF in the message, or null. */
+  private getMediaType(msg: proto.IWebMessageInfo): string | null {
+    const mediaType = msg.message?.imageMessage
+      ? msg.message.imageMessage.mimetype || 'image/jpeg'
+      : this.getDocument(msg)?.mimetype;
+    return mediaType && isSupportedAttachmentType(mediaType) ? mediaType : null;
+  }
+
+  /** Documents sent with a caption arrive wrapped in `documentWithCaptionMessage`. */
+  private getDocument(msg: proto.IWebMessageInfo): proto.Message.IDocumentMessage | null | undefined {
+    return msg.message?.documentMessage
+      || msg.message?.documentWithCaptionMessage?.message?.documentMessage;
+  }
+
   /**
    * Extract a userId from a WhatsApp JID.
    */
@@ -12,6 +12,7 @@ import { profileCommand } from './commands/profile';
 import { statusCommand } from './commands/status';
 import { sendCommand } from './commands/send';
 import { stopCommand } from './commands/stop';
+import { orchestratorCommand } from './commands/orchestrator';
 
 const program = new Command();
 
@@ -70,6 +71,17 @@ program
   .option('--connection <string>', 'Connection string for postgres')
   .action(dbCommand);
 
+// Orchestrator
+program
+  .command('orchestrator')
+  .description('Orchestrator tools (eval: score routing against logged messages, train: fit the local fast path)')
+  .argument('[action]', 'eval | train')
+  .option('--models <list>', 'Comma-separated providers, e.g. haiku,ollama:llama3.2,ollama:qwen2.5:3b')
+  .option('--limit <n>', 'Most recent debug logs to use (default 200 for eval, 5000 for train)')
+  .option('--corrected-only', 'Only use labels corrected on the Logs page')
+  .option('--json', 'Print the full report as JSON')
+  .action(orchestratorCommand);
+
 // Skills
 program
   .command('skills')
@@ -68,11 +68,16 @@ async function handleSet(key?: string, value?: string): Promise<void> {
 async function handleEdit(): Promise<void> {
   const config = getConfig();
 
+  // Configured providers with a default model can be picked by name
+  const providerChoices = Object.entries(config.ai.providers || {})
+    .filter(([, p]) => p.model)
+    .map(([name]) => name);
+
   const { model } = await inquirer.prompt([{
     type: 'list',
     name: 'model',
     message: 'Default AI model:',
-    choices: ['haiku', 'sonnet', 'opus'],
+    choices: ['haiku', 'sonnet', 'opus', ...providerChoices],
     default: config.ai.executor.default
   }]);
 
@@ -124,6 +129,9 @@ async function handleShow(): Promise<void> {
   console.log(`  Default Model: ${config.ai.executor.default}`);
   console.log(`  Simple Model:  ${config.ai.executor.simple}`);
   console.log(`  Complex Model: ${config.ai.executor.complex}`);
+  for (const [name, p] of Object.entries(config.ai.providers || {})) {
+    console.log(`  Provider ${name}: ${p.type}${p.endpoint ? ` @ ${p.endpoint}` : ''}${p.model ? ` (model ${p.model})` : ''}`);
+  }
 
   console.log(chalk.bold('\nOrchestrator'));
   console.log(`  Provider: ${config.orchestrator.provider}`);
@@ -0,0 +1,144 @@
+import chalk from 'chalk';
+import ora from 'ora';
+import { getConfig, configExists } from '../utils/config';
+import { getDatabase } from '../db/interface';
+import { CandidateReport, RoutingEvalService } from '../services/routing-eval';
+
+interface EvalOptions {
+  models?: string;
+  limit?: string;
+  correctedOnly?: boolean;
+  json?: boolean;
+}
+
+/**
+ * Orchestrator tools.
+ */
+export async function orchestratorCommand(action: string | undefined, options: EvalOptions): Promise<void> {
+  if (!configExists()) {
+    console.log(chalk.red('No configuration found. Run `hive setup` first.'));
+    return;
+  }
+
+  switch (action) {
+    case 'eval':
+      await handleEval(options);
+      break;
+    case 'train':
+      await handleTrain(options);
+      break;
+    default:
+      console.log(chalk.red(`Unknown action: ${action ?? '(none)'}`));
+      console.log(chalk.gray('Available: eval, train'));
+  }
+}
+
+/**
+ * Replay logged messages through each routing provider and print how
+ * often it agrees with the labels.
+ */
+async function handleEval(options: EvalOptions): Promise<void> {
+  const config = getConfig();
+  const db = await getDatabase(config.database);
+  const spinner = options.json ? null : ora('Building dataset...').start();
+
+  try {
+    const service = new RoutingEvalService(db);
+    const report = await service.run({
+      candidates: options.models?.split(',').map(m => m.trim()).filter(Boolean),
+      limit: options.limit ? parseInt(options.limit, 10) : undefined,
+      correctedOnly: options.correctedOnly,
+      onProgress: (candidate, done, total) => {
+        if (spinner) spinner.text = `Evaluating ${candidate}... ${done}/${total}`;
+      }
+    });
+    spinner?.stop();
+
+    if (options.json) {
+      console.log(JSON.stringify(report, null, 2));
+      return;
+    }
+
+    console.log(chalk.cyan('\nRouting Evaluation\n'));
+    console.log(chalk.gray('─'.repeat(40)));
+    console.log(`  Messages:  ${report.dataset.total} (${report.dataset.corrected} corrected)`);
+    console.log(`  Took:      ${(report.durationMs / 1000).toFixed(1)}s`);
+
+    for (const c of report.candidates) {
+      printCandidate(c);
+    }
+    console.log('');
+  } catch (error: any) {
+    spinner?.fail(error.message);
+    if (options.json) console.error(error.message);
+    process.exitCode = 1;
+  } finally {
+    await db.close();
+  }
+}
+
+/**
+ * Train the local fast-path classifier on labeled debug logs.
+ */
+async function handleTrain(options: EvalOptions): Promise<void> {
+  const config = getConfig();
+  const db = await getDatabase(config.database);
+  const spinner = ora('Training fast-path classifier...').start();
+
+  try {
+    const { report } = await new RoutingEvalService(db).trainClassifier({
+      limit: options.limit ? parseInt(options.limit, 10) : undefined,
+      correctedOnly: options.correctedOnly
+    });
+    spinner.succeed(`Trained on ${report.examples} messages`);
+
+    const pct = (n: number, of: number) => of ? `${((n / of) * 100).toFixed(1)}%` : '-';
+    console.log(chalk.gray(`\n  Held-out check (${report.holdout} messages, threshold ${report.threshold}):`));
+    console.log(`  Skips the LLM for:    ${pct(report.covered, report.holdout)}`);
+    console.log(`  Correct when it does: ${pct(report.correct, report.covered)}`);
+    console.log(chalk.gray('\n  Restart Hive (or train from the System page) to start using it.\n'));
+  } catch (error: any) {
+    spinner.fail(error.message);
+    process.exitCode = 1;
+  } finally {
+    await db.close();
+  }
+}
+
+function printCandidate(c: CandidateReport): void {
+  const pct = (n: number) => `${(n * 100).toFixed(1)}%`;
+
+  console.log(chalk.bold(`\n${c.candidate}`));
+  console.log(`  Intent:     ${pct(c.intentAccuracy)}`);
+  console.log(`  Complexity: ${pct(c.complexityAccuracy)}`);
+  console.log(`  Model:      ${pct(c.modelAccuracy)}`);
+  console.log(`  All three:  ${pct(c.exactAccuracy)}`);
+  if (c.errors > 0) console.log(chalk.yellow(`  Errors:     ${c.errors}`));
+  console.log(`  Latency:    ${c.latencyMs.mean}ms mean, ${c.latencyMs.p50}ms p50, ${c.latencyMs.p95}ms p95`);
+  console.log(`  Cost:       $${(c.costCents / 100).toFixed(4)} ($${(c.costPer1kMessagesCents / 100).toFixed(4)} per 1k messages)`);
+
+  // Confusion matrix: rows are expected intents, columns predicted
+  const expected = Object.keys(c.confusion).sort();
+  const predicted = [...new Set([...expected, ...Object.values(c.confusion).flatMap(row => Object.keys(row))])].sort();
+  const width = Math.max(8, ...predicted.map(p => p.length)) + 1;
+  console.log(chalk.gray('\n  Confusion (rows: expected, columns: predicted)'));
+  console.log(chalk.gray(`  ${''.padEnd(width)}${predicted.map(p => p.slice(0, width - 1).padStart(width)).join('')}  recall`));
+  for (const intent of expected) {
+    const cells = predicted.map(p => {
+      const n = c.confusion[intent][p] || 0;
+      const cell = String(n || '·').padStart(width);
+      return p === intent && n ? chalk.green(cell) : n ? chalk.red(cell) : chalk.gray(cell);
+    });
+    console.log(`  ${intent.padEnd(width)}${cells.join('')}  ${pct(c.perIntent[intent].recall)}`);
+  }
+
+  if (c.mistakes.length > 0) {
+    console.log(chalk.gray('\n  Some misses:'));
+    for (const m of c.mistakes.slice(0, 5)) {
+      const got = m.predicted
+        ? `${m.predicted.intent}/${m.predicted.complexity}/${m.predicted.suggestedModel}`
+        : `error: ${m.error}`;
+      console.log(chalk.gray(`    "${m.message.slice(0, 60)}" expected ${m.expected.intent}/${m.expected.complexity}/${m.expected.suggestedModel}, got ${got}`));
+    }
+  }
+}
@@ -1,6 +1,6 @@
 import chalk from 'chalk';
 import ora from 'ora';
-import { getConfig, getApiKey } from '../utils/config';
+import { getConfig, getApiKey, needsAnthropicKey } from '../utils/config';
 import { getDatabase } from '../db/interface';
 import { createOrchestrator } from '../core/orchestrator';
 import { Executor } from '../core/executor';
@@ -17,7 +17,7 @@ export async function sendCommand(message: string, options: { to?: string; chann
     const config = getConfig();
     const apiKey = getApiKey();
 
-    if (!apiKey) {
+    if (!apiKey && needsAnthropicKey(config)) {
       spinner.fail('No API key configured. Run `hive setup` first.');
       return;
     }
@@ -2,11 +2,13 @@ import chalk from 'chalk';
 import ora from 'ora';
 import * as fs from 'fs';
 import * as path from 'path';
-import { getConfig, getApiKey } from '../utils/config';
+import { getConfig, getApiKey, needsAnthropicKey } from '../utils/config';
 import { getDatabase } from '../db/interface';
 import { createOrchestrator } from '../core/orchestrator';
 import { Executor } from '../core/executor';
 import { Summarizer } from '../core/summarizer';
+import { MemoryService } from '../services/memory';
+import { ProfileUpdateService } from '../services/profile-updates';
 import { Gateway } from '../core/gateway';
 import { CLIChannel } from '../channels/cli';
 import { WhatsAppChannel } from '../channels/whatsapp';
@@ -24,10 +26,13 @@ import { CredentialVault } from '../services/credential-vault';
 import { NotificationSender } from '../services/notification-sender';
 import { WorkflowTriggerService } from '../services/workflow-trigger';
 import { ReminderScheduler } from '../services/reminder-scheduler';
+import { ReminderService } from '../services/reminders';
 import { GoogleAuthManager } from '../services/google-auth';
 import { GoogleCalendarService } from '../services/google-calendar';
 import { GmailService } from '../services/gmail';
 import { seedBuiltinScripts } from '../services/seed-scripts';
+import { createTranscriptionService, VoiceNoteOptions } from '../services/transcription';
+import { createWebSearchService, WebSearchService } from '../services/web-search';
 
 interface StartOptions {
   daemon?: boolean;
@@ -71,7 +76,7 @@ export async function startCommand(options: StartOptions): Promise<void> {
     const config = getConfig();
     const apiKey = getApiKey();
 
-    if (!apiKey) {
+    if (!apiKey && needsAnthropicKey(config)) {
       spinner.fail('No API key configured. Run `hive setup` first.');
       process.exit(1);
     }
@@ -106,9 +111,18 @@ export async function startCommand(options: StartOptions): Promise<void> {
     // 5. Create summarizer
     const summarizer = new Summarizer(db, executor);
 
+    // 5b. Create long-term memory service
+    const memories = new MemoryService(db, executor);
+
     // 6. Create user settings service (for per-user soul/profile)
     const userSettings = new UserSettingsService(db);
 
+    // 6b. Create profile update detection (proposals reviewed on the Profile page)
+    const profileUpdates = new ProfileUpdateService(db, executor, userSettings);
+
+    // 6c. Create reminder actions (done/snooze from any channel or the dashboard)
+    const reminders = new ReminderService(db, userSettings);
+
     // 7. Create skill resolver (per-user skill resolution)
     const skillResolver = new SkillResolver(db, path.join(config.dataDir, 'skills'));
 
@@ -137,6 +151,16 @@ export async function startCommand(options: StartOptions): Promise<void> {
       ? new GmailService(googleAuth)
       : undefined;
 
+    // 7g. Create web search for the web_search tool (if configured); a bad
+    //     config only disables the tool, reported once Hive is online
+    let webSearch: WebSearchService | undefined;
+    let webSearchError: string | undefined;
+    try {
+      webSearch = createWebSearchService(config.webSearch) || undefined;
+    } catch (err: any) {
+      webSearchError = err.message;
+    }
+
     // 8. Create gateway
     const gateway = new Gateway({
       db,
@@ -145,9 +169,13 @@ export async function startCommand(options: StartOptions): Promise<void> {
       workspacePath: config.workspace,
       defaultUserId: 'cli-user',
       summarizer,
+      memories,
+      profileUpdates,
       userSettings,
+      reminders,
       skillResolver,
       fileAccess,
+      webSearch,
       scriptRunner,
       googleCalendar,
       gmail
@@ -158,7 +186,7 @@ export async function startCommand(options: StartOptions): Promise<void> {
     const notificationSender = new NotificationSender(telegramToken);
 
     // 8c. Create workflow engine (requires gateway for skill steps, vault for credential inputs)
-    const workflowEngine = new WorkflowEngine(scriptRunner, gateway, db, credentialVault, notificationSender);
+    const workflowEngine = new WorkflowEngine(scriptRunner, gateway, db, credentialVault, notificationSender, fileAccess);
 
     // 8d. Create workflow trigger service (natural language workflow triggering)
     const workflowTrigger = new WorkflowTriggerService(db, workflowEngine);
@@ -169,7 +197,7 @@ export async function startCommand(options: StartOptions): Promise<void> {
     await workflowScheduler.start();
 
     // 8f. Create reminder scheduler (proactive due-date notifications)
-    const reminderScheduler = new ReminderScheduler(db, notificationSender);
+    const reminderScheduler = new ReminderScheduler(db, notificationSender, userSettings, gmail);
     reminderScheduler.start();
 
     spinner.succeed('Hive is ready!');
@@ -198,16 +226,36 @@ export async function startCommand(options: StartOptions): Promise<void> {
     let whatsapp: WhatsAppChannel | null = null;
     let telegram: TelegramChannel | null = null;
 
+    // Voice notes are transcribed locally when a backend is configured
+    let voice: VoiceNoteOptions | undefined;
+    try {
+      const transcriber = createTranscriptionService(config.transcription);
+      if (transcriber) {
+        voice = { transcriber, echoTranscript: config.transcription?.echoTranscript ?? false };
+        console.log(chalk.green(`  Voice notes: ${config.transcription!.backend} transcription`));
+      }
+    } catch (err: any) {
+      console.error(chalk.yellow(`  Voice notes disabled: ${err.message}`));
+    }
+
+    if (webSearch) {
+      console.log(chalk.green(`  Web search: ${config.webSearch!.backend}`));
+    } else if (webSearchError) {
+      console.error(chalk.yellow(`  Web search disabled: ${webSearchError}`));
+    }
+
     if (config.channels.whatsapp.enabled) {
-      whatsapp = new WhatsAppChannel(gateway);
+      whatsapp = new WhatsAppChannel(gateway, voice);
       whatsapp.start().catch(err => {
         console.error(chalk.red(`WhatsApp error: ${err.message}`));
       });
+      const channel = whatsapp;
+      notificationSender.registerChannel('whatsapp', (phone, text) => channel.sendNotification(phone, text));
       console.log(chalk.green('  WhatsApp channel starting...'));
     }
 
     if (config.channels.telegram.enabled && config.channels.telegram.botToken) {
-      telegram = new TelegramChannel(gateway, config.channels.telegram.botToken, fileAccess);
+      telegram = new TelegramChannel(gateway, config.channels.telegram.botToken, fileAccess, voice);
       telegram.start().catch(err => {
         console.error(chalk.red(`Telegram error: ${err.message}`));
       });
@@ -220,7 +268,7 @@ export async function startCommand(options: StartOptions): Promise<void> {
       const webPort = config.web.port || 3000;
       const webHost = config.web.host || '0.0.0.0';
       const app = createWebServer({
-        db, port: webPort, host: webHost, gateway, skillResolver,
+        db, port: webPort, host: webHost, gateway, profileUpdates, reminders, orchestrator, skillResolver,
         scriptRunner, scriptGenerator, workflowEngine, workflowScheduler, credentialVault,
         googleAuth, gmail
       });
@@ -0,0 +1,55 @@
+import { ExecutorContentPart, ImageMediaType } from './executor';
+
+/** An image or PDF sent along with a message, passed to the executor as a content block. */
+export type Attachment = Exclude<ExecutorContentPart, { type: 'text' }>;
+
+/** Largest image the API accepts (base64 is ~4/3 of this). */
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+/** Largest PDF we pass through; bigger files should go via the files area. */
+export const MAX_DOCUMENT_BYTES = 20 * 1024 * 1024;
+
+const IMAGE_TYPES = new Set<string>(['image/jpeg', 'image/png', 'image/gif', 'image/webp']);
+
+/** Whether a MIME type can be sent to the model as an attachment. */
+export function isSupportedAttachmentType(mediaType: string): boolean {
+  return IMAGE_TYPES.has(mediaType) || mediaType === 'application/pdf';
+}
+
+/**
+ * Build an attachment from raw bytes.
+ *
+ * @throws Error if the type is unsupported or the file is too large
+ */
+export function toAttachment(buffer: Buffer, mediaType: string, name?: string): Attachment {
+  const type = mediaType.toLowerCase().split(';')[0].trim();
+  if (type === 'image/jpg') return toAttachment(buffer, 'image/jpeg', name);
+
+  if (IMAGE_TYPES.has(type)) {
+    if (buffer.length > MAX_IMAGE_BYTES) {
+      throw new Error(`Image is too large (max ${MAX_IMAGE_BYTES / 1024 / 1024}MB)`);
+    }
+    return { type: 'image', mediaType: type as ImageMediaType, data: buffer.toString('base64'), name };
+  }
+
+  if (type === 'application/pdf') {
+    if (buffer.length > MAX_DOCUMENT_BYTES) {
+      throw new Error(`PDF is too large (max ${MAX_DOCUMENT_BYTES / 1024 / 1024}MB)`);
+    }
+    return { type: 'document', mediaType: 'application/pdf', data: buffer.toString('base64'), name };
+  }
+
+  throw new Error(`Unsupported attachment type: ${mediaType}`);
+}
+
+/**
+ * Short text stand-in for attachments, e.g. "[Image: receipt.jpg]".
+ * Stored in the conversation instead of the file itself, so later turns
+ * know something was shared without replaying the bytes.
+ */
+export function describeAttachments(attachments: Attachment[]): string {
+  return attachments.map(a => {
+    const label = a.type === 'image' ? 'Image' : 'PDF';
+    return a.name ? `[${label}: ${a.name}]` : `[${label}]`;
+  }).join(' ');
+}
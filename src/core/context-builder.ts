@@ -2,12 +2,91 @@ import { RoutingDecision } from './orchestrator';
 import { getSoulPrompt } from './soul';
 import { getProfilePrompt, getBasicIdentityPrompt, getUserPreferences } from './profile';
 import { SkillContent } from '../skills/loader';
+import { SystemPromptBlock } from './executor';
+import { estimateTokens } from '../utils/tokens';
 
 /** The assembled context ready for the executor. */
 export interface BuiltContext {
   systemPrompt: string;
+  /** The same system prompt split at prompt-cache breakpoints. */
+  systemBlocks: SystemPromptBlock[];
   messages: Array<{ role: 'user' | 'assistant'; content: string }>;
   estimatedTokens: number;
+  /** Names of the skills that fit and were injected, in rank order. */
+  skills: string[];
+  /** Token budget the context was fitted to, or null when unlimited. */
+  tokenBudget: number | null;
+  /** Tokens per section, in prompt order, before and after fitting to the budget. */
+  sections: ContextSectionUsage[];
+}
+
+/** Token use of one context section. */
+export interface ContextSectionUsage {
+  name: ContextSectionName;
+  tokens: number;
+  /** Size before the section was shrunk to fit the budget. */
+  originalTokens: number;
+}
+
+export type ContextSectionName =
+  | 'soul' | 'identity' | 'tool_policy' | 'contacts' | 'skills' | 'profile'
+  | 'memories' | 'documents' | 'files' | 'datetime' | 'summary' | 'history' | 'message';
+
+/**
+ * How a section gives way when the context is over budget:
+ * - keep:       never shrunk
+ * - tail:       the end is cut off, at a line or sentence break
+ * - drop-last:  list items are dropped from the end (lists are best first)
+ * - drop-first: list items are dropped from the start (history, oldest first)
+ */
+type TruncationStrategy = 'keep' | 'tail' | 'drop-last' | 'drop-first';
+
+interface SectionRule {
+  /** Lower priorities are shrunk first. */
+  priority: number;
+  strategy: TruncationStrategy;
+  /** List items never dropped. Default 0: the whole section can go. */
+  minItems?: number;
+}
+
+/**
+ * What gives way first when the context is over budget. Contact and file
+ * listings are the cheapest to lose; the skill instructions and the
+ * conversation summary are what the request most depends on.
+ */
+const SECTION_RULES: Record<ContextSectionName, SectionRule> = {
+  contacts:    { priority: 1, strategy: 'drop-last' },
+  files:       { priority: 1, strategy: 'drop-last' },
+  memories:    { priority: 2, strategy: 'drop-last' },
+  documents:   { priority: 2, strategy: 'drop-last' },
+  profile:     { priority: 2, strategy: 'tail' },
+  history:     { priority: 3, strategy: 'drop-first', minItems: 2 },
+  soul:        { priority: 4, strategy: 'tail' },
+  summary:     { priority: 5, strategy: 'tail' },
+  skills:      { priority: 5, strategy: 'drop-last', minItems: 1 },
+  identity:    { priority: Infinity, strategy: 'keep' },
+  tool_policy: { priority: Infinity, strategy: 'keep' },
+  datetime:    { priority: Infinity, strategy: 'keep' },
+  message:     { priority: Infinity, strategy: 'keep' }
+};
+
+/** A tail-truncated section keeps at least this many tokens. */
+const MIN_TRUNCATED_TOKENS = 150;
+
+/** Rough per-message overhead (role and framing) in the messages array. */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+const TRUNCATION_NOTE = '\n[…cut to fit the context budget]';
+
+/** A piece of the context, split into items when it is a list. */
+interface Section {
+  name: ContextSectionName;
+  rule: SectionRule;
+  /** Heading kept while any item remains, e.g. "## Your Contacts". */
+  header?: string;
+  items: string[];
+  separator: string;
+  originalTokens: number;
 }
 
 /** Optional per-user prompt overrides for multi-user/team support. */
@@ -17,43 +96,71 @@ export interface UserPromptOverrides {
   basicIdentity?: string;
   fileContext?: string;
   contactsContext?: string;
+  /** Long-term memories recalled for this message. */
+  memoriesContext?: string;
+  /** Passages of the user's files relevant to this message, with citations. */
+  documentsContext?: string;
+  /** The user's IANA timezone for the date line (default: the global profile's). */
+  timezone?: string;
 }
 
 /** Maximum number of recent messages to include for context continuity. */
 const MAX_RECENT_MESSAGES = 5;
 
+/**
+ * Token budget for skill instructions. The top-ranked skill is always
+ * included; lower-ranked ones only if they still fit.
+ */
+const SKILL_TOKEN_BUDGET = 2000;
+
 /**
  * Build the minimal context from the orchestrator's routing decision.
  * Assembles a system prompt and messages array with only the context
  * the orchestrator determined is needed.
  *
+ * Sections are ordered from most to least stable so the executor can cache
+ * the prefix: soul, identity, tool policy and contacts rarely change between
+ * turns; the skills change only when routing picks different ones; the
+ * profile, memories, file passages and listing, clock and conversation
+ * summary change constantly and are kept after the last cache breakpoint.
+ *
+ * With a token budget, sections are shrunk in SECTION_RULES priority order
+ * until the whole context fits. Shrinking a cached section costs a cache
+ * miss, which is why the stable ones give way last.
+ *
  * @param routing - The routing decision from the orchestrator
  * @param userMessage - The current user message
  * @param recentMessages - Recent conversation messages for continuity (excluding current)
- * @param skill - Loaded skill content, if the orchestrator selected one
+ * @param skills - Loaded skill content, most relevant first; packed up to SKILL_TOKEN_BUDGET
  * @param overrides - Optional per-user prompt overrides for team/multi-user mode
- * @returns System prompt, messages array, and estimated token count
+ * @param activeTools - Tool names, for the tool usage policy
+ * @param tokenBudget - Most tokens the context may use; unlimited when unset or 0
+ * @returns System prompt, messages array, and token estimates
  */
 export function buildContext(
   routing: RoutingDecision,
   userMessage: string,
   recentMessages: Array<{ role: 'user' | 'assistant'; content: string }>,
-  skill?: SkillContent | null,
+  skills: SkillContent[] = [],
   overrides?: UserPromptOverrides,
-  activeTools?: string[]
+  activeTools?: string[],
+  tokenBudget?: number
 ): BuiltContext {
-  const parts: string[] = [];
+  // Stable across turns — cached
+  const parts: Section[] = [];
+  // Changes per turn — never cached
+  const dynamicParts: Section[] = [];
 
   // Personality injection based on orchestrator decision.
   // Use per-user override if provided, otherwise fall back to global file.
   if (overrides?.soulPrompt !== undefined) {
     if (overrides.soulPrompt) {
-      parts.push(overrides.soulPrompt);
+      parts.push(section('soul', overrides.soulPrompt));
     }
   } else {
     const soulPrompt = getSoulPrompt(routing.personalityLevel);
     if (soulPrompt) {
-      parts.push(soulPrompt);
+      parts.push(section('soul', soulPrompt));
     }
   }
 
@@ -61,35 +168,15 @@ export function buildContext(
   // This ensures the assistant always knows who it's talking to.
   if (overrides?.basicIdentity !== undefined) {
     if (overrides.basicIdentity) {
-      parts.push(overrides.basicIdentity);
+      parts.push(section('identity', overrides.basicIdentity));
     }
   } else {
     const identity = getBasicIdentityPrompt();
     if (identity) {
-      parts.push(identity);
+      parts.push(section('identity', identity));
     }
   }
 
-  // Inject current date/time so the model always knows "today" (~15 tokens).
-  const prefs = getUserPreferences();
-  try {
-    const now = new Date();
-    const formatted = now.toLocaleString('en-US', {
-      timeZone: prefs.timezone || undefined,
-      weekday: 'long',
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric',
-      hour: 'numeric',
-      minute: '2-digit',
-      timeZoneName: 'short'
-    });
-    parts.push(`Current date and time: ${formatted}.`);
-  } catch {
-    // If timezone is invalid, fall back to UTC
-    parts.push(`Current date and time: ${new Date().toUTCString()}.`);
-  }
-
   // Tool usage policy — only included when tools are active.
   // Prevents the AI from hallucinating tool results instead of actually calling them.
   if (activeTools && activeTools.length > 0) {
@@ -128,65 +215,225 @@ export function buildContext(
       '- If the name matches a known contact, use their stored email/phone — do NOT ask the user for it.',
       '- If no match is found, ask the user for the contact details.',
       '- You can add new contacts when the user provides someone\'s info (e.g. "add Kai to my contacts, email kai@example.com").',
-      '- Never guess an email address or phone number that isn\'t in the contacts list or provided by the user.'
+      '- Never guess an email address or phone number that isn\'t in the contacts list or provided by the user.',
+      '',
+      'For past conversations (when search_history is available):',
+      '- You only see the last few messages. When the user refers to something said earlier, use search_history instead of guessing.',
+      '- Turn relative dates ("last month") into after/before dates using the current date below.',
+      '',
+      'For questions about the user\'s files (when search_documents is available):',
+      '- Answer from the passages under "From the User\'s Files" below when they cover the question; otherwise use search_documents, then read_file for more of a passage.',
+      '- Cite the source after each fact you take from a file, as given: [report.pdf, p. 2] or [notes.md, lines 4–9].',
+      '- If the files don\'t say, tell the user so. Never invent a citation.',
+      '',
+      'For CSV and Excel files (when query_table is available):',
+      '- For totals, filters, rankings or comparisons, use query_table instead of reading the file and counting yourself.',
+      '- Call it with just the files first to see the table and column names, then with sql.',
+      '',
+      'For web searches (when web_search is available):',
+      '- Use web_search for current events or facts you\'re unsure of when you don\'t have a URL; use fetch_url to read a result in full.',
+      '- Name the source URL for facts you take from the web. Never cite a page you didn\'t get from a tool.'
     ];
-    parts.push(toolPolicyLines.join('\n'));
+    parts.push(section('tool_policy', toolPolicyLines.join('\n')));
   }
 
+  // User's contacts (injected when communication tools are active)
+  if (overrides?.contactsContext) {
+    parts.push(listSection('contacts', overrides.contactsContext));
+  }
+
+  // Skill instructions (own breakpoint, so a skill switch keeps the core cached)
+  const packedSkills = packSkills(skills);
+  const skillPart = makeSection('skills', packedSkills.map(sk => `## Skill: ${sk.name}\n\n${sk.content}`), '\n\n');
+
   // Full user profile/bio injection (only when orchestrator requests it).
   // Use per-user override if provided, otherwise fall back to global file.
   if (routing.includeBio) {
     if (overrides?.profilePrompt !== undefined) {
       if (overrides.profilePrompt) {
-        parts.push(overrides.profilePrompt);
+        dynamicParts.push(section('profile', overrides.profilePrompt));
       }
     } else {
       const profilePrompt = getProfilePrompt(
         routing.bioSections.length > 0 ? routing.bioSections : undefined
       );
       if (profilePrompt) {
-        parts.push(profilePrompt);
+        dynamicParts.push(section('profile', profilePrompt));
       }
     }
   }
 
-  // User's file listing (when available)
-  if (overrides?.fileContext) {
-    parts.push(overrides.fileContext);
+  // Long-term memories relevant to this message
+  if (overrides?.memoriesContext) {
+    dynamicParts.push(listSection('memories', overrides.memoriesContext));
   }
 
-  // User's contacts (injected when communication tools are active)
-  if (overrides?.contactsContext) {
-    parts.push(overrides.contactsContext);
+  // Passages of the user's files relevant to this message
+  if (overrides?.documentsContext) {
+    dynamicParts.push(listSection('documents', overrides.documentsContext));
   }
 
-  // Skill instructions
-  if (skill) {
-    parts.push(`## Skill: ${skill.name}\n\n${skill.content}`);
+  // User's file listing (when available)
+  if (overrides?.fileContext) {
+    dynamicParts.push(listSection('files', overrides.fileContext));
+  }
+
+  // Inject current date/time so the model always knows "today" (~15 tokens).
+  const timezone = overrides?.timezone || getUserPreferences().timezone;
+  try {
+    const now = new Date();
+    const formatted = now.toLocaleString('en-US', {
+      timeZone: timezone || undefined,
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+      timeZoneName: 'short'
+    });
+    dynamicParts.push(section('datetime', `Current date and time: ${formatted}.`));
+  } catch {
+    // If timezone is invalid, fall back to UTC
+    dynamicParts.push(section('datetime', `Current date and time: ${new Date().toUTCString()}.`));
   }
 
   // Conversation context summary from orchestrator
   if (routing.contextSummary) {
-    parts.push(`## Conversation Context\n${routing.contextSummary}`);
+    dynamicParts.push(section('summary', `## Conversation Context\n${routing.contextSummary}`));
   }
 
-  const systemPrompt = parts.join('\n\n');
-
-  // Build messages array: recent history + current message
+  // Recent history (oldest first) and the current message
   const history = recentMessages.slice(-MAX_RECENT_MESSAGES);
+  const historyPart = makeSection('history', history.map(m => m.content), '');
+  const messagePart = section('message', userMessage);
+
+  const all = [...parts, skillPart, ...dynamicParts, historyPart, messagePart];
+  if (tokenBudget) fitToBudget(all, tokenBudget);
+
+  const systemBlocks: SystemPromptBlock[] = [];
+  const coreText = joinSections(parts);
+  const skillText = sectionText(skillPart);
+  const dynamicText = joinSections(dynamicParts);
+  if (coreText) systemBlocks.push({ text: coreText, cache: true });
+  if (skillText) systemBlocks.push({ text: skillText, cache: true });
+  if (dynamicText) systemBlocks.push({ text: dynamicText });
+  const systemPrompt = systemBlocks.map(b => b.text).join('\n\n');
+
+  // History items are only ever dropped from the start
   const messages: Array<{ role: 'user' | 'assistant'; content: string }> = [
-    ...history,
+    ...history.slice(history.length - historyPart.items.length),
     { role: 'user' as const, content: userMessage }
   ];
 
-  // Estimate tokens (rough approximation: ~4 chars per token)
-  const systemChars = systemPrompt.length;
-  const messageChars = messages.reduce((acc, m) => acc + m.content.length, 0);
-  const estimatedTokens = Math.ceil((systemChars + messageChars) / 4);
+  const sections = all
+    .filter(sec => sec.originalTokens > 0)
+    .map(sec => ({ name: sec.name, tokens: sectionTokens(sec), originalTokens: sec.originalTokens }));
 
   return {
     systemPrompt,
+    systemBlocks,
     messages,
-    estimatedTokens
+    estimatedTokens: sections.reduce((sum, sec) => sum + sec.tokens, 0),
+    skills: packedSkills.slice(0, skillPart.items.length).map(sk => sk.name),
+    tokenBudget: tokenBudget || null,
+    sections
   };
 }
+
+/**
+ * Pick skills in rank order until the token budget is spent. The first
+ * always goes in; a later one that doesn't fit is skipped, but smaller ones
+ * after it can still be added.
+ */
+function packSkills(skills: SkillContent[]): SkillContent[] {
+  const packed: SkillContent[] = [];
+  let used = 0;
+  for (const skill of skills) {
+    const tokens = estimateTokens(skill.name) + estimateTokens(skill.content);
+    if (packed.length > 0 && used + tokens > SKILL_TOKEN_BUDGET) continue;
+    packed.push(skill);
+    used += tokens;
+  }
+  return packed;
+}
+
+/**
+ * Shrink sections, lowest priority first, until the total fits the budget
+ * or nothing more can give way.
+ */
+function fitToBudget(sections: Section[], budget: number): void {
+  let excess = sections.reduce((sum, sec) => sum + sectionTokens(sec), 0) - budget;
+  const shrinkable = sections
+    .filter(sec => sec.rule.strategy !== 'keep' && sec.items.length > 0)
+    .sort((a, b) => a.rule.priority - b.rule.priority);
+
+  for (const sec of shrinkable) {
+    if (excess <= 0) break;
+    const before = sectionTokens(sec);
+    shrinkSection(sec, before - excess);
+    excess -= before - sectionTokens(sec);
+  }
+}
+
+/** Shrink one section towards a token target using its strategy. */
+function shrinkSection(sec: Section, target: number): void {
+  const { strategy, minItems = 0 } = sec.rule;
+  if (strategy === 'tail') {
+    sec.items[0] = truncateTail(sec.items[0], Math.max(target, MIN_TRUNCATED_TOKENS));
+    return;
+  }
+  while (sec.items.length > minItems && sectionTokens(sec) > target) {
+    if (strategy === 'drop-first') sec.items.shift();
+    else sec.items.pop();
+  }
+}
+
+/** Cut text down to about maxTokens, at a line or sentence break where possible. */
+function truncateTail(text: string, maxTokens: number): string {
+  const tokens = estimateTokens(text);
+  if (tokens <= maxTokens) return text;
+
+  let cut = text.slice(0, Math.floor(text.length * (maxTokens - estimateTokens(TRUNCATION_NOTE)) / tokens));
+  const lineBreak = cut.lastIndexOf('\n');
+  const sentenceEnd = cut.lastIndexOf('. ');
+  const boundary = Math.max(lineBreak, sentenceEnd + 1);
+  if (boundary > cut.length / 2) cut = cut.slice(0, boundary);
+  return cut.trimEnd() + TRUNCATION_NOTE;
+}
+
+function makeSection(name: ContextSectionName, items: string[], separator: string, header?: string): Section {
+  const sec: Section = { name, rule: SECTION_RULES[name], header, items, separator, originalTokens: 0 };
+  sec.originalTokens = sectionTokens(sec);
+  return sec;
+}
+
+/** A single block of text. */
+function section(name: ContextSectionName, text: string): Section {
+  return makeSection(name, [text], '');
+}
+
+/** A markdown list under a heading, e.g. "## Your Contacts\n- Kai\n- Ana". */
+function listSection(name: ContextSectionName, text: string): Section {
+  const [first, ...rest] = text.split('\n');
+  return first.startsWith('#')
+    ? makeSection(name, rest, '\n', first)
+    : makeSection(name, [first, ...rest], '\n');
+}
+
+function sectionText(sec: Section): string {
+  if (sec.items.length === 0) return '';
+  const body = sec.items.join(sec.separator);
+  return sec.header ? `${sec.header}\n${body}` : body;
+}
+
+function joinSections(sections: Section[]): string {
+  return sections.map(sectionText).filter(Boolean).join('\n\n');
+}
+
+function sectionTokens(sec: Section): number {
+  if (sec.name === 'history' || sec.name === 'message') {
+    return sec.items.reduce((sum, item) => sum + estimateTokens(item) + MESSAGE_OVERHEAD_TOKENS, 0);
+  }
+  return estimateTokens(sectionText(sec));
+}
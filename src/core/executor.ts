@@ -1,10 +1,24 @@
-import Anthropic from '@anthropic-ai/sdk';
-import { getApiKey, getModelId } from '../utils/config';
+import { ExecutorProviderConfig, ExecutorRetryConfig, getConfig, getModelId } from '../utils/config';
 import { ToolDefinition } from './tools';
+import {
+  createProvider,
+  emptyUsage,
+  ExecutorProvider,
+  ProviderError,
+  ProviderMessage,
+  ProviderResponse,
+  ProviderToolResult
+} from './providers/interface';
 
 /** Model name as returned by orchestrator routing decisions. */
 export type ModelName = 'haiku' | 'sonnet' | 'opus';
 
+/**
+ * What the executor can be asked to run: an Anthropic tier name, or a
+ * `<provider>:<model>` reference to a provider in `config.ai.providers`.
+ */
+export type ModelRef = ModelName | string;
+
 /** Result returned from every executor call. */
 export interface ExecutorResult {
   content: string;
@@ -12,29 +26,87 @@ export interface ExecutorResult {
   tokensIn: number;
   tokensOut: number;
   costCents: number;
+  /** Input tokens written to the prompt cache (billed at a premium). */
+  cacheCreationTokens: number;
+  /** Input tokens served from the prompt cache (billed at a discount). */
+  cacheReadTokens: number;
+  /** What the cached input would have cost uncached, minus what it did cost. */
+  cacheSavingsCents: number;
+  /** Output tokens spent on extended thinking (included in tokensOut). */
+  thinkingTokens: number;
+  /** The share of costCents spent on thinking. */
+  thinkingCostCents: number;
+  /** Retries spent on transient API errors, across all rounds and fallbacks. */
+  retries: number;
 }
 
-/** Message format for the executor. */
+/**
+ * A slice of the system prompt. When `cache` is set, a prompt-cache
+ * breakpoint is placed at the end of the block so everything up to and
+ * including it can be reused by later requests with the same prefix.
+ */
+export interface SystemPromptBlock {
+  text: string;
+  cache?: boolean;
+}
+
+/** Image formats accepted by vision-capable models. */
+export type ImageMediaType = 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp';
+
+/** One part of a multi-part message. Media is base64-encoded. */
+export type ExecutorContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image'; mediaType: ImageMediaType; data: string; name?: string }
+  | { type: 'document'; mediaType: 'application/pdf'; data: string; name?: string };
+
+/** Message format for the executor. User turns may carry images and documents. */
 export interface ExecutorMessage {
   role: 'user' | 'assistant';
-  content: string;
+  content: string | ExecutorContentPart[];
 }
 
 /** Options for the execute call. */
 export interface ExecuteOptions {
-  systemPrompt?: string;
+  systemPrompt?: string | SystemPromptBlock[];
   maxTokens?: number;
   temperature?: number;
+  /**
+   * Turn on extended thinking with this token budget (min 1024), in addition
+   * to maxTokens. Only Anthropic models use it; a set temperature is ignored.
+   */
+  thinkingBudget?: number;
   tools?: ToolDefinition[];
   maxToolRounds?: number;
+  /** When set, the response is streamed and incremental events are delivered here. */
+  onEvent?: (event: ExecutorStreamEvent) => void;
+  /**
+   * Called after each tool call completes, so callers can persist what was
+   * done even if a later round fails.
+   */
+  onToolCall?: (call: ExecutedToolCall) => void;
 }
 
-/** Pricing per 1M tokens in dollars. */
-const PRICING: Record<ModelName, { input: number; output: number }> = {
-  haiku:  { input: 0.25,  output: 1.25 },
-  sonnet: { input: 3.0,   output: 15.0 },
-  opus:   { input: 15.0,  output: 75.0 }
-};
+/** A tool call made during execution, with its outcome. */
+export interface ExecutedToolCall {
+  name: string;
+  input: unknown;
+  /** JSON-encoded result, or `{ error }` when the tool threw. */
+  output: string;
+  durationMs: number;
+  error?: string;
+}
+
+/**
+ * Incremental event emitted while a streamed execution is in progress.
+ * Text deltas from every round are emitted, including any text the model
+ * writes before requesting a tool.
+ */
+export type ExecutorStreamEvent =
+  | { type: 'text'; delta: string }
+  | { type: 'tool_call'; name: string; input: unknown }
+  | { type: 'tool_result'; name: string; error?: string }
+  /** A call failed transiently; text streamed since the last round should be discarded. */
+  | { type: 'retry'; attempt: number; model: string; delayMs: number };
 
 /** Default max tokens per model tier. */
 const DEFAULT_MAX_TOKENS: Record<ModelName, number> = {
@@ -43,146 +115,330 @@ const DEFAULT_MAX_TOKENS: Record<ModelName, number> = {
   opus: 4096
 };
 
+/** Default max tokens for models on other providers. */
+const DEFAULT_PROVIDER_MAX_TOKENS = 4096;
+
+/** Retry defaults, overridable via `ai.retry` in config. */
+const DEFAULT_RETRY: Required<ExecutorRetryConfig> = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30_000,
+  fallbackChain: ['opus', 'sonnet', 'haiku']
+};
+
+/** A model reference resolved to a concrete provider and model ID. */
+interface ResolvedModel {
+  providerName: string;
+  config: ExecutorProviderConfig;
+  modelId: string;
+  /** How the model is reported in results and usage logs. */
+  label: string;
+  defaultMaxTokens: number;
+}
+
+/** The model currently serving an execution; changes when falling back. */
+interface ActiveModel {
+  ref: ModelRef;
+  resolved: ResolvedModel;
+  provider: ExecutorProvider;
+  maxTokens: number;
+}
+
 /**
- * Wraps the Anthropic SDK to execute prompts and track usage.
+ * Runs prompts against the configured model providers and tracks usage.
+ * Owns the tool-use loop; providers only translate single requests.
  */
 export class Executor {
-  private anthropic: Anthropic;
-
-  constructor() {
-    const apiKey = getApiKey();
-    if (!apiKey) {
-      throw new Error('No API key configured. Run `hive setup` first.');
-    }
-    this.anthropic = new Anthropic({ apiKey });
-  }
+  private providers: Map<string, { key: string; provider: ExecutorProvider }> = new Map();
 
   /**
-   * Execute a prompt against the Claude API.
+   * Execute a prompt against the provider behind a model reference.
    *
    * @param messages - The conversation messages (user/assistant turns)
-   * @param model - Which Claude model to use
-   * @param options - Optional system prompt, max tokens, temperature
+   * @param model - Anthropic tier name or `<provider>:<model>` reference
+   * @param options - Optional system prompt, max tokens, temperature, tools, stream callback
    * @returns The response and usage statistics
-   * @throws Error if API call fails
+   * @throws Error if the provider call fails or the reference is unknown
    */
   async execute(
     messages: ExecutorMessage[],
-    model: ModelName,
+    model: ModelRef,
     options?: ExecuteOptions
   ): Promise<ExecutorResult> {
-    const modelId = getModelId(model);
-    const maxTokens = options?.maxTokens ?? DEFAULT_MAX_TOKENS[model];
-
-    try {
-      const params: Anthropic.MessageCreateParams = {
-        model: modelId,
-        max_tokens: maxTokens,
-        messages: messages.map(m => ({ role: m.role, content: m.content }))
-      };
+    const retryConfig = { ...DEFAULT_RETRY, ...getConfig().ai.retry };
+    const active = await this.activate(model, options?.maxTokens);
+    const fallbacks = this.fallbacksFor(model, retryConfig.fallbackChain);
+    let retries = 0;
 
-      if (options?.systemPrompt) {
-        params.system = options.systemPrompt;
-      }
+    // A failing stream consumer must never abort the request itself
+    const onEvent = options?.onEvent
+      ? (event: ExecutorStreamEvent) => {
+          try {
+            options.onEvent!(event);
+          } catch {
+            // Ignore consumer errors
+          }
+        }
+      : undefined;
 
-      if (options?.temperature !== undefined) {
-        params.temperature = options.temperature;
-      }
+    const loopMessages: ProviderMessage[] = messages.map(m => (
+      m.role === 'user'
+        ? { role: 'user' as const, content: m.content }
+        : { role: 'assistant' as const, content: contentToText(m.content) }
+    ));
 
-      // Add tool definitions if provided
-      if (options?.tools?.length) {
-        params.tools = options.tools.map(t => ({
-          name: t.name,
-          description: t.description,
-          input_schema: t.input_schema as Anthropic.Tool['input_schema']
-        }));
-      }
+    const request = {
+      system: options?.systemPrompt,
+      tools: options?.tools?.length ? options.tools : undefined,
+      temperature: options?.temperature,
+      thinkingBudget: options?.thinkingBudget,
+      onText: onEvent ? (delta: string) => onEvent({ type: 'text', delta }) : undefined
+    };
 
-      let response = await this.anthropic.messages.create(params);
-      let tokensIn = response.usage.input_tokens;
-      let tokensOut = response.usage.output_tokens;
-
-      // Tool-use loop: if Claude wants to call tools, execute them and continue
-      const maxRounds = options?.maxToolRounds ?? 5;
-      let rounds = 0;
-
-      // Build a mutable messages array for the tool loop
-      const loopMessages: Anthropic.MessageParam[] = params.messages.map(m => ({
-        role: m.role as 'user' | 'assistant',
-        content: m.content
-      }));
-
-      while (response.stop_reason === 'tool_use' && rounds < maxRounds && options?.tools?.length) {
-        rounds++;
-        console.log(`  [executor] Tool-use round ${rounds}: processing ${response.content.filter(b => b.type === 'tool_use').length} tool call(s)`);
-
-        // Execute each tool call
-        const toolResults: Anthropic.ToolResultBlockParam[] = [];
-        for (const block of response.content) {
-          if (block.type === 'tool_use') {
-            const tool = options.tools.find(t => t.name === block.name);
-            let result: unknown;
-            try {
-              if (!tool) throw new Error(`Unknown tool: ${block.name}`);
-              result = await tool.handler(block.input);
-            } catch (err: any) {
-              result = { error: err.message };
-            }
-            toolResults.push({
-              type: 'tool_result',
-              tool_use_id: block.id,
-              content: JSON.stringify(result)
-            });
+    /**
+     * Send one request, retrying transient failures with backoff and then
+     * moving down the fallback chain. Once a fallback model answers, it
+     * stays active for the rest of the tool loop.
+     */
+    const complete = async (): Promise<ProviderResponse> => {
+      let attempt = 0;
+      while (true) {
+        try {
+          return await active.provider.complete({
+            ...request,
+            model: active.resolved.modelId,
+            maxTokens: active.maxTokens,
+            messages: loopMessages
+          });
+        } catch (err) {
+          if (!(err instanceof ProviderError) || !err.retryable) throw err;
+
+          const delayMs = this.backoffDelay(attempt, err.retryAfterMs, retryConfig);
+          if (attempt < retryConfig.maxRetries && delayMs !== null) {
+            attempt++;
+            retries++;
+            console.log(`  [executor] ${err.message} — retry ${attempt}/${retryConfig.maxRetries} on ${active.resolved.label} in ${delayMs}ms`);
+            onEvent?.({ type: 'retry', attempt, model: active.resolved.label, delayMs });
+            await sleep(delayMs);
+            continue;
           }
-        }
 
-        // Append assistant response (with tool_use blocks) and tool results
-        loopMessages.push({ role: 'assistant', content: response.content });
-        loopMessages.push({ role: 'user', content: toolResults });
+          const next = fallbacks.shift();
+          if (next === undefined) {
+            err.retries = retries;
+            throw err;
+          }
+          console.log(`  [executor] ${active.resolved.label} unavailable (${err.message}), falling back to ${next}`);
+          Object.assign(active, await this.activate(next, options?.maxTokens));
+          attempt = 0;
+          retries++;
+          onEvent?.({ type: 'retry', attempt: 0, model: active.resolved.label, delayMs: 0 });
+        }
+      }
+    };
 
-        // Call API again with updated conversation
-        response = await this.anthropic.messages.create({
-          ...params,
-          messages: loopMessages
+    // Cost is priced per response, by whichever model produced it
+    const usage = emptyUsage();
+    let costCents = 0;
+    let uncachedCostCents = 0;
+    let thinkingCostCents = 0;
+    const addUsage = (r: ProviderResponse) => {
+      usage.tokensIn += r.usage.tokensIn;
+      usage.tokensOut += r.usage.tokensOut;
+      usage.cacheCreationTokens += r.usage.cacheCreationTokens;
+      usage.cacheReadTokens += r.usage.cacheReadTokens;
+      usage.thinkingTokens += r.usage.thinkingTokens;
+      costCents += active.provider.calculateCost(active.resolved.modelId, r.usage);
+      if (r.usage.thinkingTokens) {
+        thinkingCostCents += active.provider.calculateCost(active.resolved.modelId, {
+          ...emptyUsage(),
+          tokensOut: r.usage.thinkingTokens
         });
-
-        tokensIn += response.usage.input_tokens;
-        tokensOut += response.usage.output_tokens;
       }
+      uncachedCostCents += active.provider.calculateCost(active.resolved.modelId, {
+        ...emptyUsage(),
+        tokensIn: r.usage.tokensIn + r.usage.cacheCreationTokens + r.usage.cacheReadTokens,
+        tokensOut: r.usage.tokensOut
+      });
+    };
 
-      if (rounds >= maxRounds && response.stop_reason === 'tool_use') {
-        console.log(`  [executor] Hit max tool rounds (${maxRounds}), returning partial response`);
-      }
+    let response = await complete();
+    addUsage(response);
 
-      const textBlock = response.content.find(block => block.type === 'text');
-      if (!textBlock || textBlock.type !== 'text') {
-        throw new Error('No text content in API response');
+    // Tool-use loop: if the model wants to call tools, execute them and continue
+    const maxRounds = options?.maxToolRounds ?? 5;
+    let rounds = 0;
+
+    while (response.stopReason === 'tool_use' && rounds < maxRounds && options?.tools?.length) {
+      rounds++;
+      console.log(`  [executor] Tool-use round ${rounds}: processing ${response.toolCalls.length} tool call(s)`);
+
+      // Execute each tool call
+      const toolResults: ProviderToolResult[] = [];
+      for (const call of response.toolCalls) {
+        const tool = options.tools.find(t => t.name === call.name);
+        let result: unknown;
+        let error: string | undefined;
+        onEvent?.({ type: 'tool_call', name: call.name, input: call.input });
+        const started = Date.now();
+        try {
+          if (!tool) throw new Error(`Unknown tool: ${call.name}`);
+          result = await tool.handler(call.input);
+          onEvent?.({ type: 'tool_result', name: call.name });
+        } catch (err: any) {
+          result = { error: err.message };
+          error = err.message;
+          onEvent?.({ type: 'tool_result', name: call.name, error: err.message });
+        }
+        const output = JSON.stringify(result) ?? 'null';
+        toolResults.push({
+          toolCallId: call.id,
+          name: call.name,
+          content: output,
+          isError: error !== undefined
+        });
+        try {
+          options.onToolCall?.({ name: call.name, input: call.input, output, durationMs: Date.now() - started, error });
+        } catch {
+          // Ignore consumer errors
+        }
       }
 
-      const costCents = this.calculateCost(model, tokensIn, tokensOut);
+      // Append assistant turn (with tool calls) and tool results
+      loopMessages.push({ role: 'assistant', content: response.text, toolCalls: response.toolCalls, raw: response.raw });
+      loopMessages.push({ role: 'tool', results: toolResults });
+
+      // Call the provider again with the updated conversation
+      response = await complete();
+      addUsage(response);
+    }
+
+    if (rounds >= maxRounds && response.stopReason === 'tool_use') {
+      console.log(`  [executor] Hit max tool rounds (${maxRounds}), returning partial response`);
+    }
+
+    if (!response.text) {
+      throw new Error('No text content in API response');
+    }
+
+    if (usage.cacheCreationTokens || usage.cacheReadTokens) {
+      console.log(`  [executor] Prompt cache: ${usage.cacheReadTokens} read, ${usage.cacheCreationTokens} written`);
+    }
+    if (usage.thinkingTokens) {
+      console.log(`  [executor] Extended thinking: ~${usage.thinkingTokens} tokens`);
+    }
+
+    return {
+      content: response.text,
+      model: active.resolved.label,
+      tokensIn: usage.tokensIn,
+      tokensOut: usage.tokensOut,
+      costCents,
+      cacheCreationTokens: usage.cacheCreationTokens,
+      cacheReadTokens: usage.cacheReadTokens,
+      cacheSavingsCents: uncachedCostCents - costCents,
+      thinkingTokens: usage.thinkingTokens,
+      thinkingCostCents,
+      retries
+    };
+  }
+
+  /** Resolve a model reference and get its provider, ready to serve requests. */
+  private async activate(ref: ModelRef, maxTokens?: number): Promise<ActiveModel> {
+    const resolved = this.resolveModel(ref);
+    const provider = await this.getProvider(resolved);
+    return { ref, resolved, provider, maxTokens: maxTokens ?? resolved.defaultMaxTokens };
+  }
+
+  /**
+   * Models to try after the requested one: the entries below it in the
+   * fallback chain. Models outside the chain (e.g. local providers) have
+   * no fallback, so a request never silently moves to a paid API.
+   */
+  private fallbacksFor(ref: ModelRef, chain: string[]): ModelRef[] {
+    const index = chain.indexOf(ref);
+    return index === -1 ? [] : chain.slice(index + 1);
+  }
+
+  /**
+   * Delay before the next retry: jittered exponential backoff, or the
+   * server's retry-after when it sent one. Returns null when the server
+   * asks for a longer wait than allowed, meaning "fall back instead".
+   */
+  private backoffDelay(attempt: number, retryAfterMs: number | undefined, config: Required<ExecutorRetryConfig>): number | null {
+    if (retryAfterMs !== undefined) {
+      return retryAfterMs > config.maxDelayMs ? null : retryAfterMs;
+    }
+    const ceiling = Math.min(config.maxDelayMs, config.baseDelayMs * 2 ** attempt);
+    return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+  }
 
+  /**
+   * Resolve a model reference against the config.
+   *
+   *   haiku | sonnet | opus  → built-in Anthropic provider
+   *   anthropic:<model-id>   → built-in Anthropic provider, explicit model ID
+   *   <name>:<model>         → config.ai.providers[name]
+   *   <name>                 → config.ai.providers[name] with its default model
+   */
+  private resolveModel(ref: ModelRef): ResolvedModel {
+    if (ref === 'haiku' || ref === 'sonnet' || ref === 'opus') {
+      const modelId = getModelId(ref);
       return {
-        content: textBlock.text,
-        model: modelId,
-        tokensIn,
-        tokensOut,
-        costCents
+        providerName: 'anthropic',
+        config: { type: 'anthropic' },
+        modelId,
+        label: modelId,
+        defaultMaxTokens: DEFAULT_MAX_TOKENS[ref]
       };
-    } catch (error) {
-      if (error instanceof Anthropic.APIError) {
-        throw new Error(`Anthropic API error (${error.status}): ${error.message}`);
-      }
-      throw error;
     }
+
+    const sep = ref.indexOf(':');
+    const name = sep === -1 ? ref : ref.slice(0, sep);
+    const configured = getConfig().ai.providers?.[name];
+    const providerConfig: ExecutorProviderConfig | undefined =
+      configured || (name === 'anthropic' ? { type: 'anthropic' } : undefined);
+    if (!providerConfig) {
+      throw new Error(`Unknown executor provider "${name}" (model "${ref}"). Add it under ai.providers in config.`);
+    }
+
+    const modelId = sep === -1 ? providerConfig.model : ref.slice(sep + 1);
+    if (!modelId) {
+      throw new Error(`No model specified for provider "${name}". Use "${name}:<model>" or set ai.providers.${name}.model.`);
+    }
+
+    return {
+      providerName: name,
+      config: providerConfig,
+      modelId,
+      label: providerConfig.type === 'anthropic' ? modelId : `${name}:${modelId}`,
+      defaultMaxTokens: DEFAULT_PROVIDER_MAX_TOKENS
+    };
   }
 
   /**
-   * Calculate cost in cents based on token usage and model pricing.
+   * Get (or lazily create) the provider instance for a resolved model.
+   * Instances are rebuilt when their config changes, e.g. after an admin edit.
    */
-  private calculateCost(model: ModelName, tokensIn: number, tokensOut: number): number {
-    const p = PRICING[model];
-    const inputCostDollars = (tokensIn / 1_000_000) * p.input;
-    const outputCostDollars = (tokensOut / 1_000_000) * p.output;
-    return (inputCostDollars + outputCostDollars) * 100;
+  private async getProvider(resolved: ResolvedModel): Promise<ExecutorProvider> {
+    const key = JSON.stringify(resolved.config);
+    const cached = this.providers.get(resolved.providerName);
+    if (cached && cached.key === key) {
+      return cached.provider;
+    }
+
+    const provider = await createProvider(resolved.config);
+    this.providers.set(resolved.providerName, { key, provider });
+    return provider;
   }
 }
+
+/** Flatten message content to its text parts. */
+function contentToText(content: string | ExecutorContentPart[]): string {
+  if (typeof content === 'string') return content;
+  return content.map(p => (p.type === 'text' ? p.text : '')).filter(Boolean).join('\n');
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -1,19 +1,30 @@
 import { v4 as uuidv4 } from 'uuid';
-import { Database } from '../db/interface';
+import { Database, Message, MessageChannel, ToolCallRecord } from '../db/interface';
 import { Orchestrator, RoutingDecision, SkillInfo } from './orchestrator';
-import { Executor, ModelName } from './executor';
+import { Executor, ExecuteOptions, ExecutorMessage, ExecutorStreamEvent, ModelRef } from './executor';
+import { Attachment, describeAttachments } from './attachments';
+import { ProviderError } from './providers/interface';
 import { Summarizer } from './summarizer';
-import { buildContext, UserPromptOverrides } from './context-builder';
-import { loadSkillsMeta, findAndLoadSkill, SkillMeta } from '../skills/loader';
-import { UserSettingsService } from '../services/user-settings';
+import { buildContext, BuiltContext, UserPromptOverrides } from './context-builder';
+import { loadSkillsMeta, findAndLoadSkill, SkillContent, SkillMeta } from '../skills/loader';
+import { defaultTimezone, UserSettingsService } from '../services/user-settings';
 import { SkillResolver } from '../services/skill-resolver';
-import { getConfig } from '../utils/config';
+import { ExecutorTier, getConfig } from '../utils/config';
 import { ensureUserWorkspace } from '../utils/user-workspace';
+import { isValidTimezone, toZonedDate } from '../utils/timezone';
 import { FileAccessService } from '../services/file-access';
 import { WorkflowTriggerService } from '../services/workflow-trigger';
+import { WebSearchService } from '../services/web-search';
+import { HeldToolCall, ToolConfirmationService } from '../services/tool-confirmation';
+import { BudgetExceededError, BudgetService, BudgetStatus } from '../services/budget';
 import { ScriptRunner } from '../services/script-runner';
 import { GoogleCalendarService } from '../services/google-calendar';
 import { GmailService } from '../services/gmail';
+import { formatMemories, MemoryService } from '../services/memory';
+import { formatPassages } from '../services/document-index';
+import { ProfileUpdateService } from '../services/profile-updates';
+import { ReminderService } from '../services/reminders';
+import { accountId } from '../utils/account';
 import { getTools, ToolContext } from './tools';
 
 /** Configuration for creating a Gateway instance. */
@@ -24,13 +35,50 @@ export interface GatewayConfig {
   workspacePath: string;
   defaultUserId: string;
   summarizer?: Summarizer;
+  /** Long-term memory extracted from conversations and recalled per message. */
+  memories?: MemoryService;
+  /** Proposes profile updates from conversations for the user to review. */
+  profileUpdates?: ProfileUpdateService;
+  /** Handles "done" / "snooze" replies to reminder notifications; created by default. */
+  reminders?: ReminderService;
   userSettings?: UserSettingsService;
   skillResolver?: SkillResolver;
   fileAccess?: FileAccessService;
   workflowTrigger?: WorkflowTriggerService;
+  /** Web search for web_search, given to users who turn it on and skills that list it. */
+  webSearch?: WebSearchService;
   scriptRunner?: ScriptRunner;
   googleCalendar?: GoogleCalendarService;
   gmail?: GmailService;
+  /** Confirmation gate for side-effecting tools; created by default. */
+  toolConfirmation?: ToolConfirmationService;
+  /** Per-user and per-team spending caps; created by default. */
+  budgets?: BudgetService;
+}
+
+/** Optional behaviour for a single handleMessage call. */
+export interface HandleMessageOptions {
+  /** Use these skills, in this order, instead of the orchestrator's choice. */
+  forceSkills?: string[];
+  tools?: string[];
+  /**
+   * Receive text deltas and tool-call events while the executor is running.
+   * Short-circuited replies (workflow triggers, confirmations) emit nothing;
+   * callers should always render the final `response` once the call resolves.
+   */
+  onEvent?: (event: ExecutorStreamEvent) => void;
+  /** Images and PDFs sent with the message; `message` is their caption (may be empty). */
+  attachments?: Attachment[];
+  /** The message is a voice note transcript; it is stored and sent marked as such. */
+  voiceNote?: boolean;
+  /**
+   * Force extended thinking on or off. By default it is used for complex
+   * requests and code/analysis intents. A leading `/think` or `/nothink`
+   * in the message does the same.
+   */
+  thinking?: boolean;
+  /** The client's IANA timezone (e.g. the browser's), saved for users who have none. */
+  timezone?: string;
 }
 
 /** Result returned from handleMessage. */
@@ -45,8 +93,43 @@ export interface HandleMessageResult {
     costCents: number;
     estimatedTokensSaved: number;
   };
+  /** Tools the assistant called while producing the response, in order. */
+  toolCalls?: ToolCallRecord[];
 }
 
+/** Longest input/output excerpt kept in a tool message's compact summary. */
+const TOOL_SUMMARY_EXCERPT_CHARS = 300;
+
+/** Passages of the user's files added to the context for each message. */
+const DOCUMENT_PASSAGES = 3;
+
+/** Intents whose answers may come from the user's files; only these look passages up. */
+const DOCUMENT_INTENTS = ['file_operation', 'analysis', 'task_query'];
+
+/** Intents that get extended thinking regardless of complexity. */
+const THINKING_INTENTS = ['analysis', 'code'];
+
+/** Thinking budget per tier when `ai.executor.thinking` doesn't set one. */
+const DEFAULT_THINKING_BUDGET: Record<ExecutorTier, number> = {
+  simple: 2048,
+  default: 4096,
+  complex: 8192
+};
+
+/**
+ * Context token budget per tier when `ai.executor.contextBudget` doesn't
+ * set one. Generous enough that typical turns are untouched; it catches
+ * oversized skills, profiles and contact lists.
+ */
+const DEFAULT_CONTEXT_BUDGET: Record<ExecutorTier, number> = {
+  simple: 8000,
+  default: 16000,
+  complex: 32000
+};
+
+/** Smallest thinking budget the API accepts. */
+const MIN_THINKING_BUDGET = 1024;
+
 /**
  * Central message handling gateway.
  * Coordinates orchestrator, context builder, executor, skills, and database
@@ -59,13 +142,19 @@ export class Gateway {
   private workspacePath: string;
   private defaultUserId: string;
   private summarizer?: Summarizer;
+  private memories?: MemoryService;
+  private profileUpdates?: ProfileUpdateService;
+  private reminders: ReminderService;
   private userSettings?: UserSettingsService;
   private skillResolver?: SkillResolver;
   private fileAccess?: FileAccessService;
   private workflowTrigger?: WorkflowTriggerService;
+  private webSearch?: WebSearchService;
   private scriptRunner?: ScriptRunner;
   private googleCalendar?: GoogleCalendarService;
   private gmail?: GmailService;
+  private toolConfirmation: ToolConfirmationService;
+  private budgets: BudgetService;
   private skillsCache: SkillMeta[] | null = null;
 
   constructor(config: GatewayConfig) {
@@ -75,13 +164,21 @@ export class Gateway {
     this.workspacePath = config.workspacePath;
     this.defaultUserId = config.defaultUserId;
     this.summarizer = config.summarizer;
+    this.memories = config.memories;
+    this.profileUpdates = config.profileUpdates;
     this.userSettings = config.userSettings;
     this.skillResolver = config.skillResolver;
     this.fileAccess = config.fileAccess;
     this.workflowTrigger = config.workflowTrigger;
+    this.webSearch = config.webSearch;
     this.scriptRunner = config.scriptRunner;
     this.googleCalendar = config.googleCalendar;
     this.gmail = config.gmail;
+    this.toolConfirmation = config.toolConfirmation
+      || new ToolConfirmationService(config.userSettings || new UserSettingsService(config.db));
+    this.reminders = config.reminders
+      || new ReminderService(config.db, config.userSettings || new UserSettingsService(config.db));
+    this.budgets = config.budgets || new BudgetService(config.db);
   }
 
   /**
@@ -100,40 +197,58 @@ export class Gateway {
    * @param message - The raw user message text
    * @param channel - Which channel the message came from
    * @param conversationId - Optional existing conversation ID
+   * @param options - Forced skill, extra tools, attachments, and an optional stream callback
    * @returns The assistant's response and metadata
    */
   async handleMessage(
     rawUserId: string,
     message: string,
-    channel: 'whatsapp' | 'telegram' | 'cli' | 'web' | 'workflow',
+    channel: MessageChannel,
     conversationId?: string,
-    options?: { forceSkill?: string; tools?: string[] }
+    options?: HandleMessageOptions
   ): Promise<HandleMessageResult> {
     // 0. Resolve channel identity to owner user ID if applicable.
     //    e.g. tg:123456 → marc (if a channel identity mapping exists).
     //    This ensures reminders, conversations, and usage are stored under the owner.
     const userId = await this.resolveUserId(rawUserId, channel);
 
+    // 0b. A leading /think or /nothink forces extended thinking for this message
+    const prefix = parseThinkingPrefix(message);
+    message = prefix.message;
+    const forceThinking = prefix.thinking ?? options?.thinking;
+
     // 1. Ensure user exists
     await this.ensureUser(userId);
 
     // 2. Get or create conversation
     const convId = conversationId || await this.getOrCreateConversation(userId);
 
-    // 3. Save user message to DB (persist even if API call fails)
+    // 3. Save user message to DB (persist even if API call fails).
+    //    Attachments are stored as a short marker (e.g. "[Image: receipt.jpg]"),
+    //    not the file itself; only the current turn sends the actual content.
+    //    Voice notes are stored as their transcript, marked so the model
+    //    allows for mishearings.
+    const attachments = options?.attachments || [];
+    const markers = [
+      ...(options?.voiceNote ? ['[Voice note]'] : []),
+      ...(attachments.length > 0 ? [describeAttachments(attachments)] : [])
+    ];
+    const userText = markers.length > 0
+      ? [markers.join(' '), message.trim()].filter(Boolean).join(options?.voiceNote ? ' ' : '\n')
+      : message;
     await this.db.addMessage({
       id: uuidv4(),
       conversationId: convId,
       role: 'user',
-      content: message
+      channel,
+      content: userText
     });
 
-    // 4. Load recent messages for context
-    const dbMessages = await this.db.getMessages(convId, 20);
-    const recentMessages = dbMessages
-      .filter(m => m.role === 'user' || m.role === 'assistant')
-      .slice(-10)
-      .map(m => ({ role: m.role as 'user' | 'assistant', content: m.content }));
+    // 4. Load recent messages for context.
+    //    Tool records are folded into the assistant turn that followed them,
+    //    so the model knows what it already did (reminders created, emails sent).
+    const dbMessages = await this.db.getMessages(convId, 40);
+    const recentMessages = foldToolMessages(dbMessages).slice(-10);
 
     // 5. Load available skills metadata (per-user if resolver available)
     const skills = this.skillResolver
@@ -144,7 +259,61 @@ export class Gateway {
       description: s.description
     }));
 
-    // 5b. Check for pending workflow confirmation before routing.
+    // 5a. Approve or cancel tool calls held for confirmation on the previous turn.
+    if (this.toolConfirmation.hasPending(userId)) {
+      const outcome = await this.toolConfirmation.handleReply(userId, message);
+      if (outcome) {
+        await this.saveToolMessages(convId, outcome.executed);
+        await this.db.addMessage({
+          id: uuidv4(),
+          conversationId: convId,
+          role: 'assistant',
+          channel,
+          content: outcome.message
+        });
+        const confirmRouting: RoutingDecision = {
+          selectedSkill: null, skills: [], contextSummary: null, intent: 'task_query',
+          complexity: 'simple', suggestedModel: 'haiku', includePersonality: false,
+          personalityLevel: 'none', includeBio: false, bioSections: []
+        };
+        return {
+          response: outcome.message,
+          conversationId: convId,
+          routing: confirmRouting,
+          usage: { model: 'none', tokensIn: 0, tokensOut: 0, costCents: 0, estimatedTokensSaved: 0 },
+          toolCalls: outcome.executed
+        };
+      }
+      // Reply wasn't yes/no → held calls were dropped, proceed with normal flow
+    }
+
+    // 5b. A "done" or "snooze" sent straight after a reminder notification,
+    //     on the same chat, acknowledges it.
+    if (channel !== 'workflow') {
+      const reminderReply = await this.reminders.handleReply(userId, channel, message);
+      if (reminderReply) {
+        await this.db.addMessage({
+          id: uuidv4(),
+          conversationId: convId,
+          role: 'assistant',
+          channel,
+          content: reminderReply
+        });
+        const reminderRouting: RoutingDecision = {
+          selectedSkill: null, skills: [], contextSummary: null, intent: 'task_query',
+          complexity: 'simple', suggestedModel: 'haiku', includePersonality: false,
+          personalityLevel: 'none', includeBio: false, bioSections: []
+        };
+        return {
+          response: reminderReply,
+          conversationId: convId,
+          routing: reminderRouting,
+          usage: { model: 'none', tokensIn: 0, tokensOut: 0, costCents: 0, estimatedTokensSaved: 0 }
+        };
+      }
+    }
+
+    // 5c. Check for pending workflow confirmation before routing.
     //     If the user said "yes" or "1", the orchestrator wouldn't classify that
     //     as workflow_trigger, so we intercept it here first.
     if (this.workflowTrigger && this.workflowTrigger.hasPendingConfirmation(userId)) {
@@ -154,10 +323,11 @@ export class Gateway {
           id: uuidv4(),
           conversationId: convId,
           role: 'assistant',
+          channel,
           content: confirmResult.message
         });
         const confirmRouting: RoutingDecision = {
-          selectedSkill: null, contextSummary: null, intent: 'workflow_trigger',
+          selectedSkill: null, skills: [], contextSummary: null, intent: 'workflow_trigger',
           complexity: 'simple', suggestedModel: 'haiku', includePersonality: false,
           personalityLevel: 'none', includeBio: false, bioSections: []
         };
@@ -171,23 +341,25 @@ export class Gateway {
       // confirmResult is null → confirmation expired, proceed with normal flow
     }
 
-    // 5c. Pre-routing keyword check for workflow commands.
-    //     The small orchestrator model doesn't always classify listing/trigger
-    //     phrases correctly (e.g. "can you tell me what workflows I have?").
-    //     Catch these locally before calling the orchestrator at all.
+    // 5d. Pre-routing check for workflow commands via the orchestrator's
+    //     keyword rules (not the trained model, whose guesses must still go
+    //     through normal routing). The small orchestrator model doesn't always classify
+    //     listing/trigger phrases correctly (e.g. "can you tell me what
+    //     workflows I have?"), and these skip the budget check below.
     //     Skip this check when called from within a workflow step (channel === 'workflow')
     //     to avoid infinite loops of trying to trigger workflows.
-    if (this.workflowTrigger && channel !== 'workflow' && this.isWorkflowMessage(message)) {
+    if (this.workflowTrigger && channel !== 'workflow' && this.orchestrator.ruleRoute(message)?.intent === 'workflow_trigger') {
       console.log(`  [gateway] Pre-routing: detected workflow message, skipping orchestrator`);
       const triggerResult = await this.workflowTrigger.handleWorkflowTrigger(userId, message);
       await this.db.addMessage({
         id: uuidv4(),
         conversationId: convId,
         role: 'assistant',
+        channel,
         content: triggerResult.message
       });
       const workflowRouting: RoutingDecision = {
-        selectedSkill: null, contextSummary: null, intent: 'workflow_trigger',
+        selectedSkill: null, skills: [], contextSummary: null, intent: 'workflow_trigger',
         complexity: 'simple', suggestedModel: 'haiku', includePersonality: false,
         personalityLevel: 'none', includeBio: false, bioSections: []
       };
@@ -199,12 +371,39 @@ export class Gateway {
       };
     }
 
+    // 5e. Enforce spending caps. At the cap, refuse without calling the model;
+    //     workflow steps throw so the run fails visibly instead of storing a refusal.
+    const budget = await this.budgets.getStatus(userId);
+    if (budget.state === 'exceeded') {
+      const refusal = this.budgets.refusalMessage(budget);
+      console.log(`  [gateway] Budget exceeded for ${userId} (${budget.binding!.scope} ${budget.binding!.period})`);
+      if (channel === 'workflow') throw new BudgetExceededError(refusal);
+      await this.db.addMessage({
+        id: uuidv4(),
+        conversationId: convId,
+        role: 'assistant',
+        channel,
+        content: refusal
+      });
+      const budgetRouting: RoutingDecision = {
+        selectedSkill: null, skills: [], contextSummary: null, intent: 'conversation',
+        complexity: 'simple', suggestedModel: 'haiku', includePersonality: false,
+        personalityLevel: 'none', includeBio: false, bioSections: []
+      };
+      return {
+        response: refusal,
+        conversationId: convId,
+        routing: budgetRouting,
+        usage: { model: 'none', tokensIn: 0, tokensOut: 0, costCents: 0, estimatedTokensSaved: 0 }
+      };
+    }
+
     // 6. Route through orchestrator
     const debug = process.env.HIVE_LOG_LEVEL === 'debug';
     if (debug) console.log(`  [gateway] Routing message for ${userId}...`);
     const historyForOrchestrator = recentMessages.slice(-5);
-    const routing = await this.orchestrator.route(message, historyForOrchestrator, skillInfos);
-    console.log(`  [gateway] Routed: intent=${routing.intent}, model=${routing.suggestedModel}`);
+    const routing = await this.orchestrator.route(userText, historyForOrchestrator, skillInfos);
+    console.log(`  [gateway] Routed: intent=${routing.intent}, model=${routing.suggestedModel}${routing.skills.length ? `, skills=${routing.skills.map(sk => sk.name).join(',')}` : ''}`);
 
     // 6b. Intercept workflow trigger intent — execute workflow directly,
     //     skip context building and AI executor call entirely.
@@ -215,6 +414,7 @@ export class Gateway {
         id: uuidv4(),
         conversationId: convId,
         role: 'assistant',
+        channel,
         content: triggerResult.message
       });
       return {
@@ -225,16 +425,18 @@ export class Gateway {
       };
     }
 
-    // 7. Load selected skill — use forceSkill if provided, otherwise orchestrator's choice
-    const skillName = options?.forceSkill || routing.selectedSkill;
-    if (options?.forceSkill) {
-      routing.selectedSkill = options.forceSkill;
+    // 7. Load selected skills — use forceSkills if provided, otherwise the
+    //    orchestrator's ranking. The context builder packs as many as fit.
+    if (options?.forceSkills?.length) {
+      routing.skills = options.forceSkills.map(name => ({ name, confidence: 1 }));
+      routing.selectedSkill = options.forceSkills[0];
     }
-    const skill = skillName
-      ? (this.skillResolver
-          ? await this.skillResolver.findAndLoadSkillForUser(userId, skillName)
-          : findAndLoadSkill(skillName, this.workspacePath))
-      : null;
+    const loadedSkills = await Promise.all(routing.skills.map(s =>
+      this.skillResolver
+        ? this.skillResolver.findAndLoadSkillForUser(userId, s.name)
+        : findAndLoadSkill(s.name, this.workspacePath)
+    ));
+    const selectedSkills = loadedSkills.filter((s): s is SkillContent => s !== null);
 
     // 7b. Inject DB summary if orchestrator didn't provide one
     if (!routing.contextSummary) {
@@ -246,7 +448,19 @@ export class Gateway {
 
     // 8. Load per-user settings if UserSettingsService is available
     let overrides: UserPromptOverrides | undefined;
+    let timezone = defaultTimezone();
+    let timezoneUnknown = false;
     if (this.userSettings) {
+      // The user's own timezone; web chat reports the browser's, which is
+      // kept for users who have none. Channel users without one are asked.
+      let ownTimezone = await this.userSettings.getOwnTimezone(userId);
+      if (!ownTimezone && isValidTimezone(options?.timezone)) {
+        await this.userSettings.saveTimezone(userId, options.timezone);
+        ownTimezone = options.timezone;
+      }
+      timezone = ownTimezone ?? timezone;
+      timezoneUnknown = !ownTimezone && (channel === 'telegram' || channel === 'whatsapp');
+
       const [soulPrompt, basicIdentity, profilePrompt] = await Promise.all([
         this.userSettings.getSoulPromptForUser(userId, routing.personalityLevel),
         this.userSettings.getBasicIdentityForUser(userId),
@@ -257,16 +471,23 @@ export class Gateway {
             )
           : Promise.resolve(undefined)
       ]);
-      overrides = { soulPrompt, basicIdentity, profilePrompt };
+      overrides = {
+        soulPrompt,
+        basicIdentity: timezoneUnknown
+          ? [basicIdentity, `They haven't told you their timezone, so ${timezone} is only a guess: when a date or time matters, ask which city they're in and save it with set_timezone.`].filter(Boolean).join(' ')
+          : basicIdentity,
+        profilePrompt,
+        timezone
+      };
     }
 
     // 8b. Inject file listing for file_operation intents
     if (this.fileAccess && routing.intent === 'file_operation') {
       try {
-        const files = await this.fileAccess.listFiles(userId);
+        const files = await this.fileAccess.listFiles(accountId(userId));
         if (files.length > 0) {
           const fileContext = `## User's Files\n${files.map(f =>
-            `- ${f.name} (${f.size} bytes, modified ${f.modified.toLocaleDateString()})`
+            `- ${f.name} (${f.size} bytes, modified ${toZonedDate(f.modified, timezone)})`
           ).join('\n')}`;
           if (!overrides) overrides = {};
           overrides.fileContext = fileContext;
@@ -303,11 +524,64 @@ export class Gateway {
       }
     }
 
+    // 8d. Inject long-term memories relevant to this message
+    if (this.memories) {
+      try {
+        const recalled = await this.memories.recall(userId, message);
+        if (recalled.length > 0) {
+          if (!overrides) overrides = {};
+          overrides.memoriesContext = formatMemories(recalled);
+        }
+      } catch {
+        // Non-critical: skip memories if recall fails
+      }
+    }
+
+    // 8e. Inject passages of the user's files that bear on the message, for cited answers.
+    //     Other intents skip the index sync and search; search_documents is still there.
+    if (this.fileAccess && DOCUMENT_INTENTS.includes(routing.intent)) {
+      try {
+        const passages = await this.fileAccess.searchDocuments(accountId(userId), message, DOCUMENT_PASSAGES);
+        if (passages.length > 0) {
+          if (!overrides) overrides = {};
+          overrides.documentsContext = formatPassages(passages);
+        }
+      } catch {
+        // Non-critical: skip document passages if the search fails
+      }
+    }
+
     // 9. Determine active tools (needed before building context for tool policy injection).
     const toolNames = new Set(options?.tools || []);
     toolNames.add('manage_reminders');
     toolNames.add('run_script');
     toolNames.add('manage_contacts');
+    toolNames.add('search_history');
+    if (timezoneUnknown) {
+      toolNames.add('set_timezone');
+    }
+    // File tools when the user has files, or is asking to create one
+    if (this.fileAccess) {
+      try {
+        if (routing.intent === 'file_operation' || await this.fileAccess.hasFiles(accountId(userId))) {
+          for (const name of ['read_file', 'write_file', 'append_file', 'search_files', 'search_documents', 'query_table', 'list_files']) {
+            toolNames.add(name);
+          }
+        }
+      } catch {
+        // Non-critical: skip file tools if the check fails
+      }
+    }
+    // Opt-in tools (web_search) the user has turned on
+    if (this.userSettings) {
+      try {
+        for (const name of await this.userSettings.getEnabledTools(userId)) {
+          toolNames.add(name);
+        }
+      } catch {
+        // Non-critical: skip opt-in tools if the settings can't be read
+      }
+    }
     // Include Google services if user has connected their Google account
     const cfg = getConfig();
     let googleConnected = false;
@@ -329,61 +603,95 @@ export class Gateway {
     }
     const activeToolNames = [...toolNames];
 
-    // 10. Build context (exclude current message from history; buildContext adds it)
+    // 10. Resolve the executor tier, which sets the context's token budget
+    const tier = this.resolveTier(routing, budget);
+    const contextBudget = cfg.ai?.executor?.contextBudget?.[tier] ?? DEFAULT_CONTEXT_BUDGET[tier];
+
+    // 10b. Build context (exclude current message from history; buildContext adds it)
     const historyForContext = recentMessages.slice(0, -1).map(m => ({
       role: m.role as 'user' | 'assistant',
       content: m.content
     }));
-    const context = buildContext(routing, message, historyForContext, skill, overrides, activeToolNames);
+    const context = buildContext(routing, userText, historyForContext, selectedSkills, overrides, activeToolNames, contextBudget);
     if (debug) console.log(`  [gateway] Context built: ~${context.estimatedTokens} tokens, system prompt ${context.systemPrompt.length} chars`);
+    const shrunk = context.sections.filter(sec => sec.tokens < sec.originalTokens);
+    if (shrunk.length > 0) {
+      console.log(`  [gateway] Context over ${contextBudget}-token budget; shrunk ${shrunk.map(sec => `${sec.name} ${sec.originalTokens}→${sec.tokens}`).join(', ')}`);
+    }
 
     // 11. Resolve final model: use executor config mapping based on complexity,
     //     with orchestrator's suggestedModel as a hint.
-    const resolvedModel = this.resolveModel(routing);
-    console.log(`  [gateway] Calling ${resolvedModel} API... (orchestrator suggested ${routing.suggestedModel}, complexity=${routing.complexity})`);
+    const resolvedModel = this.resolveModel(routing, tier);
+    const thinkingBudget = this.resolveThinkingBudget(routing, tier, budget, forceThinking);
+    console.log(`  [gateway] Calling ${resolvedModel} API... (orchestrator suggested ${routing.suggestedModel}, complexity=${routing.complexity}${thinkingBudget ? `, thinking=${thinkingBudget}` : ''})`);
     const startTime = Date.now();
     let responseText = '';
     let actualModel = '';
     let tokensIn = 0;
     let tokensOut = 0;
     let costCents = 0;
+    let cacheCreationTokens = 0;
+    let cacheReadTokens = 0;
+    let retryCount = 0;
+    const toolCalls: ToolCallRecord[] = [];
+    let toolCallsSaved = false;
+    const heldCalls: HeldToolCall[] = [];
     let success = true;
     let errorMessage: string | null = null;
 
     try {
-      const executeOptions: { systemPrompt: string; tools?: import('./tools').ToolDefinition[] } = {
-        systemPrompt: context.systemPrompt
+      const executeOptions: ExecuteOptions = {
+        systemPrompt: context.systemBlocks,
+        thinkingBudget,
+        onEvent: options?.onEvent,
+        onToolCall: (call) => { toolCalls.push(call); }
       };
 
       // Resolve tool names to definitions.
       // Pass user context so user-scoped tools (e.g. manage_reminders) get bound correctly.
-      const toolContext: ToolContext = { userId, db: this.db, scriptRunner: this.scriptRunner, googleCalendar: this.googleCalendar, gmail: this.gmail };
-      const resolvedTools = getTools(activeToolNames, toolContext);
+      const toolContext: ToolContext = {
+        userId, db: this.db, scriptRunner: this.scriptRunner, googleCalendar: this.googleCalendar, gmail: this.gmail,
+        userSettings: this.userSettings, reminders: this.reminders, fileAccess: this.fileAccess, webSearch: this.webSearch, timezone
+      };
+      // Side-effecting calls wait for the user's approval (except in workflows)
+      const resolvedTools = await this.toolConfirmation.gateTools(userId, channel, getTools(activeToolNames, toolContext), heldCalls);
       if (resolvedTools.length > 0) {
         executeOptions.tools = resolvedTools;
         console.log(`  [gateway] Passing ${resolvedTools.length} tool(s) to executor: ${resolvedTools.map(t => t.name).join(', ')}`);
       }
 
+      const executorMessages: ExecutorMessage[] = attachments.length > 0
+        ? [...context.messages.slice(0, -1), { role: 'user', content: [...attachments, { type: 'text', text: userText }] }]
+        : context.messages;
+
       const result = await this.executor.execute(
-        context.messages,
+        executorMessages,
         resolvedModel,
         executeOptions
       );
 
-      responseText = result.content;
+      // Ask the user to approve any held calls on this same channel
+      const confirmPrompt = this.toolConfirmation.hold(userId, heldCalls);
+      responseText = confirmPrompt ? `${result.content}\n\n${confirmPrompt}` : result.content;
       actualModel = result.model;
       tokensIn = result.tokensIn;
       tokensOut = result.tokensOut;
       costCents = result.costCents;
+      cacheCreationTokens = result.cacheCreationTokens;
+      cacheReadTokens = result.cacheReadTokens;
+      retryCount = result.retries;
 
       console.log(`  [gateway] Response received: ${tokensIn}+${tokensOut} tokens, $${costCents.toFixed(3)}c`);
 
-      // 11. Save assistant response to DB
+      // 11. Save tool calls, then the assistant response, to DB
+      await this.saveToolMessages(convId, toolCalls);
+      toolCallsSaved = true;
       await this.db.addMessage({
         id: uuidv4(),
         conversationId: convId,
         role: 'assistant',
-        content: result.content
+        channel,
+        content: responseText
       });
 
       // 12. Check if conversation needs summarization
@@ -393,19 +701,46 @@ export class Gateway {
         });
       }
 
+      // 12b. Extract long-term memories and profile updates. Workflow steps
+      //      talk to the model, not the user, so there is nothing to learn from them.
+      if (this.memories && channel !== 'workflow') {
+        this.memories.extractIfNeeded(userId, convId).catch((err: any) => {
+          console.error('  [gateway] Memory extraction failed:', err.message);
+        });
+      }
+      if (this.profileUpdates && channel !== 'workflow') {
+        this.profileUpdates.extractIfNeeded(userId, convId).catch((err: any) => {
+          console.error('  [gateway] Profile update detection failed:', err.message);
+        });
+      }
+
       // 13. Log usage
+      const tokensSaved = this.estimateTokensSaved(context.estimatedTokens);
       await this.db.logUsage({
         userId,
         model: result.model,
         tokensIn: result.tokensIn,
         tokensOut: result.tokensOut,
-        costCents: result.costCents
+        costCents: result.costCents,
+        cacheCreationTokens: result.cacheCreationTokens,
+        cacheReadTokens: result.cacheReadTokens,
+        cacheSavingsCents: result.cacheSavingsCents,
+        thinkingTokens: result.thinkingTokens,
+        thinkingCostCents: result.thinkingCostCents,
+        tokensSaved
       });
 
-      // 14. Return result
-      const tokensSaved = this.estimateTokensSaved(context.estimatedTokens);
+      // 14. Warn once per period when a spending cap is 80% used.
+      //     The notice is shown but not stored, so it never enters the model's context.
+      let response = responseText;
+      if (budget.binding) {
+        const notice = this.budgets.takeWarning(userId, await this.budgets.getStatus(userId));
+        if (notice) response = `${responseText}\n\n${notice}`;
+      }
+
+      // 15. Return result
       const handleResult: HandleMessageResult = {
-        response: result.content,
+        response,
         conversationId: convId,
         routing,
         usage: {
@@ -414,21 +749,27 @@ export class Gateway {
           tokensOut: result.tokensOut,
           costCents: result.costCents,
           estimatedTokensSaved: tokensSaved
-        }
+        },
+        toolCalls
       };
 
       return handleResult;
     } catch (err: any) {
       success = false;
       errorMessage = err.message || 'Unknown error';
+      if (err instanceof ProviderError) retryCount = err.retries;
+      // Tools may have run before the failure; record them so the next turn knows
+      if (!toolCallsSaved) {
+        await this.saveToolMessages(convId, toolCalls).catch(() => {});
+      }
       throw err;
     } finally {
       // Fire-and-forget debug log (never fail the main response)
       const durationMs = Date.now() - startTime;
       this.saveDebugLogIfEnabled({
-        userId, conversationId: convId, channel, message,
+        userId, conversationId: convId, channel, message: userText,
         routing, context, responseText, actualModel,
-        tokensIn, tokensOut, costCents,
+        tokensIn, tokensOut, costCents, cacheCreationTokens, cacheReadTokens, retryCount, toolCalls,
         tokensSaved: this.estimateTokensSaved(context.estimatedTokens),
         durationMs, success, errorMessage
       });
@@ -495,6 +836,22 @@ export class Gateway {
     return this.skillsCache;
   }
 
+  /**
+   * Persist tool calls as `tool` messages, each with a compact summary as
+   * its content and the full record alongside.
+   */
+  private async saveToolMessages(conversationId: string, calls: ToolCallRecord[]): Promise<void> {
+    for (const call of calls) {
+      await this.db.addMessage({
+        id: uuidv4(),
+        conversationId,
+        role: 'tool',
+        content: summarizeToolCall(call),
+        toolCall: call
+      });
+    }
+  }
+
   /**
    * Save a debug log entry if debug logging is enabled in config.
    * Fire-and-forget: errors are caught and logged, never thrown.
@@ -505,12 +862,16 @@ export class Gateway {
     channel: string;
     message: string;
     routing: RoutingDecision;
-    context: { systemPrompt: string; messages: Array<{ role: string; content: string }>; estimatedTokens: number };
+    context: Pick<BuiltContext, 'systemPrompt' | 'messages' | 'estimatedTokens' | 'skills' | 'tokenBudget' | 'sections'>;
     responseText: string;
     actualModel: string;
     tokensIn: number;
     tokensOut: number;
     costCents: number;
+    cacheCreationTokens: number;
+    cacheReadTokens: number;
+    retryCount: number;
+    toolCalls: ToolCallRecord[];
     tokensSaved: number;
     durationMs: number;
     success: boolean;
@@ -530,6 +891,8 @@ export class Gateway {
         complexity: data.routing.complexity,
         suggestedModel: data.routing.suggestedModel,
         selectedSkill: data.routing.selectedSkill,
+        selectedSkills: data.routing.skills.map(sk => ({ ...sk, included: data.context.skills.includes(sk.name) })),
+        routedBy: data.routing.routedBy ?? null,
         personalityLevel: data.routing.personalityLevel,
         includeBio: data.routing.includeBio,
         bioSections: data.routing.bioSections,
@@ -537,11 +900,17 @@ export class Gateway {
         systemPrompt: data.context.systemPrompt,
         messagesJson: JSON.stringify(data.context.messages),
         estimatedTokens: data.context.estimatedTokens,
+        contextBudget: data.context.tokenBudget,
+        contextSections: data.context.sections,
         responseText: data.responseText,
         actualModel: data.actualModel,
         tokensIn: data.tokensIn,
         tokensOut: data.tokensOut,
         costCents: data.costCents,
+        cacheCreationTokens: data.cacheCreationTokens,
+        cacheReadTokens: data.cacheReadTokens,
+        retryCount: data.retryCount,
+        toolCalls: data.toolCalls,
         tokensSaved: data.tokensSaved,
         durationMs: data.durationMs,
         success: data.success,
@@ -555,7 +924,7 @@ export class Gateway {
   }
 
   /**
-   * Resolve which model to use based on the executor config and routing decision.
+   * Resolve which executor tier serves a request, based on the routing decision.
    *
    * Uses intent to enforce minimum complexity — the small orchestrator model
    * reliably classifies intent but often marks everything as "simple".
@@ -566,15 +935,14 @@ export class Gateway {
    *   greeting, conversation, personal   → can be simple
    *
    * Then maps effective complexity to executor config tiers:
-   *   simple  → config.ai.executor.simple  (default: haiku)
-   *   medium  → config.ai.executor.default (default: sonnet)
-   *   complex → config.ai.executor.complex (default: opus)
+   *   simple  → simple
+   *   medium  → default
+   *   complex → complex
+   *
+   * When the user is close to a spending cap, the simple tier is used
+   * regardless of complexity.
    */
-  private resolveModel(routing: RoutingDecision): ModelName {
-    const config = getConfig();
-    const executor = config.ai?.executor;
-    if (!executor) return routing.suggestedModel;
-
+  private resolveTier(routing: RoutingDecision, budget?: BudgetStatus): ExecutorTier {
     // Intents that require at least the default (medium-tier) model
     const needsAtLeastMedium = ['code', 'analysis', 'creative', 'briefing', 'file_operation', 'task_query'];
     let effectiveComplexity = routing.complexity;
@@ -583,29 +951,65 @@ export class Gateway {
       effectiveComplexity = 'medium';
     }
 
+    if (budget?.state === 'downgrade' && effectiveComplexity !== 'simple') {
+      console.log(`  [gateway] Near budget cap; using simple tier instead of ${effectiveComplexity}`);
+      effectiveComplexity = 'simple';
+    }
+
     switch (effectiveComplexity) {
       case 'simple':
-        return (executor.simple || 'haiku') as ModelName;
+        return 'simple';
       case 'complex':
-        return (executor.complex || 'opus') as ModelName;
+        return 'complex';
       default:
-        return (executor.default || 'sonnet') as ModelName;
+        return 'default';
     }
   }
 
   /**
-   * Check if a message is a workflow command (trigger or listing) using local
-   * keyword matching. This runs before the orchestrator so we don't depend on
-   * the small model to correctly classify every phrasing.
+   * Resolve which model serves a tier from the executor config:
+   *   simple  → config.ai.executor.simple  (default: haiku)
+   *   default → config.ai.executor.default (default: sonnet)
+   *   complex → config.ai.executor.complex (default: opus)
+   *
+   * A tier may name any configured provider (e.g. "local:llama3.2").
    */
-  private isWorkflowMessage(message: string): boolean {
-    const lower = message.toLowerCase();
-    // Trigger patterns: "run my morning brief", "execute the backup workflow"
-    const isTrigger = /\b(run|execute|trigger|start|launch)\b.*\b(workflow|brief|report|routine|automation)\b/i.test(lower);
-    // Listing patterns: "what workflows do I have", "list my automations", "show workflows"
-    const isListing = /\b(list|show|what|which|tell me|do i have|available)\b.*\b(workflow|automation|routine)s?\b/i.test(lower)
-      || /\b(workflow|automation|routine)s?\b.*\b(list|available|set up|configured|do i have|exist)\b/i.test(lower);
-    return isTrigger || isListing;
+  private resolveModel(routing: RoutingDecision, tier: ExecutorTier): ModelRef {
+    const config = getConfig();
+    const executor = config.ai?.executor;
+    if (!executor) return routing.suggestedModel;
+
+    switch (tier) {
+      case 'simple':
+        return executor.simple || 'haiku';
+      case 'complex':
+        return executor.complex || 'opus';
+      default:
+        return executor.default || 'sonnet';
+    }
+  }
+
+  /**
+   * Extended thinking budget for a request, or undefined for none.
+   *
+   * Thinking is on for complex requests and code/analysis intents, unless
+   * the user is close to a spending cap. `forced` (from `/think`, `/nothink`
+   * or the thinking option) overrides that. The budget comes from
+   * `ai.executor.thinking[tier]`; a tier set to 0 only thinks when forced,
+   * using the built-in default.
+   */
+  private resolveThinkingBudget(
+    routing: RoutingDecision,
+    tier: ExecutorTier,
+    budget: BudgetStatus,
+    forced?: boolean
+  ): number | undefined {
+    const configured = getConfig().ai?.executor?.thinking?.[tier];
+    const automatic = budget.state !== 'downgrade' && configured !== 0
+      && (routing.complexity === 'complex' || THINKING_INTENTS.includes(routing.intent));
+    if (!(forced ?? automatic)) return undefined;
+
+    return Math.max(MIN_THINKING_BUDGET, configured || DEFAULT_THINKING_BUDGET[tier]);
   }
 
   /**
@@ -618,3 +1022,56 @@ export class Gateway {
     return Math.max(0, estimatedFullContext - actualTokens);
   }
 }
+
+/**
+ * Strip a leading `/think` or `/nothink` from a message.
+ * Only counts as a prefix when followed by the actual message.
+ */
+function parseThinkingPrefix(message: string): { message: string; thinking?: boolean } {
+  const match = message.match(/^\s*\/(no)?think\s+(?=\S)/i);
+  if (!match) return { message };
+  return { message: message.slice(match[0].length), thinking: !match[1] };
+}
+
+/**
+ * One-line summary of a tool call, e.g.
+ * `manage_reminders {"action":"add",...} → {"success":true}`.
+ */
+function summarizeToolCall(call: ToolCallRecord): string {
+  const excerpt = (text: string) => text.length > TOOL_SUMMARY_EXCERPT_CHARS
+    ? text.slice(0, TOOL_SUMMARY_EXCERPT_CHARS) + '…'
+    : text;
+  const outcome = call.error ? `error: ${call.error}` : call.output;
+  return `${call.name} ${excerpt(JSON.stringify(call.input ?? {}))} → ${excerpt(outcome)}`;
+}
+
+/**
+ * Turn stored messages into executor history. Tool messages become a
+ * bracketed note at the top of the assistant reply they belong to; tool
+ * calls from a turn that failed before replying get an assistant turn of
+ * their own.
+ */
+function foldToolMessages(messages: Message[]): Array<{ role: 'user' | 'assistant'; content: string }> {
+  const history: Array<{ role: 'user' | 'assistant'; content: string }> = [];
+  let pending: string[] = [];
+  const note = () => `[Tools used: ${pending.length}]\n${pending.map(p => `- ${p}`).join('\n')}`;
+
+  for (const m of messages) {
+    if (m.role === 'tool') {
+      pending.push(m.content);
+    } else if (m.role === 'assistant') {
+      history.push({ role: 'assistant', content: pending.length ? `${note()}\n\n${m.content}` : m.content });
+      pending = [];
+    } else if (m.role === 'user') {
+      if (pending.length) {
+        history.push({ role: 'assistant', content: note() });
+        pending = [];
+      }
+      history.push({ role: 'user', content: m.content });
+    }
+  }
+  if (pending.length) {
+    history.push({ role: 'assistant', content: note() });
+  }
+  return history;
+}
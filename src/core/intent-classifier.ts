@@ -0,0 +1,311 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { RoutingDecision } from './orchestrator';
+
+/** File in the data dir holding the trained model. */
+export const CLASSIFIER_FILE = 'intent-classifier.json';
+
+/** Confidence a prediction needs to skip the LLM, unless configured. */
+export const DEFAULT_CONFIDENCE_THRESHOLD = 0.9;
+
+/** Fewer labeled messages than this and the model isn't worth saving. */
+export const MIN_TRAINING_EXAMPLES = 50;
+
+/** Label for messages the LLM routed to a skill, which the model can't pick. */
+const DEFER_LABEL = '__defer__';
+
+/** Every fifth example is held out to report coverage and accuracy. */
+const HOLDOUT_EVERY = 5;
+
+const MODEL_VERSION = 1;
+
+/** What the fast path settled on. */
+export interface FastRoute {
+  intent: RoutingDecision['intent'];
+  complexity: RoutingDecision['complexity'];
+  suggestedModel: RoutingDecision['suggestedModel'];
+  /** 1 for keyword rules; the model's lowest posterior across the three fields otherwise. */
+  confidence: number;
+  source: 'rule' | 'model';
+}
+
+/** A labeled message to train on. */
+export interface TrainingExample {
+  message: string;
+  intent: string;
+  complexity: string;
+  suggestedModel: string;
+  /** Skill the LLM picked, if any. The model learns to defer these. */
+  selectedSkill?: string | null;
+}
+
+/** How the model did on held-out examples at a confidence threshold. */
+export interface TrainingReport {
+  examples: number;
+  holdout: number;
+  threshold: number;
+  /** Held-out messages confident enough to skip the LLM. */
+  covered: number;
+  /** Of those, how many matched the label on all three fields. */
+  correct: number;
+}
+
+/** Multinomial naive Bayes over one label field. */
+interface NaiveBayesHead {
+  classCounts: Record<string, number>;
+  tokenCounts: Record<string, Record<string, number>>;
+  tokenTotals: Record<string, number>;
+}
+
+interface ModelFile {
+  version: number;
+  trainedAt: string;
+  examples: number;
+  vocabulary: string[];
+  heads: Record<'intent' | 'complexity' | 'suggestedModel', NaiveBayesHead>;
+}
+
+interface KeywordRule {
+  pattern: RegExp;
+  intent: RoutingDecision['intent'];
+}
+
+/**
+ * Messages with an obvious route. Greetings and acknowledgements must be
+ * the whole message, so "hi, can you review this code" still goes to the LLM.
+ */
+const KEYWORD_RULES: KeywordRule[] = [
+  {
+    pattern: /^(hi|hello|hey|hiya|yo|howdy|good (morning|afternoon|evening|night)|morning|evening|bye|goodbye|see you|night)( there)?[\s!.,]*$/i,
+    intent: 'greeting'
+  },
+  {
+    pattern: /^(thanks|thank you|thx|ty|cheers|ok|okay|k|cool|great|nice|perfect|got it|sounds good|awesome)( (so much|very much|a lot))?[\s!.,]*$/i,
+    intent: 'conversation'
+  },
+  // Workflow triggers: "run my morning brief", "execute the backup workflow"
+  {
+    pattern: /\b(run|execute|trigger|start|launch)\b.*\b(workflow|brief|report|routine|automation)\b/i,
+    intent: 'workflow_trigger'
+  },
+  // Workflow listings: "what workflows do I have", "list my automations", "show workflows"
+  {
+    pattern: /\b(list|show|what|which|tell me|do i have|available)\b.*\b(workflow|automation|routine)s?\b/i,
+    intent: 'workflow_trigger'
+  },
+  {
+    pattern: /\b(workflow|automation|routine)s?\b.*\b(list|available|set up|configured|do i have|exist)\b/i,
+    intent: 'workflow_trigger'
+  }
+];
+
+/**
+ * Local fast path in front of the LLM orchestrator.
+ *
+ * Keyword rules catch the obvious cases (greetings, thanks, workflow
+ * commands). A naive Bayes model over word unigrams and bigrams, trained
+ * from labeled debug logs, settles the rest when it is confident enough.
+ * Anything else returns null and goes to the LLM.
+ */
+export class IntentClassifier {
+  private model: ModelFile | null;
+  private vocabulary: Set<string>;
+
+  constructor(model: ModelFile | null = null) {
+    this.model = model;
+    this.vocabulary = new Set(model?.vocabulary ?? []);
+  }
+
+  /** Whether a trained model is loaded (rules work without one). */
+  get trained(): boolean {
+    return this.model !== null;
+  }
+
+  get trainedAt(): string | null {
+    return this.model?.trainedAt ?? null;
+  }
+
+  get exampleCount(): number {
+    return this.model?.examples ?? 0;
+  }
+
+  /**
+   * Load the model from the data dir. A missing or unreadable file gives a
+   * rules-only classifier.
+   */
+  static load(dataDir: string): IntentClassifier {
+    const file = path.join(dataDir, CLASSIFIER_FILE);
+    if (!fs.existsSync(file)) return new IntentClassifier();
+    try {
+      const model = JSON.parse(fs.readFileSync(file, 'utf-8')) as ModelFile;
+      if (model.version !== MODEL_VERSION) return new IntentClassifier();
+      return new IntentClassifier(model);
+    } catch (error: any) {
+      console.error(`  [classifier] Could not load ${file}:`, error.message);
+      return new IntentClassifier();
+    }
+  }
+
+  /**
+   * Train on labeled messages. Held-out examples are scored first, then the
+   * final model is trained on everything.
+   *
+   * @throws Error if there are fewer than MIN_TRAINING_EXAMPLES examples
+   */
+  static train(
+    examples: TrainingExample[],
+    threshold: number = DEFAULT_CONFIDENCE_THRESHOLD
+  ): { classifier: IntentClassifier; report: TrainingReport } {
+    if (examples.length < MIN_TRAINING_EXAMPLES) {
+      throw new Error(`Need at least ${MIN_TRAINING_EXAMPLES} labeled messages to train, have ${examples.length}.`);
+    }
+
+    const trainSet = examples.filter((_, i) => i % HOLDOUT_EVERY !== 0);
+    const holdout = examples.filter((_, i) => i % HOLDOUT_EVERY === 0);
+    const candidate = new IntentClassifier(buildModel(trainSet));
+
+    let covered = 0, correct = 0;
+    for (const example of holdout) {
+      const route = candidate.predict(example.message, threshold);
+      if (!route) continue;
+      covered++;
+      if (
+        !example.selectedSkill &&
+        route.intent === example.intent &&
+        route.complexity === example.complexity &&
+        route.suggestedModel === example.suggestedModel
+      ) {
+        correct++;
+      }
+    }
+
+    return {
+      classifier: new IntentClassifier(buildModel(examples)),
+      report: { examples: examples.length, holdout: holdout.length, threshold, covered, correct }
+    };
+  }
+
+  /** Write the model to the data dir. */
+  save(dataDir: string): void {
+    if (!this.model) throw new Error('Nothing to save: the classifier has not been trained.');
+    fs.mkdirSync(dataDir, { recursive: true });
+    fs.writeFileSync(path.join(dataDir, CLASSIFIER_FILE), JSON.stringify(this.model));
+  }
+
+  /** Keyword rules only: the route for an obvious message, or null. */
+  matchRules(message: string): FastRoute | null {
+    const text = message.trim();
+    for (const rule of KEYWORD_RULES) {
+      if (rule.pattern.test(text)) {
+        return { intent: rule.intent, complexity: 'simple', suggestedModel: 'haiku', confidence: 1, source: 'rule' };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Route a message locally: keyword rules first, then the model if its
+   * confidence reaches the threshold. Null means ask the LLM.
+   */
+  predict(message: string, threshold: number = DEFAULT_CONFIDENCE_THRESHOLD): FastRoute | null {
+    const ruled = this.matchRules(message);
+    if (ruled) return ruled;
+
+    const guess = this.bestGuess(message);
+    return guess && guess.confidence >= threshold ? guess : null;
+  }
+
+  /**
+   * The model's most likely route regardless of confidence, or null when
+   * untrained, when no word is known, or when it would defer to a skill.
+   */
+  bestGuess(message: string): FastRoute | null {
+    if (!this.model) return null;
+    const features = featurize(message).filter(f => this.vocabulary.has(f));
+    if (features.length === 0) return null;
+
+    const intent = classifyHead(this.model.heads.intent, features, this.vocabulary.size);
+    if (intent.label === DEFER_LABEL) return null;
+    const complexity = classifyHead(this.model.heads.complexity, features, this.vocabulary.size);
+    const model = classifyHead(this.model.heads.suggestedModel, features, this.vocabulary.size);
+
+    return {
+      intent: intent.label as FastRoute['intent'],
+      complexity: complexity.label as FastRoute['complexity'],
+      suggestedModel: model.label as FastRoute['suggestedModel'],
+      confidence: Math.min(intent.probability, complexity.probability, model.probability),
+      source: 'model'
+    };
+  }
+}
+
+function buildModel(examples: TrainingExample[]): ModelFile {
+  const vocabulary = new Set<string>();
+  const heads: ModelFile['heads'] = {
+    intent: emptyHead(),
+    complexity: emptyHead(),
+    suggestedModel: emptyHead()
+  };
+
+  for (const example of examples) {
+    const features = featurize(example.message);
+    features.forEach(f => vocabulary.add(f));
+    addExample(heads.intent, example.selectedSkill ? DEFER_LABEL : example.intent, features);
+    addExample(heads.complexity, example.complexity, features);
+    addExample(heads.suggestedModel, example.suggestedModel, features);
+  }
+
+  return {
+    version: MODEL_VERSION,
+    trainedAt: new Date().toISOString(),
+    examples: examples.length,
+    vocabulary: [...vocabulary],
+    heads
+  };
+}
+
+function emptyHead(): NaiveBayesHead {
+  return { classCounts: {}, tokenCounts: {}, tokenTotals: {} };
+}
+
+function addExample(head: NaiveBayesHead, label: string, features: string[]): void {
+  head.classCounts[label] = (head.classCounts[label] || 0) + 1;
+  const counts = head.tokenCounts[label] ??= {};
+  for (const f of features) {
+    counts[f] = (counts[f] || 0) + 1;
+  }
+  head.tokenTotals[label] = (head.tokenTotals[label] || 0) + features.length;
+}
+
+/** Most likely label and its posterior, with Laplace smoothing. */
+function classifyHead(head: NaiveBayesHead, features: string[], vocabSize: number): { label: string; probability: number } {
+  const labels = Object.keys(head.classCounts);
+  const total = labels.reduce((sum, l) => sum + head.classCounts[l], 0);
+
+  const logScores = labels.map(label => {
+    const counts = head.tokenCounts[label] || {};
+    const denominator = (head.tokenTotals[label] || 0) + vocabSize;
+    let score = Math.log(head.classCounts[label] / total);
+    for (const f of features) {
+      score += Math.log(((counts[f] || 0) + 1) / denominator);
+    }
+    return score;
+  });
+
+  // Softmax in log space to turn scores into posteriors
+  const max = Math.max(...logScores);
+  const exps = logScores.map(s => Math.exp(s - max));
+  const sum = exps.reduce((a, b) => a + b, 0);
+  const best = exps.indexOf(Math.max(...exps));
+  return { label: labels[best], probability: exps[best] / sum };
+}
+
+/** Lowercased word unigrams and bigrams. */
+function featurize(message: string): string[] {
+  const words = message.toLowerCase().match(/[a-z0-9']+/g) || [];
+  const features = [...words];
+  for (let i = 0; i < words.length - 1; i++) {
+    features.push(`${words[i]} ${words[i + 1]}`);
+  }
+  return features;
+}
@@ -1,8 +1,19 @@
 import Anthropic from '@anthropic-ai/sdk';
+import type { RoutedBy } from '../db/interface';
 import { getConfig, getApiKey } from '../utils/config';
+import { DEFAULT_CONFIDENCE_THRESHOLD, FastRoute, IntentClassifier } from './intent-classifier';
+
+/** A skill the orchestrator thinks applies, with how sure it is (0-1). */
+export interface RankedSkill {
+  name: string;
+  confidence: number;
+}
 
 export interface RoutingDecision {
+  /** The top-ranked skill (skills[0]), kept for single-skill consumers. */
   selectedSkill: string | null;
+  /** Skills that apply, most confident first. */
+  skills: RankedSkill[];
   contextSummary: string | null;
   intent: 'task_query' | 'file_operation' | 'conversation' | 'creative' | 'code' | 'analysis' | 'greeting' | 'briefing' | 'personal' | 'workflow_trigger';
   complexity: 'simple' | 'medium' | 'complex';
@@ -11,6 +22,34 @@ export interface RoutingDecision {
   personalityLevel: 'full' | 'minimal' | 'none';
   includeBio: boolean;
   bioSections: string[];
+  /** Set by the orchestrator; decisions made elsewhere (e.g. the gateway's shortcuts) leave it out. */
+  routedBy?: RoutedBy;
+}
+
+/** Skills below this confidence are dropped from a decision. */
+const MIN_SKILL_CONFIDENCE = 0.3;
+
+/** Most skills a single decision can carry. */
+const MAX_SKILLS = 3;
+
+/** Every intent the orchestrator can return. */
+export const ROUTING_INTENTS: RoutingDecision['intent'][] = [
+  'greeting', 'conversation', 'personal', 'briefing', 'task_query',
+  'code', 'analysis', 'creative', 'file_operation', 'workflow_trigger'
+];
+
+/** A routing decision from a single provider call, with what the call used. */
+export interface ClassifyResult {
+  decision: RoutingDecision;
+  tokensIn: number;
+  tokensOut: number;
+}
+
+/** Raw output of one routing call. */
+interface ProviderCall {
+  text: string;
+  tokensIn: number;
+  tokensOut: number;
 }
 
 export interface SkillInfo {
@@ -30,6 +69,13 @@ export interface OrchestratorConfig {
       model: string;
     };
   };
+  /** Local classifier that settles obvious messages without an LLM call. */
+  fastPath?: {
+    /** Default true. When false every message goes to the LLM. */
+    enabled?: boolean;
+    /** Model confidence needed to skip the LLM. Default 0.9. */
+    threshold?: number;
+  };
 }
 
 /**
@@ -45,12 +91,39 @@ function extractJson(text: string): string {
 export class Orchestrator {
   private config: OrchestratorConfig;
   private anthropic: Anthropic;
+  private classifier: IntentClassifier;
 
-  constructor(config: OrchestratorConfig) {
+  constructor(config: OrchestratorConfig, classifier: IntentClassifier = new IntentClassifier()) {
     this.config = config;
     this.anthropic = new Anthropic({ apiKey: getApiKey() });
+    this.classifier = classifier;
   }
-  
+
+  /** Swap in a newly trained classifier. */
+  setClassifier(classifier: IntentClassifier): void {
+    this.classifier = classifier;
+  }
+
+  /**
+   * Route a message by the keyword rules alone, never the trained model.
+   * For callers that act on the route directly, where a wrong guess can't be
+   * recovered by the LLM.
+   */
+  ruleRoute(userMessage: string): RoutingDecision | null {
+    const route = this.classifier.matchRules(userMessage);
+    return route ? { ...this.fromFastRoute(route), routedBy: 'fast_path' } : null;
+  }
+
+  /**
+   * Route a message locally if the fast path is confident, without calling
+   * an LLM. Returns null when the LLM should decide (or the fast path is off).
+   */
+  fastRoute(userMessage: string): RoutingDecision | null {
+    if (this.config.fastPath?.enabled === false) return null;
+    const route = this.classifier.predict(userMessage, this.config.fastPath?.threshold ?? DEFAULT_CONFIDENCE_THRESHOLD);
+    return route ? { ...this.fromFastRoute(route), routedBy: 'fast_path' } : null;
+  }
+
   /**
    * Route a user message and decide what context to include.
    */
@@ -59,10 +132,16 @@ export class Orchestrator {
     conversationHistory: Array<{ role: string; content: string }>,
     availableSkills: SkillInfo[]
   ): Promise<RoutingDecision> {
+    const fast = this.fastRoute(userMessage);
+    if (fast) {
+      console.log(`  [orchestrator] Fast path: intent=${fast.intent}`);
+      return fast;
+    }
+
     const prompt = this.buildRoutingPrompt(userMessage, conversationHistory, availableSkills);
     
     try {
-      let result: string;
+      let result: ProviderCall;
 
       if (this.config.provider === 'ollama') {
         console.log(`  [orchestrator] Calling Ollama at ${this.config.options?.ollama?.endpoint || 'http://localhost:11434'} model=${this.config.options?.ollama?.model || 'llama3.2'}`);
@@ -72,8 +151,8 @@ export class Orchestrator {
         result = await this.callHaiku(prompt);
       }
 
-      const decision = JSON.parse(extractJson(result));
-      return this.enrichDecision(decision);
+      const decision = JSON.parse(extractJson(result.text));
+      return { ...this.enrichDecision(decision), routedBy: 'llm' };
 
     } catch (error: any) {
       console.error(`  [orchestrator] Primary provider (${this.config.provider}) failed:`, error.message || error);
@@ -84,13 +163,37 @@ export class Orchestrator {
         return this.routeWithFallback(prompt, userMessage);
       }
 
-      console.log(`  [orchestrator] No fallback configured, using heuristic defaults`);
+      console.log(`  [orchestrator] No fallback configured, using local defaults`);
       // Return safe defaults if all else fails
-      return this.getDefaultDecision(userMessage);
+      return { ...this.getDefaultDecision(userMessage), routedBy: 'fallback' };
     }
   }
   
-  private async callHaiku(prompt: string): Promise<string> {
+  /**
+   * Classify a message with the primary provider only — no fallback and no
+   * heuristic defaults, so failures surface as errors. Used to evaluate
+   * providers against labeled messages.
+   *
+   * @throws Error if the provider call fails or returns invalid JSON
+   */
+  async classify(
+    userMessage: string,
+    conversationHistory: Array<{ role: string; content: string }>,
+    availableSkills: SkillInfo[]
+  ): Promise<ClassifyResult> {
+    const prompt = this.buildRoutingPrompt(userMessage, conversationHistory, availableSkills);
+    const result = this.config.provider === 'ollama'
+      ? await this.callOllama(prompt)
+      : await this.callHaiku(prompt);
+
+    return {
+      decision: this.enrichDecision(JSON.parse(extractJson(result.text))),
+      tokensIn: result.tokensIn,
+      tokensOut: result.tokensOut
+    };
+  }
+
+  private async callHaiku(prompt: string): Promise<ProviderCall> {
     const model = this.config.options?.haiku?.model || 'claude-haiku-4-5-20251001';
     
     const response = await this.anthropic.messages.create({
@@ -104,10 +207,14 @@ export class Orchestrator {
       throw new Error('Unexpected response type');
     }
     
-    return content.text;
+    return {
+      text: content.text,
+      tokensIn: response.usage.input_tokens,
+      tokensOut: response.usage.output_tokens
+    };
   }
   
-  private async callOllama(prompt: string): Promise<string> {
+  private async callOllama(prompt: string): Promise<ProviderCall> {
     const endpoint = this.config.options?.ollama?.endpoint || 'http://localhost:11434';
     const model = this.config.options?.ollama?.model || 'llama3.2';
 
@@ -132,8 +239,12 @@ export class Orchestrator {
         throw new Error(`Ollama request failed: ${response.status} ${response.statusText} — ${body}`);
       }
 
-      const data = await response.json() as { message: { content: string } };
-      return data.message.content;
+      const data = await response.json() as { message: { content: string }; prompt_eval_count?: number; eval_count?: number };
+      return {
+        text: data.message.content,
+        tokensIn: data.prompt_eval_count ?? 0,
+        tokensOut: data.eval_count ?? 0
+      };
     } catch (error: any) {
       if (error.name === 'AbortError') {
         throw new Error(`Ollama request timed out after 45s (endpoint: ${endpoint}, model: ${model})`);
@@ -149,7 +260,7 @@ export class Orchestrator {
     this.config.provider = this.config.fallback!;
 
     try {
-      let result: string;
+      let result: ProviderCall;
 
       if (this.config.provider === 'ollama') {
         result = await this.callOllama(prompt);
@@ -157,14 +268,14 @@ export class Orchestrator {
         result = await this.callHaiku(prompt);
       }
 
-      const decision = JSON.parse(extractJson(result));
+      const decision = JSON.parse(extractJson(result.text));
       console.log(`  [orchestrator] Fallback (${this.config.provider}) succeeded`);
-      return this.enrichDecision(decision);
+      return { ...this.enrichDecision(decision), routedBy: 'llm' };
 
     } catch (error: any) {
       console.error(`  [orchestrator] Fallback (${this.config.provider}) also failed:`, error.message || error);
       // Both providers failed — use safe defaults
-      return this.getDefaultDecision(userMessage);
+      return { ...this.getDefaultDecision(userMessage), routedBy: 'fallback' };
     } finally {
       this.config.provider = originalProvider;
     }
@@ -193,9 +304,10 @@ ${hasHistory ? `Last context: "${lastMsg}"` : ''}
 Skills: ${skillNames}
 
 Output:
-{"intent":"greeting|conversation|personal|briefing|task_query|code|analysis|creative|file_operation|workflow_trigger","complexity":"simple|medium|complex","suggestedModel":"haiku|sonnet|opus","selectedSkill":null,"contextSummary":null}
+{"intent":"greeting|conversation|personal|briefing|task_query|code|analysis|creative|file_operation|workflow_trigger","complexity":"simple|medium|complex","suggestedModel":"haiku|sonnet|opus","skills":[],"contextSummary":null}
 
 Rules: greeting/conversation/personal→haiku, simple queries→haiku, code/analysis→sonnet, creative/complex→opus, workflow_trigger when user asks to run/execute/trigger/list/show workflows or automations→haiku.
+skills: every listed skill the message needs, best first, as {"name":"...","confidence":0-1}. A request with several parts can need several.
 JSON only:`;
   }
   
@@ -260,8 +372,11 @@ JSON only:`;
         break;
     }
     
+    const skills = parseSkills(decision);
+
     return {
-      selectedSkill: decision.selectedSkill || null,
+      selectedSkill: skills[0]?.name ?? null,
+      skills,
       contextSummary: decision.contextSummary || null,
       intent,
       complexity,
@@ -273,37 +388,37 @@ JSON only:`;
     };
   }
   
+  /** Expand a fast-path route into a full routing decision. */
+  private fromFastRoute(route: FastRoute): RoutingDecision {
+    return this.enrichDecision({
+      intent: route.intent,
+      complexity: route.complexity,
+      suggestedModel: route.suggestedModel,
+      skills: [],
+      contextSummary: null
+    });
+  }
+
   /**
-   * Get a safe default decision when routing fails.
+   * Get a safe default decision when routing fails: the trained classifier's
+   * best guess at any confidence, else keyword heuristics.
    */
   private getDefaultDecision(userMessage: string): RoutingDecision {
+    const guess = this.classifier.matchRules(userMessage) ?? this.classifier.bestGuess(userMessage);
+    if (guess) return this.fromFastRoute(guess);
+
     const lowerMessage = userMessage.toLowerCase();
     
-    // Simple heuristics for common cases
+    // Simple heuristics for common cases (workflow commands are keyword rules above)
     const isGreeting = /^(hi|hello|hey|good morning|good evening|morning|evening)/i.test(lowerMessage);
     const isPersonal = /\b(about me|my name|my profile|who am i|what do you know|my preferences|my timezone|my bio)\b/i.test(lowerMessage);
-    const isWorkflowTrigger = /\b(run|execute|trigger|start|launch)\b.*\b(workflow|brief|report|routine|automation)\b/i.test(lowerMessage)
-      || /\b(list|show|what|which)\b.*\b(workflow|automation|routine)s?\b/i.test(lowerMessage);
     const isBriefing = /briefing|summary|today|tasks|schedule/i.test(lowerMessage);
     const isCode = /code|function|script|debug|error|programming/i.test(lowerMessage);
 
-    if (isWorkflowTrigger) {
-      return {
-        selectedSkill: null,
-        contextSummary: null,
-        intent: 'workflow_trigger',
-        complexity: 'simple',
-        suggestedModel: 'haiku',
-        includePersonality: false,
-        personalityLevel: 'none',
-        includeBio: false,
-        bioSections: []
-      };
-    }
-
     if (isPersonal) {
       return {
         selectedSkill: null,
+        skills: [],
         contextSummary: null,
         intent: 'personal',
         complexity: 'simple',
@@ -318,6 +433,7 @@ JSON only:`;
     if (isGreeting) {
       return {
         selectedSkill: null,
+        skills: [],
         contextSummary: null,
         intent: 'greeting',
         complexity: 'simple',
@@ -332,6 +448,7 @@ JSON only:`;
     if (isBriefing) {
       return {
         selectedSkill: 'morning-briefing',
+        skills: [{ name: 'morning-briefing', confidence: 0.5 }],
         contextSummary: null,
         intent: 'briefing',
         complexity: 'medium',
@@ -346,6 +463,7 @@ JSON only:`;
     if (isCode) {
       return {
         selectedSkill: null,
+        skills: [],
         contextSummary: null,
         intent: 'code',
         complexity: 'medium',
@@ -360,6 +478,7 @@ JSON only:`;
     // Default
     return {
       selectedSkill: null,
+      skills: [],
       contextSummary: null,
       intent: 'conversation',
       complexity: 'simple',
@@ -372,12 +491,37 @@ JSON only:`;
   }
 }
 
+/**
+ * Read ranked skills from a model's routing output. Accepts the `skills`
+ * array (objects or bare names) or a single legacy `selectedSkill`.
+ */
+function parseSkills(decision: any): RankedSkill[] {
+  const raw: unknown[] = Array.isArray(decision.skills)
+    ? decision.skills
+    : decision.selectedSkill ? [decision.selectedSkill] : [];
+
+  // A name listed twice keeps its highest confidence
+  const best = new Map<string, number>();
+  for (const item of raw) {
+    const name = typeof item === 'string' ? item : (item as any)?.name;
+    if (typeof name !== 'string' || !name) continue;
+    const value = typeof item === 'string' ? 1 : Number((item as any).confidence);
+    const confidence = Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : 1;
+    if (confidence >= MIN_SKILL_CONFIDENCE && confidence > (best.get(name) ?? -1)) best.set(name, confidence);
+  }
+
+  return [...best]
+    .map(([name, confidence]) => ({ name, confidence }))
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, MAX_SKILLS);
+}
+
 /**
  * Create an orchestrator from the current config.
  */
 export function createOrchestrator(): Orchestrator {
   const config = getConfig();
-  return new Orchestrator(config.orchestrator);
+  return new Orchestrator(config.orchestrator, IntentClassifier.load(config.dataDir));
 }
 
 /**
@@ -0,0 +1,272 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { ExecutorProviderConfig, getApiKey } from '../../utils/config';
+import { ExecutorContentPart, SystemPromptBlock } from '../executor';
+import {
+  ExecutorProvider,
+  parseRetryAfter,
+  ProviderError,
+  ProviderMessage,
+  ProviderRequest,
+  ProviderResponse,
+  ProviderUsage
+} from './interface';
+
+type CacheParams = Anthropic.Beta.PromptCaching.MessageCreateParamsNonStreaming;
+type CacheMessage = Anthropic.Beta.PromptCaching.PromptCachingBetaMessage;
+type CacheMessageParam = Anthropic.Beta.PromptCaching.PromptCachingBetaMessageParam;
+type CacheTextBlock = Anthropic.Beta.PromptCaching.PromptCachingBetaTextBlockParam;
+type CacheUserContent = Exclude<CacheMessageParam['content'], string>;
+
+/** Extended thinking request option; this SDK version predates it. */
+type ThinkingParams = CacheParams & { thinking?: { type: 'enabled'; budget_tokens: number } };
+
+/** Thinking blocks and their stream deltas, likewise untyped in this SDK version. */
+type ThinkingBlock = { type: 'thinking'; thinking: string; signature?: string } | { type: 'redacted_thinking'; data: string };
+type ThinkingDelta = { type: 'thinking_delta'; thinking: string } | { type: 'signature_delta'; signature: string };
+
+/** Pricing per 1M tokens in dollars, by model family. */
+const PRICING: Record<'haiku' | 'sonnet' | 'opus', { input: number; output: number }> = {
+  haiku:  { input: 0.25,  output: 1.25 },
+  sonnet: { input: 3.0,   output: 15.0 },
+  opus:   { input: 15.0,  output: 75.0 }
+};
+
+/** Cache writes cost 25% more than base input; cache reads cost 10% of it. */
+const CACHE_WRITE_MULTIPLIER = 1.25;
+const CACHE_READ_MULTIPLIER = 0.1;
+
+/**
+ * Executor provider for the Anthropic Messages API.
+ * Supports prompt caching (system blocks and tool list) and streaming.
+ */
+export class AnthropicProvider implements ExecutorProvider {
+  readonly type = 'anthropic' as const;
+  private anthropic: Anthropic;
+  private pricing?: { input: number; output: number };
+
+  constructor(config: ExecutorProviderConfig) {
+    const apiKey = config.apiKey || getApiKey();
+    if (!apiKey) {
+      throw new Error('No API key configured. Run `hive setup` first.');
+    }
+    // Retries are handled by the executor (backoff + model fallback), not the SDK
+    this.anthropic = new Anthropic({
+      apiKey,
+      maxRetries: 0,
+      ...(config.endpoint ? { baseURL: config.endpoint } : {})
+    });
+    this.pricing = config.pricing;
+  }
+
+  async complete(request: ProviderRequest): Promise<ProviderResponse> {
+    const params: ThinkingParams = {
+      model: request.model,
+      max_tokens: request.maxTokens,
+      messages: request.messages.map(m => this.toMessageParam(m))
+    };
+
+    if (request.system) {
+      params.system = this.buildSystem(request.system);
+    }
+
+    // Thinking counts towards max_tokens, so the budget is added on top of
+    // the answer's allowance. The API rejects a custom temperature with it.
+    if (request.thinkingBudget) {
+      params.thinking = { type: 'enabled', budget_tokens: request.thinkingBudget };
+      params.max_tokens = request.maxTokens + request.thinkingBudget;
+    } else if (request.temperature !== undefined) {
+      params.temperature = request.temperature;
+    }
+
+    // The breakpoint on the last tool caches the whole tool list,
+    // which sits before the system prompt.
+    if (request.tools?.length) {
+      params.tools = request.tools.map((t, i, all) => ({
+        name: t.name,
+        description: t.description,
+        input_schema: t.input_schema as Anthropic.Tool['input_schema'],
+        ...(i === all.length - 1 ? { cache_control: { type: 'ephemeral' as const } } : {})
+      }));
+    }
+
+    try {
+      const response = await this.createMessage(params, request.onText);
+      const textBlock = response.content.find(block => block.type === 'text');
+      const toolUses = response.content.filter((b): b is Anthropic.ToolUseBlock => b.type === 'tool_use');
+
+      return {
+        text: textBlock && textBlock.type === 'text' ? textBlock.text : '',
+        toolCalls: toolUses.map(b => ({ id: b.id, name: b.name, input: b.input })),
+        stopReason: response.stop_reason === 'tool_use'
+          ? 'tool_use'
+          : response.stop_reason === 'max_tokens' ? 'max_tokens' : 'end',
+        usage: {
+          tokensIn: response.usage.input_tokens,
+          tokensOut: response.usage.output_tokens,
+          cacheCreationTokens: response.usage.cache_creation_input_tokens ?? 0,
+          cacheReadTokens: response.usage.cache_read_input_tokens ?? 0,
+          thinkingTokens: this.thinkingTokens(response, toolUses)
+        },
+        // Thinking blocks stay in the replayed content; the API requires them
+        // (signatures intact) when continuing a tool-use turn.
+        raw: response.content
+      };
+    } catch (error) {
+      if (error instanceof Anthropic.APIConnectionError) {
+        throw new ProviderError(`Anthropic API connection error: ${error.message}`, undefined, undefined, true);
+      }
+      if (error instanceof Anthropic.APIError) {
+        throw new ProviderError(
+          `Anthropic API error (${error.status}): ${error.message}`,
+          error.status,
+          parseRetryAfter(error.headers?.['retry-after'], error.headers?.['retry-after-ms'])
+        );
+      }
+      throw error;
+    }
+  }
+
+  /** Calculate cost in cents based on token usage and model pricing. */
+  calculateCost(model: string, usage: ProviderUsage): number {
+    return anthropicCostCents(model, usage, this.pricing);
+  }
+
+  /**
+   * Send a single request to the Messages API.
+   * With a text callback the request is streamed and deltas are forwarded
+   * as they arrive; the resolved value is the same final message either way.
+   */
+  private async createMessage(
+    params: ThinkingParams,
+    onText?: (delta: string) => void
+  ): Promise<CacheMessage> {
+    const api = this.anthropic.beta.promptCaching.messages;
+    if (!onText) {
+      return api.create(params);
+    }
+
+    const stream = api.stream(params);
+    stream.on('text', (delta) => onText(delta));
+    // The SDK's stream accumulator drops thinking deltas; collect them into
+    // the snapshot so the final message can be replayed in the tool loop.
+    stream.on('streamEvent', (event, snapshot) => {
+      if (event.type !== 'content_block_delta') return;
+      const delta = event.delta as unknown as ThinkingDelta;
+      const block = snapshot.content[event.index] as unknown as ThinkingBlock | undefined;
+      if (block?.type !== 'thinking') return;
+      if (delta.type === 'thinking_delta') block.thinking += delta.thinking;
+      else if (delta.type === 'signature_delta') block.signature = (block.signature || '') + delta.signature;
+    });
+    return stream.finalMessage();
+  }
+
+  /**
+   * Estimate the output tokens spent thinking. The API only reports total
+   * output tokens, so the visible part (text and tool calls, ~4 chars per
+   * token) is subtracted from it.
+   */
+  private thinkingTokens(response: CacheMessage, toolUses: Anthropic.ToolUseBlock[]): number {
+    const blocks = response.content as unknown as Array<{ type: string }>;
+    if (!blocks.some(b => b.type === 'thinking' || b.type === 'redacted_thinking')) return 0;
+
+    const visibleChars = response.content.reduce((sum, b) => sum + (b.type === 'text' ? b.text.length : 0), 0)
+      + toolUses.reduce((sum, b) => sum + b.name.length + JSON.stringify(b.input ?? {}).length, 0);
+    return Math.max(0, response.usage.output_tokens - Math.ceil(visibleChars / 4));
+  }
+
+  /** Translate a provider-neutral message into an Anthropic message param. */
+  private toMessageParam(message: ProviderMessage): CacheMessageParam {
+    switch (message.role) {
+      case 'user':
+        return {
+          role: 'user',
+          content: typeof message.content === 'string' ? message.content : this.toContentBlocks(message.content)
+        };
+      case 'assistant':
+        if (message.raw) {
+          return { role: 'assistant', content: message.raw as CacheMessage['content'] };
+        }
+        if (!message.toolCalls?.length) {
+          return { role: 'assistant', content: message.content };
+        }
+        return {
+          role: 'assistant',
+          content: [
+            ...(message.content ? [{ type: 'text' as const, text: message.content }] : []),
+            ...message.toolCalls.map(c => ({ type: 'tool_use' as const, id: c.id, name: c.name, input: c.input }))
+          ]
+        };
+      case 'tool':
+        return {
+          role: 'user',
+          content: message.results.map(r => ({
+            type: 'tool_result' as const,
+            tool_use_id: r.toolCallId,
+            content: r.content,
+            ...(r.isError ? { is_error: true } : {})
+          }))
+        };
+    }
+  }
+
+  /**
+   * Convert multi-part user content into content blocks. PDFs go as
+   * `document` blocks, which this SDK version has no type for yet.
+   */
+  private toContentBlocks(parts: ExecutorContentPart[]): CacheUserContent {
+    return parts.map(p => {
+      switch (p.type) {
+        case 'text':
+          return { type: 'text' as const, text: p.text };
+        case 'image':
+          return { type: 'image' as const, source: { type: 'base64' as const, media_type: p.mediaType, data: p.data } };
+        case 'document':
+          return {
+            type: 'document',
+            source: { type: 'base64', media_type: p.mediaType, data: p.data }
+          } as unknown as CacheUserContent[number];
+      }
+    });
+  }
+
+  /**
+   * Convert the system prompt into API form. Plain strings are sent as-is;
+   * block lists become text blocks with a cache breakpoint where requested.
+   */
+  private buildSystem(system: string | SystemPromptBlock[]): string | CacheTextBlock[] {
+    if (typeof system === 'string') return system;
+
+    const blocks = system.filter(b => b.text.trim());
+    return blocks.map((b, i) => ({
+      type: 'text' as const,
+      // Keep the section separator that the joined prompt would have had
+      text: i < blocks.length - 1 ? `${b.text}\n\n` : b.text,
+      ...(b.cache ? { cache_control: { type: 'ephemeral' as const } } : {})
+    }));
+  }
+}
+
+/**
+ * Cost in cents of Anthropic usage, at the model family's list price
+ * unless `pricing` overrides it. Cache writes and reads are priced
+ * relative to the model's input rate.
+ */
+export function anthropicCostCents(
+  model: string,
+  usage: Pick<ProviderUsage, 'tokensIn' | 'tokensOut'> & Partial<ProviderUsage>,
+  pricing?: { input: number; output: number }
+): number {
+  const p = pricing || PRICING[familyOf(model)];
+  const inputCostDollars = (usage.tokensIn / 1_000_000) * p.input;
+  const outputCostDollars = (usage.tokensOut / 1_000_000) * p.output;
+  const cacheWriteDollars = ((usage.cacheCreationTokens ?? 0) / 1_000_000) * p.input * CACHE_WRITE_MULTIPLIER;
+  const cacheReadDollars = ((usage.cacheReadTokens ?? 0) / 1_000_000) * p.input * CACHE_READ_MULTIPLIER;
+  return (inputCostDollars + outputCostDollars + cacheWriteDollars + cacheReadDollars) * 100;
+}
+
+/** Map a full model ID (e.g. claude-sonnet-4-5-...) to its pricing family. */
+function familyOf(model: string): keyof typeof PRICING {
+  if (model.includes('haiku')) return 'haiku';
+  if (model.includes('opus')) return 'opus';
+  return 'sonnet';
+}
@@ -0,0 +1,158 @@
+import { ExecutorProviderConfig } from '../../utils/config';
+import { ToolDefinition } from '../tools';
+import { ExecutorContentPart, SystemPromptBlock } from '../executor';
+
+/** A tool invocation requested by the model. */
+export interface ProviderToolCall {
+  id: string;
+  name: string;
+  input: unknown;
+}
+
+/** The outcome of running one tool call, fed back to the model. */
+export interface ProviderToolResult {
+  toolCallId: string;
+  name: string;
+  content: string;
+  isError?: boolean;
+}
+
+/**
+ * Provider-neutral conversation turn used by the executor's tool loop.
+ * Each provider translates these into its own wire format.
+ */
+export type ProviderMessage =
+  | { role: 'user'; content: string | ExecutorContentPart[] }
+  | {
+      role: 'assistant';
+      content: string;
+      toolCalls?: ProviderToolCall[];
+      /** Provider-native content, replayed verbatim by the provider that produced it. */
+      raw?: unknown;
+    }
+  | { role: 'tool'; results: ProviderToolResult[] };
+
+/** Token usage for a single provider call. */
+export interface ProviderUsage {
+  tokensIn: number;
+  tokensOut: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  /** Output tokens spent on extended thinking; already included in tokensOut. */
+  thinkingTokens: number;
+}
+
+/** A single completion request. */
+export interface ProviderRequest {
+  model: string;
+  system?: string | SystemPromptBlock[];
+  messages: ProviderMessage[];
+  tools?: ToolDefinition[];
+  maxTokens: number;
+  temperature?: number;
+  /**
+   * Token budget for extended thinking, on top of maxTokens.
+   * Providers without thinking support ignore it.
+   */
+  thinkingBudget?: number;
+  /** When set, the provider streams and forwards text deltas here. */
+  onText?: (delta: string) => void;
+}
+
+/** A single completion response. */
+export interface ProviderResponse {
+  text: string;
+  toolCalls: ProviderToolCall[];
+  stopReason: 'end' | 'tool_use' | 'max_tokens';
+  usage: ProviderUsage;
+  /** Provider-native assistant content, for replay in the next tool round. */
+  raw?: unknown;
+}
+
+/**
+ * A backend the executor can send completions to.
+ * Implementations own request translation, tool-call format and pricing.
+ */
+export interface ExecutorProvider {
+  readonly type: ExecutorProviderConfig['type'];
+  complete(request: ProviderRequest): Promise<ProviderResponse>;
+  /** Cost in cents for the given usage of a model on this provider. */
+  calculateCost(model: string, usage: ProviderUsage): number;
+}
+
+/** HTTP statuses worth retrying: timeouts, conflicts, rate limits, overload, 5xx. */
+const RETRYABLE_STATUSES = new Set([408, 409, 429, 500, 502, 503, 504, 529]);
+
+/**
+ * Error thrown by providers for failed API calls.
+ * Carries enough detail for the executor to decide whether to retry,
+ * how long to wait, and whether to fall back to another model.
+ */
+export class ProviderError extends Error {
+  /** Retries spent before giving up; filled in by the executor. */
+  retries = 0;
+
+  constructor(
+    message: string,
+    public status?: number,
+    public retryAfterMs?: number,
+    /** Network failures and timeouts have no status but are still transient. */
+    public transient = false
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+
+  get retryable(): boolean {
+    return this.transient || (this.status !== undefined && RETRYABLE_STATUSES.has(this.status));
+  }
+}
+
+/**
+ * Parse a `retry-after` header (seconds or HTTP date) or `retry-after-ms`
+ * into milliseconds. Returns undefined when absent or unparseable.
+ */
+export function parseRetryAfter(retryAfter?: string | null, retryAfterMs?: string | null): number | undefined {
+  if (retryAfterMs) {
+    const ms = Number(retryAfterMs);
+    if (Number.isFinite(ms) && ms >= 0) return ms;
+  }
+  if (!retryAfter) return undefined;
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds) && seconds >= 0) return seconds * 1000;
+  const date = Date.parse(retryAfter);
+  if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  return undefined;
+}
+
+/** Empty usage record, for accumulating across tool rounds. */
+export function emptyUsage(): ProviderUsage {
+  return { tokensIn: 0, tokensOut: 0, cacheCreationTokens: 0, cacheReadTokens: 0, thinkingTokens: 0 };
+}
+
+/** Flatten a system prompt into plain text for providers without block support. */
+export function systemToText(system: string | SystemPromptBlock[]): string {
+  if (typeof system === 'string') return system;
+  return system.map(b => b.text).filter(t => t.trim()).join('\n\n');
+}
+
+/**
+ * Create a provider instance from its config.
+ * Anthropic is the built-in default; Ollama and OpenAI-compatible servers
+ * share the `/v1/chat/completions` implementation.
+ */
+export async function createProvider(config: ExecutorProviderConfig): Promise<ExecutorProvider> {
+  switch (config.type) {
+    case 'anthropic':
+      const { AnthropicProvider } = await import('./anthropic');
+      return new AnthropicProvider(config);
+
+    case 'ollama':
+    case 'openai':
+      const { OpenAICompatibleProvider } = await import('./openai-compatible');
+      return new OpenAICompatibleProvider(config);
+
+    default:
+      throw new Error(`Unknown executor provider type: ${(config as { type: string }).type}`);
+  }
+}
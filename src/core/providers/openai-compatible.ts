@@ -0,0 +1,330 @@
+import { ExecutorProviderConfig } from '../../utils/config';
+import { ExecutorContentPart } from '../executor';
+import {
+  ExecutorProvider,
+  parseRetryAfter,
+  ProviderError,
+  ProviderMessage,
+  ProviderRequest,
+  ProviderResponse,
+  ProviderToolCall,
+  ProviderUsage,
+  systemToText
+} from './interface';
+
+/** Default request timeout; local models can be slow on first load. */
+const DEFAULT_TIMEOUT_MS = 120_000;
+
+/** Wire format for one part of a multi-part user message. */
+type ChatContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+/** Wire format for an OpenAI-style chat message. */
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | ChatContentPart[] | null;
+  tool_calls?: Array<{ id: string; type: 'function'; function: { name: string; arguments: string } }>;
+  tool_call_id?: string;
+}
+
+/** Wire format for a non-streamed chat completion. */
+interface ChatCompletion {
+  choices: Array<{
+    message: {
+      content: string | null;
+      tool_calls?: Array<{ id?: string; function: { name: string; arguments: string | object } }>;
+    };
+    finish_reason: string | null;
+  }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+/** Wire format for one streamed chunk. */
+interface ChatCompletionChunk {
+  choices?: Array<{
+    delta?: {
+      content?: string | null;
+      tool_calls?: Array<{ index?: number; id?: string; function?: { name?: string; arguments?: string } }>;
+    };
+    finish_reason?: string | null;
+  }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+/**
+ * Executor provider for any server exposing `/v1/chat/completions`:
+ * Ollama, llama.cpp, vLLM, LM Studio, OpenAI itself, etc.
+ *
+ * Tool definitions are sent as OpenAI `function` tools and tool calls
+ * come back as `tool_calls` with JSON-encoded arguments.
+ */
+export class OpenAICompatibleProvider implements ExecutorProvider {
+  readonly type: 'ollama' | 'openai';
+  private baseUrl: string;
+  private apiKey?: string;
+  private timeoutMs: number;
+  private pricing: { input: number; output: number };
+
+  constructor(config: ExecutorProviderConfig) {
+    this.type = config.type === 'ollama' ? 'ollama' : 'openai';
+    // Ollama's endpoint is the server root; OpenAI-style endpoints include /v1
+    const endpoint = (config.endpoint || (this.type === 'ollama' ? 'http://localhost:11434' : '')).replace(/\/+$/, '');
+    if (!endpoint) {
+      throw new Error('OpenAI-compatible provider requires an endpoint (e.g. http://localhost:8080/v1)');
+    }
+    this.baseUrl = this.type === 'ollama' ? `${endpoint}/v1` : endpoint;
+    this.apiKey = config.apiKey;
+    this.timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    // Local servers cost nothing unless the operator says otherwise
+    this.pricing = config.pricing || { input: 0, output: 0 };
+  }
+
+  async complete(request: ProviderRequest): Promise<ProviderResponse> {
+    const messages: ChatMessage[] = [];
+    if (request.system) {
+      messages.push({ role: 'system', content: systemToText(request.system) });
+    }
+    for (const m of request.messages) {
+      messages.push(...this.toChatMessages(m));
+    }
+
+    const body: Record<string, unknown> = {
+      model: request.model,
+      messages,
+      max_tokens: request.maxTokens,
+      stream: !!request.onText
+    };
+    if (request.temperature !== undefined) {
+      body.temperature = request.temperature;
+    }
+    if (request.tools?.length) {
+      body.tools = request.tools.map(t => ({
+        type: 'function',
+        function: { name: t.name, description: t.description, parameters: t.input_schema }
+      }));
+    }
+    if (request.onText) {
+      body.stream_options = { include_usage: true };
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+        },
+        body: JSON.stringify(body),
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        const text = await response.text().catch(() => '');
+        throw new ProviderError(
+          `${this.type} API error (${response.status}): ${text || response.statusText}`,
+          response.status,
+          parseRetryAfter(response.headers.get('retry-after'), response.headers.get('retry-after-ms'))
+        );
+      }
+
+      return request.onText
+        ? await this.readStream(response, request.onText)
+        : this.parseCompletion(await response.json() as ChatCompletion);
+    } catch (error: any) {
+      if (error.name === 'AbortError') {
+        throw new ProviderError(
+          `${this.type} request timed out after ${Math.round(this.timeoutMs / 1000)}s (endpoint: ${this.baseUrl}, model: ${request.model})`,
+          undefined, undefined, true
+        );
+      }
+      if (error instanceof TypeError) {
+        // fetch() rejects with a TypeError on network failures (refused, reset, DNS)
+        throw new ProviderError(`${this.type} connection error (${this.baseUrl}): ${error.message}`, undefined, undefined, true);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  calculateCost(_model: string, usage: ProviderUsage): number {
+    const inputCostDollars = ((usage.tokensIn + usage.cacheCreationTokens + usage.cacheReadTokens) / 1_000_000) * this.pricing.input;
+    const outputCostDollars = (usage.tokensOut / 1_000_000) * this.pricing.output;
+    return (inputCostDollars + outputCostDollars) * 100;
+  }
+
+  /** Translate a provider-neutral message into one or more chat messages. */
+  private toChatMessages(message: ProviderMessage): ChatMessage[] {
+    switch (message.role) {
+      case 'user':
+        return [{
+          role: 'user',
+          content: typeof message.content === 'string' ? message.content : message.content.map(toChatContentPart)
+        }];
+      case 'assistant':
+        if (!message.toolCalls?.length) {
+          return [{ role: 'assistant', content: message.content }];
+        }
+        return [{
+          role: 'assistant',
+          content: message.content || null,
+          tool_calls: message.toolCalls.map(c => ({
+            id: c.id,
+            type: 'function' as const,
+            function: { name: c.name, arguments: JSON.stringify(c.input ?? {}) }
+          }))
+        }];
+      case 'tool':
+        return message.results.map(r => ({
+          role: 'tool' as const,
+          tool_call_id: r.toolCallId,
+          content: r.content
+        }));
+    }
+  }
+
+  /** Parse a non-streamed completion into the neutral response shape. */
+  private parseCompletion(data: ChatCompletion): ProviderResponse {
+    const choice = data.choices?.[0];
+    if (!choice) {
+      throw new Error(`${this.type} API returned no choices`);
+    }
+
+    const toolCalls: ProviderToolCall[] = (choice.message.tool_calls || []).map((c, i) => ({
+      id: c.id || `call_${i}`,
+      name: c.function.name,
+      input: parseArguments(c.function.arguments)
+    }));
+
+    return {
+      text: choice.message.content || '',
+      toolCalls,
+      stopReason: this.stopReason(choice.finish_reason, toolCalls.length),
+      usage: {
+        tokensIn: data.usage?.prompt_tokens ?? 0,
+        tokensOut: data.usage?.completion_tokens ?? 0,
+        cacheCreationTokens: 0,
+        cacheReadTokens: 0,
+        thinkingTokens: 0
+      }
+    };
+  }
+
+  /**
+   * Consume a server-sent event stream, forwarding text deltas and
+   * reassembling tool calls whose arguments arrive in fragments.
+   */
+  private async readStream(response: Response, onText: (delta: string) => void): Promise<ProviderResponse> {
+    if (!response.body) {
+      throw new Error(`${this.type} API returned an empty stream`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    const pending = new Map<number, { id?: string; name: string; args: string }>();
+    let buffer = '';
+    let text = '';
+    let finishReason: string | null = null;
+    let usage: ChatCompletionChunk['usage'];
+
+    const handleLine = (line: string) => {
+      if (!line.startsWith('data:')) return;
+      const payload = line.slice(5).trim();
+      if (!payload || payload === '[DONE]') return;
+
+      let chunk: ChatCompletionChunk;
+      try {
+        chunk = JSON.parse(payload);
+      } catch {
+        // A garbled chunk is most likely a cut connection; worth another try
+        throw new ProviderError(`${this.type} sent a malformed stream chunk: ${payload.slice(0, 100)}`, undefined, undefined, true);
+      }
+      if (chunk.usage) usage = chunk.usage;
+      const choice = chunk.choices?.[0];
+      if (!choice) return;
+
+      if (choice.delta?.content) {
+        text += choice.delta.content;
+        onText(choice.delta.content);
+      }
+      for (const [i, call] of (choice.delta?.tool_calls || []).entries()) {
+        const index = call.index ?? i;
+        const entry = pending.get(index) || { name: '', args: '' };
+        if (call.id) entry.id = call.id;
+        if (call.function?.name) entry.name += call.function.name;
+        if (call.function?.arguments) entry.args += call.function.arguments;
+        pending.set(index, entry);
+      }
+      if (choice.finish_reason) finishReason = choice.finish_reason;
+    };
+
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) !== -1) {
+        handleLine(buffer.slice(0, newline).trim());
+        buffer = buffer.slice(newline + 1);
+      }
+    }
+    handleLine(buffer.trim());
+
+    const toolCalls: ProviderToolCall[] = [...pending.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([index, c]) => ({ id: c.id || `call_${index}`, name: c.name, input: parseArguments(c.args) }));
+
+    return {
+      text,
+      toolCalls,
+      stopReason: this.stopReason(finishReason, toolCalls.length),
+      usage: {
+        tokensIn: usage?.prompt_tokens ?? 0,
+        tokensOut: usage?.completion_tokens ?? 0,
+        cacheCreationTokens: 0,
+        cacheReadTokens: 0,
+        thinkingTokens: 0
+      }
+    };
+  }
+
+  /**
+   * Normalize finish reasons. Some servers (notably Ollama) report "stop"
+   * even when the message carries tool calls, so trust the calls themselves.
+   */
+  private stopReason(finishReason: string | null, toolCallCount: number): ProviderResponse['stopReason'] {
+    if (toolCallCount > 0 || finishReason === 'tool_calls') return 'tool_use';
+    if (finishReason === 'length') return 'max_tokens';
+    return 'end';
+  }
+}
+
+/**
+ * Images are sent as data URLs (the server's model must support vision).
+ * The chat format has no document type, so PDFs are replaced by a note.
+ */
+function toChatContentPart(part: ExecutorContentPart): ChatContentPart {
+  switch (part.type) {
+    case 'text':
+      return { type: 'text', text: part.text };
+    case 'image':
+      return { type: 'image_url', image_url: { url: `data:${part.mediaType};base64,${part.data}` } };
+    case 'document':
+      return { type: 'text', text: `[PDF "${part.name || 'document'}" attached, but this model cannot read documents. Tell the user.]` };
+  }
+}
+
+/** Tool arguments arrive as a JSON string (or, from some servers, an object). */
+function parseArguments(args: string | object | undefined): unknown {
+  if (!args) return {};
+  if (typeof args === 'object') return args;
+  try {
+    return JSON.parse(args);
+  } catch {
+    return {};
+  }
+}
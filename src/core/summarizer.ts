@@ -1,5 +1,6 @@
 import { Database } from '../db/interface';
 import { Executor } from './executor';
+import { getConfig } from '../utils/config';
 
 /** Configuration for the summarizer. */
 export interface SummarizerConfig {
@@ -43,7 +44,8 @@ export class Summarizer {
   async summarizeIfNeeded(conversationId: string): Promise<string | null> {
     const messages = await this.db.getMessages(conversationId, 100);
 
-    if (messages.length < this.config.messageThreshold) {
+    // Tool records ride along with their assistant reply; don't count them as turns
+    if (messages.filter(m => m.role !== 'tool').length < this.config.messageThreshold) {
       return null;
     }
 
@@ -81,15 +83,17 @@ export class Summarizer {
       if (msg.role === 'user' || msg.role === 'assistant') {
         const label = msg.role === 'user' ? 'User' : 'Assistant';
         parts.push(`${label}: ${msg.content}`);
+      } else if (msg.role === 'tool') {
+        parts.push(`Assistant used tool: ${msg.content}`);
       }
     }
 
     const conversationText = parts.join('\n');
 
-    // Use Haiku for cost-efficient summarization
+    // Use the simple tier (Haiku by default) for cost-efficient summarization
     const result = await this.executor.execute(
       [{ role: 'user', content: conversationText }],
-      'haiku',
+      getConfig().ai?.executor?.simple || 'haiku',
       {
         systemPrompt: SUMMARIZE_PROMPT,
         maxTokens: 256,
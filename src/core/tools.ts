@@ -2,22 +2,76 @@ import { URL } from 'url';
 import * as dns from 'dns';
 import { promisify } from 'util';
 import { v4 as uuidv4 } from 'uuid';
-import type { Database } from '../db/interface';
+import type { Database, MessageChannel, Reminder, ReminderUpdates } from '../db/interface';
 import type { ScriptRunner } from '../services/script-runner';
 import type { GoogleCalendarService } from '../services/google-calendar';
 import type { GmailService } from '../services/gmail';
+import type { FileAccessService } from '../services/file-access';
+import { citation } from '../services/document-index';
+import { DEFAULT_ROW_LIMIT, MAX_ROW_LIMIT, TableQueryService } from '../services/table-query';
+import { UserSettingsService } from '../services/user-settings';
+import { pageExcerpt, WebSearchService } from '../services/web-search';
+import { ReminderService } from '../services/reminders';
+import { accountId } from '../utils/account';
 import { getConfig } from '../utils/config';
+import { isValidTimezone, parseDateTime, toZonedDate, toZonedIso, zonedTimeToDate } from '../utils/timezone';
+import { parseWhen } from '../utils/date-parser';
+import { nextOccurrence, parseRecurrence, Recurrence } from '../utils/recurrence';
 
 const dnsLookup = promisify(dns.lookup);
 
 // ─── Tool Definition Interface ───────────────────────────────────────────────
 
+/**
+ * How much a tool call can affect the outside world:
+ * - none: read-only (listing, searching, fetching)
+ * - low:  changes the user's own data (adding a reminder or contact)
+ * - high: outbound or destructive (sending email, deleting events/contacts)
+ *
+ * High-risk calls wait for the user's approval unless their policy says otherwise.
+ */
+export type ToolRisk = 'none' | 'low' | 'high';
+
 /** A tool that can be provided to the executor for Claude to call. */
 export interface ToolDefinition {
   name: string;
   description: string;
   input_schema: Record<string, unknown>;
   handler: (input: any) => Promise<unknown>;
+  /** Risk of a call; a function when it depends on the action. Defaults to 'none'. */
+  risk?: ToolRisk | ((input: any) => ToolRisk);
+  /** Short description of a call for the confirmation prompt, e.g. "Send an email to kai@…". */
+  describe?: (input: any) => string | Promise<string>;
+}
+
+/** Name, description and highest risk of a tool, known without building it (used by the tools page). */
+interface ToolMeta {
+  name: string;
+  description: string;
+  /** Risk of the riskiest call the tool can make. */
+  maxRisk: ToolRisk;
+}
+
+/** Resolve the risk of a specific tool call. */
+export function getToolRisk(tool: ToolDefinition, input: unknown): ToolRisk {
+  if (!tool.risk) return 'none';
+  return typeof tool.risk === 'function' ? tool.risk(input ?? {}) : tool.risk;
+}
+
+/** Describe a tool call for a confirmation prompt, falling back to its name and input. */
+export async function describeToolCall(tool: ToolDefinition, input: unknown): Promise<string> {
+  if (tool.describe) {
+    try {
+      return await tool.describe(input ?? {});
+    } catch {
+      // Fall through to the generic description
+    }
+  }
+  return `Run ${tool.name} with ${JSON.stringify(input ?? {})}`;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
 }
 
 // ─── SSRF Protection ─────────────────────────────────────────────────────────
@@ -350,12 +404,85 @@ const fetchUrlTool: ToolDefinition = {
   }
 };
 
+// ─── Tool: web_search (service-backed factory) ──────────────────────────────
+
+/** Metadata for the web_search tool (used for tool selector UI). */
+const WEB_SEARCH_META: ToolMeta = {
+  name: 'web_search',
+  description: 'Search the web when you don\'t already know the URL. Returns ranked results with title, URL and snippet; the top results also include an excerpt of the page itself. Use fetch_url to read a result in full, and name the URLs you used in your answer.',
+  maxRisk: 'none'
+};
+
+/** Schema for the web_search tool. */
+const WEB_SEARCH_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  properties: {
+    query: {
+      type: 'string',
+      description: 'What to search for, as you would type it into a search engine.'
+    },
+    limit: {
+      type: 'number',
+      description: 'Maximum number of results (default 5, max 10).'
+    },
+    fetch: {
+      type: 'number',
+      description: 'How many of the top results to read for a page excerpt (default 2, max 3; 0 for snippets only).'
+    }
+  },
+  required: ['query']
+};
+
+/** Tools that are only given to users who turn them on, or to skills that list them. */
+export const OPT_IN_TOOLS = ['web_search'];
+
+/**
+ * Create a web_search tool. The search backend is trusted configuration;
+ * the result pages are not, so they are read through safeFetch.
+ */
+function createWebSearchTool(webSearch: WebSearchService): ToolDefinition {
+  return {
+    name: WEB_SEARCH_META.name,
+    description: WEB_SEARCH_META.description,
+    input_schema: WEB_SEARCH_SCHEMA,
+    handler: async (input: { query: string; limit?: number; fetch?: number }) => {
+      try {
+        if (!input.query?.trim()) {
+          return { error: 'query is required.' };
+        }
+        const limit = Math.min(Math.max(1, input.limit || webSearch.maxResults), 10);
+        const fetchTop = Math.min(Math.max(0, input.fetch ?? webSearch.fetchTop), 3);
+
+        const results = await webSearch.search(input.query, limit);
+        const pages = await Promise.all(results.slice(0, fetchTop).map(async r => {
+          try {
+            const content = await safeFetch(r.url, 1024 * 1024);
+            const isHtml = /<(!doctype|html|head|body)[\s>]/i.test(content.substring(0, 500));
+            return { excerpt: pageExcerpt(isHtml ? stripHtml(content) : content, input.query) };
+          } catch (err: any) {
+            return { fetchError: err.message as string };
+          }
+        }));
+
+        return {
+          results: results.map((r, i) => ({ ...r, ...pages[i] })),
+          total: results.length
+        };
+      } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        return { error: `Web search error: ${message}` };
+      }
+    }
+  };
+}
+
 // ─── Tool: manage_reminders (user-scoped factory) ───────────────────────────
 
 /** Metadata for the manage_reminders tool (used for tool selector UI). */
-const MANAGE_REMINDERS_META = {
+const MANAGE_REMINDERS_META: ToolMeta = {
   name: 'manage_reminders',
-  description: 'Add, list, find, complete, or remove reminders for the user. Supports searching by text so you can complete or remove reminders by description without needing the ID. You MUST call this tool for any reminder operation — never fake a response.'
+  description: 'Add, list, find, complete, snooze, or remove reminders for the user, including repeating ones ("every weekday at 8am"). Supports searching by text so you can complete, snooze or remove reminders by description without needing the ID. You MUST call this tool for any reminder operation — never fake a response.',
+  maxRisk: 'low'
 };
 
 /** Schema for the manage_reminders tool. */
@@ -364,8 +491,8 @@ const MANAGE_REMINDERS_SCHEMA: Record<string, unknown> = {
   properties: {
     action: {
       type: 'string',
-      enum: ['add', 'list', 'find', 'complete', 'remove', 'set_due'],
-      description: 'The action to perform: add a new reminder, list existing reminders, find reminders by text, complete a reminder, remove a reminder, or set/change a due date.'
+      enum: ['add', 'list', 'find', 'complete', 'snooze', 'remove', 'set_due'],
+      description: 'The action to perform: add a new reminder, list existing reminders, find reminders by text, complete a reminder (for a repeating one, just this occurrence), snooze a notified reminder, remove a reminder (ends a repeating one), or set/change a due date or repeat.'
     },
     text: {
       type: 'string',
@@ -373,15 +500,23 @@ const MANAGE_REMINDERS_SCHEMA: Record<string, unknown> = {
     },
     reminderId: {
       type: 'string',
-      description: 'The reminder ID (required for "remove" and "set_due" actions; optional for "complete" if searchText is provided).'
+      description: 'The reminder ID (required for "remove" and "set_due" actions; optional for "complete" and "snooze" if searchText is provided).'
     },
     searchText: {
       type: 'string',
-      description: 'Search text to find reminders by description (case-insensitive substring match). Use with "find" action to search, or with "complete"/"remove" action to find-and-act in one step.'
+      description: 'Search text to find reminders by description (case-insensitive substring match). Use with "find" action to search, or with "complete"/"snooze"/"remove" action to find-and-act in one step.'
     },
     dueAt: {
       type: 'string',
-      description: 'ISO 8601 datetime when this reminder is due (optional for "add", required for "set_due"). Parse natural language times into ISO format, e.g. "tomorrow at 3pm" → "2026-02-02T15:00:00". Set to null to clear a due date.'
+      description: 'When this reminder is due (optional for "add", required for "set_due" unless repeat is given). Pass the user\'s own words, e.g. "tomorrow at 9", "next Friday evening", "in 2 hours" or "March 5 at 3pm"; they are resolved in the user\'s timezone. An ISO 8601 local time without an offset also works. Set to null to clear a due date.'
+    },
+    repeat: {
+      type: 'string',
+      description: 'How the reminder repeats, for "add" and "set_due": the user\'s words ("every weekday at 8am", "every Monday", "monthly on the 1st"), a preset (daily, weekdays, weekly, monthly, yearly) or an RRULE like "FREQ=WEEKLY;BYDAY=MO,WE". Without a time it keeps the time of dueAt. Set to null to stop repeating.'
+    },
+    minutes: {
+      type: 'number',
+      description: 'How long to snooze, in minutes (for "snooze", default 10).'
     },
     includeComplete: {
       type: 'boolean',
@@ -391,18 +526,68 @@ const MANAGE_REMINDERS_SCHEMA: Record<string, unknown> = {
   required: ['action']
 };
 
-/** Create a user-scoped manage_reminders tool instance. */
-function createRemindersTool(userId: string, db: Database): ToolDefinition {
+/** Create a user-scoped manage_reminders tool instance. Times are read and shown in the user's timezone. */
+function createRemindersTool(userId: string, db: Database, timezone: string, reminders: ReminderService): ToolDefinition {
+  const local = (date?: Date | null) => (date ? toZonedIso(date, timezone) : null);
+
+  /** Resolve a due date phrase, or explain why it can't be used (including a time already past). */
+  const resolveDue = (text: string): { date: Date } | { error: string } => {
+    const when = parseWhen(text, timezone);
+    if (!when) {
+      return { error: `Couldn't understand dueAt "${text}". Use a phrase like "tomorrow at 9" or "in 2 hours", or an ISO 8601 date/time.` };
+    }
+    if (when.kind === 'recurring') {
+      return { error: `dueAt is a single date/time; "${text}" means ${when.description}, so pass it as repeat instead.` };
+    }
+    if (when.date.getTime() <= Date.now()) {
+      return { error: `dueAt "${text}" is ${local(when.date)}, which has already passed. Ask the user for a time in the future.` };
+    }
+    return { date: when.date };
+  };
+
+  /**
+   * Resolve dueAt and repeat together. A repeat without a due date starts
+   * at its next occurrence; one without a time takes the due date's time.
+   */
+  const resolveSchedule = (dueText?: string | null, repeatText?: string | null):
+    { dueAt?: Date; recurrence?: Recurrence } | { error: string } => {
+    let dueAt: Date | undefined;
+    if (dueText) {
+      const due = resolveDue(dueText);
+      if ('error' in due) return due;
+      dueAt = due.date;
+    }
+    if (!repeatText) return { dueAt };
+
+    const recurrence = parseRecurrence(repeatText, timezone, dueAt);
+    if (!recurrence) {
+      return { error: `Couldn't understand repeat "${repeatText}". Use a phrase like "every weekday at 8am", a preset (daily, weekdays, weekly, monthly, yearly) or an RRULE.` };
+    }
+    return { dueAt: dueAt ?? nextOccurrence(recurrence.cron, timezone) ?? undefined, recurrence };
+  };
+
+  const summarize = (r: Reminder) => ({
+    id: r.id,
+    text: r.text,
+    dueAt: local(r.dueAt),
+    repeats: r.recurrenceText || null
+  });
+
   return {
     name: MANAGE_REMINDERS_META.name,
     description: MANAGE_REMINDERS_META.description,
     input_schema: MANAGE_REMINDERS_SCHEMA,
+    risk: (input: { action?: string }) => (input.action === 'list' || input.action === 'find' ? 'none' : 'low'),
+    describe: (input: { action: string; text?: string; searchText?: string; reminderId?: string }) =>
+      `${capitalize(input.action.replace('_', ' '))} reminder "${input.text || input.searchText || input.reminderId || ''}"`,
     handler: async (input: {
-      action: 'add' | 'list' | 'find' | 'complete' | 'remove' | 'set_due';
+      action: 'add' | 'list' | 'find' | 'complete' | 'snooze' | 'remove' | 'set_due';
       text?: string;
       reminderId?: string;
       searchText?: string;
       dueAt?: string | null;
+      repeat?: string | null;
+      minutes?: number;
       includeComplete?: boolean;
     }) => {
       // Helper: find reminders matching searchText (case-insensitive substring)
@@ -412,42 +597,61 @@ function createRemindersTool(userId: string, db: Database): ToolDefinition {
         return all.filter(r => r.text.toLowerCase().includes(query));
       };
 
+      // Helper: the single reminder named by reminderId or searchText
+      const findOne = async (action: string): Promise<{ reminder: Reminder } | { error: string; matches?: unknown[] }> => {
+        if (input.reminderId) {
+          const reminder = await db.getReminder(input.reminderId);
+          if (!reminder || reminder.userId !== userId) return { error: `Reminder not found: ${input.reminderId}` };
+          return { reminder };
+        }
+        if (!input.searchText?.trim()) {
+          return { error: `reminderId or searchText is required for "${action}" action.` };
+        }
+        const matches = await findByText(input.searchText);
+        if (matches.length === 0) {
+          return { error: `No active reminders found matching "${input.searchText}".` };
+        }
+        if (matches.length > 1) {
+          return {
+            error: 'Multiple reminders match that description. Please be more specific or use the reminderId.',
+            matches: matches.map(summarize)
+          };
+        }
+        return { reminder: matches[0] };
+      };
+
       switch (input.action) {
         case 'add': {
           if (!input.text?.trim()) {
             return { error: 'Reminder text is required for "add" action.' };
           }
-          const dueAt = input.dueAt ? new Date(input.dueAt) : undefined;
+          const schedule = resolveSchedule(input.dueAt, input.repeat);
+          if ('error' in schedule) return schedule;
           const reminder = await db.createReminder({
             id: uuidv4(),
             userId,
             text: input.text.trim(),
             isComplete: false,
-            dueAt
+            dueAt: schedule.dueAt,
+            recurrence: schedule.recurrence?.cron,
+            recurrenceText: schedule.recurrence?.description
           });
           return {
             success: true,
-            reminder: {
-              id: reminder.id,
-              text: reminder.text,
-              createdAt: reminder.createdAt.toISOString(),
-              dueAt: reminder.dueAt?.toISOString() || null
-            }
+            reminder: { ...summarize(reminder), createdAt: local(reminder.createdAt) }
           };
         }
         case 'list': {
-          const reminders = await db.getReminders(userId, input.includeComplete ?? false);
+          const list = await db.getReminders(userId, input.includeComplete ?? false);
           return {
-            reminders: reminders.map(r => ({
-              id: r.id,
-              text: r.text,
+            reminders: list.map(r => ({
+              ...summarize(r),
               isComplete: r.isComplete,
-              createdAt: r.createdAt.toISOString(),
-              completedAt: r.completedAt?.toISOString() || null,
-              dueAt: r.dueAt?.toISOString() || null,
-              notifiedAt: r.notifiedAt?.toISOString() || null
+              createdAt: local(r.createdAt),
+              completedAt: local(r.completedAt),
+              notifiedAt: local(r.notifiedAt)
             })),
-            total: reminders.length
+            total: list.length
           };
         }
         case 'find': {
@@ -456,83 +660,54 @@ function createRemindersTool(userId: string, db: Database): ToolDefinition {
           }
           const matches = await findByText(input.searchText);
           return {
-            reminders: matches.map(r => ({
-              id: r.id,
-              text: r.text,
-              isComplete: r.isComplete,
-              dueAt: r.dueAt?.toISOString() || null
-            })),
+            reminders: matches.map(r => ({ ...summarize(r), isComplete: r.isComplete })),
             total: matches.length
           };
         }
         case 'complete': {
-          // Allow completing by searchText (find-and-complete in one step)
-          if (!input.reminderId && input.searchText?.trim()) {
-            const matches = await findByText(input.searchText);
-            if (matches.length === 0) {
-              return { error: `No active reminders found matching "${input.searchText}".` };
-            }
-            if (matches.length > 1) {
-              return {
-                error: 'Multiple reminders match that description. Please be more specific or use the reminderId.',
-                matches: matches.map(r => ({ id: r.id, text: r.text, dueAt: r.dueAt?.toISOString() || null }))
-              };
-            }
-            const match = matches[0];
-            const updated = await db.updateReminder(match.id, { isComplete: true });
-            return {
-              success: true,
-              reminder: { id: updated.id, text: updated.text, isComplete: updated.isComplete }
-            };
-          }
-          if (!input.reminderId) {
-            return { error: 'reminderId or searchText is required for "complete" action.' };
-          }
-          const updated = await db.updateReminder(input.reminderId, { isComplete: true });
+          const found = await findOne('complete');
+          if ('error' in found) return found;
+          const updated = await reminders.done(found.reminder);
           return {
             success: true,
-            reminder: { id: updated.id, text: updated.text, isComplete: updated.isComplete }
+            reminder: { ...summarize(updated), isComplete: updated.isComplete },
+            ...(updated.isComplete ? {} : { note: 'Repeating reminder: this occurrence is done and it moved to the next one. Use "remove" to stop it.' })
           };
         }
+        case 'snooze': {
+          const found = await findOne('snooze');
+          if ('error' in found) return found;
+          const updated = await reminders.snooze(found.reminder, input.minutes);
+          return { success: true, reminder: summarize(updated) };
+        }
         case 'remove': {
-          // Allow removing by searchText (find-and-remove in one step)
-          if (!input.reminderId && input.searchText?.trim()) {
-            const matches = await findByText(input.searchText);
-            if (matches.length === 0) {
-              return { error: `No active reminders found matching "${input.searchText}".` };
-            }
-            if (matches.length > 1) {
-              return {
-                error: 'Multiple reminders match that description. Please be more specific or use the reminderId.',
-                matches: matches.map(r => ({ id: r.id, text: r.text, dueAt: r.dueAt?.toISOString() || null }))
-              };
-            }
-            await db.deleteReminder(matches[0].id);
-            return { success: true, removed: matches[0].id, text: matches[0].text };
-          }
-          if (!input.reminderId) {
-            return { error: 'reminderId or searchText is required for "remove" action.' };
-          }
-          await db.deleteReminder(input.reminderId);
-          return { success: true, removed: input.reminderId };
+          const found = await findOne('remove');
+          if ('error' in found) return found;
+          await db.deleteReminder(found.reminder.id);
+          return { success: true, removed: found.reminder.id, text: found.reminder.text };
         }
         case 'set_due': {
           if (!input.reminderId) {
             return { error: 'reminderId is required for "set_due" action.' };
           }
-          const newDueAt = input.dueAt ? new Date(input.dueAt) : undefined;
-          const updatedReminder = await db.updateReminder(input.reminderId, { dueAt: newDueAt });
-          return {
-            success: true,
-            reminder: {
-              id: updatedReminder.id,
-              text: updatedReminder.text,
-              dueAt: updatedReminder.dueAt?.toISOString() || null
-            }
-          };
+          const existing = await db.getReminder(input.reminderId);
+          if (!existing || existing.userId !== userId) {
+            return { error: `Reminder not found: ${input.reminderId}` };
+          }
+          const schedule = resolveSchedule(input.dueAt, input.repeat);
+          if ('error' in schedule) return schedule;
+
+          const updates: ReminderUpdates = { notifiedAt: null };
+          if (input.dueAt !== undefined || schedule.dueAt) updates.dueAt = schedule.dueAt ?? null;
+          if (input.repeat !== undefined) {
+            updates.recurrence = schedule.recurrence?.cron ?? null;
+            updates.recurrenceText = schedule.recurrence?.description ?? null;
+          }
+          const updatedReminder = await db.updateReminder(input.reminderId, updates);
+          return { success: true, reminder: summarize(updatedReminder) };
         }
         default:
-          return { error: `Unknown action: ${input.action}. Use add, list, find, complete, remove, or set_due.` };
+          return { error: `Unknown action: ${input.action}. Use add, list, find, complete, snooze, remove, or set_due.` };
       }
     }
   };
@@ -541,9 +716,10 @@ function createRemindersTool(userId: string, db: Database): ToolDefinition {
 // ─── Tool: run_script (user-scoped factory) ──────────────────────────────────
 
 /** Metadata for the run_script tool. */
-const RUN_SCRIPT_META = {
+const RUN_SCRIPT_META: ToolMeta = {
   name: 'run_script',
-  description: 'Run a saved script by name. Use this to execute data processing scripts like CSV comparison. Scripts are Python programs that accept JSON inputs and produce JSON output.'
+  description: 'Run a saved script by name. Use this to execute data processing scripts like CSV comparison. Scripts are Python programs that accept JSON inputs and produce JSON output.',
+  maxRisk: 'low'
 };
 
 /** Schema for the run_script tool. */
@@ -568,6 +744,8 @@ function createRunScriptTool(userId: string, db: Database, scriptRunner: ScriptR
     name: RUN_SCRIPT_META.name,
     description: RUN_SCRIPT_META.description,
     input_schema: RUN_SCRIPT_SCHEMA,
+    risk: RUN_SCRIPT_META.maxRisk,
+    describe: (input: { script_name: string }) => `Run the script "${input.script_name}"`,
     handler: async (input: { script_name: string; inputs: Record<string, unknown> }) => {
       // Look up script by name (user's own + shared)
       const allScripts = await db.getScripts(userId);
@@ -601,9 +779,10 @@ function createRunScriptTool(userId: string, db: Database, scriptRunner: ScriptR
 // ─── Tool: send_email (user-scoped factory) ─────────────────────────────────
 
 /** Metadata for the send_email tool. */
-const SEND_EMAIL_META = {
+const SEND_EMAIL_META: ToolMeta = {
   name: 'send_email',
-  description: 'Send an email on behalf of the user via Brevo. Use this when the user asks you to email someone, send a message, or forward information by email.'
+  description: 'Send an email on behalf of the user via Brevo. Use this when the user asks you to email someone, send a message, or forward information by email.',
+  maxRisk: 'high'
 };
 
 /** Schema for the send_email tool. */
@@ -636,6 +815,9 @@ function createSendEmailTool(userId: string, db: Database): ToolDefinition {
     name: SEND_EMAIL_META.name,
     description: SEND_EMAIL_META.description,
     input_schema: SEND_EMAIL_SCHEMA,
+    risk: SEND_EMAIL_META.maxRisk,
+    describe: (input: { to: string; subject: string; cc?: string }) =>
+      `Send this email to ${input.to}${input.cc ? ` (cc ${input.cc})` : ''}, subject "${input.subject}"`,
     handler: async (input: { to: string; subject: string; body: string; cc?: string }) => {
       const config = getConfig();
       if (!config.brevo?.apiKey) {
@@ -698,9 +880,10 @@ function createSendEmailTool(userId: string, db: Database): ToolDefinition {
 // ─── Tool: manage_calendar (user-scoped factory) ─────────────────────────────
 
 /** Metadata for the manage_calendar tool. */
-const MANAGE_CALENDAR_META = {
+const MANAGE_CALENDAR_META: ToolMeta = {
   name: 'manage_calendar',
-  description: 'Manage Google Calendar events: list calendars, view/create/delete events, and search by text. You MUST call this tool for any calendar operation — never fake a response.'
+  description: 'Manage Google Calendar events: list calendars, view/create/delete events, and search by text. You MUST call this tool for any calendar operation — never fake a response.',
+  maxRisk: 'high'
 };
 
 /** Schema for the manage_calendar tool. */
@@ -722,11 +905,11 @@ const MANAGE_CALENDAR_SCHEMA: Record<string, unknown> = {
     },
     startDate: {
       type: 'string',
-      description: 'Range start for list_events (ISO 8601 datetime). Use with endDate for multi-day ranges.'
+      description: 'Range start for list_events (ISO 8601 datetime, local to the user\'s timezone unless it has an offset). Use with endDate for multi-day ranges.'
     },
     endDate: {
       type: 'string',
-      description: 'Range end for list_events (ISO 8601 datetime).'
+      description: 'Range end for list_events (ISO 8601 datetime, local to the user\'s timezone unless it has an offset).'
     },
     summary: {
       type: 'string',
@@ -742,11 +925,11 @@ const MANAGE_CALENDAR_SCHEMA: Record<string, unknown> = {
     },
     startTime: {
       type: 'string',
-      description: 'Event start time as ISO 8601 datetime (required for create_event).'
+      description: 'Event start time (required for create_event) as ISO 8601 local time in the user\'s timezone, e.g. "2026-02-02T15:00:00". Only add an offset if the user names another timezone.'
     },
     endTime: {
       type: 'string',
-      description: 'Event end time as ISO 8601 datetime (required for create_event).'
+      description: 'Event end time (required for create_event), in the same format as startTime.'
     },
     allDay: {
       type: 'boolean',
@@ -764,12 +947,18 @@ const MANAGE_CALENDAR_SCHEMA: Record<string, unknown> = {
   required: ['action']
 };
 
-/** Create a user-scoped manage_calendar tool instance. */
-function createCalendarTool(userId: string, googleCalendar: GoogleCalendarService): ToolDefinition {
+/** Create a user-scoped manage_calendar tool instance. Local times are in the user's timezone. */
+function createCalendarTool(userId: string, googleCalendar: GoogleCalendarService, timezone: string): ToolDefinition {
   return {
     name: MANAGE_CALENDAR_META.name,
     description: MANAGE_CALENDAR_META.description,
     input_schema: MANAGE_CALENDAR_SCHEMA,
+    risk: (input: { action?: string }) =>
+      input.action === 'delete_event' ? 'high' : input.action === 'create_event' ? 'low' : 'none',
+    describe: (input: { action: string; summary?: string; startTime?: string; eventId?: string }) =>
+      input.action === 'create_event'
+        ? `Create the event "${input.summary || 'Untitled'}"${input.startTime ? ` at ${input.startTime}` : ''}`
+        : `Delete calendar event ${input.eventId}`,
     handler: async (input: {
       action: 'list_calendars' | 'list_events' | 'create_event' | 'delete_event' | 'find_events';
       calendarId?: string;
@@ -796,14 +985,19 @@ function createCalendarTool(userId: string, googleCalendar: GoogleCalendarServic
             let timeMin: string | undefined;
             let timeMax: string | undefined;
 
-            if (input.date) {
-              // Single date: show all events that day
-              const d = new Date(input.date);
-              timeMin = new Date(d.getFullYear(), d.getMonth(), d.getDate()).toISOString();
-              timeMax = new Date(d.getFullYear(), d.getMonth(), d.getDate() + 1).toISOString();
+            // Single date (default today): all events that day, midnight to midnight in the user's timezone
+            const date = input.date || (input.startDate ? undefined : toZonedDate(new Date(), timezone));
+            if (date) {
+              const [y, m, d] = date.slice(0, 10).split('-').map(Number);
+              if (!y || !m || !d) return { error: 'date must be an ISO 8601 date, e.g. "2026-02-01".' };
+              timeMin = zonedTimeToDate(y, m, d, 0, 0, 0, timezone).toISOString();
+              timeMax = zonedTimeToDate(y, m, d + 1, 0, 0, 0, timezone).toISOString();
             } else if (input.startDate) {
-              timeMin = input.startDate;
-              timeMax = input.endDate || new Date(new Date(input.startDate).getTime() + 24 * 60 * 60 * 1000).toISOString();
+              const start = parseDateTime(input.startDate, timezone);
+              const end = input.endDate ? parseDateTime(input.endDate, timezone) : undefined;
+              if (!start || end === null) return { error: 'startDate and endDate must be ISO 8601 datetimes.' };
+              timeMin = start.toISOString();
+              timeMax = (end || new Date(start.getTime() + 24 * 60 * 60 * 1000)).toISOString();
             }
 
             const events = await googleCalendar.listEvents(userId, {
@@ -831,14 +1025,22 @@ function createCalendarTool(userId: string, googleCalendar: GoogleCalendarServic
             if (!input.startTime) return { error: 'startTime is required for create_event.' };
             if (!input.endTime) return { error: 'endTime is required for create_event.' };
 
+            // All-day events only use the date; timed ones are pinned to the user's timezone
+            const start = input.allDay ? null : parseDateTime(input.startTime, timezone);
+            const end = input.allDay ? null : parseDateTime(input.endTime, timezone);
+            if (!input.allDay && (!start || !end)) {
+              return { error: 'startTime and endTime must be ISO 8601 datetimes.' };
+            }
+
             const event = await googleCalendar.createEvent(userId, {
               calendarId: input.calendarId,
               summary: input.summary,
               description: input.description,
               location: input.location,
-              startTime: input.startTime,
-              endTime: input.endTime,
-              allDay: input.allDay
+              startTime: start ? toZonedIso(start, timezone) : input.startTime,
+              endTime: end ? toZonedIso(end, timezone) : input.endTime,
+              allDay: input.allDay,
+              timeZone: timezone
             });
 
             return {
@@ -896,9 +1098,10 @@ function createCalendarTool(userId: string, googleCalendar: GoogleCalendarServic
 // ─── Tool: manage_email (user-scoped factory) ────────────────────────────────
 
 /** Metadata for the manage_email tool. */
-const MANAGE_EMAIL_META = {
+const MANAGE_EMAIL_META: ToolMeta = {
   name: 'manage_email',
-  description: 'Read, send, reply to, and search emails in the user\'s Gmail inbox. You MUST call this tool for any email operation — never fake a response.'
+  description: 'Read, send, reply to, and search emails in the user\'s Gmail inbox. You MUST call this tool for any email operation — never fake a response.',
+  maxRisk: 'high'
 };
 
 /** Schema for the manage_email tool. */
@@ -956,6 +1159,15 @@ function createEmailTool(userId: string, gmail: GmailService): ToolDefinition {
     name: MANAGE_EMAIL_META.name,
     description: MANAGE_EMAIL_META.description,
     input_schema: MANAGE_EMAIL_SCHEMA,
+    risk: (input: { action?: string }) =>
+      input.action === 'send_email' || input.action === 'reply_email' ? 'high' : 'none',
+    describe: async (input: { action: string; to?: string; subject?: string; emailId?: string }) => {
+      if (input.action === 'send_email') {
+        return `Send this email to ${input.to}, subject "${input.subject}"`;
+      }
+      const original = await gmail.getMessage(userId, input.emailId!);
+      return `Reply to "${original.subject}" from ${original.from}`;
+    },
     handler: async (input: {
       action: 'list_emails' | 'read_email' | 'send_email' | 'reply_email' | 'search_emails' | 'list_labels';
       emailId?: string;
@@ -1038,9 +1250,10 @@ function createEmailTool(userId: string, gmail: GmailService): ToolDefinition {
 // ─── Tool: manage_contacts (user-scoped factory) ─────────────────────────────
 
 /** Metadata for the manage_contacts tool. */
-const MANAGE_CONTACTS_META = {
+const MANAGE_CONTACTS_META: ToolMeta = {
   name: 'manage_contacts',
-  description: 'Add, list, find, update, or delete contacts in the user\'s address book. Use this to store people the user communicates with frequently so you can resolve names to email addresses and phone numbers.'
+  description: 'Add, list, find, update, or delete contacts in the user\'s address book. Use this to store people the user communicates with frequently so you can resolve names to email addresses and phone numbers.',
+  maxRisk: 'high'
 };
 
 /** Schema for the manage_contacts tool. */
@@ -1094,6 +1307,15 @@ function createContactsTool(userId: string, db: Database): ToolDefinition {
     name: MANAGE_CONTACTS_META.name,
     description: MANAGE_CONTACTS_META.description,
     input_schema: MANAGE_CONTACTS_SCHEMA,
+    risk: (input: { action?: string }) =>
+      input.action === 'delete' ? 'high' : input.action === 'add' || input.action === 'update' ? 'low' : 'none',
+    describe: async (input: { action: string; name?: string; contactId?: string }) => {
+      if (input.action !== 'delete') {
+        return `${capitalize(input.action)} contact "${input.name || input.contactId}"`;
+      }
+      const contact = input.contactId ? await db.getContact(input.contactId) : null;
+      return `Delete the contact ${contact ? `"${contact.name}"` : input.contactId}`;
+    },
     handler: async (input: {
       action: 'add' | 'list' | 'find' | 'update' | 'delete';
       name?: string;
@@ -1214,6 +1436,423 @@ function createContactsTool(userId: string, db: Database): ToolDefinition {
   };
 }
 
+// ─── Tool: search_history (user-scoped factory) ──────────────────────────────
+
+/** Metadata for the search_history tool. */
+const SEARCH_HISTORY_META: ToolMeta = {
+  name: 'search_history',
+  description: 'Full-text search of everything the user and assistant have said in past conversations, on every channel. Use this when the user refers to something discussed before that isn\'t in the recent messages (e.g. "what did I say about the Lisbon trip last month?").',
+  maxRisk: 'none'
+};
+
+/** Schema for the search_history tool. */
+const SEARCH_HISTORY_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  properties: {
+    query: {
+      type: 'string',
+      description: 'Keywords to look for, e.g. "Lisbon trip". Matches word prefixes; no operators.'
+    },
+    after: {
+      type: 'string',
+      description: 'Only messages sent on or after this ISO 8601 date/time (optional).'
+    },
+    before: {
+      type: 'string',
+      description: 'Only messages sent before this ISO 8601 date/time (optional).'
+    },
+    channel: {
+      type: 'string',
+      enum: ['web', 'telegram', 'whatsapp', 'cli'],
+      description: 'Only messages from this channel (optional).'
+    },
+    limit: {
+      type: 'number',
+      description: 'Maximum results (default 10, max 25).'
+    }
+  },
+  required: ['query']
+};
+
+/** Create a user-scoped search_history tool instance. */
+function createSearchHistoryTool(userId: string, db: Database, timezone: string): ToolDefinition {
+  // Web chat history is stored under `web:<id>`, channel history under the account ID
+  const account = accountId(userId);
+
+  return {
+    name: SEARCH_HISTORY_META.name,
+    description: SEARCH_HISTORY_META.description,
+    input_schema: SEARCH_HISTORY_SCHEMA,
+    handler: async (input: { query: string; after?: string; before?: string; channel?: MessageChannel; limit?: number }) => {
+      try {
+        if (!input.query?.trim()) {
+          return { error: 'query is required.' };
+        }
+        const from = input.after ? parseDateTime(input.after, timezone) : undefined;
+        const to = input.before ? parseDateTime(input.before, timezone) : undefined;
+        if (from === null || to === null) {
+          return { error: 'after and before must be ISO 8601 dates.' };
+        }
+
+        const results = await db.searchMessages([account, `web:${account}`], input.query, {
+          from,
+          to,
+          channel: input.channel,
+          limit: Math.min(Math.max(1, input.limit || 10), 25)
+        });
+        return {
+          results: results.map(r => ({
+            date: toZonedIso(r.createdAt, timezone),
+            from: r.role === 'user' ? 'user' : 'assistant',
+            channel: r.channel,
+            conversation: r.conversationTitle,
+            excerpt: r.snippet
+          })),
+          total: results.length
+        };
+      } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        return { error: `History search error: ${message}` };
+      }
+    }
+  };
+}
+
+// ─── Tool: set_timezone (user-scoped factory) ────────────────────────────────
+
+/** Metadata for the set_timezone tool. */
+const SET_TIMEZONE_META: ToolMeta = {
+  name: 'set_timezone',
+  description: 'Save the user\'s timezone so reminders, calendar events and dates use their local time. Call it when the user says where they are or which timezone they\'re in.',
+  maxRisk: 'low'
+};
+
+/** Schema for the set_timezone tool. */
+const SET_TIMEZONE_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  properties: {
+    timezone: {
+      type: 'string',
+      description: 'IANA timezone name, e.g. "Europe/Lisbon" or "America/New_York". Map a city or country to its timezone.'
+    }
+  },
+  required: ['timezone']
+};
+
+/** Create a user-scoped set_timezone tool instance. */
+function createSetTimezoneTool(userId: string, userSettings: UserSettingsService): ToolDefinition {
+  return {
+    name: SET_TIMEZONE_META.name,
+    description: SET_TIMEZONE_META.description,
+    input_schema: SET_TIMEZONE_SCHEMA,
+    risk: SET_TIMEZONE_META.maxRisk,
+    describe: (input: { timezone: string }) => `Set your timezone to ${input.timezone}`,
+    handler: async (input: { timezone: string }) => {
+      const timezone = input.timezone?.trim();
+      if (!isValidTimezone(timezone)) {
+        return { error: `Unknown timezone "${input.timezone}". Use an IANA name like "Europe/Lisbon".` };
+      }
+      await userSettings.saveTimezone(userId, timezone);
+      return { success: true, timezone, localTime: toZonedIso(new Date(), timezone) };
+    }
+  };
+}
+
+// ─── Tools: read_file, write_file, append_file, search_files, search_documents, query_table, list_files (user-scoped) ─
+
+/** Most characters of a file returned by one read_file call. */
+const MAX_READ_CHARS = 20_000;
+
+/** Most characters accepted by one write_file or append_file call. */
+const MAX_WRITE_CHARS = 100_000;
+
+/** Metadata for the file tools. */
+const READ_FILE_META: ToolMeta = {
+  name: 'read_file',
+  description: 'Read a file from the user\'s files: text files as they are, PDF (page-tagged), Excel (a markdown table per sheet) and Word files as extracted text. Long files can be read in parts with startLine and lineCount.',
+  maxRisk: 'none'
+};
+
+const WRITE_FILE_META: ToolMeta = {
+  name: 'write_file',
+  description: 'Create a text file in the user\'s files, or replace one\'s contents. Use append_file to add to an existing file instead.',
+  maxRisk: 'high'
+};
+
+const APPEND_FILE_META: ToolMeta = {
+  name: 'append_file',
+  description: 'Add text to the end of a file in the user\'s files (e.g. new rows for a CSV, a new entry in notes.md), creating it if needed.',
+  maxRisk: 'low'
+};
+
+const SEARCH_FILES_META: ToolMeta = {
+  name: 'search_files',
+  description: 'Find lines in the user\'s text files (including extracted PDF, Excel and Word text) that contain all the given words. Returns file names and line numbers to read.',
+  maxRisk: 'none'
+};
+
+const SEARCH_DOCUMENTS_META: ToolMeta = {
+  name: 'search_documents',
+  description: 'Answer questions from the user\'s files: finds the passages across all their files (PDF, Word, Excel and text) most relevant to a question, with the file name and page or line numbers to cite.',
+  maxRisk: 'none'
+};
+
+const QUERY_TABLE_META: ToolMeta = {
+  name: 'query_table',
+  description: 'Run read-only SQL (SQLite) over the user\'s CSV and Excel files. Each file becomes a table (one per sheet for workbooks with several). Call with just the files first to see the tables, columns and example rows, then with sql. Results come back as a markdown table.',
+  maxRisk: 'none'
+};
+
+const LIST_FILES_META: ToolMeta = {
+  name: 'list_files',
+  description: 'List the files the user has uploaded or saved, with sizes and modification dates.',
+  maxRisk: 'none'
+};
+
+const FILENAME_PROPERTY = {
+  type: 'string',
+  description: 'File name, e.g. "budget.csv". Files are in a single folder; no paths.'
+};
+
+/** Schemas for the file tools. */
+const READ_FILE_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  properties: {
+    filename: FILENAME_PROPERTY,
+    startLine: { type: 'number', description: 'First line to read, 1-based (default 1).' },
+    lineCount: { type: 'number', description: 'Number of lines to read (default: as many as fit).' }
+  },
+  required: ['filename']
+};
+
+const WRITE_FILE_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  properties: {
+    filename: FILENAME_PROPERTY,
+    content: { type: 'string', description: 'The full new contents of the file.' }
+  },
+  required: ['filename', 'content']
+};
+
+const APPEND_FILE_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  properties: {
+    filename: FILENAME_PROPERTY,
+    content: { type: 'string', description: 'Text to add. For a CSV, rows in the same column order as the file.' }
+  },
+  required: ['filename', 'content']
+};
+
+const SEARCH_FILES_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  properties: {
+    query: { type: 'string', description: 'Words to look for, e.g. "Q3 revenue". Case-insensitive.' },
+    limit: { type: 'number', description: 'Maximum matching lines (default 20, max 50).' }
+  },
+  required: ['query']
+};
+
+const SEARCH_DOCUMENTS_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  properties: {
+    query: { type: 'string', description: 'The question or topic, e.g. "notice period in the lease".' },
+    limit: { type: 'number', description: 'Maximum passages (default 5, max 20).' }
+  },
+  required: ['query']
+};
+
+const QUERY_TABLE_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  properties: {
+    files: { type: 'array', items: { type: 'string' }, description: 'CSV or Excel files to load, e.g. ["sales.csv", "targets.xlsx"].' },
+    sql: { type: 'string', description: 'One SELECT statement over the tables. Omit to see the schema.' },
+    limit: { type: 'number', description: `Maximum rows returned (default ${DEFAULT_ROW_LIMIT}, max ${MAX_ROW_LIMIT}).` }
+  },
+  required: ['files']
+};
+
+const LIST_FILES_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  properties: {}
+};
+
+/** Names of the file tools, in the order they're offered. */
+const FILE_TOOL_NAMES = [READ_FILE_META.name, WRITE_FILE_META.name, APPEND_FILE_META.name, SEARCH_FILES_META.name, SEARCH_DOCUMENTS_META.name, QUERY_TABLE_META.name, LIST_FILES_META.name];
+
+/**
+ * Create a user-scoped file tool instance. Files are confined to the user's
+ * files directory by FileAccessService, which also keeps `.prev` versions
+ * of tracked files when they're changed.
+ */
+function createFileTool(name: string, userId: string, fileAccess: FileAccessService, timezone: string): ToolDefinition | null {
+  const failed = (err: unknown) => ({ error: err instanceof Error ? err.message : String(err) });
+
+  switch (name) {
+    case 'read_file':
+      return {
+        name: READ_FILE_META.name,
+        description: READ_FILE_META.description,
+        input_schema: READ_FILE_SCHEMA,
+        handler: async (input: { filename: string; startLine?: number; lineCount?: number }) => {
+          try {
+            const lines = (await fileAccess.readText(userId, input.filename)).split(/\r?\n/);
+            const start = Math.max(1, Math.floor(input.startLine || 1));
+            const wanted = input.lineCount ? Math.max(1, Math.floor(input.lineCount)) : lines.length;
+
+            let content = '';
+            let end = start - 1;
+            for (const line of lines.slice(start - 1, start - 1 + wanted)) {
+              if (content.length + line.length + 1 > MAX_READ_CHARS) break;
+              content += (end >= start ? '\n' : '') + line;
+              end++;
+            }
+            return {
+              filename: input.filename,
+              content,
+              startLine: start,
+              endLine: end,
+              totalLines: lines.length,
+              ...(end < Math.min(lines.length, start - 1 + wanted) ? { note: `Stopped at ${MAX_READ_CHARS} characters; continue with startLine ${end + 1}.` } : {})
+            };
+          } catch (err) {
+            return failed(err);
+          }
+        }
+      };
+
+    case 'write_file':
+      return {
+        name: WRITE_FILE_META.name,
+        description: WRITE_FILE_META.description,
+        input_schema: WRITE_FILE_SCHEMA,
+        // Replacing an existing file loses its contents unless it's tracked
+        risk: (input: { filename?: string }) =>
+          input.filename && fileAccess.fileExists(userId, input.filename) ? 'high' : 'low',
+        describe: (input: { filename: string }) =>
+          `${fileAccess.fileExists(userId, input.filename) ? 'Replace the contents of' : 'Create'} the file "${input.filename}"`,
+        handler: async (input: { filename: string; content: string }) => {
+          try {
+            if (typeof input.content !== 'string') return { error: 'content is required.' };
+            if (input.content.length > MAX_WRITE_CHARS) {
+              return { error: `content is too long (max ${MAX_WRITE_CHARS} characters).` };
+            }
+            const existed = fileAccess.fileExists(userId, input.filename);
+            const filename = await fileAccess.writeTextFile(userId, input.filename, input.content);
+            return { success: true, filename, created: !existed, versioned: fileAccess.hasPreviousVersion(userId, filename) };
+          } catch (err) {
+            return failed(err);
+          }
+        }
+      };
+
+    case 'append_file':
+      return {
+        name: APPEND_FILE_META.name,
+        description: APPEND_FILE_META.description,
+        input_schema: APPEND_FILE_SCHEMA,
+        risk: APPEND_FILE_META.maxRisk,
+        describe: (input: { filename: string }) => `Add to the file "${input.filename}"`,
+        handler: async (input: { filename: string; content: string }) => {
+          try {
+            if (!input.content) return { error: 'content is required.' };
+            if (input.content.length > MAX_WRITE_CHARS) {
+              return { error: `content is too long (max ${MAX_WRITE_CHARS} characters).` };
+            }
+            const existed = fileAccess.fileExists(userId, input.filename);
+            const filename = await fileAccess.appendTextFile(userId, input.filename, input.content);
+            return { success: true, filename, created: !existed };
+          } catch (err) {
+            return failed(err);
+          }
+        }
+      };
+
+    case 'search_files':
+      return {
+        name: SEARCH_FILES_META.name,
+        description: SEARCH_FILES_META.description,
+        input_schema: SEARCH_FILES_SCHEMA,
+        handler: async (input: { query: string; limit?: number }) => {
+          try {
+            if (!input.query?.trim()) return { error: 'query is required.' };
+            const matches = await fileAccess.searchFiles(userId, input.query, Math.min(Math.max(1, input.limit || 20), 50));
+            return { matches, total: matches.length };
+          } catch (err) {
+            return failed(err);
+          }
+        }
+      };
+
+    case 'search_documents':
+      return {
+        name: SEARCH_DOCUMENTS_META.name,
+        description: SEARCH_DOCUMENTS_META.description,
+        input_schema: SEARCH_DOCUMENTS_SCHEMA,
+        handler: async (input: { query: string; limit?: number }) => {
+          try {
+            if (!input.query?.trim()) return { error: 'query is required.' };
+            const passages = await fileAccess.searchDocuments(userId, input.query, Math.min(Math.max(1, input.limit || 5), 20));
+            return {
+              passages: passages.map(p => ({ source: citation(p), ...p })),
+              total: passages.length,
+              ...(passages.length === 0 ? { note: 'No passages matched; try other words, or list_files to see what the user has.' } : {})
+            };
+          } catch (err) {
+            return failed(err);
+          }
+        }
+      };
+
+    case 'query_table':
+      return {
+        name: QUERY_TABLE_META.name,
+        description: QUERY_TABLE_META.description,
+        input_schema: QUERY_TABLE_SCHEMA,
+        handler: async (input: { files: string[] | string; sql?: string; limit?: number }) => {
+          const filenames = (Array.isArray(input.files) ? input.files : [input.files]).filter(Boolean);
+          if (filenames.length === 0) return { error: 'files is required.' };
+
+          const tables = new TableQueryService(fileAccess);
+          try {
+            const output = await tables.query(userId, filenames, input.sql, input.limit || DEFAULT_ROW_LIMIT);
+            if (!output.result) return { schema: output.schema };
+            return {
+              result: output.result.markdown,
+              rowCount: output.result.rows.length,
+              truncated: output.result.truncated,
+              schema: output.schema
+            };
+          } catch (err) {
+            // Show the schema with a SQL error so the query can be fixed
+            const schema = input.sql ? await tables.query(userId, filenames).then(o => o.schema, () => undefined) : undefined;
+            return { ...failed(err), ...(schema ? { schema } : {}) };
+          }
+        }
+      };
+
+    case 'list_files':
+      return {
+        name: LIST_FILES_META.name,
+        description: LIST_FILES_META.description,
+        input_schema: LIST_FILES_SCHEMA,
+        handler: async () => {
+          try {
+            const files = await fileAccess.listFiles(userId);
+            return {
+              files: files.map(f => ({ name: f.name, size: f.size, modified: toZonedIso(f.modified, timezone) })),
+              total: files.length
+            };
+          } catch (err) {
+            return failed(err);
+          }
+        }
+      };
+
+    default:
+      return null;
+  }
+}
+
 // ─── Tool Registry ───────────────────────────────────────────────────────────
 
 /** Static tools that don't need user context. */
@@ -1223,7 +1862,7 @@ const STATIC_TOOL_REGISTRY: Record<string, ToolDefinition> = {
 };
 
 /** Names of tools that require user context (created via factory). */
-const USER_SCOPED_TOOLS = new Set(['manage_reminders', 'run_script', 'send_email', 'manage_calendar', 'manage_email', 'manage_contacts']);
+const USER_SCOPED_TOOLS = new Set(['manage_reminders', 'run_script', 'send_email', 'manage_calendar', 'manage_email', 'manage_contacts', 'search_history', 'set_timezone', 'web_search', ...FILE_TOOL_NAMES]);
 
 /** Context needed to create user-scoped tool instances. */
 export interface ToolContext {
@@ -1232,6 +1871,15 @@ export interface ToolContext {
   scriptRunner?: ScriptRunner;
   googleCalendar?: GoogleCalendarService;
   gmail?: GmailService;
+  userSettings?: UserSettingsService;
+  /** Sandboxed access to the user's files; the file tools are skipped without it. */
+  fileAccess?: FileAccessService;
+  /** Done/snooze handling for reminders; created from db and userSettings if absent. */
+  reminders?: ReminderService;
+  /** The user's IANA timezone, for reading and showing times. Default: UTC */
+  timezone?: string;
+  /** Configured web search; web_search is skipped without it. */
+  webSearch?: WebSearchService;
 }
 
 /**
@@ -1242,6 +1890,7 @@ export interface ToolContext {
  */
 export function getTools(names: string[], context?: ToolContext): ToolDefinition[] {
   const tools: ToolDefinition[] = [];
+  const timezone = context?.timezone || 'UTC';
 
   for (const name of names) {
     // Static tool — return from registry
@@ -1254,17 +1903,30 @@ export function getTools(names: string[], context?: ToolContext): ToolDefinition
     // User-scoped tool — create via factory if context is available
     if (USER_SCOPED_TOOLS.has(name) && context) {
       if (name === 'manage_reminders') {
-        tools.push(createRemindersTool(context.userId, context.db));
+        // Reminders belong to the account, so web chat's `web:` prefix is dropped
+        const reminders = context.reminders
+          || new ReminderService(context.db, context.userSettings || new UserSettingsService(context.db));
+        tools.push(createRemindersTool(accountId(context.userId), context.db, timezone, reminders));
       } else if (name === 'run_script' && context.scriptRunner) {
         tools.push(createRunScriptTool(context.userId, context.db, context.scriptRunner));
       } else if (name === 'send_email') {
         tools.push(createSendEmailTool(context.userId, context.db));
       } else if (name === 'manage_calendar' && context.googleCalendar) {
-        tools.push(createCalendarTool(context.userId, context.googleCalendar));
+        tools.push(createCalendarTool(context.userId, context.googleCalendar, timezone));
       } else if (name === 'manage_email' && context.gmail) {
         tools.push(createEmailTool(context.userId, context.gmail));
       } else if (name === 'manage_contacts') {
         tools.push(createContactsTool(context.userId, context.db));
+      } else if (name === 'search_history') {
+        tools.push(createSearchHistoryTool(context.userId, context.db, timezone));
+      } else if (name === 'set_timezone' && context.userSettings) {
+        tools.push(createSetTimezoneTool(context.userId, context.userSettings));
+      } else if (name === 'web_search' && context.webSearch) {
+        tools.push(createWebSearchTool(context.webSearch));
+      } else if (FILE_TOOL_NAMES.includes(name) && context.fileAccess) {
+        // Files are uploaded under the account, so web chat's `web:` prefix is dropped
+        const tool = createFileTool(name, accountId(context.userId), context.fileAccess, timezone);
+        if (tool) tools.push(tool);
       }
     }
   }
@@ -1283,27 +1945,41 @@ export function getAvailableToolNames(): string[] {
 const TOOL_CATEGORIES: Record<string, string> = {
   fetch_rss: 'Data',
   fetch_url: 'Data',
+  web_search: 'Data',
   run_script: 'Data',
   manage_reminders: 'Utilities',
   send_email: 'Communication',
   manage_calendar: 'Productivity',
   manage_email: 'Communication',
-  manage_contacts: 'Productivity'
+  manage_contacts: 'Productivity',
+  search_history: 'Utilities',
+  set_timezone: 'Utilities',
+  read_file: 'Files',
+  write_file: 'Files',
+  append_file: 'Files',
+  search_files: 'Files',
+  search_documents: 'Files',
+  query_table: 'Files',
+  list_files: 'Files'
 };
 
 /**
- * Get tool metadata (name, description, category) for all registered tools.
+ * Get tool metadata (name, description, category, risk) for all registered tools.
+ * Risk is the highest of any call, declared on each tool's metadata.
  * Used by the web dashboard to populate the tools page.
  */
-export function getToolsMeta(): Array<{ name: string; description: string; category: string }> {
+export function getToolsMeta(): Array<{ name: string; description: string; category: string; risk: ToolRisk }> {
   const staticMeta = Object.values(STATIC_TOOL_REGISTRY).map(t => ({
     name: t.name,
     description: t.description,
-    category: TOOL_CATEGORIES[t.name] || 'Other'
+    category: TOOL_CATEGORIES[t.name] || 'Other',
+    risk: getToolRisk(t, {})
   }));
-  const userScopedMeta = [MANAGE_REMINDERS_META, RUN_SCRIPT_META, SEND_EMAIL_META, MANAGE_CALENDAR_META, MANAGE_EMAIL_META, MANAGE_CONTACTS_META].map(m => ({
-    ...m,
-    category: TOOL_CATEGORIES[m.name] || 'Other'
+  const userScopedMeta = [MANAGE_REMINDERS_META, RUN_SCRIPT_META, SEND_EMAIL_META, MANAGE_CALENDAR_META, MANAGE_EMAIL_META, MANAGE_CONTACTS_META, SEARCH_HISTORY_META, SET_TIMEZONE_META, WEB_SEARCH_META, READ_FILE_META, WRITE_FILE_META, APPEND_FILE_META, SEARCH_FILES_META, SEARCH_DOCUMENTS_META, QUERY_TABLE_META, LIST_FILES_META].map(m => ({
+    name: m.name,
+    description: m.description,
+    category: TOOL_CATEGORIES[m.name] || 'Other',
+    risk: m.maxRisk
   }));
   return [...staticMeta, ...userScopedMeta];
 }
@@ -15,18 +15,65 @@ export interface Conversation {
   userId: string;
   title?: string;
   summary?: string;
+  /** Messages up to this time have been scanned for long-term memories. */
+  memoryExtractedAt?: Date;
+  /** Messages up to this time have been scanned for profile updates. */
+  profileExtractedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
 
+/** Where a message was sent from or delivered to. */
+export type MessageChannel = 'whatsapp' | 'telegram' | 'cli' | 'web' | 'workflow';
+
 export interface Message {
   id: string;
   conversationId: string;
-  role: 'user' | 'assistant' | 'system';
+  role: 'user' | 'assistant' | 'system' | 'tool';
+  /** For tool messages, a compact one-line summary of the call. */
   content: string;
+  /** Channel of the exchange; unset for tool messages and older history. */
+  channel?: MessageChannel;
+  /** Set on tool messages: the call made while producing the next assistant reply. */
+  toolCall?: ToolCallRecord;
   createdAt: Date;
 }
 
+/** Filters for full-text search over message history. */
+export interface MessageSearchOptions {
+  /** Only messages sent at or after this time. */
+  from?: Date;
+  /** Only messages sent before this time. */
+  to?: Date;
+  channel?: MessageChannel;
+  /** Default 20. */
+  limit?: number;
+  /** Put around matched terms in snippets. Default `**`. */
+  highlight?: [string, string];
+}
+
+/** A message matching a history search, best match first. */
+export interface MessageSearchResult {
+  messageId: string;
+  conversationId: string;
+  conversationTitle: string | null;
+  role: 'user' | 'assistant';
+  channel: MessageChannel | null;
+  /** Excerpt around the matched terms, highlighted. */
+  snippet: string;
+  createdAt: Date;
+}
+
+/** A tool invocation made by the assistant, persisted as a `tool` message. */
+export interface ToolCallRecord {
+  name: string;
+  input: unknown;
+  /** JSON-encoded tool result (or error object). */
+  output: string;
+  durationMs: number;
+  error?: string;
+}
+
 export interface Skill {
   id: string;
   ownerId?: string;
@@ -45,14 +92,50 @@ export interface UsageLog {
   tokensIn: number;
   tokensOut: number;
   costCents: number;
+  cacheCreationTokens?: number;
+  cacheReadTokens?: number;
+  cacheSavingsCents?: number;
+  tokensSaved?: number;
+  /** Output tokens spent on extended thinking (included in tokensOut). */
+  thinkingTokens?: number;
+  /** The share of costCents spent on thinking. */
+  thinkingCostCents?: number;
   createdAt: Date;
 }
 
+/** Aggregated usage over a period, as returned by getUsageSummary. */
+export interface UsageSummary {
+  totalTokensIn: number;
+  totalTokensOut: number;
+  totalCostCents: number;
+  totalCacheCreationTokens: number;
+  totalCacheReadTokens: number;
+  totalCacheSavingsCents: number;
+  totalTokensSaved: number;
+  totalThinkingTokens: number;
+  totalThinkingCostCents: number;
+  /** Share of input tokens served from the prompt cache (0–1). */
+  cacheHitRate: number;
+  byModel: Record<string, { tokensIn: number; tokensOut: number; costCents: number }>;
+}
+
+/** Spending cap for a user or a team. A null limit means no cap for that period. */
+export interface Budget {
+  scope: 'user' | 'team';
+  /** User ID for user budgets, team name for team budgets. */
+  targetId: string;
+  dailyCents: number | null;
+  monthlyCents: number | null;
+  updatedAt: Date;
+}
+
 export interface UserAuth {
   userId: string;
   email: string;
   passwordHash: string;
   isAdmin: boolean;
+  /** Team name, for team budgets. */
+  team?: string;
   lastLogin?: Date;
   createdAt: Date;
 }
@@ -157,6 +240,35 @@ export interface Reminder {
   completedAt?: Date;
   dueAt?: Date;
   notifiedAt?: Date;
+  /** Cron expression, in the user's timezone, for reminders that repeat. */
+  recurrence?: string;
+  /** The repeat in words, e.g. "every weekday at 8:00 AM". */
+  recurrenceText?: string;
+}
+
+/** Changes to a reminder; `null` clears a field. */
+export interface ReminderUpdates {
+  text?: string;
+  isComplete?: boolean;
+  dueAt?: Date | null;
+  notifiedAt?: Date | null;
+  recurrence?: string | null;
+  recurrenceText?: string | null;
+}
+
+export type ReminderChannel = 'telegram' | 'whatsapp' | 'email' | 'web';
+
+/** One attempt to deliver a reminder notification on a channel. */
+export interface ReminderDelivery {
+  id: string;
+  reminderId: string;
+  userId: string;
+  channel: ReminderChannel;
+  status: 'sent' | 'failed';
+  error?: string;
+  /** Sent because an earlier notification went unacknowledged. */
+  escalation: boolean;
+  createdAt: Date;
 }
 
 export interface Contact {
@@ -178,6 +290,30 @@ export interface FileMetadata {
   filename: string;
   tracked: boolean;
   lastUploadedAt: Date;
+  /** When text was last extracted from the file (PDF, Excel, Word). */
+  extractedAt?: Date;
+  /** When the file was last split into passages for document search. */
+  indexedAt?: Date;
+}
+
+/** A passage of a user's file in the document search index. */
+export interface DocumentChunk {
+  userId: string;
+  filename: string;
+  /** Position of the passage in the file, from 0. */
+  chunkIndex: number;
+  /** PDF page the passage is on. */
+  page?: number;
+  /** 1-based lines of the file's text (as read_file returns it) the passage spans. */
+  startLine: number;
+  endLine: number;
+  text: string;
+}
+
+/** Text extracted from a document, cached with its file metadata. */
+export interface ExtractedText {
+  text: string;
+  extractedAt: Date;
 }
 
 export interface WorkflowTemplate {
@@ -193,6 +329,28 @@ export interface WorkflowTemplate {
   updatedAt: Date;
 }
 
+/** A skill the orchestrator picked for a logged message. */
+export interface DebugLogSkill {
+  name: string;
+  confidence: number;
+  /** Fit in the skill token budget and was injected into the prompt. */
+  included: boolean;
+}
+
+/** Token use of one section of a logged context (soul, contacts, history, ...). */
+export interface DebugLogSection {
+  name: string;
+  tokens: number;
+  /** Size before it was shrunk to fit the context budget. */
+  originalTokens: number;
+}
+
+/**
+ * What made a routing decision: the local fast path (keyword rules or the
+ * trained classifier), an LLM, or the heuristic defaults after the LLM failed.
+ */
+export type RoutedBy = 'fast_path' | 'llm' | 'fallback';
+
 export interface DebugLog {
   id: string;
   userId: string;
@@ -203,6 +361,10 @@ export interface DebugLog {
   complexity: string;
   suggestedModel: string;
   selectedSkill: string | null;
+  /** Every skill the orchestrator ranked, most confident first. */
+  selectedSkills?: DebugLogSkill[];
+  /** Where the routing came from; null for logs saved before this was recorded. */
+  routedBy?: RoutedBy | null;
   personalityLevel: string;
   includeBio: boolean;
   bioSections: string[];
@@ -210,11 +372,21 @@ export interface DebugLog {
   systemPrompt: string;
   messagesJson: string;
   estimatedTokens: number;
+  /** Token budget the context was fitted to, or null when unlimited. */
+  contextBudget?: number | null;
+  /** Tokens per context section, before and after fitting to the budget. */
+  contextSections?: DebugLogSection[];
   responseText: string;
   actualModel: string;
   tokensIn: number;
   tokensOut: number;
   costCents: number;
+  cacheCreationTokens?: number;
+  cacheReadTokens?: number;
+  /** Retries (including model fallbacks) spent on transient API errors. */
+  retryCount?: number;
+  /** Tool calls made while producing the response, in order. */
+  toolCalls?: ToolCallRecord[];
   tokensSaved: number;
   durationMs: number;
   success: boolean;
@@ -222,6 +394,60 @@ export interface DebugLog {
   createdAt: Date;
 }
 
+export type MemoryCategory = 'preference' | 'commitment' | 'person' | 'project' | 'fact';
+
+/**
+ * A durable fact about a user, extracted from conversations and recalled
+ * in later ones. Keyed by the account, so it spans channels.
+ */
+export interface Memory {
+  id: string;
+  userId: string;
+  category: MemoryCategory;
+  content: string;
+  sourceConversationId: string | null;
+  /** Dropped after this (e.g. a commitment's due date). */
+  expiresAt: Date | null;
+  /** Last time the memory was injected into a prompt. */
+  lastUsedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type ProfileUpdateStatus = 'pending' | 'accepted' | 'rejected';
+
+/**
+ * A proposed addition to one section of a user's profile, detected in a
+ * conversation and waiting for the user to review it.
+ */
+export interface ProfileUpdate {
+  id: string;
+  userId: string;
+  /** Profile section key, e.g. `professional` or `current_projects`. */
+  section: string;
+  update: string;
+  sourceConversationId: string | null;
+  autoDetected: boolean;
+  status: ProfileUpdateStatus;
+  createdAt: Date;
+  /** When it was accepted or rejected. */
+  resolvedAt: Date | null;
+}
+
+/**
+ * A manually checked routing label for a logged message, used to evaluate
+ * the orchestrator. Overrides the routing recorded in the debug log.
+ */
+export interface RoutingLabel {
+  debugLogId: string;
+  /** Copied from the log so the label outlives debug log retention. */
+  message: string;
+  intent: string;
+  complexity: string;
+  suggestedModel: string;
+  updatedAt: Date;
+}
+
 export interface Database {
   // Initialization
   initialize(): Promise<void>;
@@ -244,6 +470,8 @@ export interface Database {
   getMessages(conversationId: string, limit?: number): Promise<Message[]>;
   addMessage(message: Omit<Message, 'createdAt'>): Promise<Message>;
   getRecentMessages(userId: string, limit?: number): Promise<Message[]>;
+  /** Full-text search over the user and assistant messages of these users' conversations. */
+  searchMessages(userIds: string[], query: string, options?: MessageSearchOptions): Promise<MessageSearchResult[]>;
   
   // Skills
   getSkill(skillId: string): Promise<Skill | null>;
@@ -255,12 +483,15 @@ export interface Database {
   // Usage Logging
   logUsage(log: Omit<UsageLog, 'id' | 'createdAt'>): Promise<UsageLog>;
   getUsage(userId: string, startDate?: Date, endDate?: Date): Promise<UsageLog[]>;
-  getUsageSummary(userId: string, startDate?: Date, endDate?: Date): Promise<{
-    totalTokensIn: number;
-    totalTokensOut: number;
-    totalCostCents: number;
-    byModel: Record<string, { tokensIn: number; tokensOut: number; costCents: number }>;
-  }>;
+  getUsageSummary(userId: string, startDate?: Date, endDate?: Date): Promise<UsageSummary>;
+  /** Total cost in cents logged for any of the given users since a date. */
+  getCostSince(userIds: string[], since: Date): Promise<number>;
+
+  // Budgets
+  getBudget(scope: Budget['scope'], targetId: string): Promise<Budget | null>;
+  listBudgets(): Promise<Budget[]>;
+  saveBudget(budget: Omit<Budget, 'updatedAt'>): Promise<Budget>;
+  deleteBudget(scope: Budget['scope'], targetId: string): Promise<void>;
 
   // Auth
   getUserAuth(email: string): Promise<UserAuth | null>;
@@ -271,6 +502,8 @@ export interface Database {
   deleteUserAuth(userId: string): Promise<void>;
   countUserAuths(): Promise<number>;
   updateUserAuthRole(userId: string, isAdmin: boolean): Promise<void>;
+  updateUserAuthTeam(userId: string, team: string | null): Promise<void>;
+  getTeamMemberIds(team: string): Promise<string[]>;
 
   // Per-user Soul
   getUserSoul(userId: string): Promise<UserSoul | null>;
@@ -287,6 +520,27 @@ export interface Database {
   getDebugLogCount(filters?: { userId?: string; channel?: string; intent?: string }): Promise<number>;
   deleteDebugLogsBefore(date: Date): Promise<number>;
 
+  // Routing Labels
+  getRoutingLabels(): Promise<RoutingLabel[]>;
+  saveRoutingLabel(label: Omit<RoutingLabel, 'updatedAt'>): Promise<RoutingLabel>;
+  deleteRoutingLabel(debugLogId: string): Promise<void>;
+
+  // Memories
+  getMemories(userId: string): Promise<Memory[]>;
+  getMemory(memoryId: string): Promise<Memory | null>;
+  createMemory(memory: Omit<Memory, 'lastUsedAt' | 'createdAt' | 'updatedAt'>): Promise<Memory>;
+  updateMemory(memoryId: string, updates: Partial<Pick<Memory, 'category' | 'content' | 'expiresAt' | 'lastUsedAt'>>): Promise<void>;
+  deleteMemory(memoryId: string): Promise<void>;
+  /** Delete memories that expired before the given date. Returns the number deleted. */
+  deleteExpiredMemories(before: Date): Promise<number>;
+
+  // Profile Updates
+  /** A user's proposed profile updates, newest first, optionally of one status. */
+  getProfileUpdates(userId: string, status?: ProfileUpdateStatus): Promise<ProfileUpdate[]>;
+  getProfileUpdate(updateId: string): Promise<ProfileUpdate | null>;
+  createProfileUpdate(update: Omit<ProfileUpdate, 'status' | 'createdAt' | 'resolvedAt'>): Promise<ProfileUpdate>;
+  updateProfileUpdate(updateId: string, updates: Partial<Pick<ProfileUpdate, 'section' | 'update' | 'status'>>): Promise<void>;
+
   // Scripts
   getScript(scriptId: string): Promise<Script | null>;
   getScripts(userId: string): Promise<Script[]>;
@@ -325,14 +579,31 @@ export interface Database {
   createReminder(reminder: Omit<Reminder, 'createdAt' | 'completedAt' | 'notifiedAt'>): Promise<Reminder>;
   getReminders(userId: string, includeComplete?: boolean): Promise<Reminder[]>;
   getDueReminders(): Promise<Reminder[]>;
-  updateReminder(id: string, updates: Partial<Pick<Reminder, 'text' | 'isComplete' | 'dueAt' | 'notifiedAt'>>): Promise<Reminder>;
+  getReminder(id: string): Promise<Reminder | null>;
+  /** Incomplete reminders that have been notified, for escalation and repeats. */
+  getNotifiedReminders(): Promise<Reminder[]>;
+  updateReminder(id: string, updates: ReminderUpdates): Promise<Reminder>;
   deleteReminder(id: string): Promise<void>;
+  createReminderDelivery(delivery: Omit<ReminderDelivery, 'createdAt'>): Promise<ReminderDelivery>;
+  /** A reminder's delivery attempts, newest first. */
+  getReminderDeliveries(reminderId: string, limit?: number): Promise<ReminderDelivery[]>;
 
   // File Metadata
   getFileMetadata(userId: string, filename: string): Promise<FileMetadata | null>;
   setFileTracked(userId: string, filename: string, tracked: boolean): Promise<void>;
   getTrackedFiles(userId: string): Promise<FileMetadata[]>;
   upsertFileMetadata(userId: string, filename: string, tracked: boolean): Promise<void>;
+  getExtractedText(userId: string, filename: string): Promise<ExtractedText | null>;
+  saveExtractedText(userId: string, filename: string, text: string): Promise<void>;
+
+  // Document Search Index
+  /** Replace a file's passages and mark it indexed now. */
+  replaceDocumentChunks(userId: string, filename: string, chunks: Array<Omit<DocumentChunk, 'userId' | 'filename'>>): Promise<void>;
+  /** Remove a file's passages and its indexed mark. */
+  deleteDocumentChunks(userId: string, filename: string): Promise<void>;
+  getDocumentChunks(userId: string): Promise<DocumentChunk[]>;
+  /** Files with passages in the index, and when each was indexed. */
+  getIndexedDocuments(userId: string): Promise<Array<{ filename: string; indexedAt: Date }>>;
 
   // Workflow Templates
   getTemplate(templateId: string): Promise<WorkflowTemplate | null>;
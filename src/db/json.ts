@@ -1,4 +1,4 @@
-import { Database as IDatabase, User, Conversation, Message, Skill, UsageLog, UserAuth, UserSoul, UserProfile, DebugLog, Script, Workflow, WorkflowRun, Schedule, UserCredential, ChannelIdentity, Reminder, FileMetadata, WorkflowTemplate, Contact } from './interface';
+import { Database as IDatabase, User, Conversation, Message, MessageSearchOptions, MessageSearchResult, Skill, UsageLog, UsageSummary, Budget, UserAuth, UserSoul, UserProfile, DebugLog, RoutingLabel, Memory, ProfileUpdate, ProfileUpdateStatus, Script, Workflow, WorkflowRun, Schedule, UserCredential, ChannelIdentity, Reminder, ReminderDelivery, ReminderUpdates, FileMetadata, ExtractedText, DocumentChunk, WorkflowTemplate, Contact } from './interface';
 
 /**
  * JSON file database implementation - placeholder.
@@ -23,6 +23,7 @@ export class JSONDatabase implements IDatabase {
   async getMessages(_conversationId: string, _limit?: number): Promise<Message[]> { throw new Error('Not implemented'); }
   async addMessage(_message: Omit<Message, 'createdAt'>): Promise<Message> { throw new Error('Not implemented'); }
   async getRecentMessages(_userId: string, _limit?: number): Promise<Message[]> { throw new Error('Not implemented'); }
+  async searchMessages(_userIds: string[], _query: string, _options?: MessageSearchOptions): Promise<MessageSearchResult[]> { throw new Error('Not implemented'); }
   async getSkill(_skillId: string): Promise<Skill | null> { throw new Error('Not implemented'); }
   async getSkills(_userId?: string): Promise<Skill[]> { throw new Error('Not implemented'); }
   async createSkill(_skill: Omit<Skill, 'createdAt' | 'updatedAt'>): Promise<Skill> { throw new Error('Not implemented'); }
@@ -30,7 +31,12 @@ export class JSONDatabase implements IDatabase {
   async deleteSkill(_skillId: string): Promise<void> { throw new Error('Not implemented'); }
   async logUsage(_log: Omit<UsageLog, 'id' | 'createdAt'>): Promise<UsageLog> { throw new Error('Not implemented'); }
   async getUsage(_userId: string, _startDate?: Date, _endDate?: Date): Promise<UsageLog[]> { throw new Error('Not implemented'); }
-  async getUsageSummary(_userId: string, _startDate?: Date, _endDate?: Date): Promise<{ totalTokensIn: number; totalTokensOut: number; totalCostCents: number; byModel: Record<string, { tokensIn: number; tokensOut: number; costCents: number }>; }> { throw new Error('Not implemented'); }
+  async getUsageSummary(_userId: string, _startDate?: Date, _endDate?: Date): Promise<UsageSummary> { throw new Error('Not implemented'); }
+  async getCostSince(_userIds: string[], _since: Date): Promise<number> { throw new Error('Not implemented'); }
+  async getBudget(_scope: Budget['scope'], _targetId: string): Promise<Budget | null> { throw new Error('Not implemented'); }
+  async listBudgets(): Promise<Budget[]> { throw new Error('Not implemented'); }
+  async saveBudget(_budget: Omit<Budget, 'updatedAt'>): Promise<Budget> { throw new Error('Not implemented'); }
+  async deleteBudget(_scope: Budget['scope'], _targetId: string): Promise<void> { throw new Error('Not implemented'); }
   async getUserAuth(_email: string): Promise<UserAuth | null> { throw new Error('Not implemented'); }
   async getUserAuthByUserId(_userId: string): Promise<UserAuth | null> { throw new Error('Not implemented'); }
   async createUserAuth(_auth: Omit<UserAuth, 'createdAt' | 'lastLogin'>): Promise<UserAuth> { throw new Error('Not implemented'); }
@@ -39,6 +45,8 @@ export class JSONDatabase implements IDatabase {
   async deleteUserAuth(_userId: string): Promise<void> { throw new Error('Not implemented'); }
   async countUserAuths(): Promise<number> { throw new Error('Not implemented'); }
   async updateUserAuthRole(_userId: string, _isAdmin: boolean): Promise<void> { throw new Error('Not implemented'); }
+  async updateUserAuthTeam(_userId: string, _team: string | null): Promise<void> { throw new Error('Not implemented'); }
+  async getTeamMemberIds(_team: string): Promise<string[]> { throw new Error('Not implemented'); }
   async getUserSoul(_userId: string): Promise<UserSoul | null> { throw new Error('Not implemented'); }
   async saveUserSoul(_userId: string, _soul: Omit<UserSoul, 'userId' | 'createdAt' | 'updatedAt'>): Promise<UserSoul> { throw new Error('Not implemented'); }
   async getUserProfile(_userId: string): Promise<UserProfile | null> { throw new Error('Not implemented'); }
@@ -48,6 +56,19 @@ export class JSONDatabase implements IDatabase {
   async getDebugLog(_id: string): Promise<DebugLog | null> { throw new Error('Not implemented'); }
   async getDebugLogCount(_filters?: { userId?: string; channel?: string; intent?: string }): Promise<number> { throw new Error('Not implemented'); }
   async deleteDebugLogsBefore(_date: Date): Promise<number> { throw new Error('Not implemented'); }
+  async getRoutingLabels(): Promise<RoutingLabel[]> { throw new Error('Not implemented'); }
+  async saveRoutingLabel(_label: Omit<RoutingLabel, 'updatedAt'>): Promise<RoutingLabel> { throw new Error('Not implemented'); }
+  async deleteRoutingLabel(_debugLogId: string): Promise<void> { throw new Error('Not implemented'); }
+  async getMemories(_userId: string): Promise<Memory[]> { throw new Error('Not implemented'); }
+  async getMemory(_memoryId: string): Promise<Memory | null> { throw new Error('Not implemented'); }
+  async createMemory(_memory: Omit<Memory, 'lastUsedAt' | 'createdAt' | 'updatedAt'>): Promise<Memory> { throw new Error('Not implemented'); }
+  async updateMemory(_memoryId: string, _updates: Partial<Pick<Memory, 'category' | 'content' | 'expiresAt' | 'lastUsedAt'>>): Promise<void> { throw new Error('Not implemented'); }
+  async deleteMemory(_memoryId: string): Promise<void> { throw new Error('Not implemented'); }
+  async deleteExpiredMemories(_before: Date): Promise<number> { throw new Error('Not implemented'); }
+  async getProfileUpdates(_userId: string, _status?: ProfileUpdateStatus): Promise<ProfileUpdate[]> { throw new Error('Not implemented'); }
+  async getProfileUpdate(_updateId: string): Promise<ProfileUpdate | null> { throw new Error('Not implemented'); }
+  async createProfileUpdate(_update: Omit<ProfileUpdate, 'status' | 'createdAt' | 'resolvedAt'>): Promise<ProfileUpdate> { throw new Error('Not implemented'); }
+  async updateProfileUpdate(_updateId: string, _updates: Partial<Pick<ProfileUpdate, 'section' | 'update' | 'status'>>): Promise<void> { throw new Error('Not implemented'); }
   async getScript(_scriptId: string): Promise<Script | null> { throw new Error('Not implemented'); }
   async getScripts(_userId: string): Promise<Script[]> { throw new Error('Not implemented'); }
   async createScript(_script: Omit<Script, 'createdAt' | 'updatedAt'>): Promise<Script> { throw new Error('Not implemented'); }
@@ -75,12 +96,22 @@ export class JSONDatabase implements IDatabase {
   async createReminder(_reminder: Omit<Reminder, 'createdAt' | 'completedAt' | 'notifiedAt'>): Promise<Reminder> { throw new Error('Not implemented'); }
   async getReminders(_userId: string, _includeComplete?: boolean): Promise<Reminder[]> { throw new Error('Not implemented'); }
   async getDueReminders(): Promise<Reminder[]> { throw new Error('Not implemented'); }
-  async updateReminder(_id: string, _updates: Partial<Pick<Reminder, 'text' | 'isComplete' | 'dueAt' | 'notifiedAt'>>): Promise<Reminder> { throw new Error('Not implemented'); }
+  async getReminder(_id: string): Promise<Reminder | null> { throw new Error('Not implemented'); }
+  async getNotifiedReminders(): Promise<Reminder[]> { throw new Error('Not implemented'); }
+  async updateReminder(_id: string, _updates: ReminderUpdates): Promise<Reminder> { throw new Error('Not implemented'); }
   async deleteReminder(_id: string): Promise<void> { throw new Error('Not implemented'); }
+  async createReminderDelivery(_delivery: Omit<ReminderDelivery, 'createdAt'>): Promise<ReminderDelivery> { throw new Error('Not implemented'); }
+  async getReminderDeliveries(_reminderId: string, _limit?: number): Promise<ReminderDelivery[]> { throw new Error('Not implemented'); }
   async getFileMetadata(_userId: string, _filename: string): Promise<FileMetadata | null> { throw new Error('Not implemented'); }
   async setFileTracked(_userId: string, _filename: string, _tracked: boolean): Promise<void> { throw new Error('Not implemented'); }
   async getTrackedFiles(_userId: string): Promise<FileMetadata[]> { throw new Error('Not implemented'); }
   async upsertFileMetadata(_userId: string, _filename: string, _tracked: boolean): Promise<void> { throw new Error('Not implemented'); }
+  async getExtractedText(_userId: string, _filename: string): Promise<ExtractedText | null> { throw new Error('Not implemented'); }
+  async saveExtractedText(_userId: string, _filename: string, _text: string): Promise<void> { throw new Error('Not implemented'); }
+  async replaceDocumentChunks(_userId: string, _filename: string, _chunks: Array<Omit<DocumentChunk, 'userId' | 'filename'>>): Promise<void> { throw new Error('Not implemented'); }
+  async deleteDocumentChunks(_userId: string, _filename: string): Promise<void> { throw new Error('Not implemented'); }
+  async getDocumentChunks(_userId: string): Promise<DocumentChunk[]> { throw new Error('Not implemented'); }
+  async getIndexedDocuments(_userId: string): Promise<Array<{ filename: string; indexedAt: Date }>> { throw new Error('Not implemented'); }
   async getTemplate(_templateId: string): Promise<WorkflowTemplate | null> { throw new Error('Not implemented'); }
   async getTemplates(): Promise<WorkflowTemplate[]> { throw new Error('Not implemented'); }
   async getPublishedTemplates(): Promise<WorkflowTemplate[]> { throw new Error('Not implemented'); }
@@ -7,8 +7,16 @@ import {
   User,
   Conversation,
   Message,
+  MessageSearchOptions,
+  MessageSearchResult,
   Skill,
   UsageLog,
+  UsageSummary,
+  Budget,
+  RoutingLabel,
+  Memory,
+  ProfileUpdate,
+  ProfileUpdateStatus,
   UserAuth,
   UserSoul,
   UserProfile,
@@ -20,7 +28,11 @@ import {
   UserCredential,
   ChannelIdentity,
   Reminder,
+  ReminderDelivery,
+  ReminderUpdates,
   FileMetadata,
+  ExtractedText,
+  DocumentChunk,
   WorkflowTemplate,
   Contact
 } from './interface';
@@ -261,6 +273,18 @@ export class SQLiteDatabase implements IDatabase {
         FOREIGN KEY (user_id) REFERENCES users(id)
       );
 
+      CREATE TABLE IF NOT EXISTS reminder_deliveries (
+        id TEXT PRIMARY KEY,
+        reminder_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        channel TEXT NOT NULL,
+        status TEXT NOT NULL,
+        error TEXT,
+        escalation INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (reminder_id) REFERENCES reminders(id) ON DELETE CASCADE
+      );
+
       CREATE TABLE IF NOT EXISTS file_metadata (
         user_id TEXT NOT NULL,
         filename TEXT NOT NULL,
@@ -269,6 +293,17 @@ export class SQLiteDatabase implements IDatabase {
         PRIMARY KEY (user_id, filename)
       );
 
+      CREATE TABLE IF NOT EXISTS document_chunks (
+        user_id TEXT NOT NULL,
+        filename TEXT NOT NULL,
+        chunk_index INTEGER NOT NULL,
+        page INTEGER,
+        start_line INTEGER NOT NULL,
+        end_line INTEGER NOT NULL,
+        text TEXT NOT NULL,
+        PRIMARY KEY (user_id, filename, chunk_index)
+      );
+
       CREATE TABLE IF NOT EXISTS contacts (
         id TEXT PRIMARY KEY,
         user_id TEXT NOT NULL,
@@ -284,6 +319,52 @@ export class SQLiteDatabase implements IDatabase {
         FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
       );
 
+      CREATE TABLE IF NOT EXISTS routing_labels (
+        debug_log_id TEXT PRIMARY KEY,
+        message TEXT NOT NULL,
+        intent TEXT NOT NULL,
+        complexity TEXT NOT NULL,
+        suggested_model TEXT NOT NULL,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS memories (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        category TEXT NOT NULL,
+        content TEXT NOT NULL,
+        source_conversation_id TEXT,
+        expires_at TEXT,
+        last_used_at TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_memories_user ON memories(user_id);
+
+      CREATE TABLE IF NOT EXISTS profile_updates (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        section TEXT NOT NULL,
+        update_text TEXT NOT NULL,
+        source_conversation_id TEXT,
+        auto_detected INTEGER DEFAULT 1,
+        status TEXT DEFAULT 'pending',
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        resolved_at TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_profile_updates_user ON profile_updates(user_id, status);
+
+      CREATE TABLE IF NOT EXISTS budgets (
+        scope TEXT NOT NULL,
+        target_id TEXT NOT NULL,
+        daily_cents REAL,
+        monthly_cents REAL,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (scope, target_id)
+      );
+
       CREATE TABLE IF NOT EXISTS workflow_templates (
         id TEXT PRIMARY KEY,
         name TEXT NOT NULL,
@@ -311,6 +392,7 @@ export class SQLiteDatabase implements IDatabase {
       CREATE INDEX IF NOT EXISTS idx_channel_identities_owner ON channel_identities(owner_id);
       CREATE UNIQUE INDEX IF NOT EXISTS idx_channel_identities_uniq ON channel_identities(owner_id, channel, channel_user_id);
       CREATE INDEX IF NOT EXISTS idx_reminders_user_id ON reminders(user_id);
+      CREATE INDEX IF NOT EXISTS idx_reminder_deliveries_reminder ON reminder_deliveries(reminder_id, created_at);
       CREATE INDEX IF NOT EXISTS idx_contacts_user ON contacts(user_id);
     `);
 
@@ -323,6 +405,20 @@ export class SQLiteDatabase implements IDatabase {
     if (!colNames.has('notified_at')) {
       this.db.exec('ALTER TABLE reminders ADD COLUMN notified_at TEXT');
     }
+    if (!colNames.has('recurrence')) {
+      this.db.exec('ALTER TABLE reminders ADD COLUMN recurrence TEXT');
+      this.db.exec('ALTER TABLE reminders ADD COLUMN recurrence_text TEXT');
+    }
+
+    // Migration: add extracted text cache to file_metadata (safe for existing DBs)
+    const fileMetaCols = this.db.pragma('table_info(file_metadata)') as Array<{ name: string }>;
+    if (!fileMetaCols.some(c => c.name === 'extracted_text')) {
+      this.db.exec('ALTER TABLE file_metadata ADD COLUMN extracted_text TEXT');
+      this.db.exec('ALTER TABLE file_metadata ADD COLUMN extracted_at TEXT');
+    }
+    if (!fileMetaCols.some(c => c.name === 'indexed_at')) {
+      this.db.exec('ALTER TABLE file_metadata ADD COLUMN indexed_at TEXT');
+    }
 
     // Migration: add relationship column to contacts (safe for existing DBs)
     const contactCols = this.db.pragma('table_info(contacts)') as Array<{ name: string }>;
@@ -330,6 +426,134 @@ export class SQLiteDatabase implements IDatabase {
     if (!contactColNames.has('relationship')) {
       this.db.exec('ALTER TABLE contacts ADD COLUMN relationship TEXT');
     }
+
+    // Migration: add prompt-cache and savings columns to usage_log (safe for existing DBs)
+    const usageCols = this.db.pragma('table_info(usage_log)') as Array<{ name: string }>;
+    const usageColNames = new Set(usageCols.map(c => c.name));
+    if (!usageColNames.has('cache_creation_tokens')) {
+      this.db.exec('ALTER TABLE usage_log ADD COLUMN cache_creation_tokens INTEGER DEFAULT 0');
+    }
+    if (!usageColNames.has('cache_read_tokens')) {
+      this.db.exec('ALTER TABLE usage_log ADD COLUMN cache_read_tokens INTEGER DEFAULT 0');
+    }
+    if (!usageColNames.has('cache_savings_cents')) {
+      this.db.exec('ALTER TABLE usage_log ADD COLUMN cache_savings_cents REAL DEFAULT 0');
+    }
+    if (!usageColNames.has('tokens_saved')) {
+      this.db.exec('ALTER TABLE usage_log ADD COLUMN tokens_saved INTEGER DEFAULT 0');
+    }
+    if (!usageColNames.has('thinking_tokens')) {
+      this.db.exec('ALTER TABLE usage_log ADD COLUMN thinking_tokens INTEGER DEFAULT 0');
+    }
+    if (!usageColNames.has('thinking_cost_cents')) {
+      this.db.exec('ALTER TABLE usage_log ADD COLUMN thinking_cost_cents REAL DEFAULT 0');
+    }
+
+    // Migration: add prompt-cache columns to debug_logs (safe for existing DBs)
+    const debugCols = this.db.pragma('table_info(debug_logs)') as Array<{ name: string }>;
+    const debugColNames = new Set(debugCols.map(c => c.name));
+    if (!debugColNames.has('cache_creation_tokens')) {
+      this.db.exec('ALTER TABLE debug_logs ADD COLUMN cache_creation_tokens INTEGER DEFAULT 0');
+    }
+    if (!debugColNames.has('cache_read_tokens')) {
+      this.db.exec('ALTER TABLE debug_logs ADD COLUMN cache_read_tokens INTEGER DEFAULT 0');
+    }
+
+    // Migration: add retry_count to debug_logs (safe for existing DBs)
+    if (!debugColNames.has('retry_count')) {
+      this.db.exec('ALTER TABLE debug_logs ADD COLUMN retry_count INTEGER DEFAULT 0');
+    }
+
+    // Migration: persist tool calls on messages and debug logs (safe for existing DBs)
+    const messageCols = this.db.pragma('table_info(messages)') as Array<{ name: string }>;
+    if (!messageCols.some(c => c.name === 'tool_call')) {
+      this.db.exec('ALTER TABLE messages ADD COLUMN tool_call TEXT');
+    }
+    if (!debugColNames.has('tool_calls_json')) {
+      this.db.exec('ALTER TABLE debug_logs ADD COLUMN tool_calls_json TEXT');
+    }
+
+    // Migration: record every ranked skill on debug logs (safe for existing DBs)
+    if (!debugColNames.has('selected_skills_json')) {
+      this.db.exec('ALTER TABLE debug_logs ADD COLUMN selected_skills_json TEXT');
+    }
+
+    // Migration: record the context budget and per-section token use (safe for existing DBs)
+    if (!debugColNames.has('context_budget')) {
+      this.db.exec('ALTER TABLE debug_logs ADD COLUMN context_budget INTEGER');
+    }
+    if (!debugColNames.has('context_sections_json')) {
+      this.db.exec('ALTER TABLE debug_logs ADD COLUMN context_sections_json TEXT');
+    }
+
+    // Migration: record where the routing came from (safe for existing DBs)
+    if (!debugColNames.has('routed_by')) {
+      this.db.exec('ALTER TABLE debug_logs ADD COLUMN routed_by TEXT');
+    }
+
+    // Migration: track memory extraction per conversation (safe for existing DBs)
+    const conversationCols = this.db.pragma('table_info(conversations)') as Array<{ name: string }>;
+    if (!conversationCols.some(c => c.name === 'memory_extracted_at')) {
+      this.db.exec('ALTER TABLE conversations ADD COLUMN memory_extracted_at TEXT');
+    }
+    if (!conversationCols.some(c => c.name === 'profile_extracted_at')) {
+      this.db.exec('ALTER TABLE conversations ADD COLUMN profile_extracted_at TEXT');
+    }
+
+    // Migration: record the channel on messages (safe for existing DBs).
+    // Older web chat history can be attributed from the conversation owner.
+    if (!messageCols.some(c => c.name === 'channel')) {
+      this.db.exec('ALTER TABLE messages ADD COLUMN channel TEXT');
+      this.db.exec(`
+        UPDATE messages SET channel = 'web'
+        WHERE role IN ('user', 'assistant')
+          AND conversation_id IN (SELECT id FROM conversations WHERE user_id LIKE 'web:%')
+      `);
+    }
+
+    // Full-text index over message content, kept in sync by triggers.
+    // Built from existing history the first time.
+    const hasFts = this.db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'messages_fts'").get();
+    this.db.exec(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS messages_fts USING fts5(
+        content, content = 'messages', content_rowid = 'rowid', tokenize = 'porter unicode61'
+      );
+
+      CREATE TRIGGER IF NOT EXISTS messages_fts_insert AFTER INSERT ON messages BEGIN
+        INSERT INTO messages_fts (rowid, content) VALUES (new.rowid, new.content);
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS messages_fts_delete AFTER DELETE ON messages BEGIN
+        INSERT INTO messages_fts (messages_fts, rowid, content) VALUES ('delete', old.rowid, old.content);
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS messages_fts_update AFTER UPDATE OF content ON messages BEGIN
+        INSERT INTO messages_fts (messages_fts, rowid, content) VALUES ('delete', old.rowid, old.content);
+        INSERT INTO messages_fts (rowid, content) VALUES (new.rowid, new.content);
+      END;
+    `);
+    if (!hasFts) {
+      this.db.exec("INSERT INTO messages_fts (messages_fts) VALUES ('rebuild')");
+    }
+
+    // Migration: reminders and profiles are keyed by the account, but web chat
+    // used to save them under `web:<id>`. Move those rows to the account; a
+    // profile stays put if the account already has its own.
+    this.db.exec(`
+      UPDATE reminders SET user_id = substr(user_id, 5)
+      WHERE user_id LIKE 'web:%' AND substr(user_id, 5) IN (SELECT id FROM users);
+      UPDATE reminder_deliveries SET user_id = substr(user_id, 5)
+      WHERE user_id LIKE 'web:%' AND substr(user_id, 5) IN (SELECT id FROM users);
+      UPDATE user_profile SET user_id = substr(user_id, 5)
+      WHERE user_id LIKE 'web:%' AND substr(user_id, 5) IN (SELECT id FROM users)
+        AND substr(user_id, 5) NOT IN (SELECT user_id FROM user_profile);
+    `);
+
+    // Migration: add team to user_auth for team budgets (safe for existing DBs)
+    const authCols = this.db.pragma('table_info(user_auth)') as Array<{ name: string }>;
+    if (!authCols.some(c => c.name === 'team')) {
+      this.db.exec('ALTER TABLE user_auth ADD COLUMN team TEXT');
+    }
   }
   
   // Users
@@ -415,6 +639,14 @@ export class SQLiteDatabase implements IDatabase {
       sets.push('summary = ?');
       values.push(updates.summary);
     }
+    if (updates.memoryExtractedAt !== undefined) {
+      sets.push('memory_extracted_at = ?');
+      values.push(updates.memoryExtractedAt.toISOString());
+    }
+    if (updates.profileExtractedAt !== undefined) {
+      sets.push('profile_extracted_at = ?');
+      values.push(updates.profileExtractedAt.toISOString());
+    }
     
     values.push(conversationId);
     this.db.prepare(`UPDATE conversations SET ${sets.join(', ')} WHERE id = ?`).run(...values);
@@ -441,14 +673,16 @@ export class SQLiteDatabase implements IDatabase {
   async getMessages(conversationId: string, limit: number = 100): Promise<Message[]> {
     // Get the newest `limit` messages, then re-sort chronologically.
     // Without the subquery, LIMIT would return the oldest N messages.
+    // rowid breaks ties between messages saved in the same millisecond
+    // (e.g. tool calls followed by the assistant reply).
     const rows = this.db.prepare(`
       SELECT * FROM (
-        SELECT * FROM messages
+        SELECT *, rowid AS seq FROM messages
         WHERE conversation_id = ?
-        ORDER BY created_at DESC
+        ORDER BY created_at DESC, rowid DESC
         LIMIT ?
       ) sub
-      ORDER BY created_at ASC
+      ORDER BY created_at ASC, seq ASC
     `).all(conversationId, limit) as any[];
 
     return rows.map(row => this.mapMessage(row));
@@ -457,9 +691,12 @@ export class SQLiteDatabase implements IDatabase {
   async addMessage(message: Omit<Message, 'createdAt'>): Promise<Message> {
     const now = new Date().toISOString();
     this.db.prepare(`
-      INSERT INTO messages (id, conversation_id, role, content, created_at)
-      VALUES (?, ?, ?, ?, ?)
-    `).run(message.id, message.conversationId, message.role, message.content, now);
+      INSERT INTO messages (id, conversation_id, role, content, tool_call, channel, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      message.id, message.conversationId, message.role, message.content,
+      message.toolCall ? JSON.stringify(message.toolCall) : null, message.channel ?? null, now
+    );
     
     // Update conversation's updated_at
     this.db.prepare('UPDATE conversations SET updated_at = ? WHERE id = ?')
@@ -476,12 +713,68 @@ export class SQLiteDatabase implements IDatabase {
       SELECT m.* FROM messages m
       JOIN conversations c ON m.conversation_id = c.id
       WHERE c.user_id = ?
-      ORDER BY m.created_at DESC
+      ORDER BY m.created_at DESC, m.rowid DESC
       LIMIT ?
     `).all(userId, limit) as any[];
     
     return rows.map(row => this.mapMessage(row));
   }
+
+  async searchMessages(userIds: string[], query: string, options: MessageSearchOptions = {}): Promise<MessageSearchResult[]> {
+    // Quote each word so FTS5 operators in the query are taken literally;
+    // the trailing * lets "lisb" find "Lisbon".
+    const terms = (query.match(/[\p{L}\p{N}]+/gu) || []).map(t => `"${t}"*`);
+    if (terms.length === 0 || userIds.length === 0) return [];
+
+    const [open, close] = options.highlight ?? ['**', '**'];
+    const conditions = [
+      'messages_fts MATCH ?',
+      `c.user_id IN (${userIds.map(() => '?').join(', ')})`,
+      "m.role IN ('user', 'assistant')"
+    ];
+    const filters: any[] = [...userIds];
+    if (options.from) {
+      conditions.push('m.created_at >= ?');
+      filters.push(options.from.toISOString());
+    }
+    if (options.to) {
+      conditions.push('m.created_at < ?');
+      filters.push(options.to.toISOString());
+    }
+    if (options.channel) {
+      conditions.push('m.channel = ?');
+      filters.push(options.channel);
+    }
+
+    const statement = this.db.prepare(`
+      SELECT m.id, m.conversation_id, m.role, m.channel, m.created_at, c.title,
+        snippet(messages_fts, 0, ?, ?, '…', 16) AS snippet
+      FROM messages_fts
+      JOIN messages m ON m.rowid = messages_fts.rowid
+      JOIN conversations c ON c.id = m.conversation_id
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY rank
+      LIMIT ?
+    `);
+    const search = (match: string) =>
+      statement.all(open, close, match, ...filters, options.limit ?? 20) as any[];
+
+    // Every word must match; if nothing does, settle for any word, best ranked first
+    let rows = search(terms.join(' '));
+    if (rows.length === 0 && terms.length > 1) {
+      rows = search(terms.join(' OR '));
+    }
+
+    return rows.map(row => ({
+      messageId: row.id,
+      conversationId: row.conversation_id,
+      conversationTitle: row.title ?? null,
+      role: row.role,
+      channel: row.channel ?? null,
+      snippet: row.snippet,
+      createdAt: new Date(row.created_at)
+    }));
+  }
   
   // Skills
   async getSkill(skillId: string): Promise<Skill | null> {
@@ -553,9 +846,16 @@ export class SQLiteDatabase implements IDatabase {
     const now = new Date().toISOString();
     
     this.db.prepare(`
-      INSERT INTO usage_log (id, user_id, model, tokens_in, tokens_out, cost_cents, created_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
-    `).run(id, log.userId, log.model, log.tokensIn, log.tokensOut, log.costCents, now);
+      INSERT INTO usage_log (
+        id, user_id, model, tokens_in, tokens_out, cost_cents,
+        cache_creation_tokens, cache_read_tokens, cache_savings_cents, tokens_saved,
+        thinking_tokens, thinking_cost_cents, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      id, log.userId, log.model, log.tokensIn, log.tokensOut, log.costCents,
+      log.cacheCreationTokens ?? 0, log.cacheReadTokens ?? 0, log.cacheSavingsCents ?? 0,
+      log.tokensSaved ?? 0, log.thinkingTokens ?? 0, log.thinkingCostCents ?? 0, now
+    );
     
     return {
       id,
@@ -583,21 +883,19 @@ export class SQLiteDatabase implements IDatabase {
     return rows.map(row => this.mapUsageLog(row));
   }
   
-  async getUsageSummary(userId: string, startDate?: Date, endDate?: Date): Promise<{
-    totalTokensIn: number;
-    totalTokensOut: number;
-    totalCostCents: number;
-    byModel: Record<string, { tokensIn: number; tokensOut: number; costCents: number }>;
-  }> {
+  async getUsageSummary(userId: string, startDate?: Date, endDate?: Date): Promise<UsageSummary> {
     let sql = `
       SELECT 
-        SUM(tokens_in) as total_tokens_in,
-        SUM(tokens_out) as total_tokens_out,
-        SUM(cost_cents) as total_cost_cents,
         model,
         SUM(tokens_in) as model_tokens_in,
         SUM(tokens_out) as model_tokens_out,
-        SUM(cost_cents) as model_cost_cents
+        SUM(cost_cents) as model_cost_cents,
+        SUM(cache_creation_tokens) as model_cache_creation,
+        SUM(cache_read_tokens) as model_cache_read,
+        SUM(cache_savings_cents) as model_cache_savings,
+        SUM(tokens_saved) as model_tokens_saved,
+        SUM(thinking_tokens) as model_thinking_tokens,
+        SUM(thinking_cost_cents) as model_thinking_cost
       FROM usage_log 
       WHERE user_id = ?
     `;
@@ -620,6 +918,12 @@ export class SQLiteDatabase implements IDatabase {
     let totalTokensIn = 0;
     let totalTokensOut = 0;
     let totalCostCents = 0;
+    let totalCacheCreationTokens = 0;
+    let totalCacheReadTokens = 0;
+    let totalCacheSavingsCents = 0;
+    let totalTokensSaved = 0;
+    let totalThinkingTokens = 0;
+    let totalThinkingCostCents = 0;
     
     for (const row of rows) {
       byModel[row.model] = {
@@ -630,15 +934,70 @@ export class SQLiteDatabase implements IDatabase {
       totalTokensIn += row.model_tokens_in || 0;
       totalTokensOut += row.model_tokens_out || 0;
       totalCostCents += row.model_cost_cents || 0;
+      totalCacheCreationTokens += row.model_cache_creation || 0;
+      totalCacheReadTokens += row.model_cache_read || 0;
+      totalCacheSavingsCents += row.model_cache_savings || 0;
+      totalTokensSaved += row.model_tokens_saved || 0;
+      totalThinkingTokens += row.model_thinking_tokens || 0;
+      totalThinkingCostCents += row.model_thinking_cost || 0;
     }
+
+    // tokens_in excludes cached tokens, so total input is the sum of all three
+    const totalInput = totalTokensIn + totalCacheCreationTokens + totalCacheReadTokens;
     
     return {
       totalTokensIn,
       totalTokensOut,
       totalCostCents,
+      totalCacheCreationTokens,
+      totalCacheReadTokens,
+      totalCacheSavingsCents,
+      totalTokensSaved,
+      totalThinkingTokens,
+      totalThinkingCostCents,
+      cacheHitRate: totalInput > 0 ? totalCacheReadTokens / totalInput : 0,
       byModel
     };
   }
+
+  async getCostSince(userIds: string[], since: Date): Promise<number> {
+    if (userIds.length === 0) return 0;
+    const placeholders = userIds.map(() => '?').join(', ');
+    const row = this.db.prepare(`
+      SELECT SUM(cost_cents) as total FROM usage_log
+      WHERE user_id IN (${placeholders}) AND created_at >= ?
+    `).get(...userIds, since.toISOString()) as { total: number | null };
+    return row.total || 0;
+  }
+
+  // Budgets
+  async getBudget(scope: Budget['scope'], targetId: string): Promise<Budget | null> {
+    const row = this.db.prepare('SELECT * FROM budgets WHERE scope = ? AND target_id = ?').get(scope, targetId) as any;
+    if (!row) return null;
+    return this.mapBudget(row);
+  }
+
+  async listBudgets(): Promise<Budget[]> {
+    const rows = this.db.prepare('SELECT * FROM budgets ORDER BY scope ASC, target_id ASC').all() as any[];
+    return rows.map(row => this.mapBudget(row));
+  }
+
+  async saveBudget(budget: Omit<Budget, 'updatedAt'>): Promise<Budget> {
+    const now = new Date().toISOString();
+    this.db.prepare(`
+      INSERT INTO budgets (scope, target_id, daily_cents, monthly_cents, updated_at)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(scope, target_id) DO UPDATE SET
+        daily_cents = excluded.daily_cents,
+        monthly_cents = excluded.monthly_cents,
+        updated_at = excluded.updated_at
+    `).run(budget.scope, budget.targetId, budget.dailyCents, budget.monthlyCents, now);
+    return this.getBudget(budget.scope, budget.targetId) as Promise<Budget>;
+  }
+
+  async deleteBudget(scope: Budget['scope'], targetId: string): Promise<void> {
+    this.db.prepare('DELETE FROM budgets WHERE scope = ? AND target_id = ?').run(scope, targetId);
+  }
   
   // Auth
   async getUserAuth(email: string): Promise<UserAuth | null> {
@@ -686,6 +1045,15 @@ export class SQLiteDatabase implements IDatabase {
     this.db.prepare('UPDATE user_auth SET is_admin = ? WHERE user_id = ?').run(isAdmin ? 1 : 0, userId);
   }
 
+  async updateUserAuthTeam(userId: string, team: string | null): Promise<void> {
+    this.db.prepare('UPDATE user_auth SET team = ? WHERE user_id = ?').run(team, userId);
+  }
+
+  async getTeamMemberIds(team: string): Promise<string[]> {
+    const rows = this.db.prepare('SELECT user_id FROM user_auth WHERE team = ?').all(team) as Array<{ user_id: string }>;
+    return rows.map(r => r.user_id);
+  }
+
   // Per-user Soul
   async getUserSoul(userId: string): Promise<UserSoul | null> {
     const row = this.db.prepare('SELECT * FROM user_soul WHERE user_id = ?').get(userId) as any;
@@ -744,18 +1112,23 @@ export class SQLiteDatabase implements IDatabase {
     this.db.prepare(`
       INSERT INTO debug_logs (
         id, user_id, conversation_id, channel, user_message,
-        intent, complexity, suggested_model, selected_skill, personality_level,
+        intent, complexity, suggested_model, selected_skill, selected_skills_json, routed_by, personality_level,
         include_bio, bio_sections, context_summary, system_prompt, messages_json,
-        estimated_tokens, response_text, actual_model, tokens_in, tokens_out,
-        cost_cents, tokens_saved, duration_ms, success, error_message, created_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        estimated_tokens, context_budget, context_sections_json, response_text, actual_model, tokens_in, tokens_out,
+        cost_cents, cache_creation_tokens, cache_read_tokens, retry_count, tool_calls_json, tokens_saved,
+        duration_ms, success, error_message, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `).run(
       log.id, log.userId, log.conversationId, log.channel, log.userMessage,
-      log.intent, log.complexity, log.suggestedModel, log.selectedSkill, log.personalityLevel,
+      log.intent, log.complexity, log.suggestedModel, log.selectedSkill,
+      log.selectedSkills?.length ? JSON.stringify(log.selectedSkills) : null, log.routedBy ?? null, log.personalityLevel,
       log.includeBio ? 1 : 0, JSON.stringify(log.bioSections), log.contextSummary,
       log.systemPrompt, log.messagesJson, log.estimatedTokens,
+      log.contextBudget ?? null, log.contextSections?.length ? JSON.stringify(log.contextSections) : null,
       log.responseText, log.actualModel, log.tokensIn, log.tokensOut,
-      log.costCents, log.tokensSaved, log.durationMs, log.success ? 1 : 0,
+      log.costCents, log.cacheCreationTokens ?? 0, log.cacheReadTokens ?? 0, log.retryCount ?? 0,
+      log.toolCalls?.length ? JSON.stringify(log.toolCalls) : null,
+      log.tokensSaved, log.durationMs, log.success ? 1 : 0,
       log.errorMessage, now
     );
 
@@ -801,6 +1174,137 @@ export class SQLiteDatabase implements IDatabase {
     return result.changes;
   }
 
+  // Routing Labels
+  async getRoutingLabels(): Promise<RoutingLabel[]> {
+    const rows = this.db.prepare('SELECT * FROM routing_labels ORDER BY updated_at DESC').all() as any[];
+    return rows.map(row => this.mapRoutingLabel(row));
+  }
+
+  async saveRoutingLabel(label: Omit<RoutingLabel, 'updatedAt'>): Promise<RoutingLabel> {
+    const now = new Date().toISOString();
+    this.db.prepare(`
+      INSERT INTO routing_labels (debug_log_id, message, intent, complexity, suggested_model, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(debug_log_id) DO UPDATE SET
+        intent = excluded.intent,
+        complexity = excluded.complexity,
+        suggested_model = excluded.suggested_model,
+        updated_at = excluded.updated_at
+    `).run(label.debugLogId, label.message, label.intent, label.complexity, label.suggestedModel, now);
+    return { ...label, updatedAt: new Date(now) };
+  }
+
+  async deleteRoutingLabel(debugLogId: string): Promise<void> {
+    this.db.prepare('DELETE FROM routing_labels WHERE debug_log_id = ?').run(debugLogId);
+  }
+
+  // Memories
+  async getMemories(userId: string): Promise<Memory[]> {
+    const rows = this.db.prepare('SELECT * FROM memories WHERE user_id = ? ORDER BY updated_at DESC').all(userId) as any[];
+    return rows.map(row => this.mapMemory(row));
+  }
+
+  async getMemory(memoryId: string): Promise<Memory | null> {
+    const row = this.db.prepare('SELECT * FROM memories WHERE id = ?').get(memoryId) as any;
+    return row ? this.mapMemory(row) : null;
+  }
+
+  async createMemory(memory: Omit<Memory, 'lastUsedAt' | 'createdAt' | 'updatedAt'>): Promise<Memory> {
+    const now = new Date().toISOString();
+    this.db.prepare(`
+      INSERT INTO memories (id, user_id, category, content, source_conversation_id, expires_at, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      memory.id, memory.userId, memory.category, memory.content, memory.sourceConversationId,
+      memory.expiresAt ? memory.expiresAt.toISOString() : null, now, now
+    );
+    return { ...memory, lastUsedAt: null, createdAt: new Date(now), updatedAt: new Date(now) };
+  }
+
+  async updateMemory(memoryId: string, updates: Partial<Pick<Memory, 'category' | 'content' | 'expiresAt' | 'lastUsedAt'>>): Promise<void> {
+    const sets: string[] = [];
+    const values: any[] = [];
+
+    if (updates.category !== undefined) {
+      sets.push('category = ?');
+      values.push(updates.category);
+    }
+    if (updates.content !== undefined) {
+      sets.push('content = ?');
+      values.push(updates.content);
+    }
+    if (updates.expiresAt !== undefined) {
+      sets.push('expires_at = ?');
+      values.push(updates.expiresAt ? updates.expiresAt.toISOString() : null);
+    }
+    // Recall only touches last_used_at; edits also move updated_at
+    if (sets.length > 0) {
+      sets.push('updated_at = ?');
+      values.push(new Date().toISOString());
+    }
+    if (updates.lastUsedAt !== undefined) {
+      sets.push('last_used_at = ?');
+      values.push(updates.lastUsedAt ? updates.lastUsedAt.toISOString() : null);
+    }
+    if (sets.length === 0) return;
+
+    values.push(memoryId);
+    this.db.prepare(`UPDATE memories SET ${sets.join(', ')} WHERE id = ?`).run(...values);
+  }
+
+  async deleteMemory(memoryId: string): Promise<void> {
+    this.db.prepare('DELETE FROM memories WHERE id = ?').run(memoryId);
+  }
+
+  async deleteExpiredMemories(before: Date): Promise<number> {
+    const result = this.db.prepare('DELETE FROM memories WHERE expires_at IS NOT NULL AND expires_at < ?').run(before.toISOString());
+    return result.changes;
+  }
+
+  // Profile Updates
+  async getProfileUpdates(userId: string, status?: ProfileUpdateStatus): Promise<ProfileUpdate[]> {
+    const rows = status
+      ? this.db.prepare('SELECT * FROM profile_updates WHERE user_id = ? AND status = ? ORDER BY created_at DESC').all(userId, status) as any[]
+      : this.db.prepare('SELECT * FROM profile_updates WHERE user_id = ? ORDER BY created_at DESC').all(userId) as any[];
+    return rows.map(row => this.mapProfileUpdate(row));
+  }
+
+  async getProfileUpdate(updateId: string): Promise<ProfileUpdate | null> {
+    const row = this.db.prepare('SELECT * FROM profile_updates WHERE id = ?').get(updateId) as any;
+    return row ? this.mapProfileUpdate(row) : null;
+  }
+
+  async createProfileUpdate(update: Omit<ProfileUpdate, 'status' | 'createdAt' | 'resolvedAt'>): Promise<ProfileUpdate> {
+    const now = new Date().toISOString();
+    this.db.prepare(`
+      INSERT INTO profile_updates (id, user_id, section, update_text, source_conversation_id, auto_detected, status, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, 'pending', ?)
+    `).run(update.id, update.userId, update.section, update.update, update.sourceConversationId, update.autoDetected ? 1 : 0, now);
+    return { ...update, status: 'pending', createdAt: new Date(now), resolvedAt: null };
+  }
+
+  async updateProfileUpdate(updateId: string, updates: Partial<Pick<ProfileUpdate, 'section' | 'update' | 'status'>>): Promise<void> {
+    const sets: string[] = [];
+    const values: any[] = [];
+
+    if (updates.section !== undefined) {
+      sets.push('section = ?');
+      values.push(updates.section);
+    }
+    if (updates.update !== undefined) {
+      sets.push('update_text = ?');
+      values.push(updates.update);
+    }
+    if (updates.status !== undefined) {
+      sets.push('status = ?', 'resolved_at = ?');
+      values.push(updates.status, updates.status === 'pending' ? null : new Date().toISOString());
+    }
+    if (sets.length === 0) return;
+
+    values.push(updateId);
+    this.db.prepare(`UPDATE profile_updates SET ${sets.join(', ')} WHERE id = ?`).run(...values);
+  }
+
   // Scripts
   async getScript(scriptId: string): Promise<Script | null> {
     const row = this.db.prepare('SELECT * FROM scripts WHERE id = ?').get(scriptId) as any;
@@ -1015,9 +1519,12 @@ export class SQLiteDatabase implements IDatabase {
     const now = new Date().toISOString();
     const dueAt = reminder.dueAt ? reminder.dueAt.toISOString() : null;
     this.db.prepare(`
-      INSERT INTO reminders (id, user_id, text, is_complete, created_at, due_at)
-      VALUES (?, ?, ?, ?, ?, ?)
-    `).run(reminder.id, reminder.userId, reminder.text, reminder.isComplete ? 1 : 0, now, dueAt);
+      INSERT INTO reminders (id, user_id, text, is_complete, created_at, due_at, recurrence, recurrence_text)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      reminder.id, reminder.userId, reminder.text, reminder.isComplete ? 1 : 0, now, dueAt,
+      reminder.recurrence || null, reminder.recurrenceText || null
+    );
 
     const row = this.db.prepare('SELECT * FROM reminders WHERE id = ?').get(reminder.id) as any;
     return this.mapReminder(row);
@@ -1031,7 +1538,19 @@ export class SQLiteDatabase implements IDatabase {
     return rows.map(row => this.mapReminder(row));
   }
 
-  async updateReminder(id: string, updates: Partial<Pick<Reminder, 'text' | 'isComplete' | 'dueAt' | 'notifiedAt'>>): Promise<Reminder> {
+  async getReminder(id: string): Promise<Reminder | null> {
+    const row = this.db.prepare('SELECT * FROM reminders WHERE id = ?').get(id) as any;
+    return row ? this.mapReminder(row) : null;
+  }
+
+  async getNotifiedReminders(): Promise<Reminder[]> {
+    const rows = this.db.prepare(
+      'SELECT * FROM reminders WHERE notified_at IS NOT NULL AND is_complete = 0'
+    ).all() as any[];
+    return rows.map(row => this.mapReminder(row));
+  }
+
+  async updateReminder(id: string, updates: ReminderUpdates): Promise<Reminder> {
     const sets: string[] = [];
     const values: any[] = [];
 
@@ -1055,6 +1574,14 @@ export class SQLiteDatabase implements IDatabase {
       sets.push('notified_at = ?');
       values.push(updates.notifiedAt ? updates.notifiedAt.toISOString() : null);
     }
+    if (updates.recurrence !== undefined) {
+      sets.push('recurrence = ?');
+      values.push(updates.recurrence || null);
+    }
+    if (updates.recurrenceText !== undefined) {
+      sets.push('recurrence_text = ?');
+      values.push(updates.recurrenceText || null);
+    }
 
     if (sets.length === 0) {
       const row = this.db.prepare('SELECT * FROM reminders WHERE id = ?').get(id) as any;
@@ -1069,9 +1596,29 @@ export class SQLiteDatabase implements IDatabase {
   }
 
   async deleteReminder(id: string): Promise<void> {
+    this.db.prepare('DELETE FROM reminder_deliveries WHERE reminder_id = ?').run(id);
     this.db.prepare('DELETE FROM reminders WHERE id = ?').run(id);
   }
 
+  async createReminderDelivery(delivery: Omit<ReminderDelivery, 'createdAt'>): Promise<ReminderDelivery> {
+    const now = new Date().toISOString();
+    this.db.prepare(`
+      INSERT INTO reminder_deliveries (id, reminder_id, user_id, channel, status, error, escalation, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      delivery.id, delivery.reminderId, delivery.userId, delivery.channel, delivery.status,
+      delivery.error || null, delivery.escalation ? 1 : 0, now
+    );
+    return { ...delivery, createdAt: new Date(now) };
+  }
+
+  async getReminderDeliveries(reminderId: string, limit: number = 50): Promise<ReminderDelivery[]> {
+    const rows = this.db.prepare(
+      'SELECT * FROM reminder_deliveries WHERE reminder_id = ? ORDER BY created_at DESC LIMIT ?'
+    ).all(reminderId, limit) as any[];
+    return rows.map(row => this.mapReminderDelivery(row));
+  }
+
   async getDueReminders(): Promise<Reminder[]> {
     const now = new Date().toISOString();
     const rows = this.db.prepare(
@@ -1083,7 +1630,7 @@ export class SQLiteDatabase implements IDatabase {
   // File Metadata
   async getFileMetadata(userId: string, filename: string): Promise<FileMetadata | null> {
     const row = this.db.prepare(
-      'SELECT * FROM file_metadata WHERE user_id = ? AND filename = ?'
+      'SELECT user_id, filename, tracked, last_uploaded_at, extracted_at, indexed_at FROM file_metadata WHERE user_id = ? AND filename = ?'
     ).get(userId, filename) as any;
     if (!row) return null;
     return this.mapFileMetadata(row);
@@ -1100,7 +1647,7 @@ export class SQLiteDatabase implements IDatabase {
 
   async getTrackedFiles(userId: string): Promise<FileMetadata[]> {
     const rows = this.db.prepare(
-      'SELECT * FROM file_metadata WHERE user_id = ? AND tracked = 1 ORDER BY filename ASC'
+      'SELECT user_id, filename, tracked, last_uploaded_at, extracted_at, indexed_at FROM file_metadata WHERE user_id = ? AND tracked = 1 ORDER BY filename ASC'
     ).all(userId) as any[];
     return rows.map(row => this.mapFileMetadata(row));
   }
@@ -1114,6 +1661,64 @@ export class SQLiteDatabase implements IDatabase {
     `).run(userId, filename, tracked ? 1 : 0, now, now);
   }
 
+  async getExtractedText(userId: string, filename: string): Promise<ExtractedText | null> {
+    const row = this.db.prepare(
+      'SELECT extracted_text, extracted_at FROM file_metadata WHERE user_id = ? AND filename = ? AND extracted_text IS NOT NULL'
+    ).get(userId, filename) as any;
+    if (!row) return null;
+    return { text: row.extracted_text, extractedAt: new Date(row.extracted_at) };
+  }
+
+  async saveExtractedText(userId: string, filename: string, text: string): Promise<void> {
+    const now = new Date().toISOString();
+    this.db.prepare(`
+      INSERT INTO file_metadata (user_id, filename, tracked, last_uploaded_at, extracted_text, extracted_at)
+      VALUES (?, ?, 0, ?, ?, ?)
+      ON CONFLICT(user_id, filename) DO UPDATE SET extracted_text = ?, extracted_at = ?
+    `).run(userId, filename, now, text, now, text, now);
+  }
+
+  // Document Search Index
+  async replaceDocumentChunks(userId: string, filename: string, chunks: Array<Omit<DocumentChunk, 'userId' | 'filename'>>): Promise<void> {
+    const now = new Date().toISOString();
+    const insert = this.db.prepare(`
+      INSERT INTO document_chunks (user_id, filename, chunk_index, page, start_line, end_line, text)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM document_chunks WHERE user_id = ? AND filename = ?').run(userId, filename);
+      for (const chunk of chunks) {
+        insert.run(userId, filename, chunk.chunkIndex, chunk.page ?? null, chunk.startLine, chunk.endLine, chunk.text);
+      }
+      this.db.prepare(`
+        INSERT INTO file_metadata (user_id, filename, tracked, last_uploaded_at, indexed_at)
+        VALUES (?, ?, 0, ?, ?)
+        ON CONFLICT(user_id, filename) DO UPDATE SET indexed_at = ?
+      `).run(userId, filename, now, now, now);
+    })();
+  }
+
+  async deleteDocumentChunks(userId: string, filename: string): Promise<void> {
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM document_chunks WHERE user_id = ? AND filename = ?').run(userId, filename);
+      this.db.prepare('UPDATE file_metadata SET indexed_at = NULL WHERE user_id = ? AND filename = ?').run(userId, filename);
+    })();
+  }
+
+  async getDocumentChunks(userId: string): Promise<DocumentChunk[]> {
+    const rows = this.db.prepare(
+      'SELECT * FROM document_chunks WHERE user_id = ? ORDER BY filename ASC, chunk_index ASC'
+    ).all(userId) as any[];
+    return rows.map(row => this.mapDocumentChunk(row));
+  }
+
+  async getIndexedDocuments(userId: string): Promise<Array<{ filename: string; indexedAt: Date }>> {
+    const rows = this.db.prepare(
+      'SELECT filename, indexed_at FROM file_metadata WHERE user_id = ? AND indexed_at IS NOT NULL'
+    ).all(userId) as any[];
+    return rows.map(row => ({ filename: row.filename, indexedAt: new Date(row.indexed_at) }));
+  }
+
   // Workflow Templates
   async getTemplate(templateId: string): Promise<WorkflowTemplate | null> {
     const row = this.db.prepare('SELECT * FROM workflow_templates WHERE id = ?').get(templateId) as any;
@@ -1286,6 +1891,8 @@ export class SQLiteDatabase implements IDatabase {
       userId: row.user_id,
       title: row.title,
       summary: row.summary,
+      memoryExtractedAt: row.memory_extracted_at ? new Date(row.memory_extracted_at) : undefined,
+      profileExtractedAt: row.profile_extracted_at ? new Date(row.profile_extracted_at) : undefined,
       createdAt: new Date(row.created_at),
       updatedAt: new Date(row.updated_at)
     };
@@ -1297,6 +1904,8 @@ export class SQLiteDatabase implements IDatabase {
       conversationId: row.conversation_id,
       role: row.role,
       content: row.content,
+      ...(row.tool_call ? { toolCall: JSON.parse(row.tool_call) } : {}),
+      ...(row.channel ? { channel: row.channel } : {}),
       createdAt: new Date(row.created_at)
     };
   }
@@ -1322,6 +1931,12 @@ export class SQLiteDatabase implements IDatabase {
       tokensIn: row.tokens_in,
       tokensOut: row.tokens_out,
       costCents: row.cost_cents,
+      cacheCreationTokens: row.cache_creation_tokens || 0,
+      cacheReadTokens: row.cache_read_tokens || 0,
+      cacheSavingsCents: row.cache_savings_cents || 0,
+      tokensSaved: row.tokens_saved || 0,
+      thinkingTokens: row.thinking_tokens || 0,
+      thinkingCostCents: row.thinking_cost_cents || 0,
       createdAt: new Date(row.created_at)
     };
   }
@@ -1332,11 +1947,61 @@ export class SQLiteDatabase implements IDatabase {
       email: row.email,
       passwordHash: row.password_hash,
       isAdmin: row.is_admin === 1,
+      team: row.team || undefined,
       lastLogin: row.last_login ? new Date(row.last_login) : undefined,
       createdAt: new Date(row.created_at)
     };
   }
 
+  private mapRoutingLabel(row: any): RoutingLabel {
+    return {
+      debugLogId: row.debug_log_id,
+      message: row.message,
+      intent: row.intent,
+      complexity: row.complexity,
+      suggestedModel: row.suggested_model,
+      updatedAt: new Date(row.updated_at)
+    };
+  }
+
+  private mapMemory(row: any): Memory {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      category: row.category,
+      content: row.content,
+      sourceConversationId: row.source_conversation_id,
+      expiresAt: row.expires_at ? new Date(row.expires_at) : null,
+      lastUsedAt: row.last_used_at ? new Date(row.last_used_at) : null,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    };
+  }
+
+  private mapProfileUpdate(row: any): ProfileUpdate {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      section: row.section,
+      update: row.update_text,
+      sourceConversationId: row.source_conversation_id,
+      autoDetected: !!row.auto_detected,
+      status: row.status,
+      createdAt: new Date(row.created_at),
+      resolvedAt: row.resolved_at ? new Date(row.resolved_at) : null
+    };
+  }
+
+  private mapBudget(row: any): Budget {
+    return {
+      scope: row.scope,
+      targetId: row.target_id,
+      dailyCents: row.daily_cents ?? null,
+      monthlyCents: row.monthly_cents ?? null,
+      updatedAt: new Date(row.updated_at)
+    };
+  }
+
   private mapUserSoul(row: any): UserSoul {
     return {
       userId: row.user_id,
@@ -1373,6 +2038,8 @@ export class SQLiteDatabase implements IDatabase {
       complexity: row.complexity,
       suggestedModel: row.suggested_model,
       selectedSkill: row.selected_skill,
+      selectedSkills: row.selected_skills_json ? JSON.parse(row.selected_skills_json) : [],
+      routedBy: row.routed_by ?? null,
       personalityLevel: row.personality_level,
       includeBio: row.include_bio === 1,
       bioSections: JSON.parse(row.bio_sections || '[]'),
@@ -1380,11 +2047,17 @@ export class SQLiteDatabase implements IDatabase {
       systemPrompt: row.system_prompt,
       messagesJson: row.messages_json,
       estimatedTokens: row.estimated_tokens,
+      contextBudget: row.context_budget ?? null,
+      contextSections: row.context_sections_json ? JSON.parse(row.context_sections_json) : [],
       responseText: row.response_text,
       actualModel: row.actual_model,
       tokensIn: row.tokens_in,
       tokensOut: row.tokens_out,
       costCents: row.cost_cents,
+      cacheCreationTokens: row.cache_creation_tokens || 0,
+      cacheReadTokens: row.cache_read_tokens || 0,
+      retryCount: row.retry_count || 0,
+      toolCalls: row.tool_calls_json ? JSON.parse(row.tool_calls_json) : [],
       tokensSaved: row.tokens_saved,
       durationMs: row.duration_ms,
       success: row.success === 1,
@@ -1472,7 +2145,22 @@ export class SQLiteDatabase implements IDatabase {
       createdAt: new Date(row.created_at),
       completedAt: row.completed_at ? new Date(row.completed_at) : undefined,
       dueAt: row.due_at ? new Date(row.due_at) : undefined,
-      notifiedAt: row.notified_at ? new Date(row.notified_at) : undefined
+      notifiedAt: row.notified_at ? new Date(row.notified_at) : undefined,
+      recurrence: row.recurrence || undefined,
+      recurrenceText: row.recurrence_text || undefined
+    };
+  }
+
+  private mapReminderDelivery(row: any): ReminderDelivery {
+    return {
+      id: row.id,
+      reminderId: row.reminder_id,
+      userId: row.user_id,
+      channel: row.channel,
+      status: row.status,
+      error: row.error || undefined,
+      escalation: row.escalation === 1,
+      createdAt: new Date(row.created_at)
     };
   }
 
@@ -1496,7 +2184,21 @@ export class SQLiteDatabase implements IDatabase {
       userId: row.user_id,
       filename: row.filename,
       tracked: row.tracked === 1,
-      lastUploadedAt: new Date(row.last_uploaded_at)
+      lastUploadedAt: new Date(row.last_uploaded_at),
+      extractedAt: row.extracted_at ? new Date(row.extracted_at) : undefined,
+      indexedAt: row.indexed_at ? new Date(row.indexed_at) : undefined
+    };
+  }
+
+  private mapDocumentChunk(row: any): DocumentChunk {
+    return {
+      userId: row.user_id,
+      filename: row.filename,
+      chunkIndex: row.chunk_index,
+      page: row.page ?? undefined,
+      startLine: row.start_line,
+      endLine: row.end_line,
+      text: row.text
     };
   }
 
@@ -0,0 +1,166 @@
+import { Budget, Database } from '../db/interface';
+import { accountId } from '../utils/account';
+
+/** Share of a cap at which the user is warned. */
+export const BUDGET_WARN_FRACTION = 0.8;
+
+/** Share of a cap from which requests are sent to the cheapest model tier. */
+export const BUDGET_DOWNGRADE_FRACTION = 0.9;
+
+export type BudgetPeriod = 'daily' | 'monthly';
+
+/** Spending against one cap (a user's or team's daily or monthly limit). */
+export interface BudgetLimitStatus {
+  scope: Budget['scope'];
+  targetId: string;
+  period: BudgetPeriod;
+  limitCents: number;
+  spentCents: number;
+  remainingCents: number;
+  /** spent / limit; 1 or more means the cap is reached. */
+  usedFraction: number;
+  /** When the period rolls over and spending starts from zero. */
+  resetsAt: Date;
+}
+
+/** Where a user stands against every cap that applies to them. */
+export interface BudgetStatus {
+  /**
+   * - ok: under 80% of every cap (or no caps)
+   * - warning: 80% of some cap used
+   * - downgrade: 90% used; requests use the cheapest tier
+   * - exceeded: a cap is reached; requests are refused
+   */
+  state: 'ok' | 'warning' | 'downgrade' | 'exceeded';
+  /** The most used cap, or null when no budget applies. */
+  binding: BudgetLimitStatus | null;
+  limits: BudgetLimitStatus[];
+}
+
+/** Thrown for unattended runs (workflow steps) that hit a cap. */
+export class BudgetExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/**
+ * Enforces per-user and per-team spending caps set by admins.
+ *
+ * Spending is summed from the usage log over the current day or month
+ * (server time). A user's own cap and their team's cap both apply; the
+ * most used one decides. Web chat usage is logged under `web:<id>` and
+ * counts towards the same account.
+ */
+export class BudgetService {
+  /** Last period each warning was shown in, keyed by account and period. */
+  private warned = new Map<string, string>();
+
+  constructor(private db: Database) {}
+
+  /** Compute the budget status for a user across their own and their team's caps. */
+  async getStatus(userId: string): Promise<BudgetStatus> {
+    const account = accountId(userId);
+    const auth = await this.db.getUserAuthByUserId(account);
+
+    const targets: Array<{ budget: Budget; userIds: string[] }> = [];
+    const own = await this.db.getBudget('user', account);
+    if (own) targets.push({ budget: own, userIds: usageIds([account]) });
+    if (auth?.team) {
+      const teamBudget = await this.db.getBudget('team', auth.team);
+      if (teamBudget) {
+        const members = await this.db.getTeamMemberIds(auth.team);
+        targets.push({ budget: teamBudget, userIds: usageIds(members) });
+      }
+    }
+
+    const limits: BudgetLimitStatus[] = [];
+    for (const { budget, userIds } of targets) {
+      for (const period of ['daily', 'monthly'] as const) {
+        const limitCents = period === 'daily' ? budget.dailyCents : budget.monthlyCents;
+        if (limitCents === null || limitCents === undefined) continue;
+
+        const { start, end } = periodBounds(period);
+        const spentCents = await this.db.getCostSince(userIds, start);
+        limits.push({
+          scope: budget.scope,
+          targetId: budget.targetId,
+          period,
+          limitCents,
+          spentCents,
+          remainingCents: Math.max(0, limitCents - spentCents),
+          usedFraction: limitCents > 0 ? spentCents / limitCents : 1,
+          resetsAt: end
+        });
+      }
+    }
+
+    const binding = limits.reduce<BudgetLimitStatus | null>(
+      (worst, l) => (!worst || l.usedFraction > worst.usedFraction ? l : worst),
+      null
+    );
+    const used = binding?.usedFraction ?? 0;
+    const state = used >= 1 ? 'exceeded'
+      : used >= BUDGET_DOWNGRADE_FRACTION ? 'downgrade'
+      : used >= BUDGET_WARN_FRACTION ? 'warning'
+      : 'ok';
+
+    return { state, binding, limits };
+  }
+
+  /** Message shown instead of a response once a cap is reached. */
+  refusalMessage(status: BudgetStatus): string {
+    const b = status.binding!;
+    const owner = b.scope === 'team' ? `Your team's ${b.period}` : `Your ${b.period}`;
+    return `${owner} AI budget of ${formatDollars(b.limitCents)} has been used up, so I can't answer right now. ` +
+      `It resets ${formatReset(b)}. An admin can raise the limit.`;
+  }
+
+  /**
+   * A one-time notice when a user passes 80% of a cap, or null.
+   * Each cap warns once per period.
+   */
+  takeWarning(userId: string, status: BudgetStatus): string | null {
+    const b = status.binding;
+    if (!b || b.usedFraction < BUDGET_WARN_FRACTION) return null;
+
+    const key = `${accountId(userId)}:${b.scope}:${b.targetId}:${b.period}`;
+    const periodKey = b.resetsAt.toISOString();
+    if (this.warned.get(key) === periodKey) return null;
+    this.warned.set(key, periodKey);
+
+    const owner = b.scope === 'team' ? `your team's ${b.period}` : `your ${b.period}`;
+    const percent = Math.min(100, Math.floor(b.usedFraction * 100));
+    return `Heads up: ${percent}% of ${owner} AI budget is used ` +
+      `(${formatDollars(b.spentCents)} of ${formatDollars(b.limitCents)}). ` +
+      (b.usedFraction >= BUDGET_DOWNGRADE_FRACTION
+        ? 'I\'m using a lighter model until it resets.'
+        : `It resets ${formatReset(b)}.`);
+  }
+}
+
+/** Usage log IDs for accounts: channel messages log under the ID itself, web chat under `web:<id>`. */
+function usageIds(accountIds: string[]): string[] {
+  return accountIds.flatMap(id => [id, `web:${id}`]);
+}
+
+/** Start and end of the current day or month, in server time. */
+function periodBounds(period: BudgetPeriod, now = new Date()): { start: Date; end: Date } {
+  if (period === 'daily') {
+    const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    return { start, end: new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1) };
+  }
+  const start = new Date(now.getFullYear(), now.getMonth(), 1);
+  return { start, end: new Date(now.getFullYear(), now.getMonth() + 1, 1) };
+}
+
+function formatDollars(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+function formatReset(limit: BudgetLimitStatus): string {
+  return limit.period === 'daily'
+    ? 'at midnight'
+    : `on ${limit.resetsAt.toLocaleDateString('en-US', { month: 'long', day: 'numeric' })}`;
+}
@@ -0,0 +1,146 @@
+import { Database, DocumentChunk } from '../db/interface';
+import { Bm25Index } from '../utils/bm25';
+
+/** Target passage length in characters; passages end at a line break. */
+const CHUNK_SIZE = 1200;
+
+/** A passage found by document search. */
+export interface DocumentPassage {
+  filename: string;
+  /** PDF page the passage is on. */
+  page?: number;
+  startLine: number;
+  endLine: number;
+  text: string;
+}
+
+/**
+ * Split a file's text into passages of about CHUNK_SIZE characters for
+ * the search index. Passages break at `[Page N]` markers (PDF text), and
+ * at a blank line once half full, so they stay within one page and tend
+ * to hold whole paragraphs. Line numbers are those read_file returns.
+ */
+export function chunkDocument(text: string): Array<Omit<DocumentChunk, 'userId' | 'filename'>> {
+  const chunks: Array<Omit<DocumentChunk, 'userId' | 'filename'>> = [];
+  let page: number | undefined;
+  let lines: string[] = [];
+  let startLine = 0;
+  let size = 0;
+
+  const push = (body: string, start: number, end: number) => {
+    chunks.push({ chunkIndex: chunks.length, page, startLine: start, endLine: end, text: body });
+  };
+  const flush = () => {
+    while (lines.length > 0 && !lines[lines.length - 1].trim()) lines.pop();
+    if (lines.length > 0) push(lines.join('\n'), startLine, startLine + lines.length - 1);
+    lines = [];
+    size = 0;
+  };
+
+  text.split(/\r?\n/).forEach((line, i) => {
+    const lineNumber = i + 1;
+    const marker = line.match(/^\[Page (\d+)\]$/);
+    if (marker) {
+      flush();
+      page = Number(marker[1]);
+      return;
+    }
+
+    if (!line.trim()) {
+      if (size >= CHUNK_SIZE / 2) flush();
+      else if (lines.length > 0) lines.push(line);
+      return;
+    }
+
+    if (size > 0 && size + line.length > CHUNK_SIZE) flush();
+
+    if (line.length > CHUNK_SIZE) {
+      // One very long line (minified data, a PDF without breaks): a passage per slice
+      for (let offset = 0; offset < line.length; offset += CHUNK_SIZE) {
+        push(line.slice(offset, offset + CHUNK_SIZE), lineNumber, lineNumber);
+      }
+      return;
+    }
+
+    if (lines.length === 0) startLine = lineNumber;
+    lines.push(line);
+    size += line.length + 1;
+  });
+  flush();
+
+  return chunks;
+}
+
+/** How to cite a passage, e.g. "[report.pdf, p. 2]" or "[notes.md, lines 4–9]". */
+export function citation(passage: DocumentPassage): string {
+  if (passage.page !== undefined) return `[${passage.filename}, p. ${passage.page}]`;
+  const lines = passage.startLine === passage.endLine
+    ? `line ${passage.startLine}`
+    : `lines ${passage.startLine}–${passage.endLine}`;
+  return `[${passage.filename}, ${lines}]`;
+}
+
+/** Passages as a context section: one line each, led by its citation. */
+export function formatPassages(passages: DocumentPassage[]): string {
+  const lines = passages.map(p => `- ${citation(p)} ${p.text.replace(/\s+/g, ' ').trim()}`);
+  return `## From the User's Files (cite the source in brackets for facts you use)\n${lines.join('\n')}`;
+}
+
+/**
+ * Passage-level search over a user's files. Each file's text is split into
+ * passages stored in the database; searches rank them with BM25, so
+ * questions can be answered across every file with page or line references.
+ * The BM25 index is built once per user and kept until their files change.
+ */
+export class DocumentIndexService {
+  /** Each user's BM25 index, with the indexed file versions it was built from. */
+  private cache = new Map<string, { version: string; index: Bm25Index<DocumentChunk> }>();
+
+  constructor(private db: Database) {}
+
+  /** Replace a file's passages with those of its current text. */
+  async index(userId: string, filename: string, text: string): Promise<void> {
+    await this.db.replaceDocumentChunks(userId, filename, chunkDocument(text));
+    this.cache.delete(userId);
+  }
+
+  async remove(userId: string, filename: string): Promise<void> {
+    await this.db.deleteDocumentChunks(userId, filename);
+    this.cache.delete(userId);
+  }
+
+  /** The passages that best match a question, best first. */
+  async search(userId: string, query: string, limit: number = 5): Promise<DocumentPassage[]> {
+    const index = await this.userIndex(userId);
+    return index.search(query, limit).map(({ item }) => ({
+      filename: item.filename,
+      page: item.page,
+      startLine: item.startLine,
+      endLine: item.endLine,
+      text: item.text
+    }));
+  }
+
+  /**
+   * The user's BM25 index, built again only when a file has been indexed or
+   * removed since, here or by another service sharing the database.
+   */
+  private async userIndex(userId: string): Promise<Bm25Index<DocumentChunk>> {
+    const documents = await this.db.getIndexedDocuments(userId);
+    const version = documents.map(d => `${d.filename}@${d.indexedAt.getTime()}`).sort().join('\n');
+    const cached = this.cache.get(userId);
+    if (cached?.version === version) return cached.index;
+
+    const chunks = await this.db.getDocumentChunks(userId);
+    // The file name counts too, so "the lease" finds passages of lease.pdf
+    const index = new Bm25Index(chunks, c => `${c.filename.replace(/[._-]+/g, ' ')}\n${c.text}`);
+    this.cache.set(userId, { version, index });
+    return index;
+  }
+
+  /** Files in the index, and when each was last indexed. */
+  async indexed(userId: string): Promise<Map<string, Date>> {
+    const documents = await this.db.getIndexedDocuments(userId);
+    return new Map(documents.map(d => [d.filename, d.indexedAt]));
+  }
+}
@@ -2,7 +2,9 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { getUserWorkspacePath } from '../utils/user-workspace';
 import { safePath, sanitizeFilename } from '../utils/path-safety';
+import { extractDocumentText, isExtractable } from '../utils/document-text';
 import { Database as IDatabase } from '../db/interface';
+import { DocumentIndexService, DocumentPassage } from './document-index';
 
 /** Info about a file in a user's files directory. */
 export interface FileInfo {
@@ -11,8 +13,18 @@ export interface FileInfo {
   modified: Date;
 }
 
+/** A line of a text file that matched a search. */
+export interface FileSearchMatch {
+  filename: string;
+  /** 1-based line number. */
+  line: number;
+  text: string;
+}
+
 const MAX_FILE_SIZE = 100 * 1024; // 100KB for text reads
 const MAX_UPLOAD_SIZE = 1024 * 1024; // 1MB for uploads
+const MAX_MATCH_LENGTH = 200; // characters of a matching line returned by search
+const MAX_INDEX_SIZE = 1024 * 1024; // 1MB of text indexed per file for document search
 
 /** Extensions considered safe to read as text. */
 const TEXT_EXTENSIONS = new Set([
@@ -24,22 +36,31 @@ const TEXT_EXTENSIONS = new Set([
   '.dockerfile', '.gitignore', '.editorconfig'
 ]);
 
-/** Extensions allowed for upload (text + PDF + Excel). */
+/** Text saved beside a PDF, Excel or Word file by extractText; its source is what's indexed. */
+const EXTRACTED_FILE = /\.extracted\.(txt|csv)$/i;
+
+/** Extensions allowed for upload (text + PDF + Excel + Word). */
 const UPLOAD_EXTENSIONS = new Set([
   ...TEXT_EXTENSIONS,
-  '.pdf', '.xlsx', '.xls'
+  '.pdf', '.xlsx', '.xls', '.docx'
 ]);
 
 /**
  * Sandboxed file access service scoped to each user's files/ directory.
- * Supports reading, writing, deleting, and text extraction.
+ * Supports reading, writing, deleting, and text extraction from PDF, Excel
+ * and Word files (cached with the file's metadata).
+ * With a database, files are also split into passages for document search;
+ * saves update a file's passages, and searches first re-index files changed
+ * outside the service.
  * All paths are validated to prevent traversal attacks.
  */
 export class FileAccessService {
   private db?: IDatabase;
+  private documentIndex?: DocumentIndexService;
 
   constructor(db?: IDatabase) {
     this.db = db;
+    this.documentIndex = db ? new DocumentIndexService(db) : undefined;
   }
 
   /**
@@ -117,6 +138,29 @@ export class FileAccessService {
     return fs.readFileSync(resolved, 'utf-8');
   }
 
+  /**
+   * Read a file's raw bytes, e.g. a spreadsheet to parse.
+   * Throws if the file is larger than maxBytes.
+   */
+  async readBuffer(userId: string, filename: string, maxBytes: number = MAX_UPLOAD_SIZE): Promise<Buffer> {
+    const resolved = safePath(this.getFilesDir(userId), filename);
+    if (!resolved) {
+      throw new Error('Access denied: path outside user directory');
+    }
+    if (!fs.existsSync(resolved)) {
+      throw new Error(`File not found: ${filename}`);
+    }
+
+    const stat = fs.statSync(resolved);
+    if (!stat.isFile()) {
+      throw new Error(`Not a file: ${filename}`);
+    }
+    if (stat.size > maxBytes) {
+      throw new Error(`File too large: ${(stat.size / 1024).toFixed(0)}KB (max ${maxBytes / 1024}KB)`);
+    }
+    return fs.readFileSync(resolved);
+  }
+
   /**
    * Check if a user has any files in their files directory.
    */
@@ -154,6 +198,7 @@ export class FileAccessService {
     }
 
     fs.writeFileSync(resolved, buffer);
+    await this.indexSaved(userId, sanitized);
     return sanitized;
   }
 
@@ -172,83 +217,62 @@ export class FileAccessService {
     }
 
     fs.unlinkSync(resolved);
+    if (this.documentIndex) await this.documentIndex.remove(userId, filename);
   }
 
   /**
-   * Extract text from PDF or Excel files and save alongside the original.
-   * Returns the name of the extracted file, or null if extraction is not applicable.
+   * Read a file as text: text files as they are, PDF, Excel and Word files
+   * through their extracted text. Extracted text is cached in the database
+   * and redone when the file changes. Truncated at MAX_FILE_SIZE.
    */
-  async extractText(userId: string, filename: string): Promise<string | null> {
-    const ext = path.extname(filename).toLowerCase();
+  async readText(userId: string, filename: string): Promise<string> {
+    if (!isExtractable(filename)) return this.readFile(userId, filename);
 
-    if (ext === '.pdf') {
-      return this.extractPdf(userId, filename);
-    } else if (ext === '.xlsx' || ext === '.xls') {
-      return this.extractExcel(userId, filename);
+    const resolved = safePath(this.getFilesDir(userId), filename);
+    if (!resolved) {
+      throw new Error('Access denied: path outside user directory');
+    }
+    if (!fs.existsSync(resolved)) {
+      throw new Error(`File not found: ${filename}`);
+    }
+    const stat = fs.statSync(resolved);
+    if (!stat.isFile()) {
+      throw new Error(`Not a file: ${filename}`);
     }
 
-    return null;
+    const text = await this.extractedText(userId, filename, resolved, stat.mtime);
+    if (text.length > MAX_FILE_SIZE) {
+      return text.slice(0, MAX_FILE_SIZE) + `\n\n[Truncated: extracted text exceeds ${MAX_FILE_SIZE / 1024}KB limit]`;
+    }
+    return text;
   }
 
   /**
-   * Extract text from a PDF file using pdf-parse.
-   * If the extracted file is tracked, rotates the old version to .prev first.
+   * Extract text from a PDF, Excel or Word file, cache it, and save it
+   * alongside the original for scripts: `.extracted.csv` for spreadsheets,
+   * `.extracted.txt` otherwise. If the extracted file is tracked, rotates
+   * the old version to .prev first.
+   * Returns the name of the extracted file, or null if extraction is not applicable.
    */
-  private async extractPdf(userId: string, filename: string): Promise<string> {
-    const filesDir = this.getFilesDir(userId);
-    const resolved = safePath(filesDir, filename);
-    if (!resolved) throw new Error('Access denied');
-
-    const buffer = fs.readFileSync(resolved);
-    // pdf-parse uses `export =` (CommonJS), so dynamic import puts it on .default in ESM interop
-    const pdfParseModule = await import('pdf-parse');
-    const pdfParse = (pdfParseModule as any).default || pdfParseModule;
-    const data = await pdfParse(buffer);
-
-    const extractedName = filename.replace(/\.pdf$/i, '.extracted.txt');
-    const extractedPath = safePath(filesDir, extractedName);
-    if (!extractedPath) throw new Error('Access denied');
-
-    // Version the extracted file: if it exists and is tracked, rotate to .prev
-    await this.rotateIfTracked(userId, extractedName, extractedPath);
-
-    fs.writeFileSync(extractedPath, data.text);
-    return extractedName;
-  }
+  async extractText(userId: string, filename: string): Promise<string | null> {
+    if (!isExtractable(filename)) return null;
 
-  /**
-   * Extract data from an Excel file as CSV using xlsx.
-   * If the extracted file is tracked, rotates the old version to .prev first.
-   */
-  private async extractExcel(userId: string, filename: string): Promise<string> {
     const filesDir = this.getFilesDir(userId);
     const resolved = safePath(filesDir, filename);
     if (!resolved) throw new Error('Access denied');
 
-    const buffer = fs.readFileSync(resolved);
-    const XLSX = await import('xlsx');
-    const workbook = XLSX.read(buffer, { type: 'buffer' });
-
-    // Convert all sheets to CSV, concatenated
-    const csvParts: string[] = [];
-    for (const sheetName of workbook.SheetNames) {
-      const sheet = workbook.Sheets[sheetName];
-      const csv = XLSX.utils.sheet_to_csv(sheet);
-      if (workbook.SheetNames.length > 1) {
-        csvParts.push(`--- Sheet: ${sheetName} ---\n${csv}`);
-      } else {
-        csvParts.push(csv);
-      }
-    }
+    const extracted = await extractDocumentText(fs.readFileSync(resolved), filename);
+    if (this.db) await this.db.saveExtractedText(userId, filename, extracted.text);
+    await this.indexText(userId, filename, extracted.text);
 
-    const extractedName = filename.replace(/\.xlsx?$/i, '.extracted.csv');
+    const extractedName = filename.replace(/\.[^.]+$/, extracted.csv !== undefined ? '.extracted.csv' : '.extracted.txt');
     const extractedPath = safePath(filesDir, extractedName);
     if (!extractedPath) throw new Error('Access denied');
 
     // Version the extracted file: if it exists and is tracked, rotate to .prev
     await this.rotateIfTracked(userId, extractedName, extractedPath);
 
-    fs.writeFileSync(extractedPath, csvParts.join('\n\n'));
+    fs.writeFileSync(extractedPath, extracted.csv ?? extracted.text);
     return extractedName;
   }
 
@@ -291,9 +315,117 @@ export class FileAccessService {
     }
 
     fs.writeFileSync(resolved, buffer);
+    await this.indexSaved(userId, sanitized);
     return sanitized;
   }
 
+  /**
+   * Write a text file, replacing any existing content.
+   * Keeps the old version as .prev if the file is tracked.
+   * Returns the sanitized filename used.
+   */
+  async writeTextFile(userId: string, filename: string, content: string): Promise<string> {
+    this.assertTextFilename(filename);
+    return this.saveFileWithVersioning(userId, filename, Buffer.from(content, 'utf-8'));
+  }
+
+  /**
+   * Append text to a file, creating it if needed. Starts on a new line if the
+   * file doesn't end with one. Keeps the old version as .prev if the file is tracked.
+   * Returns the sanitized filename used.
+   */
+  async appendTextFile(userId: string, filename: string, content: string): Promise<string> {
+    this.assertTextFilename(filename);
+    const sanitized = sanitizeFilename(filename);
+    const resolved = sanitized ? safePath(this.getFilesDir(userId), sanitized) : null;
+
+    let existing = '';
+    if (resolved && fs.existsSync(resolved)) {
+      const stat = fs.statSync(resolved);
+      if (!stat.isFile()) throw new Error(`Not a file: ${filename}`);
+      // Checked before reading, counting the newline that may be added
+      if (stat.size + 1 + Buffer.byteLength(content) > MAX_UPLOAD_SIZE) {
+        throw new Error(`File too large: appending would exceed ${MAX_UPLOAD_SIZE / 1024}KB`);
+      }
+      existing = fs.readFileSync(resolved, 'utf-8');
+    }
+
+    const separator = existing && !existing.endsWith('\n') ? '\n' : '';
+    return this.saveFileWithVersioning(userId, filename, Buffer.from(existing + separator + content, 'utf-8'));
+  }
+
+  /**
+   * Check whether a file exists in the user's files directory.
+   */
+  fileExists(userId: string, filename: string): boolean {
+    const sanitized = sanitizeFilename(filename);
+    const resolved = sanitized ? safePath(this.getFilesDir(userId), sanitized) : null;
+    return !!resolved && fs.existsSync(resolved);
+  }
+
+  /**
+   * Search the user's text files (including extracted PDF/Excel text) for
+   * lines containing every word of the query, case-insensitively.
+   * Returns matches in file order, newest files first.
+   */
+  async searchFiles(userId: string, query: string, limit: number = 20): Promise<FileSearchMatch[]> {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    if (terms.length === 0) return [];
+
+    const filesDir = this.getFilesDir(userId);
+    const matches: FileSearchMatch[] = [];
+    for (const file of await this.listFiles(userId)) {
+      const ext = path.extname(file.name).toLowerCase();
+      if ((ext && !TEXT_EXTENSIONS.has(ext)) || file.size > MAX_UPLOAD_SIZE) continue;
+
+      const resolved = safePath(filesDir, file.name);
+      if (!resolved) continue;
+      const lines = fs.readFileSync(resolved, 'utf-8').split(/\r?\n/);
+      for (let i = 0; i < lines.length; i++) {
+        const lower = lines[i].toLowerCase();
+        if (!terms.every(term => lower.includes(term))) continue;
+        matches.push({ filename: file.name, line: i + 1, text: lines[i].trim().slice(0, MAX_MATCH_LENGTH) });
+        if (matches.length >= limit) return matches;
+      }
+    }
+    return matches;
+  }
+
+  /**
+   * Find the passages of the user's files that best answer a question,
+   * with page (PDF) or line references for citing them. Files changed
+   * since they were indexed, such as tracked files replaced by a script,
+   * are re-indexed first.
+   */
+  async searchDocuments(userId: string, query: string, limit: number = 5): Promise<DocumentPassage[]> {
+    if (!this.documentIndex) return [];
+    await this.syncIndex(userId);
+    return this.documentIndex.search(userId, query, limit);
+  }
+
+  /**
+   * Bring the document index up to date with the files directory: index
+   * new and changed files and drop deleted ones. `.extracted.*` files are
+   * skipped, since their source document is indexed.
+   */
+  async syncIndex(userId: string): Promise<void> {
+    if (!this.documentIndex) return;
+
+    const indexed = await this.documentIndex.indexed(userId);
+    const files = (await this.listFiles(userId)).filter(f => !EXTRACTED_FILE.test(f.name));
+    for (const file of files) {
+      const indexedAt = indexed.get(file.name);
+      if (!indexedAt || indexedAt.getTime() < file.modified.getTime()) {
+        await this.indexFile(userId, file.name);
+      }
+    }
+
+    const present = new Set(files.map(f => f.name));
+    for (const filename of indexed.keys()) {
+      if (!present.has(filename)) await this.documentIndex.remove(userId, filename);
+    }
+  }
+
   /**
    * Read the previous version of a file (.prev backup).
    * Returns the content or null if no previous version exists.
@@ -343,8 +475,9 @@ export class FileAccessService {
       const sourceXlsx = filename.replace(/\.extracted\.csv$/i, '.xlsx');
       const sourceXls = filename.replace(/\.extracted\.csv$/i, '.xls');
       const sourcePdf = filename.replace(/\.extracted\.txt$/i, '.pdf');
+      const sourceDocx = filename.replace(/\.extracted\.txt$/i, '.docx');
 
-      for (const sourceName of [sourceXlsx, sourceXls, sourcePdf]) {
+      for (const sourceName of [sourceXlsx, sourceXls, sourcePdf, sourceDocx]) {
         if (sourceName !== filename) {
           const sourceMeta = await this.db.getFileMetadata(userId, sourceName);
           if (sourceMeta?.tracked) {
@@ -363,6 +496,76 @@ export class FileAccessService {
     }
   }
 
+  /**
+   * Extracted text of a PDF, Excel or Word file, from the cache when it's
+   * newer than the file. Not truncated.
+   */
+  private async extractedText(userId: string, filename: string, filePath: string, modified: Date): Promise<string> {
+    const cached = this.db ? await this.db.getExtractedText(userId, filename) : null;
+    if (cached && cached.extractedAt.getTime() >= modified.getTime()) return cached.text;
+
+    const text = (await extractDocumentText(fs.readFileSync(filePath), filename)).text;
+    if (this.db) await this.db.saveExtractedText(userId, filename, text);
+    return text;
+  }
+
+  /**
+   * Index a file just saved. PDF, Excel and Word files are left to
+   * extractText, which indexes the text it extracts, or to the next sync.
+   */
+  private async indexSaved(userId: string, filename: string): Promise<void> {
+    if (!isExtractable(filename) && !EXTRACTED_FILE.test(filename)) await this.indexFile(userId, filename);
+  }
+
+  /**
+   * Index a file's current text. A file that can't be read as text (binary,
+   * unparseable) is indexed with no passages, so syncs don't retry it until
+   * it changes.
+   */
+  private async indexFile(userId: string, filename: string): Promise<void> {
+    if (!this.documentIndex) return;
+
+    let text = '';
+    try {
+      const resolved = safePath(this.getFilesDir(userId), filename);
+      const ext = path.extname(filename).toLowerCase();
+      if (resolved && fs.existsSync(resolved)) {
+        const stat = fs.statSync(resolved);
+        if (isExtractable(filename)) {
+          text = await this.extractedText(userId, filename, resolved, stat.mtime);
+        } else if (!ext || TEXT_EXTENSIONS.has(ext)) {
+          text = readPrefix(resolved, Math.min(stat.size, MAX_INDEX_SIZE));
+        }
+      }
+    } catch {
+      // Not readable as text: index it empty
+    }
+    await this.indexText(userId, filename, text);
+  }
+
+  private async indexText(userId: string, filename: string, text: string): Promise<void> {
+    if (!this.documentIndex) return;
+    try {
+      await this.documentIndex.index(userId, filename, text.slice(0, MAX_INDEX_SIZE));
+    } catch {
+      // Non-critical: the file is saved; the next search re-indexes it
+    }
+  }
+
+  /**
+   * Only text files can be written; PDF and Excel files come from uploads.
+   * Names with folders or `..` are refused rather than quietly flattened.
+   */
+  private assertTextFilename(filename: string): void {
+    if (/[/\\]/.test(filename) || filename.includes('..')) {
+      throw new Error(`Invalid filename: ${filename} (files can't be in folders)`);
+    }
+    const ext = path.extname(sanitizeFilename(filename)).toLowerCase();
+    if (ext && !TEXT_EXTENSIONS.has(ext)) {
+      throw new Error(`Cannot write ${ext} files; use a text format like .md, .txt or .csv`);
+    }
+  }
+
   /**
    * Get the absolute path to a user's files directory.
    */
@@ -370,3 +573,15 @@ export class FileAccessService {
     return path.join(getUserWorkspacePath(userId), 'files');
   }
 }
+
+/** The first `bytes` bytes of a file, as UTF-8. */
+function readPrefix(filePath: string, bytes: number): string {
+  const buffer = Buffer.alloc(bytes);
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const read = fs.readSync(fd, buffer, 0, bytes, 0);
+    return buffer.subarray(0, read).toString('utf-8');
+  } finally {
+    fs.closeSync(fd);
+  }
+}
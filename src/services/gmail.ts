@@ -142,6 +142,15 @@ export class GmailService {
     return { id: result.id as string, threadId: result.threadId as string };
   }
 
+  /**
+   * Send an email to the connected account's own address (notifications).
+   */
+  async sendToSelf(userId: string, subject: string, body: string): Promise<void> {
+    const token = await this.authManager.getValidAccessToken(userId);
+    const profile = await this.gmailGet(`${GMAIL_API}/users/me/profile`, token);
+    await this.sendMessage(userId, { to: profile.emailAddress as string, subject, body });
+  }
+
   /**
    * Reply to an existing message. Handles threading automatically.
    */
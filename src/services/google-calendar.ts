@@ -40,6 +40,8 @@ export interface CreateEventOptions {
   startTime: string; // ISO 8601
   endTime: string;   // ISO 8601
   allDay?: boolean;
+  /** IANA timezone the event is shown in (default: the calendar's). */
+  timeZone?: string;
 }
 
 /**
@@ -128,8 +130,8 @@ export class GoogleCalendarService {
       body.start = { date: opts.startTime.split('T')[0] };
       body.end = { date: opts.endTime.split('T')[0] };
     } else {
-      body.start = { dateTime: opts.startTime };
-      body.end = { dateTime: opts.endTime };
+      body.start = { dateTime: opts.startTime, ...(opts.timeZone ? { timeZone: opts.timeZone } : {}) };
+      body.end = { dateTime: opts.endTime, ...(opts.timeZone ? { timeZone: opts.timeZone } : {}) };
     }
 
     const url = `${GOOGLE_CALENDAR_API}/calendars/${calendarId}/events`;
@@ -0,0 +1,285 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Database, Memory, MemoryCategory } from '../db/interface';
+import { Executor } from '../core/executor';
+import { Bm25Index, similarity } from '../utils/bm25';
+import { accountId } from '../utils/account';
+import { getConfig } from '../utils/config';
+
+/** Configuration for the memory service. */
+export interface MemoryConfig {
+  /** New user/assistant messages in a conversation before extraction runs. Default: 4 */
+  extractEvery: number;
+  /** Memories recalled per message. Default: 5 */
+  recallLimit: number;
+  /** Memories not recalled for this many days are forgotten. Default: 180 */
+  staleAfterDays: number;
+  /** Most memories kept per user; the least recently used go first. Default: 500 */
+  maxPerUser: number;
+}
+
+const DEFAULT_CONFIG: MemoryConfig = {
+  extractEvery: 4,
+  recallLimit: 5,
+  staleAfterDays: 180,
+  maxPerUser: 500
+};
+
+export const MEMORY_CATEGORIES: MemoryCategory[] = ['preference', 'commitment', 'person', 'project', 'fact'];
+
+/** Most new messages sent to the model in one extraction. */
+const MAX_EXTRACT_MESSAGES = 20;
+
+/** Existing memories listed in the extraction prompt so the model doesn't repeat them. */
+const MAX_KNOWN_MEMORIES = 50;
+
+/** Longest memory kept, in characters. */
+const MAX_MEMORY_CHARS = 300;
+
+/** Word overlap (Jaccard) at which a new fact is taken as an update of an old one. */
+const DUPLICATE_SIMILARITY = 0.6;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const EXTRACT_PROMPT = `You maintain a long-term memory of facts about the user, taken from their conversations with an assistant.
+
+Read the new messages and list facts worth remembering in future conversations:
+- preference: how the user likes things done, likes and dislikes
+- commitment: something the user or assistant promised or plans to do, with a date if known
+- person: someone in the user's life and who they are
+- project: ongoing work, goals or plans
+- fact: other lasting facts about the user (home town, job, pets, ...)
+
+Rules:
+- Only durable facts stated or clearly implied by the user. Skip small talk, one-off questions and anything the assistant said on its own.
+- One short sentence per fact, written about the user in the third person ("Prefers ...", "Their sister Ana ...").
+- If a fact changes one listed under "Already known", restate the new version.
+- Don't repeat facts that are already known unchanged.
+- expiresAt: an ISO date after which the fact no longer matters (e.g. the day after a commitment is due), otherwise null.
+
+Respond with ONLY a JSON array, [] when there is nothing new:
+[{"category": "preference", "content": "Prefers meetings after 10am", "expiresAt": null}]`;
+
+/** A fact returned by the extraction model, before it is stored. */
+interface ExtractedFact {
+  category: MemoryCategory;
+  content: string;
+  expiresAt: Date | null;
+}
+
+/**
+ * Long-term memory that outlives conversations.
+ *
+ * Every few messages, the simple tier reads what's new in a conversation
+ * and lists durable facts about the user. Each fact is stored unless it
+ * closely matches one already known, in which case that one is updated.
+ * Before each reply, the facts most relevant to the message are found
+ * with a BM25 index and added to the prompt. Memories belong to the
+ * account, so they follow the user across conversations and channels.
+ */
+export class MemoryService {
+  private db: Database;
+  private executor: Executor;
+  private config: MemoryConfig;
+  /** Conversations with an extraction in progress. */
+  private extracting = new Set<string>();
+
+  constructor(db: Database, executor: Executor, config?: Partial<MemoryConfig>) {
+    this.db = db;
+    this.executor = executor;
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Extract memories from a conversation if enough new messages have
+   * arrived since the last extraction.
+   *
+   * @returns Memories created or updated
+   */
+  async extractIfNeeded(userId: string, conversationId: string): Promise<number> {
+    if (this.extracting.has(conversationId)) return 0;
+
+    this.extracting.add(conversationId);
+    try {
+      const conversation = await this.db.getConversation(conversationId);
+      if (!conversation) return 0;
+
+      const since = conversation.memoryExtractedAt?.getTime() ?? 0;
+      const fresh = (await this.db.getMessages(conversationId, 100))
+        .filter(m => (m.role === 'user' || m.role === 'assistant') && m.createdAt.getTime() > since);
+      if (fresh.length < this.config.extractEvery) return 0;
+
+      const saved = await this.extract(accountId(userId), conversationId, fresh.slice(-MAX_EXTRACT_MESSAGES));
+      await this.db.updateConversation(conversationId, { memoryExtractedAt: fresh[fresh.length - 1].createdAt });
+      await this.prune(accountId(userId));
+      return saved;
+    } finally {
+      this.extracting.delete(conversationId);
+    }
+  }
+
+  /**
+   * The user's memories most relevant to a message, best first. Recalled
+   * memories are marked as used, which keeps them from going stale.
+   */
+  async recall(userId: string, message: string, limit: number = this.config.recallLimit): Promise<Memory[]> {
+    const now = Date.now();
+    const memories = (await this.db.getMemories(accountId(userId)))
+      .filter(m => !m.expiresAt || m.expiresAt.getTime() > now);
+    if (memories.length === 0) return [];
+
+    const index = new Bm25Index(memories, m => m.content);
+    const recalled = index.search(message, limit).map(match => match.item);
+
+    const usedAt = new Date(now);
+    await Promise.all(recalled.map(m => this.db.updateMemory(m.id, { lastUsedAt: usedAt })));
+    return recalled;
+  }
+
+  /** All of a user's memories, most recently updated first. */
+  async list(userId: string): Promise<Memory[]> {
+    return this.db.getMemories(accountId(userId));
+  }
+
+  /**
+   * Forget one memory.
+   *
+   * @returns false if it doesn't exist or belongs to someone else
+   */
+  async delete(userId: string, memoryId: string): Promise<boolean> {
+    const memory = await this.db.getMemory(memoryId);
+    if (!memory || memory.userId !== accountId(userId)) return false;
+    await this.db.deleteMemory(memoryId);
+    return true;
+  }
+
+  /**
+   * Drop expired memories, memories unused for `staleAfterDays`, and the
+   * least recently used ones beyond `maxPerUser`.
+   */
+  async prune(userId: string): Promise<void> {
+    await this.db.deleteExpiredMemories(new Date());
+
+    const staleBefore = Date.now() - this.config.staleAfterDays * DAY_MS;
+    const byRecency = (await this.db.getMemories(userId))
+      .sort((a, b) => lastTouched(b) - lastTouched(a));
+    for (const [i, memory] of byRecency.entries()) {
+      if (i >= this.config.maxPerUser || lastTouched(memory) < staleBefore) {
+        await this.db.deleteMemory(memory.id);
+      }
+    }
+  }
+
+  /** Ask the model for facts in the new messages and store them. */
+  private async extract(
+    userId: string,
+    conversationId: string,
+    messages: Array<{ role: string; content: string }>
+  ): Promise<number> {
+    const known = await this.db.getMemories(userId);
+
+    const parts: string[] = [];
+    if (known.length > 0) {
+      parts.push('Already known:');
+      for (const m of known.slice(0, MAX_KNOWN_MEMORIES)) {
+        parts.push(`- [${m.category}] ${m.content}`);
+      }
+      parts.push('');
+    }
+    parts.push(`Today is ${new Date().toISOString().slice(0, 10)}.`);
+    parts.push('');
+    parts.push('New messages:');
+    for (const msg of messages) {
+      parts.push(`${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content}`);
+    }
+
+    const result = await this.executor.execute(
+      [{ role: 'user', content: parts.join('\n') }],
+      getConfig().ai?.executor?.simple || 'haiku',
+      {
+        systemPrompt: EXTRACT_PROMPT,
+        maxTokens: 512,
+        temperature: 0
+      }
+    );
+    // Counted like any reply, so it shows on the Usage page and against budgets
+    await this.db.logUsage({
+      userId,
+      model: result.model,
+      tokensIn: result.tokensIn,
+      tokensOut: result.tokensOut,
+      costCents: result.costCents,
+      cacheCreationTokens: result.cacheCreationTokens,
+      cacheReadTokens: result.cacheReadTokens,
+      cacheSavingsCents: result.cacheSavingsCents
+    });
+
+    let saved = 0;
+    for (const fact of parseFacts(result.content)) {
+      const duplicate = known.find(m => similarity(m.content, fact.content) >= DUPLICATE_SIMILARITY);
+      if (duplicate) {
+        if (duplicate.content === fact.content && sameDate(duplicate.expiresAt, fact.expiresAt)) continue;
+        await this.db.updateMemory(duplicate.id, {
+          category: fact.category,
+          content: fact.content,
+          expiresAt: fact.expiresAt
+        });
+        duplicate.content = fact.content;
+      } else {
+        known.push(await this.db.createMemory({
+          id: uuidv4(),
+          userId,
+          category: fact.category,
+          content: fact.content,
+          sourceConversationId: conversationId,
+          expiresAt: fact.expiresAt
+        }));
+      }
+      saved++;
+    }
+    return saved;
+  }
+}
+
+/** Format recalled memories for the system prompt. */
+export function formatMemories(memories: Memory[]): string {
+  return `## What You Remember About the User\n${memories.map(m => `- ${m.content}`).join('\n')}`;
+}
+
+/**
+ * Parse the extraction model's JSON array, dropping malformed entries.
+ * Returns [] if the response holds no array.
+ */
+export function parseFacts(response: string): ExtractedFact[] {
+  const match = response.match(/\[[\s\S]*\]/);
+  if (!match) return [];
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(match[0]);
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(raw)) return [];
+
+  const facts: ExtractedFact[] = [];
+  for (const item of raw) {
+    const content = typeof item?.content === 'string' ? item.content.trim() : '';
+    if (!content || content.length > MAX_MEMORY_CHARS) continue;
+    const category = MEMORY_CATEGORIES.includes(item.category) ? item.category as MemoryCategory : 'fact';
+    const expiresAt = typeof item.expiresAt === 'string' ? new Date(item.expiresAt) : null;
+    facts.push({
+      category,
+      content,
+      expiresAt: expiresAt && !isNaN(expiresAt.getTime()) ? expiresAt : null
+    });
+  }
+  return facts;
+}
+
+function sameDate(a: Date | null, b: Date | null): boolean {
+  return (a?.getTime() ?? null) === (b?.getTime() ?? null);
+}
+
+function lastTouched(memory: Memory): number {
+  return Math.max(memory.updatedAt.getTime(), memory.lastUsedAt?.getTime() ?? 0);
+}
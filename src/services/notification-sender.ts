@@ -27,18 +27,32 @@ function markdownToTelegramHtml(text: string): string {
   return html;
 }
 
+/** Sends a message over a channel's own connection. */
+export type ChannelSendFn = (recipientId: string, message: string) => Promise<void>;
+
 /**
- * Sends notifications to messaging channels via their HTTP APIs.
- * Used by WorkflowEngine to deliver workflow results to users.
+ * Sends notifications to messaging channels via their HTTP APIs, or
+ * through channels registered at startup (WhatsApp's socket).
+ * Used by WorkflowEngine and ReminderScheduler to reach users.
  */
 export class NotificationSender {
+  private channels = new Map<string, ChannelSendFn>();
+
   constructor(private telegramBotToken?: string) {}
 
+  /**
+   * Register a channel that sends over its own connection, e.g. WhatsApp,
+   * which has no HTTP API.
+   */
+  registerChannel(channel: string, send: ChannelSendFn): void {
+    this.channels.set(channel, send);
+  }
+
   /**
    * Send a message to a user on the specified channel.
    *
-   * @param channel - The channel to send on ('telegram')
-   * @param recipientId - Channel-specific recipient ID (Telegram chat ID)
+   * @param channel - The channel to send on ('telegram' or a registered one)
+   * @param recipientId - Channel-specific recipient ID (Telegram chat ID, WhatsApp number)
    * @param message - The message text to send
    */
   async send(channel: string, recipientId: string, message: string): Promise<void> {
@@ -46,8 +60,13 @@ export class NotificationSender {
       case 'telegram':
         await this.sendTelegram(recipientId, message);
         break;
-      default:
-        throw new Error(`Unsupported notification channel: ${channel}`);
+      default: {
+        const send = this.channels.get(channel);
+        if (!send) {
+          throw new Error(`Unsupported notification channel: ${channel}`);
+        }
+        await send(recipientId, message);
+      }
     }
   }
 
@@ -0,0 +1,78 @@
+/** Replies that approve a pending action. */
+const AFFIRMATIVE = ['yes', 'y', 'yeah', 'yep', 'sure', 'ok', 'go', 'do it'];
+
+/** Replies that cancel a pending action. */
+const NEGATIVE = ['no', 'n', 'cancel', 'nevermind', 'never mind'];
+
+/** How a user answered a confirmation prompt. */
+export type ConfirmationReply =
+  | { type: 'yes' }
+  | { type: 'no' }
+  | { type: 'choice'; index: number }
+  | { type: 'unrecognized' };
+
+/**
+ * Classify a reply to a "yes/no" or "pick a number" prompt.
+ * Numbers are 1-based in the message and returned 0-based; numbers outside
+ * `1..choices` are unrecognized.
+ */
+export function parseConfirmationReply(message: string, choices = 0): ConfirmationReply {
+  const trimmed = message.trim().toLowerCase().replace(/[.!]+$/, '');
+
+  if (NEGATIVE.includes(trimmed)) return { type: 'no' };
+  if (AFFIRMATIVE.includes(trimmed)) return { type: 'yes' };
+
+  const num = parseInt(trimmed, 10);
+  if (!isNaN(num) && num >= 1 && num <= choices) {
+    return { type: 'choice', index: num - 1 };
+  }
+
+  return { type: 'unrecognized' };
+}
+
+/**
+ * Per-user store of actions waiting for a yes/no from the user.
+ *
+ * Entries expire after a timeout so a stale "yes" days later can't trigger
+ * anything. Used by workflow triggers (disambiguation) and by the tool
+ * confirmation gate (side-effecting tool calls).
+ */
+export class PendingConfirmations<T> {
+  private pending = new Map<string, { value: T; expiresAt: number }>();
+
+  constructor(private timeoutMs: number) {}
+
+  /** Store a pending action for a user, replacing any previous one. Returns its expiry time. */
+  set(userId: string, value: T): number {
+    const expiresAt = Date.now() + this.timeoutMs;
+    this.pending.set(userId, { value, expiresAt });
+    return expiresAt;
+  }
+
+  /** Get a user's pending action, or null if absent or expired. */
+  get(userId: string): T | null {
+    const entry = this.pending.get(userId);
+    if (!entry) return null;
+    if (Date.now() > entry.expiresAt) {
+      this.pending.delete(userId);
+      return null;
+    }
+    return entry.value;
+  }
+
+  /** Check if a user has an unexpired pending action. */
+  has(userId: string): boolean {
+    return this.get(userId) !== null;
+  }
+
+  /** Remove and return a user's pending action, or null if absent or expired. */
+  take(userId: string): T | null {
+    const value = this.get(userId);
+    this.pending.delete(userId);
+    return value;
+  }
+
+  delete(userId: string): void {
+    this.pending.delete(userId);
+  }
+}
@@ -0,0 +1,290 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Database, ProfileUpdate, ProfileUpdateStatus } from '../db/interface';
+import { Executor } from '../core/executor';
+import { UserSettingsService } from './user-settings';
+import { similarity } from '../utils/bm25';
+import { accountId } from '../utils/account';
+import { getConfig } from '../utils/config';
+
+/** Configuration for profile update detection. */
+export interface ProfileUpdateConfig {
+  /** New user/assistant messages in a conversation before detection runs. Default: 6 */
+  extractEvery: number;
+  /** Detection pauses while this many proposals wait for review. Default: 20 */
+  maxPending: number;
+}
+
+const DEFAULT_CONFIG: ProfileUpdateConfig = {
+  extractEvery: 6,
+  maxPending: 20
+};
+
+/** Most new messages sent to the model in one detection run. */
+const MAX_EXTRACT_MESSAGES = 20;
+
+/** Longest proposed update kept, in characters. */
+const MAX_UPDATE_CHARS = 300;
+
+/** Word overlap (Jaccard) at which a proposal repeats something already known or proposed. */
+const DUPLICATE_SIMILARITY = 0.6;
+
+const EXTRACT_PROMPT = `You keep a user's profile up to date. The profile is split into sections that an assistant reads before answering.
+
+Read the new messages and propose additions to the profile for lasting changes the user states about themselves:
+- professional: job, employer, role, skills ("I started at Acme")
+- current_projects: what they are working on now
+- personal: where they live, age, hobbies
+- preferences: diet, habits, how they like things done ("I'm vegetarian")
+- family: partner, children, relatives
+- health: conditions, allergies, fitness goals
+
+Rules:
+- Only facts the user states about themselves. Skip questions, plans that may not happen, small talk and anything only the assistant said.
+- One short line per fact, written about the user in the third person ("Works at Acme as a designer since October 2026").
+- Use an existing section when one fits; otherwise one of the sections above.
+- Don't propose anything the profile already says, or anything listed under "Already proposed".
+
+Respond with ONLY a JSON array, [] when there is nothing new:
+[{"section": "professional", "update": "Works at Acme as a designer"}]`;
+
+/** A proposal returned by the detection model, before it is stored. */
+interface DetectedUpdate {
+  section: string;
+  update: string;
+}
+
+/**
+ * Proposes additions to a user's profile from their conversations.
+ *
+ * Every few messages, the simple tier reads what's new in a conversation
+ * and suggests lines for profile sections ("Works at Acme", "Vegetarian").
+ * Proposals wait in a review queue on the Profile page; nothing reaches
+ * the profile until the user accepts it. Rejected proposals are kept so
+ * the same thing isn't suggested again. Like memories, proposals belong
+ * to the account, so every channel feeds the same queue.
+ */
+export class ProfileUpdateService {
+  private db: Database;
+  private executor: Executor;
+  private userSettings: UserSettingsService;
+  private config: ProfileUpdateConfig;
+  /** Conversations with a detection run in progress. */
+  private extracting = new Set<string>();
+
+  constructor(db: Database, executor: Executor, userSettings: UserSettingsService, config?: Partial<ProfileUpdateConfig>) {
+    this.db = db;
+    this.executor = executor;
+    this.userSettings = userSettings;
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Look for profile updates in a conversation if enough new messages have
+   * arrived since the last run.
+   *
+   * @returns Proposals added to the review queue
+   */
+  async extractIfNeeded(userId: string, conversationId: string): Promise<number> {
+    if (this.extracting.has(conversationId)) return 0;
+
+    this.extracting.add(conversationId);
+    try {
+      const conversation = await this.db.getConversation(conversationId);
+      if (!conversation) return 0;
+
+      const since = conversation.profileExtractedAt?.getTime() ?? 0;
+      const fresh = (await this.db.getMessages(conversationId, 100))
+        .filter(m => (m.role === 'user' || m.role === 'assistant') && m.createdAt.getTime() > since);
+      if (fresh.length < this.config.extractEvery) return 0;
+
+      const account = accountId(userId);
+      const pending = await this.db.getProfileUpdates(account, 'pending');
+      if (pending.length >= this.config.maxPending) return 0;
+
+      const saved = await this.extract(account, conversationId, fresh.slice(-MAX_EXTRACT_MESSAGES));
+      await this.db.updateConversation(conversationId, { profileExtractedAt: fresh[fresh.length - 1].createdAt });
+      return saved;
+    } finally {
+      this.extracting.delete(conversationId);
+    }
+  }
+
+  /** A user's proposals, newest first. Defaults to those awaiting review. */
+  async list(userId: string, status: ProfileUpdateStatus = 'pending'): Promise<ProfileUpdate[]> {
+    return this.db.getProfileUpdates(accountId(userId), status);
+  }
+
+  /**
+   * Change a pending proposal's section or text before accepting it.
+   *
+   * @returns The edited proposal, or null if it isn't the user's or is no longer pending
+   */
+  async edit(userId: string, updateId: string, edits: Partial<Pick<ProfileUpdate, 'section' | 'update'>>): Promise<ProfileUpdate | null> {
+    const update = await this.getPending(userId, updateId);
+    if (!update) return null;
+
+    const changes = cleanEdits(edits);
+    await this.db.updateProfileUpdate(updateId, changes);
+    return { ...update, ...changes };
+  }
+
+  /**
+   * Accept a proposal, optionally edited, and add it to its profile section.
+   *
+   * @returns The accepted proposal, or null if it isn't the user's or is no longer pending
+   */
+  async accept(userId: string, updateId: string, edits?: Partial<Pick<ProfileUpdate, 'section' | 'update'>>): Promise<ProfileUpdate | null> {
+    const update = await this.getPending(userId, updateId);
+    if (!update) return null;
+
+    const accepted: ProfileUpdate = { ...update, ...cleanEdits(edits || {}), status: 'accepted', resolvedAt: new Date() };
+    const profile = await this.userSettings.getProfileConfig(accepted.userId);
+    const existing = profile.sections[accepted.section]?.trim();
+    profile.sections = {
+      ...profile.sections,
+      [accepted.section]: existing ? `${existing}\n- ${accepted.update}` : `- ${accepted.update}`
+    };
+    await this.userSettings.saveProfileConfig(accepted.userId, profile);
+
+    await this.db.updateProfileUpdate(updateId, {
+      section: accepted.section,
+      update: accepted.update,
+      status: 'accepted'
+    });
+    return accepted;
+  }
+
+  /**
+   * Reject a proposal. It stays on record so it isn't proposed again.
+   *
+   * @returns false if it isn't the user's or is no longer pending
+   */
+  async reject(userId: string, updateId: string): Promise<boolean> {
+    const update = await this.getPending(userId, updateId);
+    if (!update) return false;
+    await this.db.updateProfileUpdate(updateId, { status: 'rejected' });
+    return true;
+  }
+
+  private async getPending(userId: string, updateId: string): Promise<ProfileUpdate | null> {
+    const update = await this.db.getProfileUpdate(updateId);
+    if (!update || update.userId !== accountId(userId) || update.status !== 'pending') return null;
+    return update;
+  }
+
+  /** Ask the model for profile changes in the new messages and queue them. */
+  private async extract(
+    userId: string,
+    conversationId: string,
+    messages: Array<{ role: string; content: string }>
+  ): Promise<number> {
+    const profile = await this.userSettings.getProfileConfig(userId);
+    const proposed = await this.db.getProfileUpdates(userId);
+
+    const known = [profile.bio, ...Object.values(profile.sections)]
+      .flatMap(text => text.split('\n'))
+      .map(line => line.replace(/^\s*[-*]\s*/, '').trim())
+      .filter(Boolean);
+
+    const parts: string[] = ['Current profile:'];
+    const sectionNames = Object.keys(profile.sections);
+    if (sectionNames.length === 0 && !profile.bio.trim()) {
+      parts.push('(empty)');
+    }
+    if (profile.bio.trim()) {
+      parts.push(profile.bio.trim());
+    }
+    for (const name of sectionNames) {
+      parts.push(`## ${name}`, profile.sections[name].trim());
+    }
+    if (proposed.length > 0) {
+      parts.push('', 'Already proposed:');
+      for (const p of proposed.slice(0, 50)) {
+        parts.push(`- [${p.section}] ${p.update}`);
+      }
+    }
+    parts.push('', `Today is ${new Date().toISOString().slice(0, 10)}.`, '', 'New messages:');
+    for (const msg of messages) {
+      parts.push(`${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content}`);
+    }
+
+    const result = await this.executor.execute(
+      [{ role: 'user', content: parts.join('\n') }],
+      getConfig().ai?.executor?.simple || 'haiku',
+      {
+        systemPrompt: EXTRACT_PROMPT,
+        maxTokens: 512,
+        temperature: 0
+      }
+    );
+    // Counted like any reply, so it shows on the Usage page and against budgets
+    await this.db.logUsage({
+      userId,
+      model: result.model,
+      tokensIn: result.tokensIn,
+      tokensOut: result.tokensOut,
+      costCents: result.costCents,
+      cacheCreationTokens: result.cacheCreationTokens,
+      cacheReadTokens: result.cacheReadTokens,
+      cacheSavingsCents: result.cacheSavingsCents
+    });
+
+    let saved = 0;
+    for (const detected of parseProfileUpdates(result.content)) {
+      const seen = [...known, ...proposed.map(p => p.update)];
+      if (seen.some(text => similarity(text, detected.update) >= DUPLICATE_SIMILARITY)) continue;
+
+      proposed.push(await this.db.createProfileUpdate({
+        id: uuidv4(),
+        userId,
+        section: detected.section,
+        update: detected.update,
+        sourceConversationId: conversationId,
+        autoDetected: true
+      }));
+      saved++;
+    }
+    return saved;
+  }
+}
+
+/**
+ * Parse the detection model's JSON array, dropping malformed entries.
+ * Returns [] if the response holds no array.
+ */
+export function parseProfileUpdates(response: string): DetectedUpdate[] {
+  const match = response.match(/\[[\s\S]*\]/);
+  if (!match) return [];
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(match[0]);
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(raw)) return [];
+
+  const updates: DetectedUpdate[] = [];
+  for (const item of raw) {
+    const update = typeof item?.update === 'string' ? item.update.trim() : '';
+    const section = typeof item?.section === 'string' ? normalizeSection(item.section) : '';
+    if (!update || update.length > MAX_UPDATE_CHARS || !section) continue;
+    updates.push({ section, update });
+  }
+  return updates;
+}
+
+/** Profile section keys are lowercase snake_case ("Current Projects" -> `current_projects`). */
+export function normalizeSection(name: string): string {
+  return name.trim().toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '_').replace(/^_+|_+$/g, '');
+}
+
+/** Trim edits and drop empty ones, so an edit can't blank a proposal. */
+function cleanEdits(edits: Partial<Pick<ProfileUpdate, 'section' | 'update'>>): Partial<Pick<ProfileUpdate, 'section' | 'update'>> {
+  const clean: Partial<Pick<ProfileUpdate, 'section' | 'update'>> = {};
+  const section = typeof edits.section === 'string' ? normalizeSection(edits.section) : '';
+  const update = typeof edits.update === 'string' ? edits.update.trim().slice(0, MAX_UPDATE_CHARS) : '';
+  if (section) clean.section = section;
+  if (update) clean.update = update;
+  return clean;
+}
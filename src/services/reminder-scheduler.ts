@@ -1,17 +1,34 @@
 import chalk from 'chalk';
-import { Database } from '../db/interface';
+import { v4 as uuidv4 } from 'uuid';
+import { Database, Reminder, ReminderChannel } from '../db/interface';
 import { NotificationSender } from './notification-sender';
+import { GmailService } from './gmail';
+import { accountId } from '../utils/account';
+import { UserSettingsService } from './user-settings';
+import { previousOccurrence } from '../utils/recurrence';
+import { formatInTimezone } from '../utils/timezone';
+
+/** A notification this late (e.g. after downtime) says when the reminder was due. */
+const LATE_AFTER_MS = 5 * 60 * 1000;
 
 /**
- * Checks for due reminders every 60 seconds and sends notifications
- * via the user's configured messaging channel (Telegram).
+ * Checks for due reminders every 60 seconds and notifies the user on the
+ * first channel that works, in the order they chose (Telegram, WhatsApp,
+ * email, then the web dashboard by default). Every attempt is recorded.
+ *
+ * Notified reminders are followed up on each check: a repeating reminder
+ * whose next occurrence comes round unacknowledged moves on to it, and,
+ * if the user turned escalation on, an unacknowledged notification is
+ * resent on the next channel in their list.
  */
 export class ReminderScheduler {
   private interval: NodeJS.Timeout | null = null;
 
   constructor(
     private db: Database,
-    private notificationSender: NotificationSender
+    private notificationSender: NotificationSender,
+    private userSettings: UserSettingsService,
+    private gmail?: GmailService
   ) {}
 
   /**
@@ -35,33 +52,22 @@ export class ReminderScheduler {
   }
 
   /**
-   * Query for due reminders and send notifications.
+   * Follow up on notified reminders, then send notifications for due ones.
    * Each reminder is processed independently — one failure won't block others.
    */
   private async checkDueReminders(): Promise<void> {
     try {
-      const due = await this.db.getDueReminders();
-      if (due.length === 0) return;
+      for (const reminder of await this.db.getNotifiedReminders()) {
+        try {
+          await this.followUp(reminder);
+        } catch (err: any) {
+          console.error(chalk.red(`  [reminders] Follow-up failed for ${reminder.id}: ${err.message}`));
+        }
+      }
 
-      for (const reminder of due) {
+      for (const reminder of await this.db.getDueReminders()) {
         try {
-          // Find user's Telegram identity for notification delivery
-          const identities = await this.db.getChannelIdentities(reminder.userId);
-          const tg = identities.find(i => i.channel === 'telegram');
-          if (!tg) continue; // No Telegram channel configured — skip
-
-          await this.notificationSender.send(
-            'telegram',
-            tg.channelUserId,
-            `⏰ Reminder: ${reminder.text}`
-          );
-
-          // Mark as notified so we don't send again
-          await this.db.updateReminder(reminder.id, { notifiedAt: new Date() });
-
-          if (process.env.HIVE_LOG_LEVEL === 'debug') {
-            console.log(chalk.gray(`  [reminders] Notified ${reminder.userId}: ${reminder.text}`));
-          }
+          await this.notify(reminder);
         } catch (err: any) {
           console.error(chalk.red(`  [reminders] Notification failed for ${reminder.id}: ${err.message}`));
         }
@@ -70,4 +76,114 @@ export class ReminderScheduler {
       console.error(chalk.red(`  [reminders] Check failed: ${err.message}`));
     }
   }
+
+  /** Notify the user of a due reminder on their first working channel. */
+  private async notify(reminder: Reminder): Promise<void> {
+    const notifiedAt = new Date();
+    const prefs = await this.userSettings.getReminderDelivery(reminder.userId);
+    const channel = await this.deliver(reminder, prefs.channels, false);
+
+    // Mark as notified even if every channel failed, so we don't retry each minute
+    await this.db.updateReminder(reminder.id, { notifiedAt });
+
+    if (!channel) {
+      console.error(chalk.yellow(`  [reminders] No channel could deliver ${reminder.id} for ${reminder.userId}`));
+    } else if (process.env.HIVE_LOG_LEVEL === 'debug') {
+      console.log(chalk.gray(`  [reminders] Notified ${reminder.userId} via ${channel}: ${reminder.text}`));
+    }
+  }
+
+  /**
+   * Move a repeating reminder on once its next occurrence has passed, or
+   * escalate a notification that has gone unacknowledged.
+   */
+  private async followUp(reminder: Reminder): Promise<void> {
+    if (reminder.recurrence && reminder.dueAt) {
+      const timezone = await this.userSettings.getTimezone(reminder.userId);
+      const latest = previousOccurrence(reminder.recurrence, timezone);
+      if (latest && latest.getTime() > reminder.dueAt.getTime()) {
+        // Due again now, so the next check notifies it
+        await this.db.updateReminder(reminder.id, { dueAt: latest, notifiedAt: null });
+        return;
+      }
+    }
+
+    const prefs = await this.userSettings.getReminderDelivery(reminder.userId);
+    if (!prefs.escalateAfterMinutes) return;
+
+    const attempts = (await this.db.getReminderDeliveries(reminder.id))
+      .filter(d => d.createdAt.getTime() >= reminder.notifiedAt!.getTime());
+    if (attempts.length === 0) return;
+    if (Date.now() - attempts[0].createdAt.getTime() < prefs.escalateAfterMinutes * 60_000) return;
+
+    // Continue down the list after the last channel already tried
+    const tried = Math.max(...attempts.map(a => prefs.channels.indexOf(a.channel)));
+    const remaining = prefs.channels.slice(tried + 1);
+    if (remaining.length === 0) return;
+
+    const channel = await this.deliver(reminder, remaining, true);
+    if (channel && process.env.HIVE_LOG_LEVEL === 'debug') {
+      console.log(chalk.gray(`  [reminders] Escalated ${reminder.id} to ${channel}`));
+    }
+  }
+
+  /**
+   * Try channels in order until one delivers, recording each attempt.
+   *
+   * @returns The channel that delivered, or null if none did
+   */
+  private async deliver(reminder: Reminder, channels: ReminderChannel[], escalation: boolean): Promise<ReminderChannel | null> {
+    const message = await this.formatNotification(reminder, escalation);
+
+    for (const channel of channels) {
+      try {
+        await this.sendOn(channel, reminder, message);
+        await this.db.createReminderDelivery({
+          id: uuidv4(), reminderId: reminder.id, userId: reminder.userId, channel, status: 'sent', escalation
+        });
+        return channel;
+      } catch (err: any) {
+        await this.db.createReminderDelivery({
+          id: uuidv4(), reminderId: reminder.id, userId: reminder.userId, channel, status: 'failed', error: err.message, escalation
+        });
+      }
+    }
+    return null;
+  }
+
+  /** Send a notification on one channel; throws if the user can't be reached there. */
+  private async sendOn(channel: ReminderChannel, reminder: Reminder, message: string): Promise<void> {
+    const account = accountId(reminder.userId);
+    switch (channel) {
+      case 'telegram':
+      case 'whatsapp': {
+        const identity = (await this.db.getChannelIdentities(account)).find(i => i.channel === channel);
+        if (!identity) throw new Error(`No ${channel} account linked`);
+        await this.notificationSender.send(channel, identity.channelUserId, `${message}\n\nReply "done", or "snooze" (10 min) / "snooze 1h".`);
+        return;
+      }
+      case 'email':
+        if (!this.gmail || !(await this.gmail.isConnected(account))) {
+          throw new Error('Gmail not connected');
+        }
+        await this.gmail.sendToSelf(account, `Reminder: ${reminder.text}`,
+          `${message}\n\nMark it done or snooze it from the Reminders page of your Hive dashboard.`);
+        return;
+      case 'web':
+        // Nothing to send: the Reminders page lists notified reminders until they're acknowledged
+        return;
+    }
+  }
+
+  /**
+   * Reminder text, with the due time in the user's own timezone when the
+   * notification is late.
+   */
+  private async formatNotification(reminder: Reminder, escalation: boolean): Promise<string> {
+    const text = `${escalation ? '🔔 Still pending' : '⏰ Reminder'}: ${reminder.text}`;
+    if (!reminder.dueAt || Date.now() - reminder.dueAt.getTime() < LATE_AFTER_MS) return text;
+
+    const timezone = await this.userSettings.getTimezone(reminder.userId);
+    return `${text} (due ${formatInTimezone(reminder.dueAt, timezone)})`;
+  }
 }
@@ -0,0 +1,121 @@
+import { Database, MessageChannel, Reminder, ReminderChannel } from '../db/interface';
+import { UserSettingsService } from './user-settings';
+import { nextOccurrence } from '../utils/recurrence';
+import { formatInTimezone } from '../utils/timezone';
+import { accountId } from '../utils/account';
+
+/** Snooze length when a reply or request doesn't give one. */
+export const DEFAULT_SNOOZE_MINUTES = 10;
+
+/** Longest snooze accepted: one week. */
+const MAX_SNOOZE_MINUTES = 7 * 24 * 60;
+
+/** How long after a notification a bare "done" or "snooze" reply still refers to it. */
+const REPLY_WINDOW_MS = 60 * 60 * 1000;
+
+/** Channels whose notifications ask for a "done" / "snooze" reply. */
+const REPLY_CHANNELS: ReminderChannel[] = ['telegram', 'whatsapp'];
+
+/** How a user answered a reminder notification. */
+export type ReminderReply =
+  | { type: 'done' }
+  | { type: 'snooze'; minutes: number };
+
+/**
+ * Classify a reply to a reminder notification: "done", or "snooze" with an
+ * optional length ("snooze 30", "snooze 2h"). Anything else is null.
+ */
+export function parseReminderReply(message: string): ReminderReply | null {
+  const text = message.trim().toLowerCase().replace(/[.!]+$/, '');
+  if (/^(?:done|did it|finished|✅)$/.test(text)) return { type: 'done' };
+
+  const snooze = text.match(/^snooze(?: (?:for )?(\d+) ?(m|mins?|minutes?|h|hrs?|hours?)?)?$/);
+  if (!snooze) return null;
+
+  const amount = snooze[1] ? Number(snooze[1]) : DEFAULT_SNOOZE_MINUTES;
+  const minutes = snooze[2]?.startsWith('h') ? amount * 60 : amount;
+  if (minutes < 1 || minutes > MAX_SNOOZE_MINUTES) return null;
+  return { type: 'snooze', minutes };
+}
+
+/**
+ * Acknowledges reminders: marking them done or snoozing them, from a
+ * notification reply, the web page or the assistant's tool.
+ *
+ * "Done" on a repeating reminder finishes this occurrence and moves it to
+ * the next one; only deleting it (or completing it from the page) ends the
+ * series. Reminders belong to the account, so the page and the tool can
+ * acknowledge a notification sent on any channel; a bare "done" reply only
+ * counts on the chat it was sent to.
+ */
+export class ReminderService {
+  constructor(private db: Database, private userSettings: UserSettingsService) {}
+
+  /** Mark a reminder done, or move a repeating one to its next occurrence. */
+  async done(reminder: Reminder): Promise<Reminder> {
+    if (!reminder.recurrence) {
+      return this.db.updateReminder(reminder.id, { isComplete: true });
+    }
+
+    const timezone = await this.userSettings.getTimezone(reminder.userId);
+    const from = reminder.dueAt && reminder.dueAt.getTime() > Date.now() ? reminder.dueAt : new Date();
+    const next = nextOccurrence(reminder.recurrence, timezone, from);
+    if (!next) {
+      return this.db.updateReminder(reminder.id, { isComplete: true });
+    }
+    return this.db.updateReminder(reminder.id, { dueAt: next, notifiedAt: null });
+  }
+
+  /** Notify again after `minutes`. A repeating reminder keeps its schedule afterwards. */
+  async snooze(reminder: Reminder, minutes: number = DEFAULT_SNOOZE_MINUTES): Promise<Reminder> {
+    const length = Math.min(Math.max(Math.round(minutes), 1), MAX_SNOOZE_MINUTES);
+    return this.db.updateReminder(reminder.id, {
+      dueAt: new Date(Date.now() + length * 60_000),
+      notifiedAt: null
+    });
+  }
+
+  /**
+   * Act on a "done" or "snooze" reply to the user's latest notification.
+   * It only counts as a reply when it is the user's first message since
+   * the notification, on the chat the notification was sent to; otherwise
+   * "done" is just a word in the conversation.
+   *
+   * The gateway saves the message before calling this, so the reply is
+   * the one user message allowed since the notification.
+   *
+   * @returns The message to send back, or null if the reply isn't one or
+   *   doesn't answer a notification sent in the last hour
+   */
+  async handleReply(userId: string, channel: MessageChannel, message: string): Promise<string | null> {
+    const reply = parseReminderReply(message);
+    if (!reply) return null;
+
+    const since = Date.now() - REPLY_WINDOW_MS;
+    const [latest] = (await this.db.getReminders(accountId(userId)))
+      .filter(r => r.notifiedAt && r.notifiedAt.getTime() >= since)
+      .sort((a, b) => b.notifiedAt!.getTime() - a.notifiedAt!.getTime());
+    if (!latest) return null;
+
+    // Deliveries come newest first; an escalation replaces the original notification
+    const [sent] = (await this.db.getReminderDeliveries(latest.id))
+      .filter(d => d.status === 'sent' && d.createdAt.getTime() >= latest.notifiedAt!.getTime());
+    if (!sent || sent.channel !== channel || !REPLY_CHANNELS.includes(sent.channel)) return null;
+
+    const messagesSince = (await this.db.getRecentMessages(userId, 10))
+      .filter(m => m.role === 'user' && m.channel === channel && m.createdAt.getTime() >= sent.createdAt.getTime());
+    if (messagesSince.length > 1) return null;
+
+    const timezone = await this.userSettings.getTimezone(userId);
+    if (reply.type === 'snooze') {
+      const snoozed = await this.snooze(latest, reply.minutes);
+      return `💤 Snoozed "${latest.text}" until ${formatInTimezone(snoozed.dueAt!, timezone, { hour: 'numeric', minute: '2-digit' })}.`;
+    }
+
+    const updated = await this.done(latest);
+    if (updated.isComplete) {
+      return `✅ Marked "${latest.text}" as done.`;
+    }
+    return `✅ Done. Next reminder ${formatInTimezone(updated.dueAt!, timezone)}.`;
+  }
+}
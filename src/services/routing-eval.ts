@@ -0,0 +1,342 @@
+import { Database } from '../db/interface';
+import { Orchestrator, OrchestratorConfig, RoutingDecision, SkillInfo } from '../core/orchestrator';
+import { anthropicCostCents } from '../core/providers/anthropic';
+import { DEFAULT_CONFIDENCE_THRESHOLD, IntentClassifier, TrainingReport } from '../core/intent-classifier';
+import { loadSkillsMeta } from '../skills/loader';
+import { getConfig } from '../utils/config';
+
+/** Debug logs read when no limit is given. */
+const DEFAULT_DATASET_LIMIT = 200;
+
+/** Debug logs read to train the fast-path classifier when no limit is given. */
+const DEFAULT_TRAINING_LIMIT = 5000;
+
+/** Wrong answers kept per candidate in a report. */
+const MAX_MISTAKES = 25;
+
+/** Predicted label for calls that failed or returned invalid JSON. */
+const ERROR_LABEL = 'error';
+
+/** The routing fields being evaluated. */
+export interface RoutingLabels {
+  intent: string;
+  complexity: string;
+  suggestedModel: string;
+}
+
+/** A logged message and the routing it should get. */
+export interface RoutingExample extends RoutingLabels {
+  debugLogId: string;
+  message: string;
+  /** A person checked the label; otherwise it is the routing chosen at the time. */
+  corrected: boolean;
+  /** Skill the orchestrator picked at the time (always null for corrected labels). */
+  selectedSkill: string | null;
+}
+
+export interface DatasetOptions {
+  /** Most recent debug logs to read. Corrected labels are always included. Default 200. */
+  limit?: number;
+  /** Only use manually corrected labels. */
+  correctedOnly?: boolean;
+}
+
+/** A routing provider to replay the dataset through. */
+export interface RoutingCandidate {
+  /** e.g. "haiku", "haiku:claude-3-5-haiku-latest", "ollama:qwen2.5:3b" */
+  name: string;
+  config: OrchestratorConfig;
+}
+
+/** How one candidate did on the dataset. */
+export interface CandidateReport {
+  candidate: string;
+  total: number;
+  /** Calls that failed or returned unparseable output (counted as wrong). */
+  errors: number;
+  intentAccuracy: number;
+  complexityAccuracy: number;
+  modelAccuracy: number;
+  /** Intent, complexity and model all correct. */
+  exactAccuracy: number;
+  /** confusion[expected][predicted] = count, by intent. Failed calls predict "error". */
+  confusion: Record<string, Record<string, number>>;
+  /** Precision and recall per expected intent. */
+  perIntent: Record<string, { support: number; precision: number; recall: number }>;
+  latencyMs: { mean: number; p50: number; p95: number };
+  tokensIn: number;
+  tokensOut: number;
+  /** Estimated cost of this run; local models are free. */
+  costCents: number;
+  costPer1kMessagesCents: number;
+  /** Examples the candidate got wrong, up to 25. */
+  mistakes: Array<{
+    debugLogId: string;
+    message: string;
+    expected: RoutingLabels;
+    predicted: RoutingLabels | null;
+    error?: string;
+  }>;
+}
+
+export interface RoutingEvalReport {
+  dataset: { total: number; corrected: number };
+  candidates: CandidateReport[];
+  durationMs: number;
+}
+
+export interface RunOptions extends DatasetOptions {
+  /** Candidate specs (see parseCandidate). Default: the configured orchestrator provider and fallback. */
+  candidates?: string[];
+  /** Called after each example, e.g. to drive a progress spinner. */
+  onProgress?: (candidate: string, done: number, total: number) => void;
+}
+
+/**
+ * Offline evaluation of the orchestrator's routing.
+ *
+ * The dataset comes from debug logs: each logged message is labeled with
+ * the routing it got at the time, unless an admin corrected it on the Logs
+ * page. Each candidate provider classifies every message again and is
+ * scored against those labels. Messages are replayed without conversation
+ * history, which the logs don't keep.
+ */
+export class RoutingEvalService {
+  constructor(private db: Database) {}
+
+  /**
+   * Build the labeled dataset: corrected labels first, then recent logged
+   * routing. Logs the fast path or the fallback defaults routed are left out
+   * unless corrected: they are the classifier's own guesses, and training or
+   * scoring on them would only repeat its mistakes.
+   */
+  async buildDataset(options: DatasetOptions = {}): Promise<RoutingExample[]> {
+    const labels = await this.db.getRoutingLabels();
+    const examples: RoutingExample[] = labels.map(l => ({
+      debugLogId: l.debugLogId,
+      message: l.message,
+      intent: l.intent,
+      complexity: l.complexity,
+      suggestedModel: l.suggestedModel,
+      corrected: true,
+      selectedSkill: null
+    }));
+    if (options.correctedOnly) return examples;
+
+    const labeled = new Set(labels.map(l => l.debugLogId));
+    const logs = await this.db.getDebugLogs({ limit: options.limit ?? DEFAULT_DATASET_LIMIT });
+    for (const log of logs) {
+      if (labeled.has(log.id) || !log.userMessage.trim()) continue;
+      if (log.routedBy === 'fast_path' || log.routedBy === 'fallback') continue;
+      examples.push({
+        debugLogId: log.id,
+        message: log.userMessage,
+        intent: log.intent,
+        complexity: log.complexity,
+        suggestedModel: log.suggestedModel,
+        corrected: false,
+        selectedSkill: log.selectedSkill
+      });
+    }
+    return examples;
+  }
+
+  /**
+   * Train the fast-path intent classifier on the labeled dataset and save it
+   * to the data dir. The running orchestrator needs `setClassifier` (or a
+   * restart) to use it.
+   *
+   * @throws Error if there are too few labeled messages
+   */
+  async trainClassifier(options: DatasetOptions = {}): Promise<{ classifier: IntentClassifier; report: TrainingReport }> {
+    const config = getConfig();
+    const dataset = await this.buildDataset({ ...options, limit: options.limit ?? DEFAULT_TRAINING_LIMIT });
+    const result = IntentClassifier.train(dataset, config.orchestrator?.fastPath?.threshold ?? DEFAULT_CONFIDENCE_THRESHOLD);
+    result.classifier.save(config.dataDir);
+    return result;
+  }
+
+  /** Replay the dataset through each candidate and score the results. */
+  async run(options: RunOptions = {}): Promise<RoutingEvalReport> {
+    const started = Date.now();
+    const candidates = (options.candidates?.length ? options.candidates : defaultCandidates()).map(parseCandidate);
+    const dataset = await this.buildDataset(options);
+    if (dataset.length === 0) {
+      throw new Error('No labeled messages. Enable debug logging and send some messages first.');
+    }
+
+    const skills: SkillInfo[] = loadSkillsMeta(getConfig().workspace)
+      .map(s => ({ name: s.name, description: s.description }));
+
+    const reports: CandidateReport[] = [];
+    for (const candidate of candidates) {
+      reports.push(await this.evaluate(candidate, dataset, skills, options.onProgress));
+    }
+
+    return {
+      dataset: { total: dataset.length, corrected: dataset.filter(e => e.corrected).length },
+      candidates: reports,
+      durationMs: Date.now() - started
+    };
+  }
+
+  private async evaluate(
+    candidate: RoutingCandidate,
+    dataset: RoutingExample[],
+    skills: SkillInfo[],
+    onProgress?: RunOptions['onProgress']
+  ): Promise<CandidateReport> {
+    const orchestrator = new Orchestrator(candidate.config);
+    const confusion: Record<string, Record<string, number>> = {};
+    const latencies: number[] = [];
+    const mistakes: CandidateReport['mistakes'] = [];
+    let errors = 0, intentHits = 0, complexityHits = 0, modelHits = 0, exactHits = 0;
+    let tokensIn = 0, tokensOut = 0;
+
+    for (const [i, example] of dataset.entries()) {
+      const expected = pickLabels(example);
+      let predicted: RoutingLabels | null = null;
+      let error: string | undefined;
+
+      const callStarted = Date.now();
+      try {
+        const result = await orchestrator.classify(example.message, [], skills);
+        predicted = pickLabels(result.decision);
+        tokensIn += result.tokensIn;
+        tokensOut += result.tokensOut;
+      } catch (err: any) {
+        errors++;
+        error = err.message || String(err);
+      }
+      latencies.push(Date.now() - callStarted);
+
+      const predictedIntent = predicted?.intent ?? ERROR_LABEL;
+      confusion[expected.intent] ??= {};
+      confusion[expected.intent][predictedIntent] = (confusion[expected.intent][predictedIntent] || 0) + 1;
+
+      const intentOk = predicted?.intent === expected.intent;
+      const complexityOk = predicted?.complexity === expected.complexity;
+      const modelOk = predicted?.suggestedModel === expected.suggestedModel;
+      if (intentOk) intentHits++;
+      if (complexityOk) complexityHits++;
+      if (modelOk) modelHits++;
+      if (intentOk && complexityOk && modelOk) {
+        exactHits++;
+      } else if (mistakes.length < MAX_MISTAKES) {
+        mistakes.push({ debugLogId: example.debugLogId, message: example.message, expected, predicted, error });
+      }
+
+      onProgress?.(candidate.name, i + 1, dataset.length);
+    }
+
+    const total = dataset.length;
+    const costCents = candidate.config.provider === 'haiku'
+      ? anthropicCostCents(candidate.config.options?.haiku?.model || 'haiku', { tokensIn, tokensOut })
+      : 0;
+
+    return {
+      candidate: candidate.name,
+      total,
+      errors,
+      intentAccuracy: intentHits / total,
+      complexityAccuracy: complexityHits / total,
+      modelAccuracy: modelHits / total,
+      exactAccuracy: exactHits / total,
+      confusion,
+      perIntent: perIntentScores(confusion),
+      latencyMs: {
+        mean: Math.round(latencies.reduce((a, b) => a + b, 0) / total),
+        p50: percentile(latencies, 0.5),
+        p95: percentile(latencies, 0.95)
+      },
+      tokensIn,
+      tokensOut,
+      costCents,
+      costPer1kMessagesCents: (costCents / total) * 1000,
+      mistakes
+    };
+  }
+}
+
+/**
+ * Parse a candidate spec into an orchestrator config with no fallback:
+ *
+ *   haiku                  → Haiku with the configured (or default) model
+ *   haiku:<model-id>       → a specific Anthropic model
+ *   ollama                 → the configured Ollama model
+ *   ollama:<model>         → another model on the configured Ollama endpoint
+ *
+ * @throws Error for an unknown provider
+ */
+export function parseCandidate(spec: string): RoutingCandidate {
+  const options = getConfig().orchestrator?.options;
+  const sep = spec.indexOf(':');
+  const provider = sep === -1 ? spec : spec.slice(0, sep);
+  const model = sep === -1 ? undefined : spec.slice(sep + 1);
+
+  switch (provider) {
+    case 'haiku':
+      return {
+        name: spec,
+        config: {
+          provider: 'haiku',
+          fallback: null,
+          options: { haiku: { model: model || options?.haiku?.model || 'claude-haiku-4-5-20251001' } }
+        }
+      };
+    case 'ollama':
+      return {
+        name: spec,
+        config: {
+          provider: 'ollama',
+          fallback: null,
+          options: {
+            ollama: {
+              endpoint: options?.ollama?.endpoint || 'http://localhost:11434',
+              model: model || options?.ollama?.model || 'llama3.2'
+            }
+          }
+        }
+      };
+    default:
+      throw new Error(`Unknown routing provider "${provider}". Use haiku, haiku:<model>, ollama or ollama:<model>.`);
+  }
+}
+
+/** The configured orchestrator provider, plus its fallback when set. */
+export function defaultCandidates(): string[] {
+  const orchestrator = getConfig().orchestrator;
+  const names = [orchestrator?.provider || 'haiku'];
+  if (orchestrator?.fallback && orchestrator.fallback !== names[0]) names.push(orchestrator.fallback);
+  return names;
+}
+
+function pickLabels(source: RoutingLabels | RoutingDecision): RoutingLabels {
+  return { intent: source.intent, complexity: source.complexity, suggestedModel: source.suggestedModel };
+}
+
+function perIntentScores(confusion: Record<string, Record<string, number>>): CandidateReport['perIntent'] {
+  const predictedTotals: Record<string, number> = {};
+  for (const row of Object.values(confusion)) {
+    for (const [predicted, count] of Object.entries(row)) {
+      predictedTotals[predicted] = (predictedTotals[predicted] || 0) + count;
+    }
+  }
+
+  const scores: CandidateReport['perIntent'] = {};
+  for (const [intent, row] of Object.entries(confusion)) {
+    const support = Object.values(row).reduce((a, b) => a + b, 0);
+    const hits = row[intent] || 0;
+    scores[intent] = {
+      support,
+      precision: predictedTotals[intent] ? hits / predictedTotals[intent] : 0,
+      recall: support ? hits / support : 0
+    };
+  }
+  return scores;
+}
+
+function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))] ?? 0;
+}
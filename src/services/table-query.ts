@@ -0,0 +1,375 @@
+/**
+ * SQL over the user's spreadsheets. CSV and Excel files are loaded into a
+ * throwaway in-memory SQLite database, one table per file (per sheet for
+ * workbooks with several), and queried read-only. Used by the query_table
+ * tool and by workflow query steps.
+ */
+
+import Database from 'better-sqlite3';
+import { spawn } from 'child_process';
+import * as path from 'path';
+import { FileAccessService } from './file-access';
+
+/** Extensions that can be loaded as tables. */
+export const TABLE_EXTENSIONS = new Set(['.csv', '.xlsx', '.xls']);
+
+/** Rows returned when the caller doesn't say. */
+export const DEFAULT_ROW_LIMIT = 50;
+
+/** Most rows one query returns. */
+export const MAX_ROW_LIMIT = 500;
+
+/** Largest file loaded as a table. */
+const MAX_TABLE_FILE_SIZE = 10 * 1024 * 1024;
+
+/** Rows of a sheet past this are not loaded. */
+const MAX_LOADED_ROWS = 100_000;
+
+/** Example rows shown with each table's schema. */
+const SAMPLE_ROWS = 3;
+
+/** Characters of a cell shown in a markdown table. */
+const MAX_CELL_LENGTH = 200;
+
+/** Longest a query may run before it is stopped. */
+export const QUERY_TIMEOUT_MS = 10_000;
+
+/**
+ * Script for the process a query runs in: it opens the database image it
+ * is sent, runs the SQL and sends back at most `limit` rows. A separate
+ * process because a runaway query (a recursive CTE with no end, a huge
+ * cross join) can only be stopped by killing it: SQLite can't be
+ * interrupted from JavaScript, and a worker thread can't be terminated
+ * while SQLite is running.
+ */
+const QUERY_PROCESS = `
+const Database = require(process.argv[1]);
+process.once('message', ({ image, sql, limit }) => {
+  try {
+    const db = new Database(image);
+    db.pragma('query_only = ON');
+    const statement = db.prepare(sql).raw(true);
+    const columns = statement.columns().map(c => c.name);
+    const rows = [];
+    let truncated = false;
+    for (const row of statement.iterate()) {
+      if (rows.length === limit) {
+        truncated = true;
+        break;
+      }
+      rows.push(row);
+    }
+    process.send({ columns, rows, truncated });
+  } catch (err) {
+    process.send({ error: err.message });
+  }
+});
+`;
+
+type ColumnType = 'INTEGER' | 'REAL' | 'TEXT';
+
+/** A table loaded from a file. */
+export interface LoadedTable {
+  name: string;
+  /** File the table came from. */
+  filename: string;
+  /** Sheet, for workbooks with more than one. */
+  sheet?: string;
+  /** SQL column names, with the file's own header where it differs. */
+  columns: Array<{ name: string; type: ColumnType; header: string }>;
+  rowCount: number;
+  /** Rows past MAX_LOADED_ROWS were left out. */
+  partial: boolean;
+}
+
+/** Rows returned by a query. */
+export interface TableQueryResult {
+  columns: string[];
+  rows: Array<Record<string, unknown>>;
+  /** More rows matched than were returned. */
+  truncated: boolean;
+  /** The rows as a markdown table. */
+  markdown: string;
+}
+
+/** The loaded tables and, when SQL was given, its result. */
+export interface TableQueryOutput {
+  tables: LoadedTable[];
+  /** CREATE TABLE statements with sample rows, for writing queries. */
+  schema: string;
+  result?: TableQueryResult;
+}
+
+/** A file to load: its name and contents. */
+export interface TableFile {
+  filename: string;
+  data: Buffer;
+}
+
+/**
+ * Runs read-only SQL over a user's CSV and Excel files. Files are parsed
+ * again for every query, so results always reflect the current files.
+ */
+export class TableQueryService {
+  constructor(private fileAccess: FileAccessService) {}
+
+  /**
+   * Load the files as tables and run `sql` over them, returning at most
+   * `limit` rows. Without SQL, only the schema is returned.
+   *
+   * @throws if a file can't be loaded, or the SQL fails or isn't read-only
+   */
+  async query(userId: string, filenames: string[], sql?: string, limit: number = DEFAULT_ROW_LIMIT): Promise<TableQueryOutput> {
+    if (filenames.length === 0) throw new Error('No files given');
+
+    const files: TableFile[] = [];
+    for (const filename of filenames) {
+      if (!TABLE_EXTENSIONS.has(path.extname(filename).toLowerCase())) {
+        throw new Error(`Not a CSV or Excel file: ${filename}`);
+      }
+      files.push({ filename, data: await this.fileAccess.readBuffer(userId, filename, MAX_TABLE_FILE_SIZE) });
+    }
+    return queryTables(files, sql, limit);
+  }
+}
+
+/**
+ * Load files into an in-memory database and run `sql` over them.
+ *
+ * @throws if a file has no data, or the SQL fails, isn't read-only or
+ *   runs longer than `timeoutMs`
+ */
+export async function queryTables(
+  files: TableFile[],
+  sql?: string,
+  limit: number = DEFAULT_ROW_LIMIT,
+  timeoutMs: number = QUERY_TIMEOUT_MS
+): Promise<TableQueryOutput> {
+  const db = new Database(':memory:');
+  try {
+    const tables: LoadedTable[] = [];
+    const usedNames = new Set<string>();
+    for (const file of files) {
+      tables.push(...await loadFile(db, file, usedNames));
+    }
+    db.pragma('query_only = ON');
+
+    const schema = tables.map(table => describeTable(db, table)).join('\n\n');
+    if (!sql?.trim()) return { tables, schema };
+
+    const rowLimit = Math.min(Math.max(1, Math.floor(limit)), MAX_ROW_LIMIT);
+    return { tables, schema, result: await runQuery(db, sql, rowLimit, timeoutMs) };
+  } finally {
+    db.close();
+  }
+}
+
+/** Parse a CSV or Excel file and create a table for each sheet with data. */
+async function loadFile(db: Database.Database, file: TableFile, usedNames: Set<string>): Promise<LoadedTable[]> {
+  const XLSX = await import('xlsx');
+  const isCsv = path.extname(file.filename).toLowerCase() === '.csv';
+  // CSV cells stay text (so "007" and "2026-01-05" aren't reinterpreted); column types are inferred below
+  const workbook = isCsv
+    ? XLSX.read(file.data.toString('utf-8'), { type: 'string', raw: true })
+    : XLSX.read(file.data, { type: 'buffer', cellDates: true });
+
+  const stem = path.basename(file.filename, path.extname(file.filename));
+  const sheets = workbook.SheetNames
+    .map(sheet => ({
+      sheet,
+      rows: XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[sheet], { header: 1, blankrows: false, defval: null, raw: true })
+    }))
+    .filter(({ rows }) => rows.length > 0);
+  if (sheets.length === 0) throw new Error(`No data in ${file.filename}`);
+
+  return sheets.map(({ sheet, rows }) => {
+    const name = uniqueName(identifier(sheets.length > 1 ? `${stem}_${sheet}` : stem, 't'), usedNames);
+    return createTable(db, name, file.filename, sheets.length > 1 ? sheet : undefined, rows);
+  });
+}
+
+/** Create and fill a table from rows whose first row is the header. */
+function createTable(db: Database.Database, name: string, filename: string, sheet: string | undefined, rows: unknown[][]): LoadedTable {
+  const [header, ...body] = rows;
+  const data = body.slice(0, MAX_LOADED_ROWS).map(row => row.map(cellValue));
+  const width = rows.reduce((max, row) => Math.max(max, row.length), 0);
+
+  const usedColumns = new Set<string>();
+  const columns = Array.from({ length: width }, (_, i) => {
+    const label = header[i] == null ? '' : String(header[i]).trim();
+    const columnName = uniqueName(identifier(label || `column_${i + 1}`, 'c'), usedColumns);
+    return { name: columnName, type: columnType(data.map(row => row[i])), header: label };
+  });
+
+  db.exec(`CREATE TABLE ${quote(name)} (${columns.map(c => `${quote(c.name)} ${c.type}`).join(', ')})`);
+  const insert = db.prepare(`INSERT INTO ${quote(name)} VALUES (${columns.map(() => '?').join(', ')})`);
+  db.transaction(() => {
+    for (const row of data) {
+      insert.run(columns.map((column, i) => toColumn(row[i], column.type)));
+    }
+  })();
+
+  return { name, filename, sheet, columns, rowCount: data.length, partial: body.length > MAX_LOADED_ROWS };
+}
+
+/** A cell as a string, number or null. Dates become `YYYY-MM-DD` (with the time if it has one). */
+function cellValue(cell: unknown): string | number | null {
+  if (cell == null || cell === '') return null;
+  if (typeof cell === 'number') return cell;
+  if (typeof cell === 'boolean') return cell ? 1 : 0;
+  if (cell instanceof Date) {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    const date = `${cell.getFullYear()}-${pad(cell.getMonth() + 1)}-${pad(cell.getDate())}`;
+    const time = `${pad(cell.getHours())}:${pad(cell.getMinutes())}:${pad(cell.getSeconds())}`;
+    return time === '00:00:00' ? date : `${date} ${time}`;
+  }
+  const text = String(cell).trim();
+  return text === '' ? null : text;
+}
+
+/** INTEGER or REAL when every value in the column is a number, else TEXT. Numbers with leading zeros stay text. */
+function columnType(values: Array<string | number | null | undefined>): ColumnType {
+  let type: ColumnType = 'INTEGER';
+  for (const value of values) {
+    if (value == null) continue;
+    const text = String(value);
+    if (/^-?(0|[1-9]\d*)$/.test(text) && Number.isSafeInteger(Number(text))) continue;
+    if (/^-?((0|[1-9]\d*)(\.\d+)?|\.\d+)([eE][+-]?\d+)?$/.test(text)) {
+      type = 'REAL';
+      continue;
+    }
+    return 'TEXT';
+  }
+  return type;
+}
+
+function toColumn(value: string | number | null | undefined, type: ColumnType): string | number | null {
+  if (value == null) return null;
+  return type === 'TEXT' ? String(value) : Number(value);
+}
+
+/** A lowercase SQL identifier: "Q3 Revenue ($)" → "q3_revenue". */
+function identifier(label: string, prefix: string): string {
+  const name = label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+  if (!name) return prefix;
+  return /^\d/.test(name) ? `${prefix}_${name}` : name;
+}
+
+function uniqueName(name: string, used: Set<string>): string {
+  let unique = name;
+  for (let n = 2; used.has(unique); n++) unique = `${name}_${n}`;
+  used.add(unique);
+  return unique;
+}
+
+function quote(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/** A table's CREATE TABLE statement, with its source and a few example rows. */
+function describeTable(db: Database.Database, table: LoadedTable): string {
+  const source = table.sheet ? `${table.filename}, sheet "${table.sheet}"` : table.filename;
+  const note = table.partial ? ` (only the first ${MAX_LOADED_ROWS} loaded)` : '';
+  const columns = table.columns.map((c, i) => {
+    const comma = i < table.columns.length - 1 ? ',' : '';
+    const header = c.header && c.header !== c.name ? `  -- "${c.header}"` : '';
+    return `  ${c.name} ${c.type}${comma}${header}`;
+  });
+
+  const sample = db.prepare(`SELECT * FROM ${quote(table.name)} LIMIT ${SAMPLE_ROWS}`).raw(true).all() as unknown[][];
+  const lines = [
+    `-- ${source}: ${table.rowCount} rows${note}`,
+    `CREATE TABLE ${table.name} (`,
+    ...columns,
+    ');'
+  ];
+  if (sample.length > 0) {
+    lines.push('', markdownTable(table.columns.map(c => c.name), sample));
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Run one read-only statement in its own process, keeping at most `limit`
+ * rows. The statement is checked here first, so bad SQL fails fast.
+ */
+async function runQuery(db: Database.Database, sql: string, limit: number, timeoutMs: number): Promise<TableQueryResult> {
+  let statement: Database.Statement;
+  try {
+    statement = db.prepare(sql);
+  } catch (err: any) {
+    throw new Error(`SQL error: ${err.message}`);
+  }
+  if (!statement.reader || !statement.readonly) {
+    throw new Error('Only read-only queries (SELECT or WITH … SELECT) are allowed');
+  }
+
+  const { columns, rows, truncated } = await runInProcess(db.serialize(), sql, limit, timeoutMs);
+
+  let markdown = rows.length > 0 ? markdownTable(columns, rows) : '(no rows)';
+  if (truncated) markdown += `\n\n[Only the first ${limit} rows are shown]`;
+
+  return {
+    columns,
+    rows: rows.map(row => Object.fromEntries(columns.map((c, i) => [c, row[i]]))),
+    truncated,
+    markdown
+  };
+}
+
+type QueryReply = { columns: string[]; rows: unknown[][]; truncated: boolean } | { error: string };
+
+/** Run SQL over a database image in a child process, killed if it runs past the timeout. */
+function runInProcess(
+  image: Buffer,
+  sql: string,
+  limit: number,
+  timeoutMs: number
+): Promise<{ columns: string[]; rows: unknown[][]; truncated: boolean }> {
+  return new Promise((resolve, reject) => {
+    const proc = spawn(process.execPath, ['-e', QUERY_PROCESS, require.resolve('better-sqlite3')], {
+      timeout: timeoutMs,
+      killSignal: 'SIGKILL',
+      stdio: ['ignore', 'ignore', 'pipe', 'ipc'],
+      serialization: 'advanced'
+    });
+
+    let stderr = '';
+    proc.stderr!.on('data', (data: Buffer) => {
+      stderr = (stderr + data.toString()).slice(0, 10_000);
+    });
+
+    proc.once('message', (reply: QueryReply) => {
+      proc.kill();
+      if ('error' in reply) reject(new Error(`SQL error: ${reply.error}`));
+      else resolve(reply);
+    });
+
+    // After a reply this is a no-op: the promise is already settled
+    proc.on('close', (code, signal) => {
+      if (signal === 'SIGKILL') {
+        reject(new Error(`Query stopped after ${timeoutMs / 1000} seconds. Make it simpler, or check that recursive queries end.`));
+      } else {
+        reject(new Error(`Query failed: ${stderr.trim() || `process exited with code ${code}`}`));
+      }
+    });
+
+    proc.on('error', (err) => {
+      reject(new Error(`Could not run the query: ${err.message}`));
+    });
+
+    proc.send({ image, sql, limit });
+  });
+}
+
+function markdownTable(columns: string[], rows: unknown[][]): string {
+  const cell = (value: unknown) => {
+    const text = value == null ? '' : String(value).replace(/\r?\n/g, ' ').replace(/\|/g, '\\|');
+    return text.length > MAX_CELL_LENGTH ? text.slice(0, MAX_CELL_LENGTH) + '…' : text;
+  };
+  return [
+    `| ${columns.map(cell).join(' | ')} |`,
+    `|${' --- |'.repeat(columns.length)}`,
+    ...rows.map(row => `| ${columns.map((_, i) => cell(row[i])).join(' | ')} |`)
+  ].join('\n');
+}
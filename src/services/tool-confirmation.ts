@@ -0,0 +1,147 @@
+import { MessageChannel, ToolCallRecord } from '../db/interface';
+import { describeToolCall, getToolRisk, ToolDefinition } from '../core/tools';
+import { parseConfirmationReply, PendingConfirmations } from './pending-confirmations';
+import { ToolConfirmationPolicy, UserSettingsService } from './user-settings';
+
+/** A tool call held back until the user approves it. */
+export interface HeldToolCall {
+  tool: ToolDefinition;
+  input: unknown;
+  description: string;
+}
+
+/** Result of handling the user's reply to a confirmation prompt. */
+export interface ToolConfirmationOutcome {
+  /** Text to send back to the user. */
+  message: string;
+  /** Calls that ran after approval, for persisting as tool messages. */
+  executed: ToolCallRecord[];
+}
+
+/**
+ * Human confirmation gate for side-effecting tools.
+ *
+ * During a turn, gated tools don't run: the call is held and the model is
+ * told the user will be asked. After the reply, held calls are stored as a
+ * pending confirmation and a preview ("Send this email to kai@…? (yes/no)")
+ * is appended to the response. The user's next message approves or cancels.
+ */
+export class ToolConfirmationService {
+  private pending: PendingConfirmations<HeldToolCall[]>;
+
+  constructor(
+    private userSettings: UserSettingsService,
+    config?: {
+      confirmationTimeoutMs?: number;
+    }
+  ) {
+    this.pending = new PendingConfirmations(config?.confirmationTimeoutMs ?? 10 * 60_000);
+  }
+
+  /** Whether a call needs the user's approval under their policy. */
+  needsConfirmation(tool: ToolDefinition, input: unknown, policy: ToolConfirmationPolicy): boolean {
+    const risk = getToolRisk(tool, input);
+    if (risk === 'none') return false;
+    const mode = policy[tool.name];
+    if (mode === 'never') return false;
+    if (mode === 'always') return true;
+    return risk === 'high';
+  }
+
+  /**
+   * Wrap tools so calls needing approval are held instead of run.
+   * Held calls are pushed onto `held` as the model makes them. Workflow
+   * steps run unattended (the user set them up), so there is nobody to
+   * ask and their tools are returned as they are.
+   */
+  async gateTools(userId: string, channel: MessageChannel, tools: ToolDefinition[], held: HeldToolCall[]): Promise<ToolDefinition[]> {
+    if (channel === 'workflow') return tools;
+    const policy = await this.userSettings.getToolConfirmationPolicy(userId);
+
+    return tools.map(tool => ({
+      ...tool,
+      handler: async (input: unknown) => {
+        if (!this.needsConfirmation(tool, input, policy)) {
+          return tool.handler(input);
+        }
+        const description = await describeToolCall(tool, input);
+        held.push({ tool, input, description });
+        console.log(`  [confirm] Holding ${tool.name} for approval: ${description}`);
+        return {
+          status: 'awaiting_confirmation',
+          action: description,
+          note: 'Not done yet. The user will be asked to approve this right after your reply. Do not say it has been done.'
+        };
+      }
+    }));
+  }
+
+  /**
+   * Register held calls as the user's pending confirmation and return the
+   * prompt to show them, or null if nothing was held.
+   */
+  hold(userId: string, held: HeldToolCall[]): string | null {
+    if (held.length === 0) return null;
+    this.pending.set(userId, [...held]);
+
+    if (held.length === 1) {
+      return `${held[0].description}? (yes/no)`;
+    }
+    const list = held.map((h, i) => `  ${i + 1}. ${h.description}`).join('\n');
+    return `I need your OK before I:\n${list}\nGo ahead with all of these? (yes/no)`;
+  }
+
+  /** Check if a user has calls waiting for approval. */
+  hasPending(userId: string): boolean {
+    return this.pending.has(userId);
+  }
+
+  /**
+   * Handle the user's reply to a confirmation prompt.
+   * Returns null if nothing is pending or the reply isn't a yes/no, in which
+   * case the held calls are dropped and the message goes through normal flow.
+   */
+  async handleReply(userId: string, message: string): Promise<ToolConfirmationOutcome | null> {
+    const held = this.pending.take(userId);
+    if (!held) return null;
+
+    const reply = parseConfirmationReply(message);
+    if (reply.type === 'no') {
+      return { message: 'Cancelled — nothing was done.', executed: [] };
+    }
+    if (reply.type !== 'yes') {
+      console.log(`  [confirm] Dropping ${held.length} held call(s) for ${userId}: reply was not yes/no`);
+      return null;
+    }
+
+    const executed: ToolCallRecord[] = [];
+    const lines: string[] = [];
+    for (const call of held) {
+      const started = Date.now();
+      let result: unknown;
+      let error: string | undefined;
+      try {
+        result = await call.tool.handler(call.input);
+      } catch (err: any) {
+        error = err.message;
+        result = { error: err.message };
+      }
+      executed.push({
+        name: call.tool.name,
+        input: call.input,
+        output: JSON.stringify(result) ?? 'null',
+        durationMs: Date.now() - started,
+        error
+      });
+
+      // Tools report most failures as { error } rather than throwing
+      const failure = error ?? (result && typeof result === 'object' && 'error' in result
+        ? String((result as { error: unknown }).error)
+        : undefined);
+      lines.push(failure ? `Failed: ${call.description} — ${failure}` : `Done: ${call.description}.`);
+    }
+
+    console.log(`  [confirm] Ran ${executed.length} approved call(s) for ${userId}`);
+    return { message: lines.join('\n'), executed };
+  }
+}
@@ -0,0 +1,178 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { spawn } from 'child_process';
+import { TranscriptionConfig } from '../utils/config';
+
+const DEFAULT_TIMEOUT_MS = 120_000;
+const MAX_STDERR_CHARS = 2_000;
+
+/** File extensions for common voice note formats, so ffmpeg can sniff the input. */
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  'audio/ogg': '.ogg',
+  'audio/opus': '.opus',
+  'audio/mpeg': '.mp3',
+  'audio/mp4': '.m4a',
+  'audio/aac': '.aac',
+  'audio/webm': '.webm',
+  'audio/wav': '.wav',
+  'audio/x-wav': '.wav'
+};
+
+/** Turns recorded speech into text. */
+export interface TranscriptionService {
+  /**
+   * Transcribe an audio clip.
+   *
+   * @param audio - Raw audio bytes as received from the channel
+   * @param mimeType - e.g. "audio/ogg; codecs=opus" for Telegram/WhatsApp voice notes
+   * @returns The transcript, or an empty string if no speech was found
+   * @throws Error if the backend fails
+   */
+  transcribe(audio: Buffer, mimeType: string): Promise<string>;
+}
+
+/** How channels handle incoming voice notes. */
+export interface VoiceNoteOptions {
+  transcriber: TranscriptionService;
+  /** Reply with the transcript before the answer. */
+  echoTranscript: boolean;
+}
+
+/**
+ * Local speech-to-text via a whisper.cpp-style binary.
+ *
+ * whisper.cpp only reads 16kHz mono WAV, so other formats are converted
+ * with ffmpeg first. Audio never leaves the machine.
+ */
+export class WhisperCppTranscriber implements TranscriptionService {
+  private binaryPath: string;
+  private modelPath: string;
+  private language: string;
+  private ffmpegPath: string;
+  private timeoutMs: number;
+
+  constructor(config: TranscriptionConfig) {
+    if (!config.modelPath) {
+      throw new Error('transcription.modelPath is required for the whisper-cpp backend');
+    }
+    this.binaryPath = config.binaryPath || 'whisper-cli';
+    this.modelPath = config.modelPath.replace(/^~(?=\/|$)/, os.homedir());
+    this.language = config.language || 'auto';
+    this.ffmpegPath = config.ffmpegPath || 'ffmpeg';
+    this.timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  }
+
+  async transcribe(audio: Buffer, mimeType: string): Promise<string> {
+    const type = mimeType.toLowerCase().split(';')[0].trim();
+    const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'hive-voice-'));
+
+    try {
+      const inputPath = path.join(workDir, `input${AUDIO_EXTENSIONS[type] || '.audio'}`);
+      fs.writeFileSync(inputPath, audio);
+
+      let wavPath = inputPath;
+      if (AUDIO_EXTENSIONS[type] !== '.wav') {
+        wavPath = path.join(workDir, 'speech.wav');
+        await runProcess(this.ffmpegPath, [
+          '-nostdin', '-loglevel', 'error', '-i', inputPath,
+          '-ar', '16000', '-ac', '1', '-c:a', 'pcm_s16le', wavPath
+        ], this.timeoutMs);
+      }
+
+      const stdout = await runProcess(this.binaryPath, [
+        '-m', this.modelPath, '-f', wavPath, '-l', this.language, '-nt', '-np'
+      ], this.timeoutMs);
+      return cleanTranscript(stdout);
+    } finally {
+      fs.rmSync(workDir, { recursive: true, force: true });
+    }
+  }
+}
+
+/**
+ * Returns a fixed transcript without running anything.
+ * For tests and for trying the voice flow without installing whisper.cpp.
+ */
+export class StubTranscriber implements TranscriptionService {
+  /** Every clip received, in order. */
+  readonly received: Array<{ bytes: number; mimeType: string }> = [];
+
+  constructor(private transcript = 'This is a test voice note.') {}
+
+  async transcribe(audio: Buffer, mimeType: string): Promise<string> {
+    this.received.push({ bytes: audio.length, mimeType });
+    return this.transcript;
+  }
+}
+
+/**
+ * Create the configured transcription backend, or null when voice notes
+ * are disabled.
+ */
+export function createTranscriptionService(config?: TranscriptionConfig): TranscriptionService | null {
+  if (!config?.enabled) return null;
+
+  switch (config.backend) {
+    case 'whisper-cpp':
+      return new WhisperCppTranscriber(config);
+    case 'stub':
+      return new StubTranscriber(config.stubTranscript);
+    default:
+      throw new Error(`Unknown transcription backend: ${(config as { backend: string }).backend}`);
+  }
+}
+
+/**
+ * Join whisper's output lines and drop non-speech markers such as
+ * "[BLANK_AUDIO]" or "(music)".
+ */
+function cleanTranscript(output: string): string {
+  return output
+    .replace(/\[[^\]]*\]|\([^)]*\)/g, ' ')
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/** Run a command to completion and return its stdout. */
+function runProcess(command: string, args: string[], timeoutMs: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const proc = spawn(command, args, {
+      timeout: timeoutMs,
+      stdio: ['ignore', 'pipe', 'pipe']
+    });
+
+    let stdout = '';
+    let stderr = '';
+
+    proc.stdout.on('data', (data: Buffer) => {
+      stdout += data.toString();
+    });
+
+    proc.stderr.on('data', (data: Buffer) => {
+      stderr += data.toString();
+      // Cap stderr capture
+      if (stderr.length > MAX_STDERR_CHARS) {
+        stderr = stderr.slice(-MAX_STDERR_CHARS);
+      }
+    });
+
+    proc.on('close', (code, signal) => {
+      if (code === 0) {
+        resolve(stdout);
+      } else if (signal) {
+        reject(new Error(`${path.basename(command)} was killed (${signal}); the limit is ${Math.round(timeoutMs / 1000)}s`));
+      } else {
+        reject(new Error(`${path.basename(command)} exited with code ${code}: ${stderr.trim()}`));
+      }
+    });
+
+    proc.on('error', (err) => {
+      reject(new Error(`Failed to start ${command}: ${err.message}`));
+    });
+  });
+}
@@ -1,6 +1,30 @@
-import { Database as IDatabase, UserSoul, UserProfile as UserProfileDB } from '../db/interface';
+import { Database as IDatabase, ReminderChannel, UserSoul, UserProfile as UserProfileDB } from '../db/interface';
 import { SoulConfig, loadSoul, VOICE_PRESETS, getSoulPrompt } from '../core/soul';
-import { UserProfile as CoreUserProfile, loadProfile, getProfilePrompt } from '../core/profile';
+import { UserProfile as CoreUserProfile, loadProfile, getProfilePrompt, getUserPreferences } from '../core/profile';
+import { isValidTimezone } from '../utils/timezone';
+import { accountId } from '../utils/account';
+import { getConfig } from '../utils/config';
+
+/** Per-tool override of the default rule (confirm high-risk calls only). */
+export type ToolConfirmationMode = 'always' | 'never';
+
+/** A user's confirmation overrides, keyed by tool name. */
+export type ToolConfirmationPolicy = Record<string, ToolConfirmationMode>;
+
+/** How a user's reminder notifications are delivered. */
+export interface ReminderDeliveryPrefs {
+  /** Channels to try in order; the first that works delivers the notification. */
+  channels: ReminderChannel[];
+  /** Resend on the next channel when a notification goes unacknowledged this long. 0 turns it off. */
+  escalateAfterMinutes: number;
+}
+
+export const REMINDER_CHANNELS: ReminderChannel[] = ['telegram', 'whatsapp', 'email', 'web'];
+
+const DEFAULT_REMINDER_DELIVERY: ReminderDeliveryPrefs = {
+  channels: REMINDER_CHANNELS,
+  escalateAfterMinutes: 0
+};
 
 /**
  * Service for managing per-user soul and profile settings.
@@ -43,11 +67,12 @@ export class UserSettingsService {
   }
 
   /**
-   * Get profile config for a user.
+   * Get profile config for a user. Web chat's `web:<userId>` reads the
+   * same profile as the account.
    * Falls back to global user.md file, then empty defaults.
    */
   async getProfileConfig(userId: string): Promise<CoreUserProfile> {
-    const userProfile = await this.db.getUserProfile(userId);
+    const userProfile = await this.db.getUserProfile(accountId(userId));
     if (userProfile) {
       return {
         name: userProfile.name,
@@ -64,7 +89,7 @@ export class UserSettingsService {
    * Save profile config for a user to the database.
    */
   async saveProfileConfig(userId: string, profile: CoreUserProfile): Promise<void> {
-    await this.db.saveUserProfile(userId, {
+    await this.db.saveUserProfile(accountId(userId), {
       name: profile.name,
       preferredName: profile.preferredName,
       timezone: profile.timezone,
@@ -73,6 +98,104 @@ export class UserSettingsService {
     });
   }
 
+  /**
+   * The timezone a user set on their own profile, or null if they have no
+   * profile yet or its timezone isn't a valid IANA name.
+   */
+  async getOwnTimezone(userId: string): Promise<string | null> {
+    const userProfile = await this.db.getUserProfile(accountId(userId));
+    return isValidTimezone(userProfile?.timezone) ? userProfile!.timezone : null;
+  }
+
+  /**
+   * The timezone to read and show a user's times in: their own, else the
+   * global profile's, else the configured default, else UTC.
+   */
+  async getTimezone(userId: string): Promise<string> {
+    return (await this.getOwnTimezone(userId)) ?? defaultTimezone();
+  }
+
+  /**
+   * Set a user's timezone, creating their profile if they have none.
+   */
+  async saveTimezone(userId: string, timezone: string): Promise<void> {
+    if (!isValidTimezone(timezone)) {
+      throw new Error(`Unknown timezone: ${timezone}`);
+    }
+    const existing = await this.db.getUserProfile(accountId(userId));
+    await this.saveProfileConfig(userId, {
+      name: existing?.name || '',
+      preferredName: existing?.preferredName || '',
+      timezone,
+      bio: existing?.bio || '',
+      sections: existing?.sections || {}
+    });
+  }
+
+  /**
+   * Get a user's tool confirmation overrides (stored in the user's config).
+   * Web chat runs as `web:<userId>`, so that prefix is stripped to share
+   * one policy across every channel.
+   */
+  async getToolConfirmationPolicy(userId: string): Promise<ToolConfirmationPolicy> {
+    const user = await this.db.getUser(accountId(userId));
+    return { ...(user?.config?.toolConfirmations || {}) };
+  }
+
+  /**
+   * Replace a user's tool confirmation overrides.
+   */
+  async saveToolConfirmationPolicy(userId: string, policy: ToolConfirmationPolicy): Promise<void> {
+    const account = accountId(userId);
+    const user = await this.db.getUser(account);
+    if (!user) {
+      throw new Error(`User not found: ${account}`);
+    }
+    await this.db.updateUser(account, { config: { ...user.config, toolConfirmations: policy } });
+  }
+
+  /**
+   * Get the opt-in tools (like web_search) a user has turned on, stored in
+   * the user's config and shared across channels like the confirmation policy.
+   */
+  async getEnabledTools(userId: string): Promise<string[]> {
+    const user = await this.db.getUser(accountId(userId));
+    return [...(user?.config?.enabledTools || [])];
+  }
+
+  /**
+   * Replace the opt-in tools a user has turned on.
+   */
+  async saveEnabledTools(userId: string, tools: string[]): Promise<void> {
+    const account = accountId(userId);
+    const user = await this.db.getUser(account);
+    if (!user) {
+      throw new Error(`User not found: ${account}`);
+    }
+    await this.db.updateUser(account, { config: { ...user.config, enabledTools: tools } });
+  }
+
+  /**
+   * Get how a user's reminder notifications are delivered (stored in the
+   * user's config), shared across channels like the confirmation policy.
+   */
+  async getReminderDelivery(userId: string): Promise<ReminderDeliveryPrefs> {
+    const user = await this.db.getUser(accountId(userId));
+    return { ...DEFAULT_REMINDER_DELIVERY, ...(user?.config?.reminderDelivery || {}) };
+  }
+
+  /**
+   * Replace a user's reminder delivery preferences.
+   */
+  async saveReminderDelivery(userId: string, prefs: ReminderDeliveryPrefs): Promise<void> {
+    const account = accountId(userId);
+    const user = await this.db.getUser(account);
+    if (!user) {
+      throw new Error(`User not found: ${account}`);
+    }
+    await this.db.updateUser(account, { config: { ...user.config, reminderDelivery: prefs } });
+  }
+
   /**
    * On first web login, if no DB records exist, copy from global files.
    */
@@ -135,11 +258,7 @@ ${soul.traits.map(t => `- ${t}`).join('\n')}`;
     const profile = await this.getProfileConfig(userId);
     const name = profile.preferredName || profile.name;
     if (!name) return '';
-    let prompt = `The user's name is ${name}.`;
-    if (profile.timezone) {
-      prompt += ` Their timezone is ${profile.timezone}.`;
-    }
-    return prompt;
+    return `The user's name is ${name}. Their timezone is ${await this.getTimezone(userId)}.`;
   }
 
   /**
@@ -149,7 +268,7 @@ ${soul.traits.map(t => `- ${t}`).join('\n')}`;
   async getProfilePromptForUser(userId: string, sections?: string[]): Promise<string> {
     const profile = await this.getProfileConfig(userId);
 
-    if (!profile.name && !profile.bio) {
+    if (!profile.name && !profile.bio && Object.keys(profile.sections).length === 0) {
       return '';
     }
 
@@ -159,9 +278,7 @@ ${soul.traits.map(t => `- ${t}`).join('\n')}`;
       prompt += `Name: ${profile.preferredName}\n`;
     }
 
-    if (profile.timezone) {
-      prompt += `Timezone: ${profile.timezone}\n`;
-    }
+    prompt += `Timezone: ${await this.getTimezone(userId)}\n`;
 
     if (sections && sections.length > 0) {
       for (const section of sections) {
@@ -170,10 +287,26 @@ ${soul.traits.map(t => `- ${t}`).join('\n')}`;
           prompt += profile.sections[section] + '\n';
         }
       }
-    } else if (profile.bio) {
-      prompt += `\n${profile.bio}\n`;
+    } else {
+      if (profile.bio) {
+        prompt += `\n${profile.bio}\n`;
+      }
+      // Sections parsed from user.md repeat the bio; ones edited separately
+      // (e.g. accepted profile updates) don't
+      for (const [section, text] of Object.entries(profile.sections)) {
+        if (text.trim() && !profile.bio.includes(text.trim())) {
+          prompt += `\n### ${section.replace(/_/g, ' ').replace(/\b\w/g, c => c.toUpperCase())}\n`;
+          prompt += text + '\n';
+        }
+      }
     }
 
     return prompt;
   }
 }
+
+/** Timezone for users who haven't set one: the global profile's, then config, then UTC. */
+export function defaultTimezone(): string {
+  const candidates = [getUserPreferences().timezone, getConfig().user?.timezone];
+  return candidates.find(isValidTimezone) || 'UTC';
+}
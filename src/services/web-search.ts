@@ -0,0 +1,266 @@
+import { WebSearchConfig } from '../utils/config';
+import { Bm25Index } from '../utils/bm25';
+
+const DEFAULT_MAX_RESULTS = 5;
+const DEFAULT_FETCH_TOP = 2;
+const DEFAULT_TIMEOUT_MS = 10_000;
+const BRAVE_SEARCH_URL = 'https://api.search.brave.com/res/v1/web/search';
+
+/** Characters of a result's snippet kept. */
+const MAX_SNIPPET_LENGTH = 500;
+
+/** Share of a result's rank that comes from its snippet matching the query; the rest is the backend's order. */
+const SNIPPET_WEIGHT = 0.7;
+
+/** A web search hit. */
+export interface WebSearchResult {
+  title: string;
+  url: string;
+  snippet: string;
+}
+
+/** A search backend. */
+export interface WebSearchProvider {
+  /**
+   * Search the web.
+   *
+   * @param count - Results wanted; backends may return more or fewer
+   * @throws Error if the backend can't be reached or answers with an error
+   */
+  search(query: string, count: number): Promise<WebSearchResult[]>;
+}
+
+/**
+ * A SearXNG instance's JSON API (`format=json` must be enabled in its
+ * settings.yml). SearXNG merges several engines, so its results are often
+ * duplicated across them.
+ */
+export class SearxngSearchProvider implements WebSearchProvider {
+  constructor(private url: string, private timeoutMs: number = DEFAULT_TIMEOUT_MS) {}
+
+  async search(query: string, _count: number): Promise<WebSearchResult[]> {
+    const url = new URL(this.url);
+    url.searchParams.set('q', query);
+    url.searchParams.set('format', 'json');
+
+    const body = await getJson(url, {}, this.timeoutMs) as { results?: unknown[] };
+    return toResults(body.results, { title: 'title', url: 'url', snippet: 'content' });
+  }
+}
+
+/**
+ * A search API answering GET requests with JSON, such as Brave Search.
+ * Where the results are and what their fields are called is configurable.
+ */
+export class HttpSearchProvider implements WebSearchProvider {
+  private url: string;
+  private timeoutMs: number;
+
+  constructor(private config: Omit<WebSearchConfig, 'enabled' | 'backend'>) {
+    this.url = config.url || BRAVE_SEARCH_URL;
+    this.timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  }
+
+  async search(query: string, count: number): Promise<WebSearchResult[]> {
+    const url = new URL(this.url);
+    url.searchParams.set(this.config.queryParam || 'q', query);
+    url.searchParams.set(this.config.countParam || 'count', String(count));
+
+    const headers: Record<string, string> = {};
+    if (this.config.apiKey) headers[this.config.apiKeyHeader || 'X-Subscription-Token'] = this.config.apiKey;
+
+    const body = await getJson(url, headers, this.timeoutMs);
+    const results = (this.config.resultsPath || 'web.results')
+      .split('.')
+      .reduce<any>((value, key) => (value == null ? undefined : value[key]), body);
+    return toResults(results, {
+      title: this.config.fields?.title || 'title',
+      url: this.config.fields?.url || 'url',
+      snippet: this.config.fields?.snippet || 'description'
+    });
+  }
+}
+
+/** Fixed results, for development and tests without a search backend. */
+export class StubSearchProvider implements WebSearchProvider {
+  constructor(private results: WebSearchResult[] = []) {}
+
+  async search(_query: string, _count: number): Promise<WebSearchResult[]> {
+    return this.results.map(r => ({ ...r }));
+  }
+}
+
+/**
+ * Web search for the assistant: asks the configured backend, drops
+ * duplicate pages and ranks what's left by how well each snippet matches
+ * the query, tempered by the backend's own order.
+ */
+export class WebSearchService {
+  readonly maxResults: number;
+  /** Top results whose pages the web_search tool reads for an excerpt. */
+  readonly fetchTop: number;
+
+  constructor(private provider: WebSearchProvider, options: { maxResults?: number; fetchTop?: number } = {}) {
+    this.maxResults = options.maxResults ?? DEFAULT_MAX_RESULTS;
+    this.fetchTop = options.fetchTop ?? DEFAULT_FETCH_TOP;
+  }
+
+  /** The best `limit` distinct results for a query. */
+  async search(query: string, limit: number = this.maxResults): Promise<WebSearchResult[]> {
+    // Ask for extra, since duplicates are dropped
+    const results = await this.provider.search(query, limit * 2);
+    return rankResults(query, results, limit);
+  }
+}
+
+/**
+ * Create the configured web search, or null when it is not enabled.
+ *
+ * @throws Error if the backend is unknown or misconfigured
+ */
+export function createWebSearchService(config?: WebSearchConfig): WebSearchService | null {
+  if (!config?.enabled) return null;
+
+  const options = { maxResults: config.maxResults, fetchTop: config.fetchTop };
+  switch (config.backend) {
+    case 'searxng':
+      if (!config.url) throw new Error('webSearch.url is required for the searxng backend');
+      return new WebSearchService(new SearxngSearchProvider(config.url, config.timeoutMs), options);
+    case 'http':
+      return new WebSearchService(new HttpSearchProvider(config), options);
+    case 'stub':
+      return new WebSearchService(new StubSearchProvider(config.stubResults), options);
+    default:
+      throw new Error(`Unknown web search backend: ${(config as { backend: string }).backend}`);
+  }
+}
+
+/**
+ * Drop results for the same page (ignoring scheme, "www.", fragments,
+ * trailing slashes and utm_ parameters), then order them by snippet match
+ * and backend rank combined.
+ */
+export function rankResults(query: string, results: WebSearchResult[], limit: number): WebSearchResult[] {
+  const byPage = new Map<string, WebSearchResult>();
+  for (const result of results) {
+    const key = pageKey(result.url);
+    const seen = byPage.get(key);
+    if (!seen) {
+      byPage.set(key, { ...result });
+    } else if (result.snippet.length > seen.snippet.length) {
+      // Keep the better-ranked copy, with the fuller snippet
+      seen.snippet = result.snippet;
+    }
+  }
+  const unique = [...byPage.values()];
+
+  const matches = new Bm25Index(unique, r => `${r.title}\n${r.snippet}`).search(query, unique.length);
+  const scores = new Map(matches.map(m => [m.item, m.score]));
+  const best = matches.length > 0 ? matches[0].score : 1;
+
+  return unique
+    .map((result, i) => ({
+      result,
+      score: SNIPPET_WEIGHT * (scores.get(result) || 0) / best + (1 - SNIPPET_WEIGHT) * (1 - i / unique.length)
+    }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(r => r.result);
+}
+
+/**
+ * The parts of a page's text that best match a query, in page order, up to
+ * `maxChars`. Falls back to the start of the page when nothing matches.
+ */
+export function pageExcerpt(text: string, query: string, maxChars: number = 1500): string {
+  if (text.length <= maxChars) return text;
+
+  const windows: Array<{ start: number; text: string }> = [];
+  const size = 300;
+  for (let start = 0; start < text.length; start += size) {
+    windows.push({ start, text: text.slice(start, start + size) });
+  }
+
+  const picked = new Bm25Index(windows, w => w.text)
+    .search(query, Math.floor(maxChars / size))
+    .map(m => m.item)
+    .sort((a, b) => a.start - b.start);
+  if (picked.length === 0) return text.slice(0, maxChars) + '…';
+
+  return picked
+    .map((w, i) => (i > 0 && picked[i - 1].start + size === w.start ? w.text : `…${w.text}`))
+    .join('') + '…';
+}
+
+/** GET a JSON document, with a timeout. */
+async function getJson(url: URL, headers: Record<string, string>, timeoutMs: number): Promise<unknown> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const response = await fetch(url, {
+      signal: controller.signal,
+      headers: { 'Accept': 'application/json', 'User-Agent': 'HiveAssistant/1.0 (Web Search)', ...headers }
+    });
+    if (!response.ok) {
+      throw new Error(`Search failed: HTTP ${response.status} ${response.statusText}`);
+    }
+    return await response.json();
+  } catch (err: any) {
+    if (err.name === 'AbortError') {
+      throw new Error(`Search timed out after ${timeoutMs / 1000}s`);
+    }
+    throw err;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/** Map a backend's result objects to WebSearchResults, skipping any without an http(s) URL. */
+function toResults(items: unknown, fields: { title: string; url: string; snippet: string }): WebSearchResult[] {
+  if (!Array.isArray(items)) {
+    throw new Error('Search failed: no results list in the response');
+  }
+
+  const results: WebSearchResult[] = [];
+  for (const item of items) {
+    if (!item || typeof item !== 'object') continue;
+    const record = item as Record<string, unknown>;
+    const url = typeof record[fields.url] === 'string' ? record[fields.url] as string : '';
+    if (!/^https?:\/\//i.test(url)) continue;
+    results.push({
+      title: plainText(record[fields.title]) || url,
+      url,
+      snippet: plainText(record[fields.snippet]).slice(0, MAX_SNIPPET_LENGTH)
+    });
+  }
+  return results;
+}
+
+/** Text without HTML tags (Brave marks matches with <strong>) or common entities. */
+function plainText(value: unknown): string {
+  if (typeof value !== 'string') return '';
+  return value
+    .replace(/<[^>]+>/g, '')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&#x27;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/** What makes two result URLs the same page. */
+function pageKey(url: string): string {
+  try {
+    const parsed = new URL(url);
+    for (const key of [...parsed.searchParams.keys()]) {
+      if (/^utm_/i.test(key)) parsed.searchParams.delete(key);
+    }
+    const host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+    return `${host}${parsed.pathname.replace(/\/+$/, '')}${parsed.search}`;
+  } catch {
+    return url;
+  }
+}
@@ -4,27 +4,34 @@ import { Database } from '../db/interface';
 import { ScriptRunner } from './script-runner';
 import { CredentialVault } from './credential-vault';
 import { NotificationSender } from './notification-sender';
+import { FileAccessService } from './file-access';
+import { DEFAULT_ROW_LIMIT, TableQueryService } from './table-query';
 import { Gateway } from '../core/gateway';
 import { getUserWorkspacePath } from '../utils/user-workspace';
 
 /** Input mapping for a workflow step. */
 export interface InputMapping {
-  type: 'static' | 'ref' | 'credential';
+  type: 'static' | 'ref' | 'credential' | 'file';
   value?: unknown;
   source?: string; // e.g., "step1.output.rows"
   credentialName?: string; // credential name to resolve from vault
+  filename?: string; // file whose text to pass (PDF/Excel/Word as extracted text)
 }
 
 /** A single step in a workflow definition. */
 export interface StepDefinition {
   id: string;
-  type: 'script' | 'skill' | 'notify';
+  type: 'script' | 'skill' | 'notify' | 'query';
   scriptId?: string;
-  skillName?: string;
+  skillName?: string; // single skill (older workflows); see skillNames
+  skillNames?: string[]; // skills for skill steps, most important first
   channel?: string; // for notify steps: 'telegram'
   label?: string;
   inputs: Record<string, InputMapping>;
   tools?: string[]; // tool names for skill steps (e.g. ['fetch_rss'])
+  files?: string[]; // for query steps: CSV/Excel files loaded as tables
+  sql?: string; // for query steps: read-only SQL over those tables
+  limit?: number; // for query steps: maximum rows (default 50)
 }
 
 /** Result from executing a single step. */
@@ -50,6 +57,7 @@ export interface WorkflowRunResult {
  * Script steps run via ScriptRunner (Python subprocess).
  * Skill steps route through Gateway.handleMessage with channel 'workflow',
  * preserving the full orchestrator pipeline and cost optimization.
+ * Query steps run SQL over the user's CSV and Excel files, no script needed.
  */
 export class WorkflowEngine {
   constructor(
@@ -57,7 +65,8 @@ export class WorkflowEngine {
     private gateway: Gateway | undefined,
     private db: Database,
     private credentialVault?: CredentialVault,
-    private notificationSender?: NotificationSender
+    private notificationSender?: NotificationSender,
+    private fileAccess?: FileAccessService
   ) {}
 
   /**
@@ -106,6 +115,8 @@ export class WorkflowEngine {
           output = await this.executeSkillStep(step, resolvedInputs, userId);
         } else if (step.type === 'notify') {
           output = await this.executeNotifyStep(step, resolvedInputs, userId, stepOutputs);
+        } else if (step.type === 'query') {
+          output = await this.executeQueryStep(step, resolvedInputs, userId);
         } else {
           throw new Error(`Unknown step type: ${(step as any).type}`);
         }
@@ -202,6 +213,11 @@ export class WorkflowEngine {
           throw new Error(`Credential "${mapping.credentialName}" not found`);
         }
         resolved[key] = value;
+      } else if (mapping.type === 'file' && mapping.filename) {
+        if (!this.fileAccess) {
+          throw new Error(`File input "${key}" requires file access`);
+        }
+        resolved[key] = await this.fileAccess.readText(userId, mapping.filename);
       }
     }
 
@@ -311,8 +327,9 @@ export class WorkflowEngine {
       message = `Process the following data:\n\n${allInputs}`;
     }
 
-    const handleOptions: { forceSkill?: string; tools?: string[] } = {};
-    if (step.skillName) handleOptions.forceSkill = step.skillName;
+    const handleOptions: { forceSkills?: string[]; tools?: string[] } = {};
+    const skillNames = step.skillNames?.length ? step.skillNames : step.skillName ? [step.skillName] : [];
+    if (skillNames.length) handleOptions.forceSkills = skillNames;
     if (step.tools?.length) handleOptions.tools = step.tools;
 
     const result = await this.gateway.handleMessage(
@@ -326,6 +343,37 @@ export class WorkflowEngine {
     return { response: result.response };
   }
 
+  /**
+   * Execute a query step: load the step's CSV/Excel files as tables and run
+   * its SQL. An "sql" input, e.g. built from an earlier step, overrides the
+   * step's own. Later steps can use `<id>.table` (markdown) or `<id>.rows`.
+   */
+  private async executeQueryStep(
+    step: StepDefinition,
+    inputs: Record<string, unknown>,
+    userId: string
+  ): Promise<unknown> {
+    if (!this.fileAccess) {
+      throw new Error('File access not available for query steps');
+    }
+    if (!step.files?.length) {
+      throw new Error(`Query step "${step.id}" has no files`);
+    }
+    const sql = typeof inputs.sql === 'string' ? inputs.sql : step.sql;
+    if (!sql?.trim()) {
+      throw new Error(`Query step "${step.id}" is missing sql`);
+    }
+
+    const output = await new TableQueryService(this.fileAccess).query(userId, step.files, sql, step.limit || DEFAULT_ROW_LIMIT);
+    const result = output.result!;
+    return {
+      table: result.markdown,
+      rows: result.rows,
+      rowCount: result.rows.length,
+      truncated: result.truncated
+    };
+  }
+
   /**
    * Execute a notify step by sending a message to a channel.
    *
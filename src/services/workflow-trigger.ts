@@ -1,5 +1,6 @@
 import { Database, Workflow } from '../db/interface';
 import { WorkflowEngine, WorkflowRunResult } from './workflow-engine';
+import { parseConfirmationReply, PendingConfirmations } from './pending-confirmations';
 
 /** How a workflow was matched to the user's query. */
 export interface WorkflowMatch {
@@ -19,11 +20,6 @@ export interface TriggerResult {
   };
 }
 
-interface PendingConfirmation {
-  matches: WorkflowMatch[];
-  expiresAt: number;
-}
-
 /**
  * Enables natural language workflow triggering.
  *
@@ -32,10 +28,9 @@ interface PendingConfirmation {
  * rate limiting, and disambiguation for ambiguous matches.
  */
 export class WorkflowTriggerService {
-  private pendingConfirmations = new Map<string, PendingConfirmation>();
+  private pendingConfirmations: PendingConfirmations<WorkflowMatch[]>;
   private executionTimestamps = new Map<string, number[]>();
   private maxExecutionsPerMinute: number;
-  private confirmationTimeoutMs: number;
 
   constructor(
     private db: Database,
@@ -46,7 +41,7 @@ export class WorkflowTriggerService {
     }
   ) {
     this.maxExecutionsPerMinute = config?.maxExecutionsPerMinute ?? 3;
-    this.confirmationTimeoutMs = config?.confirmationTimeoutMs ?? 60_000;
+    this.pendingConfirmations = new PendingConfirmations(config?.confirmationTimeoutMs ?? 60_000);
   }
 
   /**
@@ -112,33 +107,21 @@ export class WorkflowTriggerService {
     // Single substring/fuzzy match — ask for confirmation
     if (matches.length === 1) {
       const match = matches[0];
-      this.pendingConfirmations.set(userId, {
-        matches,
-        expiresAt: Date.now() + this.confirmationTimeoutMs
-      });
+      const expiresAt = this.pendingConfirmations.set(userId, matches);
       return {
         type: 'confirmation_needed',
         message: `I found "${match.workflow.name}". Run it now? (yes/no)`,
-        pendingConfirmation: {
-          matches,
-          expiresAt: Date.now() + this.confirmationTimeoutMs
-        }
+        pendingConfirmation: { matches, expiresAt }
       };
     }
 
     // Multiple matches — ask user to choose
     const list = matches.map((m, i) => `  ${i + 1}. ${m.workflow.name}`).join('\n');
-    this.pendingConfirmations.set(userId, {
-      matches,
-      expiresAt: Date.now() + this.confirmationTimeoutMs
-    });
+    const expiresAt = this.pendingConfirmations.set(userId, matches);
     return {
       type: 'ambiguous',
       message: `I found multiple workflows matching "${query}":\n${list}\nWhich one should I run? (enter a number)`,
-      pendingConfirmation: {
-        matches,
-        expiresAt: Date.now() + this.confirmationTimeoutMs
-      }
+      pendingConfirmation: { matches, expiresAt }
     };
   }
 
@@ -147,20 +130,14 @@ export class WorkflowTriggerService {
    * Returns null if there's no valid pending confirmation (expired or absent).
    */
   async handleConfirmation(userId: string, message: string): Promise<TriggerResult | null> {
-    const pending = this.pendingConfirmations.get(userId);
-    if (!pending) return null;
+    // Any reply consumes the pending confirmation
+    const matches = this.pendingConfirmations.take(userId);
+    if (!matches) return null;
 
-    // Check expiration
-    if (Date.now() > pending.expiresAt) {
-      this.pendingConfirmations.delete(userId);
-      return null;
-    }
-
-    const trimmed = message.trim().toLowerCase();
+    const reply = parseConfirmationReply(message, matches.length);
 
     // Cancellation
-    if (['no', 'n', 'cancel', 'nevermind', 'never mind'].includes(trimmed)) {
-      this.pendingConfirmations.delete(userId);
+    if (reply.type === 'no') {
       return {
         type: 'not_found',
         message: 'Cancelled.'
@@ -170,20 +147,16 @@ export class WorkflowTriggerService {
     const ownerId = await this.resolveOwnerId(userId);
 
     // Affirmative for single match
-    if (['yes', 'y', 'yeah', 'yep', 'sure', 'ok', 'go', 'do it'].includes(trimmed)) {
-      this.pendingConfirmations.delete(userId);
-      return this.executeWorkflow(ownerId, pending.matches[0].workflow);
+    if (reply.type === 'yes') {
+      return this.executeWorkflow(ownerId, matches[0].workflow);
     }
 
     // Number selection for multiple matches
-    const num = parseInt(trimmed, 10);
-    if (!isNaN(num) && num >= 1 && num <= pending.matches.length) {
-      this.pendingConfirmations.delete(userId);
-      return this.executeWorkflow(ownerId, pending.matches[num - 1].workflow);
+    if (reply.type === 'choice') {
+      return this.executeWorkflow(ownerId, matches[reply.index].workflow);
     }
 
-    // Unrecognized response — clear pending and let normal flow handle it
-    this.pendingConfirmations.delete(userId);
+    // Unrecognized response — let normal flow handle it
     return null;
   }
 
@@ -191,13 +164,7 @@ export class WorkflowTriggerService {
    * Check if a user has a pending workflow confirmation.
    */
   hasPendingConfirmation(userId: string): boolean {
-    const pending = this.pendingConfirmations.get(userId);
-    if (!pending) return false;
-    if (Date.now() > pending.expiresAt) {
-      this.pendingConfirmations.delete(userId);
-      return false;
-    }
-    return true;
+    return this.pendingConfirmations.has(userId);
   }
 
   /**
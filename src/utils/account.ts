@@ -0,0 +1,8 @@
+/**
+ * The account a user ID belongs to. Web chat runs as `web:<id>` and the
+ * other channels as the account ID itself, so settings, reminders, budgets
+ * and other per-account data are keyed by this.
+ */
+export function accountId(userId: string): string {
+  return userId.startsWith('web:') ? userId.slice('web:'.length) : userId;
+}
@@ -0,0 +1,88 @@
+/** Term-frequency saturation and length normalisation (the usual defaults). */
+const K1 = 1.2;
+const B = 0.75;
+
+/** Words too common to say anything about relevance. */
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'could', 'did', 'do', 'does',
+  'for', 'from', 'had', 'has', 'have', 'he', 'her', 'his', 'how', 'i', 'if', 'in', 'into', 'is',
+  'it', 'its', 'just', 'me', 'my', 'of', 'on', 'or', 'our', 'she', 'so', 'that', 'the', 'their',
+  'them', 'then', 'there', 'these', 'they', 'this', 'to', 'was', 'we', 'were', 'what', 'when',
+  'where', 'which', 'who', 'why', 'will', 'with', 'would', 'you', 'your'
+]);
+
+/** A scored match from `Bm25Index.search`. */
+export interface Bm25Match<T> {
+  item: T;
+  score: number;
+}
+
+/**
+ * Lowercased word tokens without stopwords. A trailing "s" is dropped from
+ * longer words so "meetings" matches "meeting".
+ */
+export function tokenize(text: string): string[] {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  return words
+    .filter(w => !STOPWORDS.has(w))
+    .map(w => (w.length > 4 && w.endsWith('s') && !w.endsWith('ss') ? w.slice(0, -1) : w));
+}
+
+/** Jaccard overlap of the two texts' word sets, from 0 to 1. */
+export function similarity(a: string, b: string): number {
+  const wordsA = new Set(tokenize(a));
+  const wordsB = new Set(tokenize(b));
+  if (wordsA.size === 0 || wordsB.size === 0) return 0;
+  let shared = 0;
+  for (const w of wordsA) if (wordsB.has(w)) shared++;
+  return shared / (wordsA.size + wordsB.size - shared);
+}
+
+/**
+ * In-memory Okapi BM25 index over a small set of documents, built on
+ * demand. Fine for hundreds or a few thousand short texts.
+ */
+export class Bm25Index<T> {
+  private docs: Array<{ item: T; terms: Map<string, number>; length: number }>;
+  private documentFrequency = new Map<string, number>();
+  private averageLength: number;
+
+  constructor(items: T[], text: (item: T) => string) {
+    this.docs = items.map(item => {
+      const tokens = tokenize(text(item));
+      const terms = new Map<string, number>();
+      for (const t of tokens) terms.set(t, (terms.get(t) || 0) + 1);
+      for (const t of terms.keys()) {
+        this.documentFrequency.set(t, (this.documentFrequency.get(t) || 0) + 1);
+      }
+      return { item, terms, length: tokens.length };
+    });
+    this.averageLength = this.docs.reduce((sum, d) => sum + d.length, 0) / (this.docs.length || 1);
+  }
+
+  get size(): number {
+    return this.docs.length;
+  }
+
+  /** The best matches for a query, highest score first. Items that share no term are left out. */
+  search(query: string, limit: number): Array<Bm25Match<T>> {
+    const queryTerms = [...new Set(tokenize(query))];
+    if (queryTerms.length === 0 || this.docs.length === 0) return [];
+
+    const n = this.docs.length;
+    const matches: Array<Bm25Match<T>> = [];
+    for (const doc of this.docs) {
+      let score = 0;
+      for (const term of queryTerms) {
+        const tf = doc.terms.get(term);
+        if (!tf) continue;
+        const df = this.documentFrequency.get(term)!;
+        const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+        score += idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * (doc.length / (this.averageLength || 1))));
+      }
+      if (score > 0) matches.push({ item: doc.item, score });
+    }
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+}
@@ -1,6 +1,118 @@
 import * as fs from 'fs';
 import * as path from 'path';
 
+/**
+ * An executor backend that a tier in `ai.executor` can point at.
+ * Tiers reference providers as `<name>:<model>` (or just `<name>` when
+ * the provider sets a default model).
+ */
+export interface ExecutorProviderConfig {
+  type: 'anthropic' | 'ollama' | 'openai';
+  /** Base URL: server root for Ollama, the `/v1` URL for OpenAI-compatible servers. */
+  endpoint?: string;
+  apiKey?: string;
+  /** Model used when a tier names the provider without a model. */
+  model?: string;
+  /** Price per 1M tokens in dollars. Ollama/OpenAI-compatible default to free. */
+  pricing?: { input: number; output: number };
+  timeoutMs?: number;
+}
+
+/**
+ * How the executor handles transient API failures (rate limits, overload,
+ * timeouts): retry with jittered exponential backoff, then fall back to
+ * the next model in the chain.
+ */
+export interface ExecutorRetryConfig {
+  /** Retries per model before falling back. Default 3. */
+  maxRetries?: number;
+  /** First backoff delay; doubles on each retry. Default 1000. */
+  baseDelayMs?: number;
+  /** Longest single wait. A longer retry-after skips straight to fallback. Default 30000. */
+  maxDelayMs?: number;
+  /** Models to fall back through, most capable first. Default opus → sonnet → haiku; [] disables. */
+  fallbackChain?: string[];
+}
+
+/** Executor tiers, as chosen by the gateway from routing complexity. */
+export type ExecutorTier = 'simple' | 'default' | 'complex';
+
+export const EXECUTOR_TIERS: ExecutorTier[] = ['default', 'simple', 'complex'];
+
+/**
+ * Extended thinking budget (tokens) per executor tier, for Anthropic models.
+ * Thinking is used for complex requests and code/analysis intents, or when a
+ * message starts with `/think`. 0 turns it off for a tier; the API minimum is 1024.
+ */
+export type ExecutorThinkingConfig = Partial<Record<ExecutorTier, number>>;
+
+/**
+ * Most tokens the assembled context (system prompt, history and message)
+ * may use per executor tier. Over it, the least important sections are
+ * shrunk first. 0 means no limit for a tier.
+ */
+export type ExecutorContextBudgetConfig = Partial<Record<ExecutorTier, number>>;
+
+/**
+ * Speech-to-text for voice notes. The `whisper-cpp` backend shells out to a
+ * whisper.cpp-style binary (`whisper-cli -m <model> -f <wav>`), converting
+ * audio to 16kHz WAV with ffmpeg first. `stub` returns a fixed transcript.
+ */
+export interface TranscriptionConfig {
+  enabled: boolean;
+  backend: 'whisper-cpp' | 'stub';
+  /** Path to the whisper.cpp binary. Default "whisper-cli" (from PATH). */
+  binaryPath?: string;
+  /** Path to the ggml model file, e.g. ~/.hive/models/ggml-base.en.bin. Required for whisper-cpp. */
+  modelPath?: string;
+  /** Spoken language code, or "auto" to detect. Default "auto". */
+  language?: string;
+  /** Path to ffmpeg. Default "ffmpeg" (from PATH). */
+  ffmpegPath?: string;
+  /** Give up on a single transcription after this long. Default 120000. */
+  timeoutMs?: number;
+  /** Reply with the transcript before the answer, so the user can spot mishearings. Default false. */
+  echoTranscript?: boolean;
+  /** Transcript returned by the stub backend. */
+  stubTranscript?: string;
+}
+
+/**
+ * Web search for the web_search tool. `searxng` queries a SearXNG
+ * instance's JSON API; `http` calls any search API that answers a GET
+ * request with JSON (Brave Search's by default); `stub` returns fixed
+ * results. The endpoint is trusted configuration, so it may be on the local
+ * network; pages fetched from the results are not.
+ */
+export interface WebSearchConfig {
+  enabled: boolean;
+  backend: 'searxng' | 'http' | 'stub';
+  /**
+   * searxng: the instance's search URL, e.g. http://localhost:8888/search.
+   * http: the API endpoint. Default https://api.search.brave.com/res/v1/web/search.
+   */
+  url?: string;
+  /** Key sent in `apiKeyHeader` (http backend). */
+  apiKey?: string;
+  /** Header carrying the API key. Default "X-Subscription-Token". */
+  apiKeyHeader?: string;
+  /** Query string parameters for the search terms and result count. Default "q" and "count". */
+  queryParam?: string;
+  countParam?: string;
+  /** Dot path to the results array in the response. Default "web.results". */
+  resultsPath?: string;
+  /** Field names within each result. Default "title", "url" and "description". */
+  fields?: { title?: string; url?: string; snippet?: string };
+  /** Results returned per search. Default 5. */
+  maxResults?: number;
+  /** Top results whose pages are fetched for an excerpt. Default 2. */
+  fetchTop?: number;
+  /** Give up on a search request after this long. Default 10000. */
+  timeoutMs?: number;
+  /** Results returned by the stub backend. */
+  stubResults?: Array<{ title: string; url: string; snippet: string }>;
+}
+
 export interface Config {
   version: string;
   dataDir: string;
@@ -12,11 +124,16 @@ export interface Config {
   ai: {
     provider: 'anthropic';
     apiKey: string;
+    /** Each tier is 'haiku' | 'sonnet' | 'opus' or a `<provider>:<model>` reference. */
     executor: {
-      default: 'haiku' | 'sonnet' | 'opus';
-      simple: 'haiku' | 'sonnet' | 'opus';
-      complex: 'haiku' | 'sonnet' | 'opus';
+      default: string;
+      simple: string;
+      complex: string;
+      thinking?: ExecutorThinkingConfig;
+      contextBudget?: ExecutorContextBudgetConfig;
     };
+    providers?: Record<string, ExecutorProviderConfig>;
+    retry?: ExecutorRetryConfig;
   };
   orchestrator: {
     provider: 'haiku' | 'ollama';
@@ -30,6 +147,11 @@ export interface Config {
         model: string;
       };
     };
+    /** Local classifier in front of the LLM; see IntentClassifier. */
+    fastPath?: {
+      enabled?: boolean;
+      threshold?: number;
+    };
   };
   channels: {
     whatsapp: {
@@ -67,6 +189,8 @@ export interface Config {
     clientId: string;
     clientSecret: string;
   };
+  transcription?: TranscriptionConfig;
+  webSearch?: WebSearchConfig;
 }
 
 const HIVE_DIR = path.join(process.env.HOME || process.env.USERPROFILE || '~', '.hive');
@@ -178,7 +302,7 @@ export function setConfigValue(key: string, value: any): void {
 /**
  * Get the model string for the Anthropic API.
  */
-export function getModelString(level: 'simple' | 'default' | 'complex'): string {
+export function getModelString(level: ExecutorTier): string {
   const config = getConfig();
   const modelName = config.ai.executor[level];
   return MODEL_MAP[modelName] || MODEL_MAP.sonnet;
@@ -191,6 +315,30 @@ export function getModelId(model: 'haiku' | 'sonnet' | 'opus'): string {
   return MODEL_MAP[model] || MODEL_MAP.sonnet;
 }
 
+/** Model tiers that map directly onto Anthropic models. */
+const ANTHROPIC_TIERS = new Set(['haiku', 'sonnet', 'opus']);
+
+/**
+ * Check whether an executor model reference resolves to the Anthropic API.
+ */
+export function isAnthropicModelRef(ref: string, config: Config): boolean {
+  if (ANTHROPIC_TIERS.has(ref)) return true;
+  const name = ref.split(':')[0];
+  const provider = config.ai.providers?.[name];
+  return provider ? provider.type === 'anthropic' : name === 'anthropic';
+}
+
+/**
+ * Whether anything configured talks to the Anthropic API and therefore
+ * needs an API key. A fully local setup (Ollama orchestrator, local tiers)
+ * can run without one.
+ */
+export function needsAnthropicKey(config: Config): boolean {
+  const tierUsesAnthropic = EXECUTOR_TIERS.some(tier => isAnthropicModelRef(config.ai.executor[tier], config));
+  const orchestratorUsesHaiku = config.orchestrator.provider === 'haiku' || config.orchestrator.fallback === 'haiku';
+  return tierUsesAnthropic || orchestratorUsesHaiku;
+}
+
 /**
  * Get the Anthropic API key.
  */
@@ -205,9 +353,21 @@ export function getApiKey(): string {
 export function validateConfig(config: Config): string[] {
   const errors: string[] = [];
   
-  if (!config.ai.apiKey) {
+  if (!config.ai.apiKey && needsAnthropicKey(config)) {
     errors.push('Missing Anthropic API key');
   }
+
+  for (const tier of EXECUTOR_TIERS) {
+    const ref = config.ai.executor[tier];
+    if (ANTHROPIC_TIERS.has(ref) || ref.startsWith('anthropic:')) continue;
+    const [name, model] = ref.split(':');
+    const provider = config.ai.providers?.[name];
+    if (!provider) {
+      errors.push(`Executor tier "${tier}" uses unknown provider "${name}"`);
+    } else if (!model && !provider.model) {
+      errors.push(`Executor tier "${tier}" has no model (use "${name}:<model>" or set providers.${name}.model)`);
+    }
+  }
   
   if (!config.dataDir) {
     errors.push('Missing data directory');
@@ -0,0 +1,535 @@
+/**
+ * Deterministic parser for the date/time phrases people use with reminders
+ * and schedules: "tomorrow at 9", "next Friday evening", "in 2 hours",
+ * "every weekday at 8am". Phrases are resolved in the user's timezone, so
+ * the model no longer has to do calendar arithmetic itself.
+ *
+ * The parser is strict: a phrase with words it doesn't understand returns
+ * null instead of a guess.
+ */
+
+import { parseDateTime, zonedParts, zonedTimeToDate } from './timezone';
+
+/** A phrase resolved to a single instant or to a repeating cron schedule. */
+export type ParsedWhen =
+  | { kind: 'once'; date: Date }
+  | { kind: 'recurring'; cron: string; description: string };
+
+interface LocalDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+interface TimeOfDay {
+  hour: number;
+  minute: number;
+}
+
+/** A resolved day, plus how to move it forward if the time has already passed. */
+interface DaySpec {
+  date: LocalDate;
+  roll?: (date: LocalDate) => LocalDate;
+}
+
+type Take = (pattern: RegExp) => RegExpMatchArray | null;
+
+const WEEKDAYS: Record<string, number> = {
+  sunday: 0, sun: 0,
+  monday: 1, mon: 1,
+  tuesday: 2, tues: 2, tue: 2,
+  wednesday: 3, wed: 3,
+  thursday: 4, thurs: 4, thur: 4, thu: 4,
+  friday: 5, fri: 5,
+  saturday: 6, sat: 6
+};
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const MONTHS: Record<string, number> = {
+  january: 1, jan: 1,
+  february: 2, feb: 2,
+  march: 3, mar: 3,
+  april: 4, apr: 4,
+  may: 5,
+  june: 6, jun: 6,
+  july: 7, jul: 7,
+  august: 8, aug: 8,
+  september: 9, sept: 9, sep: 9,
+  october: 10, oct: 10,
+  november: 11, nov: 11,
+  december: 12, dec: 12
+};
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+/** What "morning", "evening" etc. mean when no time is given. */
+const PARTS_OF_DAY: Record<string, TimeOfDay> = {
+  morning: { hour: 9, minute: 0 },
+  afternoon: { hour: 15, minute: 0 },
+  evening: { hour: 18, minute: 0 },
+  night: { hour: 20, minute: 0 }
+};
+
+/** Time used for a day given without one ("on Friday", "every Monday"). */
+const DEFAULT_TIME: TimeOfDay = { hour: 9, minute: 0 };
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+  'a couple of': 2, 'a few': 3, 'half an': 0.5, 'half a': 0.5
+};
+
+const UNIT_MINUTES: Array<[RegExp, number]> = [
+  [/^(?:m|mins?|minutes?)$/, 1],
+  [/^(?:h|hrs?|hours?)$/, 60],
+  [/^(?:d|days?)$/, 24 * 60],
+  [/^(?:w|wks?|weeks?)$/, 7 * 24 * 60]
+];
+
+const words = (table: Record<string, unknown>) =>
+  Object.keys(table).sort((a, b) => b.length - a.length).join('|');
+
+const WEEKDAY = words(WEEKDAYS);
+const MONTH = words(MONTHS);
+const ORDINAL = '(?:st|nd|rd|th)';
+
+const QUANTITY = `(?:\\d+(?:\\.\\d+)?|${words(NUMBER_WORDS)})`;
+/**
+ * Months go first and a unit must end the word (or run into the next
+ * number, as in "2h30m"), so "2 months" isn't read as 2 minutes.
+ */
+const UNIT = '(?:months?|minutes?|mins?|m|hours?|hrs?|h|days?|d|weeks?|wks?|w)(?=\\b|\\d)';
+const DURATION = `${QUANTITY} ?${UNIT}(?: and a half)?(?:(?: and)? ?${QUANTITY} ?${UNIT}(?: and a half)?)*`;
+
+/** Whole-string ISO 8601 date or date-time, which `parseDateTime` handles. */
+const ISO = /^\d{4}-\d{2}-\d{2}(?:[t ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:z|[+-]\d{2}:?\d{2})?)?$/i;
+
+/** Words that may be left over once everything meaningful is taken. */
+const FILLER = /\b(?:at|on|in|the|of|by|and|this|from|around|about)\b/g;
+
+/**
+ * Parse a date/time phrase in the user's timezone.
+ *
+ * One-off phrases ("tomorrow at 9", "next Friday evening", "in 2 hours",
+ * "March 5 at 3pm", ISO 8601) resolve to an instant. Repeating ones
+ * ("every weekday at 8am", "every 15 minutes", "monthly on the 1st")
+ * resolve to a five-field cron expression for the timezone.
+ *
+ * Days given without a time are at 9am, and a time without a day is the
+ * next time the clock shows it. Bare hours from 1 to 6 ("at 3") are read
+ * as afternoon unless the phrase says morning. "Next Friday" is the first
+ * Friday after today.
+ *
+ * @param now Reference time, for tests
+ * @returns null if the phrase isn't understood
+ */
+export function parseWhen(text: string, timezone: string, now: Date = new Date()): ParsedWhen | null {
+  const trimmed = text.trim();
+  if (ISO.test(trimmed)) {
+    const date = parseDateTime(trimmed, timezone);
+    return date ? { kind: 'once', date } : null;
+  }
+
+  const phrase = normalize(trimmed);
+  if (!phrase) return null;
+
+  if (/\b(?:every|each)\b|^(?:on )?(?:daily|nightly|weekly|monthly|yearly|annually|hourly|weekdays|weekends)\b/.test(phrase) ||
+      new RegExp(`^(?:on )?(?:${WEEKDAY})s\\b`).test(phrase)) {
+    const recurring = parseRecurring(phrase, timezone, now);
+    return recurring ? { kind: 'recurring', ...recurring } : null;
+  }
+
+  const date = parseOnce(phrase, timezone, now);
+  return date ? { kind: 'once', date } : null;
+}
+
+/** Lowercase, join "9 a.m." into "9am" and drop punctuation that carries no meaning. */
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/(\d)\s*([ap])\.?m\.?(?![a-z])/g, '$1$2m')
+    .replace(/[,;!?]+|\.(?=\s|$)/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/** Build a `take` function that removes each match from the remaining text. */
+function taker(phrase: string): { take: Take; leftover: () => string } {
+  let rest = ` ${phrase} `;
+  const take: Take = pattern => {
+    const match = rest.match(pattern);
+    if (match) {
+      rest = `${rest.slice(0, match.index)} ${rest.slice(match.index! + match[0].length)}`;
+    }
+    return match;
+  };
+  const leftover = () => rest.replace(FILLER, ' ').trim();
+  return { take, leftover };
+}
+
+// ─── One-off phrases ─────────────────────────────────────────────────────────
+
+function parseOnce(phrase: string, timezone: string, now: Date): Date | null {
+  if (/^(?:right )?now$/.test(phrase)) return now;
+
+  const { take, leftover } = taker(phrase);
+  const today = localDate(now, timezone);
+
+  const relative = takeRelative(take);
+  if (relative === null) return null;
+
+  const day = takeDay(take, today);
+  if (day === null) return null;
+
+  const part = takePartOfDay(take);
+  const time = takeTime(take, part?.name);
+  if (time === null) return null;
+  if (leftover()) return null;
+
+  const clock = time ?? part?.time;
+
+  if (relative) {
+    if (day) return null;
+    if (!relative.days && !relative.months) {
+      // "in 2 hours at 5pm" contradicts itself
+      if (clock) return null;
+      return new Date(now.getTime() + relative.minutes * 60_000);
+    }
+    const target = addMonths(addDays(today, relative.days), relative.months);
+    const wall = clock ?? localTime(now, timezone);
+    const base = atTime(target, wall, timezone);
+    return new Date(base.getTime() + relative.minutes * 60_000);
+  }
+
+  if (!day && !clock) return null;
+
+  if (day) {
+    const at = clock ?? DEFAULT_TIME;
+    const date = atTime(day.date, at, timezone);
+    if (date.getTime() <= now.getTime() && day.roll) {
+      return atTime(day.roll(day.date), at, timezone);
+    }
+    return date;
+  }
+
+  // A time on its own is the next time the clock shows it
+  const date = atTime(today, clock!, timezone);
+  if (date.getTime() <= now.getTime() && !part?.explicit) {
+    return atTime(addDays(today, 1), clock!, timezone);
+  }
+  return date;
+}
+
+interface Relative {
+  minutes: number;
+  days: number;
+  months: number;
+}
+
+/** "in 2 hours", "in an hour and a half", "3 days from now". Returns null if malformed. */
+function takeRelative(take: Take): Relative | undefined | null {
+  const match = take(new RegExp(`\\bin (${DURATION})\\b`)) ||
+    take(new RegExp(`\\b(${DURATION}) (?:from now|later)\\b`));
+  if (!match) return undefined;
+
+  const relative: Relative = { minutes: 0, days: 0, months: 0 };
+  // A number word must end the word, so the "an" of "and" isn't "an" + "d"
+  const piece = new RegExp(`(${QUANTITY})(?:(?<=\\d)|\\b) ?(${UNIT})( and a half)?`, 'g');
+  for (const [, quantity, unit, half] of match[1].matchAll(piece)) {
+    const amount = (NUMBER_WORDS[quantity] ?? Number(quantity)) + (half ? 0.5 : 0);
+    if (!isFinite(amount)) return null;
+
+    if (/^months?$/.test(unit)) {
+      if (!Number.isInteger(amount)) return null;
+      relative.months += amount;
+      continue;
+    }
+    const perUnit = UNIT_MINUTES.find(([pattern]) => pattern.test(unit))![1];
+    const minutes = amount * perUnit;
+    // Whole days move the calendar date, so "in 2 days" keeps the time of day across DST
+    if (perUnit >= 24 * 60 && Number.isInteger(minutes / (24 * 60))) {
+      relative.days += minutes / (24 * 60);
+    } else {
+      relative.minutes += minutes;
+    }
+  }
+  return relative;
+}
+
+/** A named day: today, tomorrow, a weekday, a calendar date. Returns null for impossible dates. */
+function takeDay(take: Take, today: LocalDate): DaySpec | undefined | null {
+  if (take(/\b(?:the )?day after (?:tomorrow|tmrw?)\b/)) return { date: addDays(today, 2) };
+  if (take(/\b(?:tomorrow|tmrw?)\b/)) return { date: addDays(today, 1) };
+  if (take(/\btoday\b/)) return { date: today };
+
+  const iso = take(/\b(\d{4})-(\d{2})-(\d{2})\b/);
+  if (iso) return validDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+
+  if (take(/\bnext week\b/)) {
+    // Monday of next week
+    return { date: addDays(today, 7 - ((weekday(today) + 6) % 7)) };
+  }
+  if (take(/\bnext month\b/)) {
+    return { date: addMonths({ ...today, day: 1 }, 1) };
+  }
+  const weekend = take(/\b(this |next )?weekend\b/);
+  if (weekend) {
+    const ahead = (6 - weekday(today) + 7) % 7;
+    return { date: addDays(today, weekend[1] === 'next ' && ahead === 0 ? 7 : ahead) };
+  }
+
+  const named = take(new RegExp(`\\b(this |next |coming )?(${WEEKDAY})\\b`));
+  if (named) {
+    let ahead = (WEEKDAYS[named[2]] - weekday(today) + 7) % 7;
+    if (named[1] === 'next ' && ahead === 0) ahead = 7;
+    return {
+      date: addDays(today, ahead),
+      roll: ahead === 0 ? date => addDays(date, 7) : undefined
+    };
+  }
+
+  const monthFirst = take(new RegExp(`\\b(${MONTH}) (\\d{1,2})${ORDINAL}?(?: (\\d{4}))?\\b`));
+  const dayFirst = monthFirst ? null : take(new RegExp(`\\b(\\d{1,2})${ORDINAL}? (?:of )?(${MONTH})(?: (\\d{4}))?\\b`));
+  if (monthFirst || dayFirst) {
+    const month = MONTHS[monthFirst ? monthFirst[1] : dayFirst![2]];
+    const day = Number(monthFirst ? monthFirst[2] : dayFirst![1]);
+    const year = monthFirst ? monthFirst[3] : dayFirst![3];
+    if (year) return validDate(Number(year), month, day);
+
+    // Without a year, a date that has passed means next year's
+    const spec = validDate(today.year, month, day);
+    if (!spec) return null;
+    const passed = month < today.month || (month === today.month && day < today.day);
+    if (passed) return validDate(today.year + 1, month, day);
+    return { date: spec.date, roll: date => ({ ...date, year: date.year + 1 }) };
+  }
+
+  const ordinal = take(new RegExp(`\\bthe (\\d{1,2})${ORDINAL}\\b`));
+  if (ordinal) {
+    const day = Number(ordinal[1]);
+    if (day < 1 || day > 31) return null;
+    // The next month that has that day
+    for (let ahead = day < today.day ? 1 : 0; ahead < 12; ahead++) {
+      const month = addMonths({ ...today, day: 1 }, ahead);
+      const spec = validDate(month.year, month.month, day);
+      if (spec) return spec;
+    }
+    return null;
+  }
+
+  return undefined;
+}
+
+// ─── Repeating phrases ───────────────────────────────────────────────────────
+
+function parseRecurring(phrase: string, timezone: string, now: Date): { cron: string; description: string } | null {
+  // Intervals within a day
+  const interval = phrase.match(/^(?:every|each) (?:(\d+) )?(minutes?|mins?|hours?|hrs?)$/) ||
+    (phrase === 'hourly' ? ['hourly', undefined, 'hour'] : null);
+  if (interval) {
+    const n = interval[1] ? Number(interval[1]) : 1;
+    if (/^m/.test(interval[2]!)) {
+      if (n < 1 || n > 59) return null;
+      return n === 1
+        ? { cron: '* * * * *', description: 'every minute' }
+        : { cron: `*/${n} * * * *`, description: `every ${n} minutes` };
+    }
+    if (n < 1 || n > 23) return null;
+    return n === 1
+      ? { cron: '0 * * * *', description: 'every hour' }
+      : { cron: `0 */${n} * * *`, description: `every ${n} hours` };
+  }
+
+  const { take, leftover } = taker(phrase);
+  const today = localDate(now, timezone);
+  take(/\b(?:every|each)\b/);
+
+  let days: number[] | null = null;
+  let dayOfMonth: number | null = null;
+  let month: number | null = null;
+  let repeats = false;
+
+  if (take(/\b(?:weekdays?|work ?days?)\b/)) {
+    days = [1, 2, 3, 4, 5];
+  } else if (take(/\bweekends?\b/)) {
+    days = [0, 6];
+  } else {
+    const named = new Set<number>();
+    const pattern = new RegExp(`\\b(${WEEKDAY})s?\\b`);
+    let match: RegExpMatchArray | null;
+    while ((match = take(pattern))) {
+      named.add(WEEKDAYS[match[1]]);
+    }
+    if (named.size > 0) days = [...named].sort((a, b) => a - b);
+  }
+
+  if (take(/\b(?:daily|nightly|days?)\b/)) repeats = true;
+  if (take(/\b(?:weekly|week)\b/)) {
+    repeats = true;
+    days = days ?? [weekday(today)];
+  }
+  const monthly = !!take(/\b(?:monthly|month)\b/);
+  const yearly = !!take(/\b(?:yearly|annually|year)\b/);
+
+  const date = take(new RegExp(`\\b(${MONTH}) (\\d{1,2})${ORDINAL}?\\b`)) ||
+    take(new RegExp(`\\b(\\d{1,2})${ORDINAL}? (?:of )?(${MONTH})\\b`));
+  if (date) {
+    const first = MONTHS[date[1]] !== undefined;
+    month = MONTHS[first ? date[1] : date[2]];
+    dayOfMonth = Number(first ? date[2] : date[1]);
+    if (!validDate(2024, month, dayOfMonth)) return null;
+  } else {
+    const ordinal = take(new RegExp(`\\b(?:the )?(\\d{1,2})${ORDINAL}\\b`));
+    if (ordinal) {
+      dayOfMonth = Number(ordinal[1]);
+      if (dayOfMonth < 1 || dayOfMonth > 31) return null;
+    }
+  }
+
+  if (yearly && !date) {
+    month = today.month;
+    dayOfMonth = dayOfMonth ?? today.day;
+  }
+  if (monthly && dayOfMonth === null) dayOfMonth = today.day;
+  if ((monthly || yearly || dayOfMonth !== null) && days) return null;
+
+  const part = takePartOfDay(take);
+  const time = takeTime(take, part?.name);
+  if (time === null || leftover()) return null;
+  if (!repeats && !days && dayOfMonth === null && !part && !time) return null;
+
+  const clock = time ?? part?.time ?? DEFAULT_TIME;
+  const hour = clock.hour % 24;
+  const cron = `${clock.minute} ${hour} ${dayOfMonth ?? '*'} ${month ?? '*'} ${days ? weekdayField(days) : '*'}`;
+
+  let description: string;
+  if (month !== null) {
+    description = `every year on ${MONTH_NAMES[month - 1]} ${dayOfMonth}`;
+  } else if (dayOfMonth !== null) {
+    description = `every month on the ${dayOfMonth}${ordinalSuffix(dayOfMonth)}`;
+  } else if (days?.join(',') === '1,2,3,4,5') {
+    description = 'every weekday';
+  } else if (days?.join(',') === '0,6') {
+    description = 'every weekend day';
+  } else if (days) {
+    description = `every ${joinWords(days.map(d => WEEKDAY_NAMES[d]))}`;
+  } else {
+    description = 'every day';
+  }
+
+  // Cron skips months (or years) without the day rather than moving it, so say so
+  let skipped = '';
+  if (month === 2 && dayOfMonth === 29) {
+    skipped = ' (only in leap years)';
+  } else if (month === null && dayOfMonth !== null && dayOfMonth > 28) {
+    skipped = ` (skipped in months without a ${dayOfMonth}${ordinalSuffix(dayOfMonth)})`;
+  }
+
+  return { cron, description: `${description} at ${formatClock({ hour, minute: clock.minute })}${skipped}` };
+}
+
+// ─── Times of day ────────────────────────────────────────────────────────────
+
+/** "morning", "tomorrow evening", "tonight". `explicit` means it names today. */
+function takePartOfDay(take: Take): { name: string; time: TimeOfDay; explicit: boolean } | undefined {
+  if (take(/\btonight\b/)) return { name: 'night', time: PARTS_OF_DAY.night, explicit: true };
+  const match = take(/\b(this |in the |every )?(morning|afternoon|evening|night)s?\b/);
+  if (!match) return undefined;
+  return { name: match[2], time: PARTS_OF_DAY[match[2]], explicit: match[1] === 'this ' };
+}
+
+/** A clock time: "9am", "5:30 pm", "17:00", "at 9", "noon". Returns null if it isn't a real time. */
+function takeTime(take: Take, partOfDay?: string): TimeOfDay | undefined | null {
+  if (take(/\b(?:at )?(?:noon|midday)\b/)) return { hour: 12, minute: 0 };
+  // Midnight ends the day it's attached to
+  if (take(/\b(?:at )?midnight\b/)) return { hour: 24, minute: 0 };
+
+  const twelveHour = take(/\b(?:at )?(\d{1,2})(?:[:.](\d{2}))? ?([ap]m)\b/);
+  if (twelveHour) {
+    const hour = Number(twelveHour[1]);
+    const minute = Number(twelveHour[2] || 0);
+    if (hour < 1 || hour > 12 || minute > 59) return null;
+    return { hour: (hour % 12) + (twelveHour[3] === 'pm' ? 12 : 0), minute };
+  }
+
+  const clock = take(/\b(?:at )?(\d{1,2})[:h](\d{2})\b/) || take(/\b(?:at (\d{1,2})(?: o'?clock)?|(\d{1,2}) o'?clock)\b/);
+  if (!clock) return undefined;
+
+  const raw = clock[1] ?? clock[2];
+  const hour = Number(raw);
+  const minute = clock[0].includes(':') || /\dh\d/.test(clock[0]) ? Number(clock[2]) : 0;
+  if (hour > 23 || minute > 59) return null;
+  // "17:00" and "08:00" are unambiguous; "at 5" depends on the part of day
+  if (hour === 0 || hour > 12 || raw.startsWith('0')) return { hour, minute };
+  return { hour: guessMeridiem(hour, partOfDay), minute };
+}
+
+function guessMeridiem(hour: number, partOfDay?: string): number {
+  if (hour === 12) return 12;
+  if (partOfDay === 'afternoon' || partOfDay === 'evening' || partOfDay === 'night') return hour + 12;
+  if (partOfDay === 'morning') return hour;
+  return hour <= 6 ? hour + 12 : hour;
+}
+
+// ─── Calendar helpers ────────────────────────────────────────────────────────
+
+function localDate(now: Date, timezone: string): LocalDate {
+  const { year, month, day } = zonedParts(now, timezone);
+  return { year, month, day };
+}
+
+function localTime(now: Date, timezone: string): TimeOfDay {
+  const { hour, minute } = zonedParts(now, timezone);
+  return { hour, minute };
+}
+
+function atTime(date: LocalDate, time: TimeOfDay, timezone: string): Date {
+  return zonedTimeToDate(date.year, date.month, date.day, time.hour, time.minute, 0, timezone);
+}
+
+function weekday(date: LocalDate): number {
+  return new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+}
+
+function addDays(date: LocalDate, days: number): LocalDate {
+  const d = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate() };
+}
+
+/** Add calendar months, keeping to the last day of shorter months (Jan 31 + 1 = Feb 28). */
+function addMonths(date: LocalDate, months: number): LocalDate {
+  const first = new Date(Date.UTC(date.year, date.month - 1 + months, 1));
+  const year = first.getUTCFullYear();
+  const month = first.getUTCMonth() + 1;
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return { year, month, day: Math.min(date.day, lastDay) };
+}
+
+function validDate(year: number, month: number, day: number): DaySpec | null {
+  const d = new Date(Date.UTC(year, month - 1, day));
+  if (d.getUTCFullYear() !== year || d.getUTCMonth() !== month - 1 || d.getUTCDate() !== day) return null;
+  return { date: { year, month, day } };
+}
+
+/** Cron day-of-week field, with runs like Monday to Friday written as `1-5`. */
+function weekdayField(days: number[]): string {
+  const run = days.length > 2 && days.every((d, i) => i === 0 || d === days[i - 1] + 1);
+  return run ? `${days[0]}-${days[days.length - 1]}` : days.join(',');
+}
+
+function ordinalSuffix(n: number): string {
+  if (n % 100 >= 11 && n % 100 <= 13) return 'th';
+  return ['th', 'st', 'nd', 'rd'][n % 10] || 'th';
+}
+
+function formatClock(time: TimeOfDay): string {
+  const suffix = time.hour < 12 ? 'AM' : 'PM';
+  const hour = time.hour % 12 || 12;
+  return `${hour}:${String(time.minute).padStart(2, '0')} ${suffix}`;
+}
+
+function joinWords(items: string[]): string {
+  if (items.length <= 1) return items.join('');
+  return `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+}
@@ -0,0 +1,149 @@
+/**
+ * Text extraction for uploaded documents, so PDFs, spreadsheets and Word
+ * files can be read like text files by the assistant, workflows and the
+ * web preview.
+ *
+ * - PDF: text of each page, tagged `[Page N]`
+ * - Excel (.xlsx, .xls): each sheet as a markdown table, plus CSV for scripts
+ * - Word (.docx): paragraphs, with tables as markdown tables
+ */
+
+import * as path from 'path';
+
+/** Extensions with a text extractor. */
+export const EXTRACTABLE_EXTENSIONS = new Set(['.pdf', '.xlsx', '.xls', '.docx']);
+
+/** The text of a document, ready for reading. */
+export interface DocumentText {
+  /** Readable text: page-tagged for PDFs, markdown tables for spreadsheets. */
+  text: string;
+  /** Spreadsheets only: every sheet as CSV, for scripts. */
+  csv?: string;
+}
+
+/** Cells past this many rows of a sheet are left out of the markdown table. */
+const MAX_TABLE_ROWS = 2000;
+
+/** Whether a file name has a text extractor. */
+export function isExtractable(filename: string): boolean {
+  return EXTRACTABLE_EXTENSIONS.has(path.extname(filename).toLowerCase());
+}
+
+/**
+ * Extract the text of a PDF, Excel or Word document.
+ *
+ * @throws if the type isn't supported or the document can't be parsed
+ */
+export async function extractDocumentText(buffer: Buffer, filename: string): Promise<DocumentText> {
+  switch (path.extname(filename).toLowerCase()) {
+    case '.pdf':
+      return { text: await extractPdf(buffer) };
+    case '.xlsx':
+    case '.xls':
+      return extractSpreadsheet(buffer);
+    case '.docx':
+      return { text: await extractDocx(buffer) };
+    default:
+      throw new Error(`No text extractor for ${filename}`);
+  }
+}
+
+/** PDF text, one `[Page N]` section per page. */
+async function extractPdf(buffer: Buffer): Promise<string> {
+  const { PDFParse } = await import('pdf-parse');
+  const parser = new PDFParse({ data: new Uint8Array(buffer) });
+  try {
+    const result = await parser.getText();
+    return result.pages
+      .map(page => `[Page ${page.num}]\n${page.text.trim()}`)
+      .join('\n\n');
+  } finally {
+    await parser.destroy();
+  }
+}
+
+/** Each sheet as a markdown table for reading and as CSV for scripts. */
+async function extractSpreadsheet(buffer: Buffer): Promise<DocumentText> {
+  const XLSX = await import('xlsx');
+  const workbook = XLSX.read(buffer, { type: 'buffer' });
+  const multiple = workbook.SheetNames.length > 1;
+
+  const tables: string[] = [];
+  const csvParts: string[] = [];
+  for (const sheetName of workbook.SheetNames) {
+    const sheet = workbook.Sheets[sheetName];
+    const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, blankrows: false, defval: '' })
+      .map(row => row.map(cell => String(cell ?? '')));
+    tables.push(`## Sheet: ${sheetName}\n\n${markdownTable(rows)}`);
+
+    const csv = XLSX.utils.sheet_to_csv(sheet);
+    csvParts.push(multiple ? `--- Sheet: ${sheetName} ---\n${csv}` : csv);
+  }
+
+  return { text: tables.join('\n\n'), csv: csvParts.join('\n\n') };
+}
+
+/** Paragraphs of a Word document; tables become markdown tables. */
+async function extractDocx(buffer: Buffer): Promise<string> {
+  // A .docx is a zip archive; SheetJS's bundled CFB reader opens zips too
+  const XLSX = await import('xlsx');
+  const archive = XLSX.CFB.read(buffer, { type: 'buffer' });
+  const entry = XLSX.CFB.find(archive, '/word/document.xml');
+  if (!entry?.content) throw new Error('Not a Word document: word/document.xml is missing');
+
+  const xml = Buffer.from(entry.content).toString('utf-8');
+  const body = xml.match(/<w:body>([\s\S]*)<\/w:body>/)?.[1] ?? xml;
+
+  const blocks: string[] = [];
+  // Top-level tables and paragraphs, in document order
+  for (const [block] of body.matchAll(/<w:tbl>[\s\S]*?<\/w:tbl>|<w:p[ >][\s\S]*?<\/w:p>/g)) {
+    if (block.startsWith('<w:tbl>')) {
+      const rows = [...block.matchAll(/<w:tr[ >][\s\S]*?<\/w:tr>/g)].map(([row]) =>
+        [...row.matchAll(/<w:tc>[\s\S]*?<\/w:tc>/g)].map(([cell]) =>
+          [...cell.matchAll(/<w:p[ >][\s\S]*?<\/w:p>/g)].map(([p]) => paragraphText(p)).join(' ').trim()));
+      blocks.push(markdownTable(rows));
+    } else {
+      const text = paragraphText(block);
+      if (text.trim()) blocks.push(text);
+    }
+  }
+  return blocks.join('\n\n');
+}
+
+/** Text of one `<w:p>` element, with tabs and line breaks kept. */
+function paragraphText(paragraph: string): string {
+  let text = '';
+  for (const [, tag, content] of paragraph.matchAll(/<w:(t|tab|br|cr)(?:\s[^>]*)?(?:\/>|>([\s\S]*?)<\/w:t>)/g)) {
+    if (tag === 't') text += decodeXml(content ?? '');
+    else if (tag === 'tab') text += '\t';
+    else text += '\n';
+  }
+  return text;
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_m, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_m, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, '&');
+}
+
+/** A markdown table with the first row as the header. */
+function markdownTable(rows: string[][]): string {
+  if (rows.length === 0) return '(empty)';
+
+  const width = Math.max(...rows.map(row => row.length));
+  const cell = (value: string | undefined) => (value ?? '').replace(/\r?\n/g, ' ').replace(/\|/g, '\\|').trim();
+  const line = (row: string[]) => `| ${Array.from({ length: width }, (_, i) => cell(row[i])).join(' | ')} |`;
+
+  const [header, ...body] = rows;
+  const lines = [line(header), `|${' --- |'.repeat(width)}`, ...body.slice(0, MAX_TABLE_ROWS).map(line)];
+  if (body.length > MAX_TABLE_ROWS) {
+    lines.push(`\n[${body.length - MAX_TABLE_ROWS} more rows not shown]`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,127 @@
+/**
+ * Repeat rules for reminders. Every rule is stored as a five-field cron
+ * expression in the user's timezone, whether it was given as a phrase
+ * ("every weekday"), a preset ("daily") or an iCalendar RRULE.
+ */
+
+import { CronExpressionParser } from 'cron-parser';
+import { parseWhen } from './date-parser';
+import { zonedParts } from './timezone';
+
+/** A repeat rule: the cron expression and the same thing in words. */
+export interface Recurrence {
+  cron: string;
+  description: string;
+}
+
+const RRULE_DAYS: Record<string, string> = {
+  SU: 'sunday', MO: 'monday', TU: 'tuesday', WE: 'wednesday', TH: 'thursday', FR: 'friday', SA: 'saturday'
+};
+
+const MONTH_WORDS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+/**
+ * Parse a repeat rule: a phrase like "every weekday at 8am", a preset
+ * (`daily`, `weekdays`, `weekly`, `monthly`, `yearly`) or an RRULE such as
+ * `FREQ=WEEKLY;BYDAY=MO,WE`.
+ *
+ * A rule without a time of day, or without a day for weekly and monthly
+ * repeats, takes them from `anchor` (usually the first due date).
+ *
+ * @returns null if the rule isn't understood or can't be written as cron
+ */
+export function parseRecurrence(text: string, timezone: string, anchor?: Date): Recurrence | null {
+  const trimmed = text.trim();
+  const phrase = /^(?:RRULE:)?FREQ=/i.test(trimmed) ? rruleToPhrase(trimmed) : trimmed;
+  if (!phrase) return null;
+
+  const candidates = [phrase];
+  if (anchor) {
+    // Prefer the anchor's time; a phrase with its own time won't parse with a second one
+    const { hour, minute } = zonedParts(anchor, timezone);
+    candidates.unshift(`${phrase} at ${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`);
+  }
+
+  for (const candidate of candidates) {
+    const parsed = parseWhen(candidate, timezone, anchor);
+    if (parsed?.kind === 'recurring') return { cron: parsed.cron, description: parsed.description };
+  }
+  return null;
+}
+
+/** The first time a cron rule fires after `after`, or null if the rule is invalid. */
+export function nextOccurrence(cron: string, timezone: string, after: Date = new Date()): Date | null {
+  try {
+    return CronExpressionParser.parse(cron, { tz: timezone, currentDate: after }).next().toDate();
+  } catch {
+    return null;
+  }
+}
+
+/** The last time a cron rule fired before `before`, or null if the rule is invalid. */
+export function previousOccurrence(cron: string, timezone: string, before: Date = new Date()): Date | null {
+  try {
+    return CronExpressionParser.parse(cron, { tz: timezone, currentDate: before }).prev().toDate();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Rewrite the RRULE subset that cron can express as a phrase for
+ * `parseWhen`. INTERVAL above 1 is only supported for minutes and hours;
+ * COUNT, UNTIL and numbered weekdays (`1MO`) aren't supported.
+ *
+ * @returns '' if the rule can't be expressed
+ */
+function rruleToPhrase(rule: string): string {
+  const parts: Record<string, string> = {};
+  for (const part of rule.replace(/^RRULE:/i, '').split(';')) {
+    const [key, value] = part.split('=');
+    if (key && value) parts[key.trim().toUpperCase()] = value.trim().toUpperCase();
+  }
+
+  const { FREQ: freq, INTERVAL: interval = '1', BYDAY: byDay, BYMONTHDAY: byMonthDay, BYMONTH: byMonth } = parts;
+  const supported = ['FREQ', 'INTERVAL', 'BYDAY', 'BYMONTHDAY', 'BYMONTH', 'BYHOUR', 'BYMINUTE', 'WKST'];
+  if (Object.keys(parts).some(key => !supported.includes(key)) || !/^\d+$/.test(interval)) return '';
+
+  if (freq === 'MINUTELY') return `every ${interval} minutes`;
+  if (freq === 'HOURLY') return `every ${interval} hours`;
+  if (interval !== '1') return '';
+
+  let days = '';
+  if (byDay) {
+    const names = byDay.split(',').map(day => RRULE_DAYS[day]);
+    if (names.some(name => !name)) return '';
+    days = names.join(' and ');
+  }
+
+  let phrase: string;
+  switch (freq) {
+    case 'DAILY':
+      phrase = days ? `every ${days}` : 'every day';
+      break;
+    case 'WEEKLY':
+      phrase = days ? `every ${days}` : 'every week';
+      break;
+    case 'MONTHLY':
+      if (days) return '';
+      phrase = byMonthDay ? `every month on the ${byMonthDay}th` : 'every month';
+      break;
+    case 'YEARLY': {
+      if (days) return '';
+      const month = byMonth ? MONTH_WORDS[Number(byMonth) - 1] : undefined;
+      if (byMonth && !month) return '';
+      phrase = month ? `every year on ${month} ${byMonthDay || 1}` : 'every year';
+      break;
+    }
+    default:
+      return '';
+  }
+
+  if (parts.BYHOUR !== undefined) {
+    if (!/^\d{1,2}$/.test(parts.BYHOUR) || (parts.BYMINUTE && !/^\d{1,2}$/.test(parts.BYMINUTE))) return '';
+    phrase += ` at ${parts.BYHOUR.padStart(2, '0')}:${(parts.BYMINUTE || '0').padStart(2, '0')}`;
+  }
+  return phrase;
+}
@@ -0,0 +1,143 @@
+/**
+ * Timezone helpers built on Intl, for reading and showing times in a
+ * user's IANA timezone (e.g. "Europe/Lisbon") rather than the server's.
+ */
+
+/** `2026-02-02`, `2026-02-02T15:00` or `2026-02-02T15:00:30.5`, without an offset. */
+const LOCAL_DATE_TIME = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?)?$/;
+
+/** Ends in `Z` or an offset like `+01:00` / `-0500`. */
+const HAS_OFFSET = /(?:Z|[+-]\d{2}:?\d{2})$/i;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/** Whether Intl knows the timezone name. */
+export function isValidTimezone(timezone: string | null | undefined): timezone is string {
+  if (!timezone) return false;
+  try {
+    Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse a date/time given by a user or the model. Strings with an offset
+ * (or `Z`) are absolute; local ones like `2026-02-02T15:00:00` are read as
+ * wall-clock time in `timezone`, and date-only ones as its midnight.
+ *
+ * @returns null if the string isn't a date
+ */
+export function parseDateTime(value: string, timezone: string): Date | null {
+  const text = value.trim();
+  const local = text.match(LOCAL_DATE_TIME);
+  if (local && !HAS_OFFSET.test(text)) {
+    const [, y, mo, d, h = '0', mi = '0', s = '0'] = local;
+    return zonedTimeToDate(Number(y), Number(mo), Number(d), Number(h), Number(mi), Number(s), timezone);
+  }
+
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * The instant a wall-clock time occurs in a timezone. Times skipped by a
+ * daylight-saving jump move forward with it (2:30 becomes 3:30); repeated
+ * times take their first occurrence.
+ */
+export function zonedTimeToDate(
+  year: number, month: number, day: number,
+  hour: number, minute: number, second: number,
+  timezone: string
+): Date {
+  const wall = Date.UTC(year, month - 1, day, hour, minute, second);
+  // A DST change within a day either side is the only way the offset can vary
+  const offsets = [...new Set([
+    offsetMs(new Date(wall - DAY_MS), timezone),
+    offsetMs(new Date(wall + DAY_MS), timezone)
+  ])];
+  const valid = offsets
+    .map(offset => wall - offset)
+    .filter(utc => offsetMs(new Date(utc), timezone) === wall - utc);
+  if (valid.length > 0) return new Date(Math.min(...valid));
+  // Skipped by the jump: read it with the offset from before
+  return new Date(wall - Math.min(...offsets));
+}
+
+/**
+ * ISO 8601 in the timezone's local time with its offset, e.g.
+ * `2026-02-02T15:00:00-05:00`. Easier for the model (and people) to read
+ * than UTC.
+ */
+export function toZonedIso(date: Date, timezone: string): string {
+  const p = zonedParts(date, timezone);
+  const offset = Math.round(offsetMs(date, timezone) / 60_000);
+  const sign = offset < 0 ? '-' : '+';
+  const abs = Math.abs(offset);
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}T${pad(p.hour)}:${pad(p.minute)}:${pad(p.second)}` +
+    `${sign}${pad(Math.floor(abs / 60))}:${pad(abs % 60)}`;
+}
+
+/** The calendar date (`YYYY-MM-DD`) in the timezone at the given instant. */
+export function toZonedDate(date: Date, timezone: string): string {
+  const p = zonedParts(date, timezone);
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}`;
+}
+
+/**
+ * Format an instant for people in the timezone, e.g.
+ * "Mon, Feb 2, 3:00 PM EST". Pass options to change the fields shown.
+ */
+export function formatInTimezone(date: Date, timezone: string, options?: Intl.DateTimeFormatOptions): string {
+  return date.toLocaleString('en-US', {
+    timeZone: timezone,
+    ...(options || {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+      timeZoneName: 'short'
+    })
+  });
+}
+
+/** Offset of the timezone from UTC at an instant, in milliseconds (east positive). */
+function offsetMs(date: Date, timezone: string): number {
+  const p = zonedParts(date, timezone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/** The wall-clock fields (month 1-12) of an instant in the timezone. */
+export function zonedParts(date: Date, timezone: string): Record<'year' | 'month' | 'day' | 'hour' | 'minute' | 'second', number> {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric', month: '2-digit', day: '2-digit',
+      hour: '2-digit', minute: '2-digit', second: '2-digit'
+    });
+    formatters.set(timezone, formatter);
+  }
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second
+  };
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
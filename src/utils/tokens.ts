@@ -0,0 +1,46 @@
+/**
+ * Pre-tokenizer pieces, roughly as BPE tokenizers split text: a word with
+ * its leading space, up to three digits, a run of punctuation, or a run of
+ * whitespace.
+ */
+const PIECE = /\s?\p{L}+|\s?\p{N}{1,3}|\s?[^\s\p{L}\p{N}]+|\s+/gu;
+
+/** Scripts written without spaces, where each character is about one token. */
+const LOGOGRAPHIC = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\p{Script=Thai}]/u;
+
+/** Longest Latin word usually encoded as a single token. */
+const SINGLE_TOKEN_WORD_CHARS = 7;
+
+/**
+ * Estimate how many tokens a text costs.
+ *
+ * Counts pre-tokenizer pieces instead of dividing characters by four, so
+ * prose, code (lots of punctuation), numbers and non-Latin scripts are all
+ * closer to what the API reports. It is still an estimate: the real
+ * vocabulary isn't available locally.
+ */
+export function estimateTokens(text: string): number {
+  if (!text) return 0;
+
+  let tokens = 0;
+  for (const piece of text.match(PIECE) || []) {
+    const body = piece.trimStart();
+    if (!body) {
+      // Whitespace run: newlines and indentation merge into few tokens
+      tokens += Math.ceil(piece.length / 8);
+    } else if (LOGOGRAPHIC.test(body)) {
+      tokens += body.length;
+    } else if (/^\p{L}/u.test(body)) {
+      // Common short words are one token; longer ones split into ~4-char parts.
+      // Non-ASCII letters (accents, Cyrillic, Greek) split about twice as often.
+      const perToken = /^[a-zA-Z]+$/.test(body) ? 4 : 2;
+      tokens += body.length <= SINGLE_TOKEN_WORD_CHARS && perToken === 4 ? 1 : Math.ceil(body.length / perToken);
+    } else if (/^\p{N}/u.test(body)) {
+      tokens += 1;
+    } else {
+      // Punctuation pairs like `{"`, `),` or `**` are usually one token
+      tokens += Math.ceil(body.length / 2);
+    }
+  }
+  return tokens;
+}
@@ -16,6 +16,7 @@ import Channels from './pages/Channels';
 import ChannelIdentitiesPage from './pages/ChannelIdentities';
 import RemindersPage from './pages/Reminders';
 import ContactsPage from './pages/Contacts';
+import MemoriesPage from './pages/Memories';
 import FilesPage from './pages/Files';
 import TemplatesPage from './pages/Templates';
 import ToolsPage from './pages/Tools';
@@ -55,6 +56,7 @@ export default function App() {
         <Route path="settings/identities" element={<ChannelIdentitiesPage />} />
         <Route path="settings/reminders" element={<RemindersPage />} />
         <Route path="settings/contacts" element={<ContactsPage />} />
+        <Route path="settings/memories" element={<MemoriesPage />} />
         <Route path="settings/files" element={<FilesPage />} />
         <Route path="settings/integrations" element={<IntegrationsPage />} />
         <Route path="automation/templates" element={<TemplatesPage />} />
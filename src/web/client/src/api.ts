@@ -30,6 +30,11 @@ export class ApiError extends Error {
   }
 }
 
+/** The browser's IANA timezone, e.g. "Europe/Lisbon". */
+export function browserTimezone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
 // Auth
 export const auth = {
   register: (email: string, password: string) =>
@@ -95,6 +100,18 @@ export interface ProfileConfig {
   sections: Record<string, string>;
 }
 
+export interface ProfileUpdateInfo {
+  id: string;
+  userId: string;
+  section: string;
+  update: string;
+  sourceConversationId: string | null;
+  autoDetected: boolean;
+  status: 'pending' | 'accepted' | 'rejected';
+  createdAt: string;
+  resolvedAt: string | null;
+}
+
 export const profile = {
   get: () => request<ProfileConfig>('/profile'),
   update: (config: ProfileConfig) =>
@@ -102,6 +119,20 @@ export const profile = {
       method: 'PUT',
       body: JSON.stringify(config),
     }),
+  timezone: () => request<{ timezone: string }>('/profile/timezone'),
+  updates: () => request<ProfileUpdateInfo[]>('/profile/updates'),
+  editUpdate: (id: string, data: { section?: string; update?: string }) =>
+    request<ProfileUpdateInfo>(`/profile/updates/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    }),
+  acceptUpdate: (id: string, data?: { section?: string; update?: string }) =>
+    request<ProfileConfig>(`/profile/updates/${id}/accept`, {
+      method: 'POST',
+      body: JSON.stringify(data || {}),
+    }),
+  rejectUpdate: (id: string) =>
+    request<{ success: boolean }>(`/profile/updates/${id}/reject`, { method: 'POST' }),
 };
 
 // Skills
@@ -222,7 +253,32 @@ export interface UsageSummary {
   totalTokensIn: number;
   totalTokensOut: number;
   totalCostCents: number;
+  totalCacheCreationTokens: number;
+  totalCacheReadTokens: number;
+  totalCacheSavingsCents: number;
+  totalTokensSaved: number;
+  totalThinkingTokens: number;
+  totalThinkingCostCents: number;
+  cacheHitRate: number;
   byModel: Record<string, { tokensIn: number; tokensOut: number; costCents: number }>;
+  budget: BudgetStatus;
+}
+
+export interface BudgetLimitStatus {
+  scope: 'user' | 'team';
+  targetId: string;
+  period: 'daily' | 'monthly';
+  limitCents: number;
+  spentCents: number;
+  remainingCents: number;
+  usedFraction: number;
+  resetsAt: string;
+}
+
+export interface BudgetStatus {
+  state: 'ok' | 'warning' | 'downgrade' | 'exceeded';
+  binding: BudgetLimitStatus | null;
+  limits: BudgetLimitStatus[];
 }
 
 export const usage = {
@@ -246,10 +302,21 @@ export interface AdminUser {
   userId: string;
   email: string;
   isAdmin: boolean;
+  team: string | null;
   lastLogin?: string;
   createdAt: string;
 }
 
+export interface AdminBudget {
+  scope: 'user' | 'team';
+  targetId: string;
+  dailyCents: number | null;
+  monthlyCents: number | null;
+  dailySpentCents: number | null;
+  monthlySpentCents: number | null;
+  updatedAt: string;
+}
+
 export interface AdminUsage {
   userId: string;
   email: string;
@@ -258,6 +325,14 @@ export interface AdminUsage {
   totalCostCents: number;
 }
 
+export interface ExecutorProviderInfo {
+  type: 'anthropic' | 'ollama' | 'openai';
+  endpoint: string;
+  model: string;
+  hasApiKey: boolean;
+  pricing: { input: number; output: number } | null;
+}
+
 export interface SystemConfig {
   version: string;
   database: { type: string };
@@ -265,6 +340,7 @@ export interface SystemConfig {
     provider: string;
     hasApiKey: boolean;
     executor: { default: string; simple: string; complex: string };
+    providers: Record<string, ExecutorProviderInfo>;
   };
   orchestrator: {
     provider: string;
@@ -273,6 +349,7 @@ export interface SystemConfig {
       ollama?: { endpoint: string; model: string };
       haiku?: { model: string };
     };
+    fastPath?: { enabled?: boolean; threshold?: number };
   };
   channels: {
     whatsapp: { enabled: boolean; number: string };
@@ -294,6 +371,19 @@ export const admin = {
     }),
   deleteUser: (userId: string) =>
     request<{ success: boolean }>(`/admin/users/${userId}`, { method: 'DELETE' }),
+  setTeam: (userId: string, team: string | null) =>
+    request<{ success: boolean }>(`/admin/users/${userId}/team`, {
+      method: 'PUT',
+      body: JSON.stringify({ team }),
+    }),
+  budgets: () => request<AdminBudget[]>('/admin/budgets'),
+  saveBudget: (scope: 'user' | 'team', targetId: string, caps: { dailyCents: number | null; monthlyCents: number | null }) =>
+    request<AdminBudget>(`/admin/budgets/${scope}/${encodeURIComponent(targetId)}`, {
+      method: 'PUT',
+      body: JSON.stringify(caps),
+    }),
+  deleteBudget: (scope: 'user' | 'team', targetId: string) =>
+    request<{ success: boolean }>(`/admin/budgets/${scope}/${encodeURIComponent(targetId)}`, { method: 'DELETE' }),
   usage: () => request<AdminUsage[]>('/admin/usage'),
   system: () => request<SystemConfig>('/admin/system'),
   updateSystem: (updates: Record<string, any>) =>
@@ -311,8 +401,79 @@ export const admin = {
       method: 'POST',
       body: JSON.stringify({ endpoint, model }),
     }),
+  fastPath: () => request<FastPathStatus>('/admin/fast-path'),
+  trainFastPath: (options: { limit?: number; correctedOnly?: boolean } = {}) =>
+    request<FastPathTrainingReport>('/admin/fast-path/train', {
+      method: 'POST',
+      body: JSON.stringify(options),
+    }),
+  routingEvalDataset: () => request<RoutingEvalDataset>('/admin/routing-eval'),
+  runRoutingEval: (options: { candidates?: string[]; limit?: number; correctedOnly?: boolean }) =>
+    request<RoutingEvalReport>('/admin/routing-eval', {
+      method: 'POST',
+      body: JSON.stringify(options),
+    }),
 };
 
+// Routing evaluation
+export interface FastPathStatus {
+  enabled: boolean;
+  threshold: number;
+  trained: boolean;
+  trainedAt: string | null;
+  examples: number;
+}
+
+export interface FastPathTrainingReport {
+  examples: number;
+  holdout: number;
+  threshold: number;
+  covered: number;
+  correct: number;
+}
+
+export interface RoutingLabels {
+  intent: string;
+  complexity: string;
+  suggestedModel: string;
+}
+
+export interface RoutingEvalDataset {
+  total: number;
+  corrected: number;
+  defaultCandidates: string[];
+}
+
+export interface RoutingCandidateReport {
+  candidate: string;
+  total: number;
+  errors: number;
+  intentAccuracy: number;
+  complexityAccuracy: number;
+  modelAccuracy: number;
+  exactAccuracy: number;
+  confusion: Record<string, Record<string, number>>;
+  perIntent: Record<string, { support: number; precision: number; recall: number }>;
+  latencyMs: { mean: number; p50: number; p95: number };
+  tokensIn: number;
+  tokensOut: number;
+  costCents: number;
+  costPer1kMessagesCents: number;
+  mistakes: Array<{
+    debugLogId: string;
+    message: string;
+    expected: RoutingLabels;
+    predicted: RoutingLabels | null;
+    error?: string;
+  }>;
+}
+
+export interface RoutingEvalReport {
+  dataset: { total: number; corrected: number };
+  candidates: RoutingCandidateReport[];
+  durationMs: number;
+}
+
 // Chat
 export interface ChatConversation {
   id: string;
@@ -321,10 +482,35 @@ export interface ChatConversation {
   updatedAt: string;
 }
 
+export interface ToolCallInfo {
+  name: string;
+  input: unknown;
+  output: string;
+  durationMs: number;
+  error?: string;
+}
+
 export interface ChatMessage {
   id: string;
-  role: 'user' | 'assistant' | 'system';
+  role: 'user' | 'assistant' | 'system' | 'tool';
   content: string;
+  toolCall?: ToolCallInfo;
+  createdAt: string;
+}
+
+export type MessageChannel = 'whatsapp' | 'telegram' | 'cli' | 'web' | 'workflow';
+
+/** Opening and closing markers around matched terms in search snippets. */
+export const SEARCH_HIGHLIGHT = ['\u0002', '\u0003'] as const;
+
+export interface MessageSearchResult {
+  messageId: string;
+  conversationId: string;
+  conversationTitle: string | null;
+  role: 'user' | 'assistant';
+  channel: MessageChannel | null;
+  /** Excerpt with matched terms between the SEARCH_HIGHLIGHT markers. */
+  snippet: string;
   createdAt: string;
 }
 
@@ -337,6 +523,16 @@ export interface SendMessageResult {
     tokensOut: number;
     costCents: number;
   };
+  toolCalls?: ToolCallInfo[];
+}
+
+/** Callbacks for a streamed chat response. */
+export interface ChatStreamHandlers {
+  onText?: (delta: string) => void;
+  onToolCall?: (name: string) => void;
+  onToolResult?: (name: string, error?: string) => void;
+  /** The server is retrying (or falling back to another model); partial text is stale. */
+  onRetry?: (attempt: number, model: string) => void;
 }
 
 export const chat = {
@@ -354,12 +550,109 @@ export const chat = {
       `/chat/conversations/${conversationId}/messages${limit ? `?limit=${limit}` : ''}`
     ),
 
+  search: (q: string, filters: { channel?: MessageChannel; from?: string; to?: string } = {}) => {
+    const params = new URLSearchParams({ q });
+    for (const [key, value] of Object.entries(filters)) {
+      if (value) params.set(key, value);
+    }
+    return request<MessageSearchResult[]>(`/chat/search?${params}`);
+  },
+
   sendMessage: (conversationId: string, message: string) =>
     request<SendMessageResult>(`/chat/conversations/${conversationId}/messages`, {
       method: 'POST',
-      body: JSON.stringify({ message }),
+      body: JSON.stringify({ message, timezone: browserTimezone() }),
     }),
 
+  /**
+   * Send a message and receive the response as a server-sent event stream.
+   * Resolves with the same result as sendMessage once the `done` event arrives.
+   * Images and PDFs in `attachments` are sent as multipart form data.
+   */
+  sendMessageStream: async (
+    conversationId: string,
+    message: string,
+    handlers: ChatStreamHandlers,
+    attachments: File[] = []
+  ): Promise<SendMessageResult> => {
+    let body: BodyInit;
+    const headers: Record<string, string> = { Accept: 'text/event-stream' };
+    if (attachments.length > 0) {
+      const formData = new FormData();
+      formData.append('message', message);
+      formData.append('timezone', browserTimezone());
+      for (const file of attachments) formData.append('files', file);
+      body = formData;
+    } else {
+      headers['Content-Type'] = 'application/json';
+      body = JSON.stringify({ message, timezone: browserTimezone() });
+    }
+
+    const res = await fetch(`${API_BASE}/chat/conversations/${conversationId}/messages?stream=true`, {
+      method: 'POST',
+      credentials: 'include',
+      headers,
+      body,
+    });
+
+    if (!res.ok || !res.body) {
+      const body = await res.json().catch(() => ({ error: res.statusText }));
+      throw new ApiError(body.error || 'Request failed', res.status);
+    }
+
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let result: SendMessageResult | null = null;
+
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      // Events are separated by a blank line
+      let boundary: number;
+      while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+        const raw = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+
+        let event = 'message';
+        let data = '';
+        for (const line of raw.split('\n')) {
+          if (line.startsWith('event: ')) event = line.slice(7);
+          else if (line.startsWith('data: ')) data += line.slice(6);
+        }
+        if (!data) continue;
+        const payload = JSON.parse(data);
+
+        switch (event) {
+          case 'text':
+            handlers.onText?.(payload.delta);
+            break;
+          case 'tool_call':
+            handlers.onToolCall?.(payload.name);
+            break;
+          case 'tool_result':
+            handlers.onToolResult?.(payload.name, payload.error);
+            break;
+          case 'retry':
+            handlers.onRetry?.(payload.attempt, payload.model);
+            break;
+          case 'done':
+            result = payload;
+            break;
+          case 'error':
+            throw new ApiError(payload.error || 'Request failed', 500);
+        }
+      }
+    }
+
+    if (!result) {
+      throw new ApiError('Stream ended before the response was complete', 500);
+    }
+    return result;
+  },
+
   deleteConversation: (conversationId: string) =>
     request<{ success: boolean }>(`/chat/conversations/${conversationId}`, {
       method: 'DELETE',
@@ -376,6 +669,9 @@ export interface DebugLogSummary {
   complexity: string;
   suggestedModel: string;
   selectedSkill: string | null;
+  selectedSkills: Array<{ name: string; confidence: number; included: boolean }>;
+  /** Where the routing came from; null for older logs. */
+  routedBy: 'fast_path' | 'llm' | 'fallback' | null;
   personalityLevel: string;
   includeBio: boolean;
   estimatedTokens: number;
@@ -383,11 +679,16 @@ export interface DebugLogSummary {
   tokensIn: number;
   tokensOut: number;
   costCents: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  retryCount: number;
   tokensSaved: number;
   durationMs: number;
   success: boolean;
   errorMessage: string | null;
   createdAt: string;
+  /** Manual routing correction, if any. */
+  label: (RoutingLabels & { updatedAt: string }) | null;
 }
 
 export interface DebugLogDetail extends DebugLogSummary {
@@ -397,6 +698,17 @@ export interface DebugLogDetail extends DebugLogSummary {
   systemPrompt: string;
   messagesJson: string;
   responseText: string;
+  toolCalls?: ToolCallInfo[];
+  /** Token budget the context was fitted to, or null when unlimited. */
+  contextBudget: number | null;
+  contextSections: ContextSectionUsage[];
+}
+
+/** Token use of one context section; originalTokens is its size before fitting to the budget. */
+export interface ContextSectionUsage {
+  name: string;
+  tokens: number;
+  originalTokens: number;
 }
 
 export interface LogsListResponse {
@@ -433,6 +745,13 @@ export const logs = {
     request<{ success: boolean; deleted: number }>(`/logs${before ? `?before=${before}` : ''}`, {
       method: 'DELETE',
     }),
+  setLabel: (id: string, label: RoutingLabels) =>
+    request<{ success: boolean }>(`/logs/${id}/label`, {
+      method: 'PUT',
+      body: JSON.stringify(label),
+    }),
+  clearLabel: (id: string) =>
+    request<{ success: boolean }>(`/logs/${id}/label`, { method: 'DELETE' }),
 };
 
 // Workflows
@@ -512,10 +831,32 @@ export interface ToolInfo {
   name: string;
   description: string;
   category: string;
+  /** Highest risk of any action: none (read-only), low (own data), high (outbound/destructive). */
+  risk: 'none' | 'low' | 'high';
+}
+
+export type ToolConfirmationMode = 'always' | 'never' | 'default';
+
+/** Opt-in tools (off until the user turns them on) and the ones that are on. */
+export interface EnabledTools {
+  optIn: string[];
+  enabled: string[];
 }
 
 export const tools = {
   list: () => request<ToolInfo[]>('/tools'),
+  confirmations: () => request<Record<string, ToolConfirmationMode>>('/tools/confirmations'),
+  updateConfirmations: (policy: Record<string, ToolConfirmationMode>) =>
+    request<Record<string, ToolConfirmationMode>>('/tools/confirmations', {
+      method: 'PUT',
+      body: JSON.stringify(policy),
+    }),
+  enabled: () => request<EnabledTools>('/tools/enabled'),
+  updateEnabled: (enabled: string[]) =>
+    request<EnabledTools>('/tools/enabled', {
+      method: 'PUT',
+      body: JSON.stringify({ enabled }),
+    }),
 };
 
 // Schedules
@@ -617,23 +958,58 @@ export interface ReminderInfo {
   completedAt?: string;
   dueAt?: string;
   notifiedAt?: string;
+  recurrence?: string;
+  recurrenceText?: string;
+}
+
+export type ReminderChannel = 'telegram' | 'whatsapp' | 'email' | 'web';
+
+export interface ReminderDeliveryInfo {
+  id: string;
+  reminderId: string;
+  channel: ReminderChannel;
+  status: 'sent' | 'failed';
+  error?: string;
+  escalation: boolean;
+  createdAt: string;
+}
+
+export interface ReminderDeliverySettings {
+  channels: ReminderChannel[];
+  escalateAfterMinutes: number;
 }
 
 export const reminders = {
   list: (includeComplete: boolean = false) =>
     request<ReminderInfo[]>(`/reminders${includeComplete ? '?includeComplete=true' : ''}`),
-  create: (text: string, dueAt?: string) =>
+  create: (text: string, dueAt?: string, repeat?: string) =>
     request<ReminderInfo>('/reminders', {
       method: 'POST',
-      body: JSON.stringify({ text, dueAt }),
+      body: JSON.stringify({ text, dueAt, repeat }),
     }),
-  update: (id: string, updates: { text?: string; isComplete?: boolean; dueAt?: string | null }) =>
+  update: (id: string, updates: { text?: string; isComplete?: boolean; dueAt?: string | null; repeat?: string | null }) =>
     request<ReminderInfo>(`/reminders/${id}`, {
       method: 'PUT',
       body: JSON.stringify(updates),
     }),
   delete: (id: string) =>
     request<{ success: boolean }>(`/reminders/${id}`, { method: 'DELETE' }),
+  done: (id: string) =>
+    request<ReminderInfo>(`/reminders/${id}/done`, { method: 'POST' }),
+  snooze: (id: string, minutes?: number) =>
+    request<ReminderInfo>(`/reminders/${id}/snooze`, {
+      method: 'POST',
+      body: JSON.stringify({ minutes }),
+    }),
+  deliveries: (id: string) =>
+    request<ReminderDeliveryInfo[]>(`/reminders/${id}/deliveries`),
+  getDelivery: () =>
+    request<ReminderDeliverySettings>('/reminders/delivery'),
+  saveDelivery: (settings: ReminderDeliverySettings) =>
+    request<{ success: boolean }>('/reminders/delivery', {
+      method: 'PUT',
+      body: JSON.stringify(settings),
+    }),
 };
 
 // Files
@@ -774,6 +1150,27 @@ export const contacts = {
     request<{ success: boolean }>(`/contacts/${id}`, { method: 'DELETE' }),
 };
 
+// Memories
+export type MemoryCategory = 'preference' | 'commitment' | 'person' | 'project' | 'fact';
+
+export interface MemoryInfo {
+  id: string;
+  userId: string;
+  category: MemoryCategory;
+  content: string;
+  sourceConversationId: string | null;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const memories = {
+  list: () => request<MemoryInfo[]>('/memories'),
+  delete: (id: string) =>
+    request<{ success: boolean }>(`/memories/${id}`, { method: 'DELETE' }),
+};
+
 // Integrations
 export const integrations = {
   googleStatus: () =>
@@ -11,6 +11,7 @@ const navItems = [
   { to: '/settings/files', label: 'Files', icon: '📁' },
   { to: '/settings/reminders', label: 'Reminders', icon: '✅' },
   { to: '/settings/contacts', label: 'Contacts', icon: '📇' },
+  { to: '/settings/memories', label: 'Memories', icon: '🧠' },
   { to: '/settings/integrations', label: 'Integrations', icon: '🔌' },
 ];
 
@@ -1,5 +1,5 @@
-import { useState, useEffect, useRef, KeyboardEvent } from 'react';
-import { chat, ChatConversation, ChatMessage } from '../api';
+import { useState, useEffect, useRef, ChangeEvent, KeyboardEvent } from 'react';
+import { chat, ChatConversation, ChatMessage, MessageChannel, MessageSearchResult, SEARCH_HIGHLIGHT, ToolCallInfo } from '../api';
 
 interface MessageWithMeta extends ChatMessage {
   model?: string;
@@ -12,11 +12,19 @@ export default function Chat() {
   const [activeId, setActiveId] = useState<string | null>(null);
   const [messages, setMessages] = useState<MessageWithMeta[]>([]);
   const [input, setInput] = useState('');
+  const [attachments, setAttachments] = useState<File[]>([]);
   const [sending, setSending] = useState(false);
+  const [streamingText, setStreamingText] = useState('');
+  const [toolStatus, setToolStatus] = useState('');
   const [error, setError] = useState('');
   const [loadingConversations, setLoadingConversations] = useState(true);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchChannel, setSearchChannel] = useState<MessageChannel | ''>('');
+  const [searchResults, setSearchResults] = useState<MessageSearchResult[] | null>(null);
+  const [searching, setSearching] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Load conversations on mount
   useEffect(() => {
@@ -26,7 +34,7 @@ export default function Chat() {
   // Auto-scroll to bottom on new messages
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  }, [messages, streamingText]);
 
   // Auto-resize textarea
   useEffect(() => {
@@ -63,6 +71,27 @@ export default function Chat() {
     }
   };
 
+  const handleSearch = async (channel: MessageChannel | '' = searchChannel) => {
+    if (!searchQuery.trim()) {
+      setSearchResults(null);
+      return;
+    }
+    setSearching(true);
+    setError('');
+    try {
+      setSearchResults(await chat.search(searchQuery.trim(), { channel: channel || undefined }));
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const clearSearch = () => {
+    setSearchQuery('');
+    setSearchResults(null);
+  };
+
   const handleNewConversation = async () => {
     try {
       setError('');
@@ -92,7 +121,7 @@ export default function Chat() {
   };
 
   const handleSend = async () => {
-    if (!input.trim() || sending) return;
+    if ((!input.trim() && attachments.length === 0) || sending) return;
 
     // Auto-create conversation if none is active
     let conversationId = activeId;
@@ -108,20 +137,46 @@ export default function Chat() {
       }
     }
 
+    // Same marker the server stores in place of the file, e.g. "[Image: receipt.jpg]"
+    const markers = attachments
+      .map(f => `[${f.type === 'application/pdf' ? 'PDF' : 'Image'}: ${f.name}]`)
+      .join(' ');
     const userMessage: MessageWithMeta = {
       id: `temp-${Date.now()}`,
       role: 'user',
-      content: input.trim(),
+      content: [markers, input.trim()].filter(Boolean).join('\n'),
       createdAt: new Date().toISOString(),
     };
+    const text = input.trim();
+    const files = attachments;
 
     setMessages(prev => [...prev, userMessage]);
     setInput('');
+    setAttachments([]);
     setSending(true);
+    setStreamingText('');
+    setToolStatus('');
     setError('');
 
     try {
-      const result = await chat.sendMessage(conversationId, userMessage.content);
+      const result = await chat.sendMessageStream(conversationId, text, {
+        onText: delta => {
+          setToolStatus('');
+          setStreamingText(prev => prev + delta);
+        },
+        onToolCall: name => setToolStatus(`Using ${name}`),
+        onRetry: () => {
+          setStreamingText('');
+          setToolStatus('Model busy, retrying');
+        },
+      }, files);
+      const toolMessages: MessageWithMeta[] = (result.toolCalls || []).map((call, i) => ({
+        id: `tool-${Date.now()}-${i}`,
+        role: 'tool',
+        content: call.name,
+        toolCall: call,
+        createdAt: new Date().toISOString(),
+      }));
       const assistantMessage: MessageWithMeta = {
         id: `resp-${Date.now()}`,
         role: 'assistant',
@@ -131,15 +186,23 @@ export default function Chat() {
         tokens: result.usage.tokensIn + result.usage.tokensOut,
         costCents: result.usage.costCents,
       };
-      setMessages(prev => [...prev, assistantMessage]);
+      setMessages(prev => [...prev, ...toolMessages, assistantMessage]);
     } catch (err: any) {
       setError(err.message);
     } finally {
       setSending(false);
+      setStreamingText('');
+      setToolStatus('');
       textareaRef.current?.focus();
     }
   };
 
+  const handleFilesSelected = (e: ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []);
+    setAttachments(prev => [...prev, ...selected].slice(0, 5));
+    e.target.value = '';
+  };
+
   const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -187,10 +250,71 @@ export default function Chat() {
           >
             + New Conversation
           </button>
+          <div className="mt-2 flex gap-1">
+            <input
+              type="search"
+              value={searchQuery}
+              onChange={e => {
+                setSearchQuery(e.target.value);
+                if (!e.target.value) setSearchResults(null);
+              }}
+              onKeyDown={e => { if (e.key === 'Enter') handleSearch(); }}
+              placeholder="Search all messages..."
+              className="flex-1 min-w-0 border border-gray-300 rounded-lg px-2.5 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-hive-400 focus:border-transparent"
+            />
+            <select
+              value={searchChannel}
+              onChange={e => {
+                const channel = e.target.value as MessageChannel | '';
+                setSearchChannel(channel);
+                if (searchResults) handleSearch(channel);
+              }}
+              title="Channel"
+              className="border border-gray-300 rounded-lg px-1 py-1.5 text-xs text-gray-600 bg-white"
+            >
+              <option value="">All</option>
+              <option value="web">Web</option>
+              <option value="telegram">Telegram</option>
+              <option value="whatsapp">WhatsApp</option>
+              <option value="cli">CLI</option>
+            </select>
+          </div>
         </div>
 
         <div className="flex-1 overflow-y-auto">
-          {loadingConversations ? (
+          {searching ? (
+            <div className="p-4 text-sm text-gray-400">Searching...</div>
+          ) : searchResults ? (
+            <>
+              <div className="px-3 py-2 text-xs text-gray-500 flex items-center justify-between border-b border-gray-100">
+                <span>{searchResults.length} result{searchResults.length === 1 ? '' : 's'}</span>
+                <button onClick={clearSearch} className="text-gray-400 hover:text-gray-600">Clear</button>
+              </div>
+              {searchResults.map(result => {
+                // Other channels' conversations aren't viewable in web chat
+                const openable = conversations.some(c => c.id === result.conversationId);
+                return (
+                  <div
+                    key={result.messageId}
+                    onClick={() => openable && selectConversation(result.conversationId)}
+                    className={`px-3 py-2.5 border-b border-gray-100 ${openable ? 'cursor-pointer hover:bg-gray-100' : ''} ${
+                      activeId === result.conversationId ? 'bg-white' : ''
+                    }`}
+                  >
+                    <p className="text-xs text-gray-600 line-clamp-3">
+                      <span className="font-medium">{result.role === 'user' ? 'You' : 'Assistant'}: </span>
+                      <HighlightedSnippet text={result.snippet} />
+                    </p>
+                    <p className="text-xs text-gray-400 mt-0.5">
+                      {new Date(result.createdAt).toLocaleDateString()}
+                      {result.channel && <span> &middot; {result.channel}</span>}
+                      {result.conversationTitle && <span> &middot; {result.conversationTitle}</span>}
+                    </p>
+                  </div>
+                );
+              })}
+            </>
+          ) : loadingConversations ? (
             <div className="p-4 text-sm text-gray-400">Loading...</div>
           ) : conversations.length === 0 ? (
             <div className="p-4 text-sm text-gray-400">No conversations yet</div>
@@ -243,7 +367,9 @@ export default function Chat() {
             </div>
           ) : (
             <div className="max-w-3xl mx-auto space-y-4">
-              {messages.map(msg => (
+              {messages.map(msg => msg.role === 'tool' ? (
+                <ToolCallRow key={msg.id} call={msg.toolCall} summary={msg.content} />
+              ) : (
                 <div key={msg.id}>
                   <div
                     className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}
@@ -276,12 +402,23 @@ export default function Chat() {
                 </div>
               ))}
 
-              {sending && (
+              {sending && streamingText && (
+                <div className="flex justify-start">
+                  <div className="max-w-[80%] bg-gray-100 text-gray-800 rounded-2xl px-4 py-2.5">
+                    <p className="text-sm whitespace-pre-wrap">
+                      {streamingText}
+                      <span className="animate-pulse">▍</span>
+                    </p>
+                  </div>
+                </div>
+              )}
+
+              {sending && (!streamingText || toolStatus) && (
                 <div className="flex justify-start">
                   <div className="bg-gray-100 text-gray-500 rounded-2xl px-4 py-2.5">
                     <p className="text-sm">
                       <span className="inline-flex items-center gap-1">
-                        Thinking
+                        {toolStatus || 'Thinking'}
                         <span className="animate-pulse">...</span>
                       </span>
                     </p>
@@ -309,7 +446,41 @@ export default function Chat() {
 
         {/* Input area */}
         <div className="border-t border-gray-200 p-4">
+          {attachments.length > 0 && (
+            <div className="max-w-3xl mx-auto flex flex-wrap gap-2 mb-2">
+              {attachments.map((file, i) => (
+                <span
+                  key={`${file.name}-${i}`}
+                  className="inline-flex items-center gap-1 bg-gray-100 text-gray-700 text-xs rounded-full px-3 py-1"
+                >
+                  {file.type === 'application/pdf' ? '📄' : '🖼️'} {file.name}
+                  <button
+                    onClick={() => setAttachments(prev => prev.filter((_, j) => j !== i))}
+                    className="text-gray-400 hover:text-gray-600"
+                  >
+                    ×
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
           <div className="max-w-3xl mx-auto flex gap-3">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/jpeg,image/png,image/gif,image/webp,application/pdf"
+              multiple
+              onChange={handleFilesSelected}
+              className="hidden"
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={sending || attachments.length >= 5}
+              title="Attach images or PDFs"
+              className="px-3 py-2.5 border border-gray-300 text-gray-500 rounded-xl text-sm hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors self-end"
+            >
+              📎
+            </button>
             <textarea
               ref={textareaRef}
               value={input}
@@ -322,7 +493,7 @@ export default function Chat() {
             />
             <button
               onClick={handleSend}
-              disabled={!input.trim() || sending}
+              disabled={(!input.trim() && attachments.length === 0) || sending}
               className="px-5 py-2.5 bg-hive-500 text-white rounded-xl text-sm font-medium hover:bg-hive-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors self-end"
             >
               Send
@@ -333,3 +504,49 @@ export default function Chat() {
     </div>
   );
 }
+
+/** A search snippet with its matched terms marked. */
+function HighlightedSnippet({ text }: { text: string }) {
+  const [open, close] = SEARCH_HIGHLIGHT;
+  return (
+    <>
+      {text.split(open).map((part, i) => {
+        if (i === 0) return <span key={i}>{part}</span>;
+        const [match, rest] = part.split(close);
+        return (
+          <span key={i}>
+            <mark className="bg-yellow-100 text-gray-900 rounded-sm">{match}</mark>
+            {rest}
+          </span>
+        );
+      })}
+    </>
+  );
+}
+
+/** Collapsible line for a tool the assistant called; expands to show input and output. */
+function ToolCallRow({ call, summary }: { call?: ToolCallInfo; summary: string }) {
+  const name = call?.name || summary.split(' ')[0];
+  return (
+    <details className="max-w-[80%] text-xs text-gray-500">
+      <summary className="cursor-pointer select-none">
+        <span className={call?.error ? 'text-red-500' : ''}>
+          {call?.error ? '✗' : '✓'} Used {name}
+        </span>
+        {call && <span className="ml-2 text-gray-400">{call.durationMs}ms</span>}
+      </summary>
+      {call ? (
+        <div className="mt-1 space-y-1">
+          <pre className="bg-gray-50 rounded p-2 border border-gray-200 max-h-40 overflow-auto whitespace-pre-wrap">
+            {JSON.stringify(call.input, null, 2)}
+          </pre>
+          <pre className="bg-gray-50 rounded p-2 border border-gray-200 max-h-40 overflow-auto whitespace-pre-wrap">
+            {call.error || call.output}
+          </pre>
+        </div>
+      ) : (
+        <p className="mt-1 whitespace-pre-wrap">{summary}</p>
+      )}
+    </details>
+  );
+}
@@ -28,6 +28,7 @@ export default function Dashboard() {
 
   const formatCost = (cents: number) => `$${(cents / 100).toFixed(4)}`;
   const formatTokens = (n: number) => n.toLocaleString();
+  const formatPercent = (ratio: number) => `${(ratio * 100).toFixed(1)}%`;
 
   return (
     <div>
@@ -66,6 +67,11 @@ export default function Dashboard() {
             <div className="bg-white rounded-xl border border-gray-200 p-5">
               <p className="text-sm text-gray-500">Tokens Out</p>
               <p className="text-2xl font-bold mt-1">{formatTokens(usageData.totalTokensOut)}</p>
+              {usageData.totalThinkingTokens > 0 && (
+                <p className="text-xs text-gray-400 mt-1">
+                  incl. ~{formatTokens(usageData.totalThinkingTokens)} thinking ({formatCost(usageData.totalThinkingCostCents)})
+                </p>
+              )}
             </div>
             <div className="bg-white rounded-xl border border-gray-200 p-5">
               <p className="text-sm text-gray-500">Cost</p>
@@ -76,6 +82,58 @@ export default function Dashboard() {
           <div className="text-gray-400">Loading usage data...</div>
         )}
 
+        {usageData && (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4">
+            <div className="bg-white rounded-xl border border-gray-200 p-5">
+              <p className="text-sm text-gray-500">Prompt Cache Hit Rate</p>
+              <p className="text-2xl font-bold mt-1">{formatPercent(usageData.cacheHitRate)}</p>
+              <p className="text-xs text-gray-400 mt-1">
+                {formatTokens(usageData.totalCacheReadTokens)} read &middot; {formatTokens(usageData.totalCacheCreationTokens)} written
+              </p>
+            </div>
+            <div className="bg-white rounded-xl border border-gray-200 p-5">
+              <p className="text-sm text-gray-500">Saved by Caching</p>
+              <p className="text-2xl font-bold mt-1">{formatCost(usageData.totalCacheSavingsCents)}</p>
+            </div>
+            <div className="bg-white rounded-xl border border-gray-200 p-5">
+              <p className="text-sm text-gray-500">Tokens Saved by Routing</p>
+              <p className="text-2xl font-bold mt-1">~{formatTokens(usageData.totalTokensSaved)}</p>
+            </div>
+          </div>
+        )}
+
+        {usageData && usageData.budget.limits.length > 0 && (
+          <div className="mt-4 bg-white rounded-xl border border-gray-200 p-5">
+            <h3 className="text-sm font-medium text-gray-500 mb-3">Budget</h3>
+            <div className="space-y-3">
+              {usageData.budget.limits.map(l => (
+                <div key={`${l.scope}-${l.period}`}>
+                  <div className="flex items-center justify-between text-sm mb-1">
+                    <span className="font-medium capitalize">
+                      {l.scope === 'team' ? `Team ${l.targetId}` : 'You'} &middot; {l.period}
+                    </span>
+                    <span className="text-gray-500">
+                      ${(l.spentCents / 100).toFixed(2)} of ${(l.limitCents / 100).toFixed(2)}
+                    </span>
+                  </div>
+                  <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                    <div
+                      className={`h-full ${l.usedFraction >= 1 ? 'bg-red-500' : l.usedFraction >= 0.8 ? 'bg-amber-500' : 'bg-hive-500'}`}
+                      style={{ width: `${Math.min(100, l.usedFraction * 100)}%` }}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+            {usageData.budget.state === 'downgrade' && (
+              <p className="text-xs text-amber-700 mt-3">Close to the limit: answers use a lighter model until it resets.</p>
+            )}
+            {usageData.budget.state === 'exceeded' && (
+              <p className="text-xs text-red-600 mt-3">Limit reached: the assistant won't answer until it resets.</p>
+            )}
+          </div>
+        )}
+
         {usageData && Object.keys(usageData.byModel).length > 0 && (
           <div className="mt-4 bg-white rounded-xl border border-gray-200 p-5">
             <h3 className="text-sm font-medium text-gray-500 mb-3">By Model</h3>
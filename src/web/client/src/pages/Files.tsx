@@ -79,10 +79,8 @@ export default function FilesPage() {
     }
   };
 
-  const isTextFile = (name: string) => {
-    const ext = name.toLowerCase().split('.').pop() || '';
-    return !['pdf', 'xlsx', 'xls'].includes(ext);
-  };
+  /** PDF, Excel and Word files preview as their extracted text. */
+  const isDocument = (name: string) => /\.(pdf|xlsx?|docx)$/i.test(name);
 
   const isExtractedFile = (name: string) => {
     return name.includes('.extracted.');
@@ -94,7 +92,7 @@ export default function FilesPage() {
         <div>
           <h1 className="text-2xl font-bold">Files</h1>
           <p className="text-sm text-gray-500 mt-1">
-            Upload files for your assistant to read. Supports text, PDF, and Excel files (max 1MB).
+            Upload files for your assistant to read. Supports text, PDF, Excel and Word files (max 1MB).
           </p>
         </div>
         <div>
@@ -126,7 +124,7 @@ export default function FilesPage() {
         <div className="bg-white rounded-xl border border-gray-200 p-8 text-center">
           <p className="text-gray-500">No files uploaded yet.</p>
           <p className="text-sm text-gray-400 mt-2">
-            Upload text files, PDFs, or Excel files. Your assistant can read them during conversations.
+            Upload text files, PDFs, Excel or Word files. Your assistant can read them during conversations.
           </p>
         </div>
       ) : (
@@ -139,6 +137,7 @@ export default function FilesPage() {
                 <div className="flex-shrink-0 text-lg">
                   {file.name.endsWith('.pdf') ? '📄' :
                    file.name.match(/\.xlsx?$/) ? '📊' :
+                   file.name.endsWith('.docx') ? '📃' :
                    isExtractedFile(file.name) ? '📝' : '📁'}
                 </div>
 
@@ -184,14 +183,13 @@ export default function FilesPage() {
                     </label>
                   )}
 
-                  {isTextFile(file.name) && (
-                    <button
-                      onClick={() => handlePreview(file.name)}
-                      className="text-sm text-hive-600 hover:text-hive-700 transition-colors"
-                    >
-                      {preview?.name === file.name ? 'Hide' : 'Preview'}
-                    </button>
-                  )}
+                  <button
+                    onClick={() => handlePreview(file.name)}
+                    className="text-sm text-hive-600 hover:text-hive-700 transition-colors"
+                    title={isDocument(file.name) ? 'Preview the extracted text' : undefined}
+                  >
+                    {preview?.name === file.name ? 'Hide' : 'Preview'}
+                  </button>
 
                   {deleting === file.name ? (
                     <span className="flex items-center gap-1">
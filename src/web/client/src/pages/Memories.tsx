@@ -0,0 +1,166 @@
+import { useState, useEffect } from 'react';
+import { memories, MemoryInfo, MemoryCategory } from '../api';
+
+type Filter = MemoryCategory | 'all';
+
+const CATEGORY_LABELS: Record<MemoryCategory, string> = {
+  preference: 'Preferences',
+  commitment: 'Commitments',
+  person: 'People',
+  project: 'Projects',
+  fact: 'Facts',
+};
+
+const CATEGORY_STYLES: Record<MemoryCategory, string> = {
+  preference: 'bg-purple-100 text-purple-700',
+  commitment: 'bg-amber-100 text-amber-700',
+  person: 'bg-blue-100 text-blue-700',
+  project: 'bg-green-100 text-green-700',
+  fact: 'bg-gray-100 text-gray-600',
+};
+
+export default function MemoriesPage() {
+  const [items, setItems] = useState<MemoryInfo[]>([]);
+  const [filter, setFilter] = useState<Filter>('all');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [deleting, setDeleting] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadMemories();
+  }, []);
+
+  const loadMemories = async () => {
+    try {
+      setItems(await memories.list());
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await memories.delete(id);
+      setDeleting(null);
+      setItems(prev => prev.filter(m => m.id !== id));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const counts = items.reduce<Partial<Record<MemoryCategory, number>>>((acc, m) => {
+    acc[m.category] = (acc[m.category] || 0) + 1;
+    return acc;
+  }, {});
+  const visible = filter === 'all' ? items : items.filter(m => m.category === filter);
+
+  return (
+    <div className="max-w-3xl">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold">Memories</h1>
+        <p className="text-sm text-gray-500 mt-1">
+          Things your assistant has picked up from your conversations and recalls when they're relevant,
+          on every channel. Delete anything that's wrong or that you'd rather it forgot.
+        </p>
+      </div>
+
+      {error && (
+        <div className="text-red-600 bg-red-50 p-3 rounded-lg mb-4 flex items-center justify-between">
+          <span>{error}</span>
+          <button onClick={() => setError('')} className="text-red-400 hover:text-red-600 ml-2">&times;</button>
+        </div>
+      )}
+
+      {/* Category tabs */}
+      <div className="flex flex-wrap gap-1 mb-4 bg-gray-100 rounded-lg p-1 w-fit">
+        {(['all', ...Object.keys(CATEGORY_LABELS)] as Filter[]).map(f => (
+          <button
+            key={f}
+            onClick={() => setFilter(f)}
+            className={`px-3 py-1.5 text-sm rounded-md transition-colors ${
+              filter === f
+                ? 'bg-white text-gray-900 shadow-sm font-medium'
+                : 'text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            {f === 'all' ? 'All' : `${CATEGORY_LABELS[f]}${counts[f] ? ` (${counts[f]})` : ''}`}
+          </button>
+        ))}
+      </div>
+
+      {/* Memory list */}
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading...</p>
+      ) : visible.length === 0 ? (
+        <div className="bg-white rounded-xl border border-gray-200 p-8 text-center">
+          <p className="text-gray-500">Nothing remembered yet.</p>
+          <p className="text-sm text-gray-400 mt-2">
+            Memories are added automatically as you chat with your assistant.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {visible.map(item => (
+            <div key={item.id} className="bg-white rounded-xl border border-gray-200 p-4 flex items-start gap-3">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-gray-900">{item.content}</p>
+                <div className="flex flex-wrap items-center gap-2 mt-1">
+                  <span className={`text-[10px] font-semibold uppercase tracking-wide px-1.5 py-0.5 rounded ${CATEGORY_STYLES[item.category]}`}>
+                    {item.category}
+                  </span>
+                  <span className="text-xs text-gray-400">
+                    Updated {new Date(item.updatedAt).toLocaleDateString()}
+                  </span>
+                  {item.lastUsedAt && (
+                    <>
+                      <span className="text-xs text-gray-300">·</span>
+                      <span className="text-xs text-gray-400">
+                        Last recalled {new Date(item.lastUsedAt).toLocaleDateString()}
+                      </span>
+                    </>
+                  )}
+                  {item.expiresAt && (
+                    <>
+                      <span className="text-xs text-gray-300">·</span>
+                      <span className="text-xs text-amber-600">
+                        Forgotten after {new Date(item.expiresAt).toLocaleDateString()}
+                      </span>
+                    </>
+                  )}
+                </div>
+              </div>
+
+              <div className="flex-shrink-0 flex items-center gap-2">
+                {deleting === item.id ? (
+                  <span className="flex items-center gap-1">
+                    <button
+                      onClick={() => handleDelete(item.id)}
+                      className="text-sm text-red-600 hover:text-red-700 font-medium"
+                    >
+                      Confirm
+                    </button>
+                    <button
+                      onClick={() => setDeleting(null)}
+                      className="text-sm text-gray-400 hover:text-gray-600"
+                    >
+                      Cancel
+                    </button>
+                  </span>
+                ) : (
+                  <button
+                    onClick={() => setDeleting(item.id)}
+                    className="text-sm text-gray-400 hover:text-red-600 transition-colors"
+                  >
+                    Forget
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,12 @@
 import { useState, useEffect } from 'react';
-import { profile, ProfileConfig } from '../api';
+import { profile, ProfileConfig, ProfileUpdateInfo, browserTimezone } from '../api';
+
+/** Sections offered when editing a suggestion, besides the profile's own. */
+const SUGGESTED_SECTIONS = ['professional', 'current_projects', 'personal', 'preferences', 'family', 'health'];
+
+function sectionLabel(key: string): string {
+  return key.replace(/_/g, ' ');
+}
 
 export default function ProfileEditor() {
   const [config, setConfig] = useState<ProfileConfig>({
@@ -8,6 +15,8 @@ export default function ProfileEditor() {
   const [saving, setSaving] = useState(false);
   const [saved, setSaved] = useState(false);
   const [error, setError] = useState('');
+  const [updates, setUpdates] = useState<ProfileUpdateInfo[]>([]);
+  const [editing, setEditing] = useState<{ id: string; section: string; update: string } | null>(null);
 
   useEffect(() => {
     loadData();
@@ -15,13 +24,39 @@ export default function ProfileEditor() {
 
   const loadData = async () => {
     try {
-      const data = await profile.get();
+      const [data, pending] = await Promise.all([profile.get(), profile.updates()]);
       setConfig(data);
+      setUpdates(pending);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleAccept = async (item: ProfileUpdateInfo) => {
+    try {
+      const edits = editing?.id === item.id ? { section: editing.section, update: editing.update } : undefined;
+      const updated = await profile.acceptUpdate(item.id, edits);
+      // Keep unsaved edits to the form; only the sections changed
+      setConfig(prev => ({ ...prev, sections: updated.sections }));
+      setUpdates(prev => prev.filter(u => u.id !== item.id));
+      setEditing(null);
     } catch (err: any) {
       setError(err.message);
     }
   };
 
+  const handleReject = async (id: string) => {
+    try {
+      await profile.rejectUpdate(id);
+      setUpdates(prev => prev.filter(u => u.id !== id));
+      if (editing?.id === id) setEditing(null);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const sectionOptions = Array.from(new Set([...Object.keys(config.sections), ...SUGGESTED_SECTIONS]));
+
   const handleSave = async (e: React.FormEvent) => {
     e.preventDefault();
     setSaving(true);
@@ -44,6 +79,82 @@ export default function ProfileEditor() {
 
       {error && <div className="text-red-600 bg-red-50 p-3 rounded-lg mb-4">{error}</div>}
 
+      {/* Suggested updates */}
+      {updates.length > 0 && (
+        <div className="bg-white rounded-xl border border-gray-200 p-4 mb-6">
+          <h2 className="text-sm font-medium text-gray-700">Suggested updates</h2>
+          <p className="text-xs text-gray-400 mt-0.5 mb-3">
+            Picked up from your conversations. Nothing is added to your profile until you accept it.
+          </p>
+          <div className="space-y-2">
+            {updates.map(item => (
+              <div key={item.id} className="border border-gray-100 rounded-lg p-3">
+                {editing?.id === item.id ? (
+                  <div className="space-y-2">
+                    <select
+                      value={editing.section}
+                      onChange={e => setEditing({ ...editing, section: e.target.value })}
+                      className="px-2 py-1 border border-gray-300 rounded-lg text-sm capitalize focus:ring-2 focus:ring-hive-500 focus:border-transparent outline-none"
+                    >
+                      {(sectionOptions.includes(editing.section) ? sectionOptions : [editing.section, ...sectionOptions]).map(key => (
+                        <option key={key} value={key}>{sectionLabel(key)}</option>
+                      ))}
+                    </select>
+                    <textarea
+                      value={editing.update}
+                      onChange={e => setEditing({ ...editing, update: e.target.value })}
+                      rows={2}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-hive-500 focus:border-transparent outline-none text-sm"
+                    />
+                  </div>
+                ) : (
+                  <div>
+                    <span className="text-[10px] font-semibold uppercase tracking-wide px-1.5 py-0.5 rounded bg-hive-100 text-hive-700">
+                      {sectionLabel(item.section)}
+                    </span>
+                    <p className="text-sm text-gray-900 mt-1">{item.update}</p>
+                  </div>
+                )}
+                <div className="flex items-center gap-3 mt-2">
+                  <button
+                    type="button"
+                    onClick={() => handleAccept(item)}
+                    disabled={editing?.id === item.id && !editing.update.trim()}
+                    className="text-sm text-green-600 hover:text-green-700 font-medium disabled:opacity-50"
+                  >
+                    Accept
+                  </button>
+                  {editing?.id === item.id ? (
+                    <button
+                      type="button"
+                      onClick={() => setEditing(null)}
+                      className="text-sm text-gray-400 hover:text-gray-600"
+                    >
+                      Cancel
+                    </button>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => setEditing({ id: item.id, section: item.section, update: item.update })}
+                      className="text-sm text-gray-500 hover:text-gray-700"
+                    >
+                      Edit
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => handleReject(item.id)}
+                    className="text-sm text-gray-400 hover:text-red-600 transition-colors"
+                  >
+                    Reject
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       <form onSubmit={handleSave} className="space-y-6">
         <div className="grid grid-cols-2 gap-4">
           <div>
@@ -76,6 +187,21 @@ export default function ProfileEditor() {
             className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-hive-500 focus:border-transparent outline-none"
             placeholder="e.g. America/New_York"
           />
+          <p className="mt-1 text-xs text-gray-400">
+            Reminders, calendar events and dates use this timezone on every channel.
+            {config.timezone !== browserTimezone() && (
+              <>
+                {' '}
+                <button
+                  type="button"
+                  onClick={() => setConfig({ ...config, timezone: browserTimezone() })}
+                  className="text-hive-600 hover:text-hive-700"
+                >
+                  Use this device's ({browserTimezone()})
+                </button>
+              </>
+            )}
+          </p>
         </div>
 
         <div>
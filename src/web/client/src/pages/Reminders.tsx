@@ -1,11 +1,23 @@
 import { useState, useEffect } from 'react';
-import { reminders, ReminderInfo } from '../api';
+import {
+  reminders, profile, ReminderInfo, ReminderChannel, ReminderDeliveryInfo, ReminderDeliverySettings, browserTimezone
+} from '../api';
 
 type Filter = 'active' | 'completed' | 'all';
 
-function formatDueDate(iso: string): string {
+const CHANNEL_LABELS: Record<ReminderChannel, string> = {
+  telegram: 'Telegram',
+  whatsapp: 'WhatsApp',
+  email: 'Email',
+  web: 'Web dashboard'
+};
+
+const ALL_CHANNELS = Object.keys(CHANNEL_LABELS) as ReminderChannel[];
+
+function formatDueDate(iso: string, timeZone: string): string {
   const d = new Date(iso);
   return d.toLocaleString(undefined, {
+    timeZone,
     month: 'short', day: 'numeric',
     hour: 'numeric', minute: '2-digit'
   });
@@ -15,11 +27,20 @@ function isOverdue(item: ReminderInfo): boolean {
   return !!item.dueAt && !item.isComplete && new Date(item.dueAt) < new Date();
 }
 
-/** Convert an ISO string to a `datetime-local` input value (YYYY-MM-DDTHH:mm). */
-function toDatetimeLocal(iso: string): string {
-  const d = new Date(iso);
-  const pad = (n: number) => String(n).padStart(2, '0');
-  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+/** Notified but not yet marked done or snoozed. */
+function isAwaitingAck(item: ReminderInfo): boolean {
+  return !!item.notifiedAt && !item.isComplete;
+}
+
+/** Convert an ISO string to a `datetime-local` input value (YYYY-MM-DDTHH:mm) in the timezone. */
+function toDatetimeLocal(iso: string, timeZone: string): string {
+  const parts: Record<string, string> = {};
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone, hourCycle: 'h23',
+    year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit'
+  });
+  for (const part of formatter.formatToParts(new Date(iso))) parts[part.type] = part.value;
+  return `${parts.year}-${parts.month}-${parts.day}T${parts.hour}:${parts.minute}`;
 }
 
 export default function RemindersPage() {
@@ -27,11 +48,20 @@ export default function RemindersPage() {
   const [filter, setFilter] = useState<Filter>('active');
   const [newText, setNewText] = useState('');
   const [newDueAt, setNewDueAt] = useState('');
+  const [newRepeat, setNewRepeat] = useState('');
   const [error, setError] = useState('');
   const [adding, setAdding] = useState(false);
   const [deleting, setDeleting] = useState<string | null>(null);
   const [editingDue, setEditingDue] = useState<string | null>(null);
   const [editDueValue, setEditDueValue] = useState('');
+  const [editRepeatValue, setEditRepeatValue] = useState('');
+  const [history, setHistory] = useState<{ id: string; deliveries: ReminderDeliveryInfo[] } | null>(null);
+  // Due times are entered and shown in the user's timezone, not the browser's
+  const [timezone, setTimezone] = useState(browserTimezone());
+
+  useEffect(() => {
+    profile.timezone().then(data => setTimezone(data.timezone)).catch(() => {});
+  }, []);
 
   useEffect(() => {
     loadReminders();
@@ -55,10 +85,10 @@ export default function RemindersPage() {
     setAdding(true);
     setError('');
     try {
-      const dueAt = newDueAt ? new Date(newDueAt).toISOString() : undefined;
-      await reminders.create(newText.trim(), dueAt);
+      await reminders.create(newText.trim(), newDueAt || undefined, newRepeat.trim() || undefined);
       setNewText('');
       setNewDueAt('');
+      setNewRepeat('');
       await loadReminders();
     } catch (err: any) {
       setError(err.message);
@@ -86,12 +116,16 @@ export default function RemindersPage() {
     }
   };
 
-  const handleSetDue = async (id: string) => {
+  const handleSetDue = async (item: ReminderInfo) => {
     try {
-      const dueAt = editDueValue ? new Date(editDueValue).toISOString() : null;
-      await reminders.update(id, { dueAt });
+      const updates: { dueAt?: string | null; repeat?: string | null } = {};
+      const currentDue = item.dueAt ? toDatetimeLocal(item.dueAt, timezone) : '';
+      if (editDueValue !== currentDue) updates.dueAt = editDueValue || null;
+      if (editRepeatValue.trim() !== (item.recurrenceText || '')) updates.repeat = editRepeatValue.trim() || null;
+      await reminders.update(item.id, updates);
       setEditingDue(null);
       setEditDueValue('');
+      setEditRepeatValue('');
       await loadReminders();
     } catch (err: any) {
       setError(err.message);
@@ -100,7 +134,38 @@ export default function RemindersPage() {
 
   const startEditingDue = (item: ReminderInfo) => {
     setEditingDue(item.id);
-    setEditDueValue(item.dueAt ? toDatetimeLocal(item.dueAt) : '');
+    setEditDueValue(item.dueAt ? toDatetimeLocal(item.dueAt, timezone) : '');
+    setEditRepeatValue(item.recurrenceText || '');
+  };
+
+  const handleDone = async (id: string) => {
+    try {
+      await reminders.done(id);
+      await loadReminders();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleSnooze = async (id: string, minutes: number) => {
+    try {
+      await reminders.snooze(id, minutes);
+      await loadReminders();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const toggleHistory = async (id: string) => {
+    if (history?.id === id) {
+      setHistory(null);
+      return;
+    }
+    try {
+      setHistory({ id, deliveries: await reminders.deliveries(id) });
+    } catch (err: any) {
+      setError(err.message);
+    }
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -121,6 +186,8 @@ export default function RemindersPage() {
         </p>
       </div>
 
+      <DeliverySettingsPanel onError={setError} />
+
       {error && (
         <div className="text-red-600 bg-red-50 p-3 rounded-lg mb-4 flex items-center justify-between">
           <span>{error}</span>
@@ -157,6 +224,7 @@ export default function RemindersPage() {
             className="border border-gray-300 rounded-md px-2 py-1 text-xs text-gray-700 focus:outline-none focus:ring-2 focus:ring-hive-500 focus:border-transparent"
             disabled={adding}
           />
+          <span className="text-xs text-gray-400">{timezone.replace(/_/g, ' ')}</span>
           {newDueAt && (
             <button
               onClick={() => setNewDueAt('')}
@@ -165,6 +233,16 @@ export default function RemindersPage() {
               Clear
             </button>
           )}
+          <label className="text-xs text-gray-500 ml-3">Repeat:</label>
+          <input
+            type="text"
+            value={newRepeat}
+            onChange={e => setNewRepeat(e.target.value)}
+            onKeyDown={handleKeyDown}
+            className="flex-1 border border-gray-300 rounded-md px-2 py-1 text-xs text-gray-700 focus:outline-none focus:ring-2 focus:ring-hive-500 focus:border-transparent"
+            placeholder="e.g. every weekday at 8am, monthly, FREQ=WEEKLY;BYDAY=MO"
+            disabled={adding}
+          />
         </div>
       </div>
 
@@ -206,6 +284,7 @@ export default function RemindersPage() {
               key={item.id}
               className={`bg-white rounded-xl border p-4 flex items-start gap-3 transition-colors ${
                 item.isComplete ? 'opacity-60 border-gray-200' :
+                isAwaitingAck(item) ? 'border-hive-300 bg-hive-50/40' :
                 isOverdue(item) ? 'border-red-300 bg-red-50/30' :
                 'border-gray-200'
               }`}
@@ -241,7 +320,7 @@ export default function RemindersPage() {
                         isOverdue(item) ? 'text-red-600' :
                         'text-amber-600'
                       }`}>
-                        Due {formatDueDate(item.dueAt)}
+                        Due {formatDueDate(item.dueAt, timezone)}
                       </span>
                       {isOverdue(item) && (
                         <span className="text-[10px] font-semibold uppercase tracking-wide bg-red-100 text-red-700 px-1.5 py-0.5 rounded">
@@ -250,6 +329,14 @@ export default function RemindersPage() {
                       )}
                     </>
                   )}
+                  {item.recurrenceText && (
+                    <>
+                      <span className="text-xs text-gray-300">·</span>
+                      <span className="text-[10px] font-medium uppercase tracking-wide bg-blue-100 text-blue-700 px-1.5 py-0.5 rounded" title={item.recurrence}>
+                        Repeats {item.recurrenceText}
+                      </span>
+                    </>
+                  )}
                   {item.notifiedAt && (
                     <>
                       <span className="text-xs text-gray-300">·</span>
@@ -268,29 +355,79 @@ export default function RemindersPage() {
                   )}
                 </div>
 
-                {/* Inline due date editor */}
-                {editingDue === item.id && (
+                {/* Notified and waiting for an answer */}
+                {isAwaitingAck(item) && (
                   <div className="flex items-center gap-2 mt-2">
+                    <button
+                      onClick={() => handleDone(item.id)}
+                      className="px-2.5 py-1 bg-hive-500 text-white rounded-md text-xs font-medium hover:bg-hive-600 transition-colors"
+                    >
+                      {item.recurrence ? 'Done for now' : 'Done'}
+                    </button>
+                    {[10, 60].map(minutes => (
+                      <button
+                        key={minutes}
+                        onClick={() => handleSnooze(item.id, minutes)}
+                        className="px-2.5 py-1 border border-gray-300 text-gray-600 rounded-md text-xs hover:bg-gray-50 transition-colors"
+                      >
+                        Snooze {minutes < 60 ? `${minutes} min` : `${minutes / 60} h`}
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                {/* Inline due date and repeat editor */}
+                {editingDue === item.id && (
+                  <div className="flex flex-wrap items-center gap-2 mt-2">
                     <input
                       type="datetime-local"
                       value={editDueValue}
                       onChange={e => setEditDueValue(e.target.value)}
                       className="border border-gray-300 rounded-md px-2 py-1 text-xs text-gray-700 focus:outline-none focus:ring-2 focus:ring-hive-500 focus:border-transparent"
                     />
+                    <input
+                      type="text"
+                      value={editRepeatValue}
+                      onChange={e => setEditRepeatValue(e.target.value)}
+                      className="flex-1 min-w-[10rem] border border-gray-300 rounded-md px-2 py-1 text-xs text-gray-700 focus:outline-none focus:ring-2 focus:ring-hive-500 focus:border-transparent"
+                      placeholder="Repeat (blank for once)"
+                    />
                     <button
-                      onClick={() => handleSetDue(item.id)}
+                      onClick={() => handleSetDue(item)}
                       className="text-xs font-medium text-hive-600 hover:text-hive-700"
                     >
                       Save
                     </button>
                     <button
-                      onClick={() => { setEditingDue(null); setEditDueValue(''); }}
+                      onClick={() => { setEditingDue(null); setEditDueValue(''); setEditRepeatValue(''); }}
                       className="text-xs text-gray-400 hover:text-gray-600"
                     >
                       Cancel
                     </button>
                   </div>
                 )}
+
+                {/* Delivery history */}
+                {history?.id === item.id && (
+                  <div className="mt-2 border-t border-gray-100 pt-2">
+                    {history.deliveries.length === 0 ? (
+                      <p className="text-xs text-gray-400">No notifications sent yet.</p>
+                    ) : (
+                      <ul className="space-y-1">
+                        {history.deliveries.map(d => (
+                          <li key={d.id} className="text-xs text-gray-500 flex items-center gap-2">
+                            <span className={d.status === 'sent' ? 'text-green-600' : 'text-red-500'}>
+                              {d.status === 'sent' ? 'Sent' : 'Failed'}
+                            </span>
+                            <span>{CHANNEL_LABELS[d.channel]}{d.escalation ? ' (escalation)' : ''}</span>
+                            <span className="text-gray-400">{formatDueDate(d.createdAt, timezone)}</span>
+                            {d.error && <span className="text-gray-400 truncate" title={d.error}>{d.error}</span>}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
               </div>
 
               <div className="flex-shrink-0 flex items-center gap-2">
@@ -303,6 +440,12 @@ export default function RemindersPage() {
                     {item.dueAt ? 'Edit due' : 'Set due'}
                   </button>
                 )}
+                <button
+                  onClick={() => toggleHistory(item.id)}
+                  className="text-sm text-gray-400 hover:text-gray-600 transition-colors"
+                >
+                  {history?.id === item.id ? 'Hide history' : 'History'}
+                </button>
                 {deleting === item.id ? (
                   <span className="flex items-center gap-1">
                     <button
@@ -334,3 +477,111 @@ export default function RemindersPage() {
     </div>
   );
 }
+
+/** Which channels reminders are sent on, in order, and when to escalate. */
+function DeliverySettingsPanel({ onError }: { onError: (message: string) => void }) {
+  const [settings, setSettings] = useState<ReminderDeliverySettings | null>(null);
+  const [open, setOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    reminders.getDelivery().then(setSettings).catch(() => {});
+  }, []);
+
+  if (!settings) return null;
+
+  const update = (next: ReminderDeliverySettings) => {
+    setSettings(next);
+    setSaved(false);
+  };
+
+  const toggleChannel = (channel: ReminderChannel) => {
+    const channels = settings.channels.includes(channel)
+      ? settings.channels.filter(c => c !== channel)
+      : [...settings.channels, channel];
+    update({ ...settings, channels });
+  };
+
+  const move = (index: number, offset: number) => {
+    const channels = [...settings.channels];
+    [channels[index], channels[index + offset]] = [channels[index + offset], channels[index]];
+    update({ ...settings, channels });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await reminders.saveDelivery(settings);
+      setSaved(true);
+    } catch (err: any) {
+      onError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const disabled = ALL_CHANNELS.filter(c => !settings.channels.includes(c));
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 mb-6">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between px-4 py-3 text-sm"
+      >
+        <span className="font-medium text-gray-900">Notification delivery</span>
+        <span className="text-xs text-gray-500">
+          {settings.channels.map(c => CHANNEL_LABELS[c]).join(' → ')}
+          {settings.escalateAfterMinutes > 0 ? ` · escalate after ${settings.escalateAfterMinutes} min` : ''}
+        </span>
+      </button>
+
+      {open && (
+        <div className="border-t border-gray-100 px-4 py-3 space-y-3">
+          <p className="text-xs text-gray-500">
+            Reminders go to the first channel that works, in this order. Reply "done" or "snooze" to a notification to answer it.
+          </p>
+          <ul className="space-y-1">
+            {settings.channels.map((channel, i) => (
+              <li key={channel} className="flex items-center gap-2 text-sm">
+                <input type="checkbox" checked onChange={() => toggleChannel(channel)} disabled={settings.channels.length === 1} />
+                <span className="text-xs text-gray-400 w-4">{i + 1}.</span>
+                <span className="flex-1 text-gray-800">{CHANNEL_LABELS[channel]}</span>
+                <button onClick={() => move(i, -1)} disabled={i === 0} className="text-xs text-gray-400 hover:text-gray-700 disabled:opacity-30">Up</button>
+                <button onClick={() => move(i, 1)} disabled={i === settings.channels.length - 1} className="text-xs text-gray-400 hover:text-gray-700 disabled:opacity-30">Down</button>
+              </li>
+            ))}
+            {disabled.map(channel => (
+              <li key={channel} className="flex items-center gap-2 text-sm">
+                <input type="checkbox" checked={false} onChange={() => toggleChannel(channel)} />
+                <span className="w-4" />
+                <span className="flex-1 text-gray-400">{CHANNEL_LABELS[channel]}</span>
+              </li>
+            ))}
+          </ul>
+          <div className="flex items-center gap-2">
+            <label className="text-xs text-gray-500">If not answered, resend on the next channel after</label>
+            <input
+              type="number"
+              min={0}
+              value={settings.escalateAfterMinutes}
+              onChange={e => update({ ...settings, escalateAfterMinutes: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+              className="w-20 border border-gray-300 rounded-md px-2 py-1 text-xs text-gray-700 focus:outline-none focus:ring-2 focus:ring-hive-500 focus:border-transparent"
+            />
+            <span className="text-xs text-gray-500">minutes (0 = never)</span>
+          </div>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="px-3 py-1.5 bg-hive-500 text-white rounded-lg text-xs font-medium hover:bg-hive-600 disabled:opacity-50 transition-colors"
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+            {saved && <span className="text-xs text-green-600">Saved</span>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
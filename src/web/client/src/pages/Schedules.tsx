@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { schedules, workflows, ScheduleInfo, WorkflowInfo } from '../api';
+import { schedules, workflows, profile, ScheduleInfo, WorkflowInfo } from '../api';
 
 type Frequency = 'daily' | 'weekdays' | 'weekends' | 'specific';
 
@@ -129,9 +129,12 @@ export default function SchedulesPage() {
   const [editing, setEditing] = useState<string | null>(null);
   const [form, setForm] = useState<ScheduleForm>(emptyForm);
   const [deleting, setDeleting] = useState<string | null>(null);
+  // New schedules default to the user's own timezone
+  const [defaultTimezone, setDefaultTimezone] = useState(emptyForm.timezone);
 
   useEffect(() => {
     loadData();
+    profile.timezone().then(data => setDefaultTimezone(data.timezone)).catch(() => {});
   }, []);
 
   const loadData = async () => {
@@ -145,7 +148,7 @@ export default function SchedulesPage() {
   };
 
   const startCreate = () => {
-    setForm(emptyForm);
+    setForm({ ...emptyForm, timezone: defaultTimezone });
     setEditing('new');
     setError('');
   };
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { tools, ToolInfo } from '../api';
+import { tools, ToolInfo, ToolConfirmationMode, EnabledTools } from '../api';
 
 const TOOL_HINTS: Record<string, string> = {
   send_email: 'Ask Astra to email someone and she\'ll use this tool automatically.',
@@ -7,27 +7,58 @@ const TOOL_HINTS: Record<string, string> = {
   run_script: 'Ask Astra to run a script by name, e.g. "run csv-diff on my file".',
   fetch_rss: 'Ask Astra to check your RSS feeds or get news updates.',
   fetch_url: 'Ask Astra to read a web page or fetch data from a URL.',
+  web_search: 'Ask Astra to look something up online. Needs a search backend in the server config.',
 };
 
 const CATEGORY_ICONS: Record<string, string> = {
   Communication: '📧',
   Data: '📊',
+  Files: '📁',
+  Productivity: '📅',
   Utilities: '🔧',
   Other: '📦',
 };
 
 export default function ToolsPage() {
   const [toolList, setToolList] = useState<ToolInfo[]>([]);
+  const [confirmations, setConfirmations] = useState<Record<string, ToolConfirmationMode>>({});
+  const [enabledTools, setEnabledTools] = useState<EnabledTools>({ optIn: [], enabled: [] });
   const [error, setError] = useState('');
+  const [saveError, setSaveError] = useState('');
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    tools.list()
-      .then(setToolList)
+    Promise.all([tools.list(), tools.confirmations(), tools.enabled()])
+      .then(([list, policy, enabled]) => {
+        setToolList(list);
+        setConfirmations(policy);
+        setEnabledTools(enabled);
+      })
       .catch((err: any) => setError(err.message))
       .finally(() => setLoading(false));
   }, []);
 
+  const handleConfirmationChange = async (toolName: string, mode: ToolConfirmationMode) => {
+    setSaveError('');
+    try {
+      const saved = await tools.updateConfirmations({ ...confirmations, [toolName]: mode });
+      setConfirmations(saved);
+    } catch (err: any) {
+      setSaveError(err.message);
+    }
+  };
+
+  const handleEnabledChange = async (toolName: string, on: boolean) => {
+    setSaveError('');
+    try {
+      const others = enabledTools.enabled.filter(name => name !== toolName);
+      const saved = await tools.updateEnabled(on ? [...others, toolName] : others);
+      setEnabledTools(saved);
+    } catch (err: any) {
+      setSaveError(err.message);
+    }
+  };
+
   if (loading) {
     return <div className="text-gray-500">Loading tools...</div>;
   }
@@ -44,7 +75,7 @@ export default function ToolsPage() {
     grouped[cat].push(tool);
   }
 
-  const categoryOrder = ['Communication', 'Data', 'Utilities', 'Other'];
+  const categoryOrder = ['Communication', 'Productivity', 'Files', 'Data', 'Utilities', 'Other'];
   const sortedCategories = categoryOrder.filter(c => grouped[c]);
 
   return (
@@ -55,6 +86,10 @@ export default function ToolsPage() {
           These are the tools your AI assistant can use during conversations.
           Just ask naturally and she'll decide when to use them.
         </p>
+        <p className="text-gray-500 mt-1 text-sm">
+          Actions that send something or delete data ask for your OK first. Change that per tool below.
+        </p>
+        {saveError && <p className="text-red-500 text-sm mt-2">Failed to save: {saveError}</p>}
       </div>
 
       <div className="space-y-8">
@@ -79,6 +114,30 @@ export default function ToolsPage() {
                       {TOOL_HINTS[tool.name]}
                     </p>
                   )}
+                  {enabledTools.optIn.includes(tool.name) && (
+                    <label className="flex items-center gap-2 mt-3 text-xs text-gray-500">
+                      <input
+                        type="checkbox"
+                        checked={enabledTools.enabled.includes(tool.name)}
+                        onChange={e => handleEnabledChange(tool.name, e.target.checked)}
+                      />
+                      Use in chat (off by default; skill steps can list it either way)
+                    </label>
+                  )}
+                  {tool.risk !== 'none' && (
+                    <label className="flex items-center gap-2 mt-3 text-xs text-gray-500">
+                      Ask before using:
+                      <select
+                        value={confirmations[tool.name] || 'default'}
+                        onChange={e => handleConfirmationChange(tool.name, e.target.value as ToolConfirmationMode)}
+                        className="border border-gray-300 rounded px-1 py-0.5 text-xs"
+                      >
+                        <option value="default">{tool.risk === 'high' ? 'Default (sending/deleting)' : 'Default (never)'}</option>
+                        <option value="always">Always</option>
+                        <option value="never">Never</option>
+                      </select>
+                    </label>
+                  )}
                 </div>
               ))}
             </div>
@@ -1,22 +1,27 @@
 import { useState, useEffect } from 'react';
-import { workflows, scripts, skills, credentials, channelIdentities, tools, WorkflowInfo, WorkflowRunResult, WorkflowRunInfo, ScriptInfo, SkillInfo, CredentialInfo, ChannelIdentityInfo, ToolInfo } from '../api';
+import { workflows, scripts, skills, credentials, channelIdentities, tools, files, WorkflowInfo, WorkflowRunResult, WorkflowRunInfo, ScriptInfo, SkillInfo, CredentialInfo, ChannelIdentityInfo, ToolInfo, FileInfoResponse } from '../api';
 
 interface InputMapping {
-  type: 'static' | 'ref' | 'credential';
+  type: 'static' | 'ref' | 'credential' | 'file';
   value?: string;
   source?: string;
   credentialName?: string;
+  filename?: string;
 }
 
 interface StepDef {
   id: string;
-  type: 'script' | 'skill' | 'notify';
+  type: 'script' | 'skill' | 'notify' | 'query';
   scriptId?: string;
   skillName?: string;
+  skillNames?: string[];
   channel?: string;
   label?: string;
   inputs: Record<string, InputMapping>;
   tools?: string[];
+  files?: string[];
+  sql?: string;
+  limit?: number;
 }
 
 interface WorkflowForm {
@@ -31,6 +36,9 @@ const emptyForm: WorkflowForm = {
   steps: [],
 };
 
+/** Files a query step can load as tables. */
+const isTableFile = (name: string) => /\.(csv|xlsx|xls)$/i.test(name);
+
 let stepCounter = 0;
 function newStepId() {
   stepCounter += 1;
@@ -44,6 +52,7 @@ export default function WorkflowsPage() {
   const [credentialList, setCredentialList] = useState<CredentialInfo[]>([]);
   const [identityList, setIdentityList] = useState<ChannelIdentityInfo[]>([]);
   const [toolList, setToolList] = useState<ToolInfo[]>([]);
+  const [fileList, setFileList] = useState<FileInfoResponse[]>([]);
   const [error, setError] = useState('');
   const [saving, setSaving] = useState(false);
   const [running, setRunning] = useState<string | null>(null);
@@ -64,13 +73,14 @@ export default function WorkflowsPage() {
 
   const loadData = async () => {
     try {
-      const [w, s, sk, creds, ids, tls] = await Promise.all([
+      const [w, s, sk, creds, ids, tls, fls] = await Promise.all([
         workflows.list(),
         scripts.list(),
         skills.list(),
         credentials.list().catch(() => [] as CredentialInfo[]),
         channelIdentities.list().catch(() => [] as ChannelIdentityInfo[]),
-        tools.list().catch(() => [] as ToolInfo[])
+        tools.list().catch(() => [] as ToolInfo[]),
+        files.list().catch(() => [] as FileInfoResponse[])
       ]);
       setWorkflowList(w);
       setScriptList(s);
@@ -78,6 +88,7 @@ export default function WorkflowsPage() {
       setCredentialList(creds);
       setIdentityList(ids);
       setToolList(tls);
+      setFileList(fls);
     } catch (err: any) {
       setError(err.message);
     }
@@ -124,6 +135,7 @@ export default function WorkflowsPage() {
           type: s.type,
           scriptId,
           skillName: s.skillName,
+          skillNames: s.skillNames,
           channel: s.type === 'notify' ? (config.channel || s.channel || 'telegram') : s.channel,
           label: s.label || s.name,
           inputs,
@@ -131,6 +143,11 @@ export default function WorkflowsPage() {
         } as StepDef;
       }
 
+      // Older skill steps name a single skill
+      if (step.type === 'skill' && !step.skillNames?.length && step.skillName) {
+        step = { ...step, skillNames: [step.skillName], skillName: undefined };
+      }
+
       // Always normalize composite channel values like "telegram:7632128601"
       if (step.type === 'notify' && step.channel && step.channel.includes(':')) {
         const colonIdx = step.channel.indexOf(':');
@@ -162,7 +179,7 @@ export default function WorkflowsPage() {
     setRunResult(null);
   };
 
-  const addStep = (type: 'script' | 'skill' | 'notify') => {
+  const addStep = (type: StepDef['type']) => {
     const step: StepDef = { id: newStepId(), type, inputs: {} };
     if (type === 'notify') {
       step.channel = 'telegram';
@@ -406,7 +423,7 @@ export default function WorkflowsPage() {
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">Steps</label>
               {form.steps.length === 0 && (
-                <p className="text-sm text-gray-400 mb-2">No steps yet. Add a script, skill, or notify step below.</p>
+                <p className="text-sm text-gray-400 mb-2">No steps yet. Add a script, skill, query, or notify step below.</p>
               )}
               <div className="space-y-3">
                 {form.steps.map((step, idx) => (
@@ -417,6 +434,7 @@ export default function WorkflowsPage() {
                         <span className={`text-xs px-2 py-0.5 rounded-full ${
                           step.type === 'script' ? 'bg-blue-100 text-blue-700' :
                           step.type === 'notify' ? 'bg-green-100 text-green-700' :
+                          step.type === 'query' ? 'bg-amber-100 text-amber-700' :
                           'bg-purple-100 text-purple-700'
                         }`}>
                           {step.type}
@@ -448,17 +466,32 @@ export default function WorkflowsPage() {
                     )}
                     {step.type === 'skill' && (
                       <div className="mb-3">
-                        <label className="block text-xs text-gray-500 mb-1">Skill</label>
-                        <select
-                          value={step.skillName || ''}
-                          onChange={e => updateStep(idx, { skillName: e.target.value })}
-                          className="w-full border border-gray-300 rounded px-2 py-1.5 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-hive-500"
-                        >
-                          <option value="">Select a skill...</option>
-                          {skillList.map(s => (
-                            <option key={s.id} value={s.name}>{s.name}</option>
-                          ))}
-                        </select>
+                        <label className="block text-xs text-gray-500 mb-1">Skills</label>
+                        <p className="text-xs text-gray-400 mb-2">Used in the order you tick them; lower ones are dropped if they don't fit.</p>
+                        <div className="space-y-1">
+                          {skillList.map(sk => {
+                            const current = step.skillNames || [];
+                            const position = current.indexOf(sk.name);
+                            return (
+                              <label key={sk.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                                <input
+                                  type="checkbox"
+                                  checked={position !== -1}
+                                  onChange={e => {
+                                    const updated = e.target.checked
+                                      ? [...current, sk.name]
+                                      : current.filter(n => n !== sk.name);
+                                    updateStep(idx, { skillNames: updated.length > 0 ? updated : undefined, skillName: undefined });
+                                  }}
+                                />
+                                <span>{sk.name}</span>
+                                {position !== -1 && current.length > 1 && (
+                                  <span className="text-xs text-gray-400">#{position + 1}</span>
+                                )}
+                              </label>
+                            );
+                          })}
+                        </div>
                       </div>
                     )}
                     {step.type === 'skill' && toolList.length > 0 && (
@@ -554,6 +587,61 @@ export default function WorkflowsPage() {
                       </div>
                     )}
 
+                    {step.type === 'query' && (
+                      <div className="mb-3 space-y-3">
+                        <div>
+                          <label className="block text-xs text-gray-500 mb-1">Files</label>
+                          <p className="text-xs text-gray-400 mb-2">Each file becomes a table named after it (one per sheet for workbooks with several).</p>
+                          {fileList.filter(f => isTableFile(f.name)).length === 0 ? (
+                            <p className="text-xs text-amber-600">No CSV or Excel files yet. Upload one on the Files page.</p>
+                          ) : (
+                            <div className="space-y-1">
+                              {fileList.filter(f => isTableFile(f.name)).map(f => (
+                                <label key={f.name} className="flex items-center gap-2 text-sm cursor-pointer">
+                                  <input
+                                    type="checkbox"
+                                    checked={(step.files || []).includes(f.name)}
+                                    onChange={e => {
+                                      const current = step.files || [];
+                                      const updated = e.target.checked
+                                        ? [...current, f.name]
+                                        : current.filter(n => n !== f.name);
+                                      updateStep(idx, { files: updated.length > 0 ? updated : undefined });
+                                    }}
+                                  />
+                                  <span className="font-mono text-xs">{f.name}</span>
+                                </label>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                        <div>
+                          <label className="block text-xs text-gray-500 mb-1">SQL</label>
+                          <textarea
+                            value={step.sql || ''}
+                            onChange={e => updateStep(idx, { sql: e.target.value })}
+                            rows={4}
+                            className="w-full border border-gray-300 rounded px-2 py-1.5 text-xs font-mono focus:outline-none focus:ring-2 focus:ring-hive-500"
+                            placeholder="SELECT category, SUM(amount) AS total FROM budget GROUP BY category ORDER BY total DESC"
+                          />
+                          <p className="text-xs text-gray-400 mt-1">
+                            Read-only SQLite. Later steps can use <span className="font-mono">{step.id}.table</span> (a markdown table) or <span className="font-mono">{step.id}.rows</span>.
+                          </p>
+                        </div>
+                        <div>
+                          <label className="block text-xs text-gray-500 mb-1">Row limit</label>
+                          <input
+                            type="number"
+                            min={1}
+                            max={500}
+                            value={step.limit ?? 50}
+                            onChange={e => updateStep(idx, { limit: Number(e.target.value) || undefined })}
+                            className="w-24 border border-gray-300 rounded px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-hive-500"
+                          />
+                        </div>
+                      </div>
+                    )}
+
                     {/* Inputs */}
                     <div>
                       <label className="block text-xs text-gray-500 mb-1">Inputs</label>
@@ -563,12 +651,13 @@ export default function WorkflowsPage() {
                           <select
                             value={mapping.type}
                             onChange={e => {
-                              const newType = e.target.value as 'static' | 'ref' | 'credential';
+                              const newType = e.target.value as InputMapping['type'];
                               updateInput(idx, key, {
                                 type: newType,
                                 value: newType === 'static' ? mapping.value : undefined,
                                 source: newType === 'ref' ? mapping.source : undefined,
-                                credentialName: newType === 'credential' ? mapping.credentialName : undefined
+                                credentialName: newType === 'credential' ? mapping.credentialName : undefined,
+                                filename: newType === 'file' ? mapping.filename : undefined
                               });
                             }}
                             className="border border-gray-300 rounded px-1.5 py-1 text-xs bg-white"
@@ -576,6 +665,7 @@ export default function WorkflowsPage() {
                             <option value="static">Static</option>
                             <option value="ref">From step</option>
                             <option value="credential">Credential</option>
+                            <option value="file">File text</option>
                           </select>
                           {mapping.type === 'static' && (
                             <input
@@ -607,6 +697,19 @@ export default function WorkflowsPage() {
                               ))}
                             </select>
                           )}
+                          {mapping.type === 'file' && (
+                            <select
+                              value={mapping.filename || ''}
+                              onChange={e => updateInput(idx, key, { ...mapping, filename: e.target.value })}
+                              className="flex-1 border border-gray-300 rounded px-2 py-1 text-xs bg-white"
+                              title="Passes the file's text; PDF, Excel and Word files as extracted text"
+                            >
+                              <option value="">Select file...</option>
+                              {fileList.map(f => (
+                                <option key={f.name} value={f.name}>{f.name}</option>
+                              ))}
+                            </select>
+                          )}
                           <button
                             onClick={() => removeInput(idx, key)}
                             className="text-xs text-gray-400 hover:text-red-600"
@@ -642,6 +745,12 @@ export default function WorkflowsPage() {
                 >
                   + Skill Step
                 </button>
+                <button
+                  onClick={() => addStep('query')}
+                  className="px-3 py-1.5 border border-amber-300 rounded-lg text-xs text-amber-700 hover:bg-amber-50 transition-colors"
+                >
+                  + Query Step
+                </button>
                 <button
                   onClick={() => addStep('notify')}
                   className="px-3 py-1.5 border border-green-300 rounded-lg text-xs text-green-700 hover:bg-green-50 transition-colors"
@@ -706,13 +815,17 @@ export default function WorkflowsPage() {
                           <span key={s.id} className="flex items-center">
                             {i > 0 && <span className="text-gray-300 mx-1">&rarr;</span>}
                             <span className={`text-xs px-1.5 py-0.5 rounded ${
-                              s.type === 'script' ? 'bg-blue-50 text-blue-600' : 'bg-purple-50 text-purple-600'
+                              s.type === 'script' ? 'bg-blue-50 text-blue-600' :
+                              s.type === 'query' ? 'bg-amber-50 text-amber-600' :
+                              'bg-purple-50 text-purple-600'
                             }`}>
                               {s.type === 'script'
                                 ? scriptList.find(sc => sc.id === s.scriptId)?.name || s.scriptId || (s as any).config?.scriptName || s.id
                                 : s.type === 'notify'
                                 ? s.label || (s as any).name || 'notify'
-                                : s.skillName || s.id
+                                : s.type === 'query'
+                                ? s.label || `SQL: ${s.files?.join(', ') || s.id}`
+                                : s.skillNames?.join(' + ') || s.skillName || s.id
                               }
                             </span>
                           </span>
@@ -1,5 +1,19 @@
 import { useState, useEffect } from 'react';
-import { logs, DebugLogSummary, DebugLogDetail, LogsStatus } from '../../api';
+import { admin, logs, DebugLogSummary, DebugLogDetail, LogsStatus, RoutingLabels, RoutingEvalReport, ContextSectionUsage } from '../../api';
+
+const INTENTS = [
+  'greeting', 'conversation', 'personal', 'briefing', 'task_query',
+  'code', 'analysis', 'creative', 'file_operation', 'workflow_trigger'
+];
+const COMPLEXITIES = ['simple', 'medium', 'complex'];
+const MODELS = ['haiku', 'sonnet', 'opus'];
+const ROUTED_BY_LABELS: Record<NonNullable<DebugLogSummary['routedBy']>, string> = {
+  fast_path: 'Fast path',
+  llm: 'LLM',
+  fallback: 'Fallback defaults'
+};
+
+const pct = (n: number) => `${(n * 100).toFixed(1)}%`;
 
 export default function Logs() {
   const [status, setStatus] = useState<LogsStatus | null>(null);
@@ -14,10 +28,19 @@ export default function Logs() {
   const [loading, setLoading] = useState(false);
   const [clearing, setClearing] = useState(false);
   const [confirmClear, setConfirmClear] = useState<'all' | 'older' | null>(null);
+  const [labelDraft, setLabelDraft] = useState<RoutingLabels | null>(null);
+  const [savingLabel, setSavingLabel] = useState(false);
+  const [evalCandidates, setEvalCandidates] = useState('');
+  const [evalCorrectedOnly, setEvalCorrectedOnly] = useState(false);
+  const [evalRunning, setEvalRunning] = useState(false);
+  const [evalReport, setEvalReport] = useState<RoutingEvalReport | null>(null);
   const limit = 50;
 
   useEffect(() => {
     loadStatus();
+    admin.routingEvalDataset()
+      .then(d => setEvalCandidates(d.defaultCandidates.join(', ')))
+      .catch(() => {});
   }, []);
 
   useEffect(() => {
@@ -68,12 +91,57 @@ export default function Logs() {
     try {
       const data = await logs.get(id);
       setDetail(data);
+      setLabelDraft(data.label ?? { intent: data.intent, complexity: data.complexity, suggestedModel: data.suggestedModel });
       setExpandedId(id);
     } catch (err: any) {
       setError(err.message);
     }
   };
 
+  const saveLabel = async () => {
+    if (!detail || !labelDraft) return;
+    setSavingLabel(true);
+    try {
+      await logs.setLabel(detail.id, labelDraft);
+      const label = { ...labelDraft, updatedAt: new Date().toISOString() };
+      setDetail({ ...detail, label });
+      setLogList(logList.map(l => l.id === detail.id ? { ...l, label } : l));
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSavingLabel(false);
+    }
+  };
+
+  const clearLabel = async () => {
+    if (!detail) return;
+    try {
+      await logs.clearLabel(detail.id);
+      setDetail({ ...detail, label: null });
+      setLabelDraft({ intent: detail.intent, complexity: detail.complexity, suggestedModel: detail.suggestedModel });
+      setLogList(logList.map(l => l.id === detail.id ? { ...l, label: null } : l));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const runEval = async () => {
+    setEvalRunning(true);
+    setError('');
+    try {
+      const candidates = evalCandidates.split(',').map(c => c.trim()).filter(Boolean);
+      const report = await admin.runRoutingEval({
+        candidates: candidates.length ? candidates : undefined,
+        correctedOnly: evalCorrectedOnly,
+      });
+      setEvalReport(report);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setEvalRunning(false);
+    }
+  };
+
   const clearLogs = async (mode: 'all' | 'older') => {
     setClearing(true);
     try {
@@ -233,6 +301,11 @@ export default function Logs() {
                   </td>
                   <td className="px-4 py-3 text-xs">
                     <span className="px-2 py-0.5 rounded bg-gray-100 text-gray-700">{log.intent}</span>
+                    {log.label && log.label.intent !== log.intent && (
+                      <span className="ml-1 px-2 py-0.5 rounded bg-amber-100 text-amber-800" title="Corrected intent">
+                        → {log.label.intent}
+                      </span>
+                    )}
                   </td>
                   <td className="px-4 py-3 text-xs capitalize">{log.actualModel || log.suggestedModel}</td>
                   <td className="px-4 py-3 text-xs text-right font-mono">{log.tokensIn + log.tokensOut}</td>
@@ -271,7 +344,19 @@ export default function Logs() {
                             <div className="bg-white rounded p-2 border border-gray-200">
                               <span className="text-gray-500">Include Bio:</span> <span className="font-medium">{detail.includeBio ? 'Yes' : 'No'}</span>
                             </div>
-                            {detail.selectedSkill && (
+                            {detail.selectedSkills.length > 0 ? (
+                              <div className="bg-white rounded p-2 border border-gray-200 col-span-2">
+                                <span className="text-gray-500">Skills:</span>{' '}
+                                {detail.selectedSkills.map((sk, i) => (
+                                  <span key={sk.name}>
+                                    {i > 0 && ', '}
+                                    <span className={sk.included ? 'font-medium' : 'text-gray-400 line-through'} title={sk.included ? undefined : 'Did not fit the skill token budget'}>
+                                      {sk.name} ({Math.round(sk.confidence * 100)}%)
+                                    </span>
+                                  </span>
+                                ))}
+                              </div>
+                            ) : detail.selectedSkill && (
                               <div className="bg-white rounded p-2 border border-gray-200">
                                 <span className="text-gray-500">Skill:</span> <span className="font-medium">{detail.selectedSkill}</span>
                               </div>
@@ -282,9 +367,75 @@ export default function Logs() {
                             <div className="bg-white rounded p-2 border border-gray-200">
                               <span className="text-gray-500">Saved:</span> <span className="font-medium">{detail.tokensSaved}</span>
                             </div>
+                            <div className="bg-white rounded p-2 border border-gray-200">
+                              <span className="text-gray-500">Cache:</span>{' '}
+                              <span className="font-medium">
+                                {detail.cacheReadTokens} read / {detail.cacheCreationTokens} written
+                              </span>
+                            </div>
+                            {detail.routedBy && (
+                              <div className="bg-white rounded p-2 border border-gray-200">
+                                <span className="text-gray-500">Routed by:</span>{' '}
+                                <span className="font-medium">{ROUTED_BY_LABELS[detail.routedBy]}</span>
+                              </div>
+                            )}
+                            {detail.retryCount > 0 && (
+                              <div className="bg-white rounded p-2 border border-gray-200">
+                                <span className="text-gray-500">Retries:</span> <span className="font-medium">{detail.retryCount}</span>
+                              </div>
+                            )}
                           </div>
                         </div>
 
+                        {/* Context token breakdown */}
+                        {detail.contextSections?.length > 0 && (
+                          <ContextBreakdown sections={detail.contextSections} budget={detail.contextBudget} />
+                        )}
+
+                        {/* Routing correction */}
+                        {labelDraft && (
+                          <div>
+                            <h4 className="text-xs font-semibold text-gray-500 uppercase mb-1">
+                              Correct Routing {detail.label && <span className="normal-case font-normal text-amber-700">(corrected)</span>}
+                            </h4>
+                            <div className="flex flex-wrap items-center gap-2 text-xs">
+                              <select
+                                value={labelDraft.intent}
+                                onChange={e => setLabelDraft({ ...labelDraft, intent: e.target.value })}
+                                className="border border-gray-300 rounded px-2 py-1"
+                              >
+                                {INTENTS.map(i => <option key={i} value={i}>{i}</option>)}
+                              </select>
+                              <select
+                                value={labelDraft.complexity}
+                                onChange={e => setLabelDraft({ ...labelDraft, complexity: e.target.value })}
+                                className="border border-gray-300 rounded px-2 py-1"
+                              >
+                                {COMPLEXITIES.map(c => <option key={c} value={c}>{c}</option>)}
+                              </select>
+                              <select
+                                value={labelDraft.suggestedModel}
+                                onChange={e => setLabelDraft({ ...labelDraft, suggestedModel: e.target.value })}
+                                className="border border-gray-300 rounded px-2 py-1"
+                              >
+                                {MODELS.map(m => <option key={m} value={m}>{m}</option>)}
+                              </select>
+                              <button
+                                onClick={saveLabel}
+                                disabled={savingLabel}
+                                className="px-2.5 py-1 font-medium text-white bg-hive-500 rounded-md hover:bg-hive-600 disabled:opacity-50"
+                              >
+                                {savingLabel ? 'Saving...' : 'Save label'}
+                              </button>
+                              {detail.label && (
+                                <button onClick={clearLabel} className="px-2.5 py-1 text-gray-500 hover:text-gray-700">
+                                  Remove
+                                </button>
+                              )}
+                            </div>
+                          </div>
+                        )}
+
                         {/* System prompt */}
                         <div>
                           <h4 className="text-xs font-semibold text-gray-500 uppercase mb-1">System Prompt</h4>
@@ -301,6 +452,30 @@ export default function Logs() {
                           </pre>
                         </div>
 
+                        {/* Tool calls */}
+                        {detail.toolCalls && detail.toolCalls.length > 0 && (
+                          <div>
+                            <h4 className="text-xs font-semibold text-gray-500 uppercase mb-1">Tool Calls</h4>
+                            <div className="space-y-2">
+                              {detail.toolCalls.map((call, i) => (
+                                <div key={i} className="text-xs bg-white rounded p-3 border border-gray-200">
+                                  <div className="flex items-center gap-2 mb-1">
+                                    <span className="font-medium">{call.name}</span>
+                                    <span className="text-gray-400">{call.durationMs}ms</span>
+                                    {call.error && <span className="text-red-600">{call.error}</span>}
+                                  </div>
+                                  <pre className="max-h-32 overflow-auto whitespace-pre-wrap text-gray-600">
+                                    {JSON.stringify(call.input, null, 2)}
+                                  </pre>
+                                  <pre className="mt-1 max-h-32 overflow-auto whitespace-pre-wrap text-gray-600 border-t border-gray-100 pt-1">
+                                    {call.output}
+                                  </pre>
+                                </div>
+                              ))}
+                            </div>
+                          </div>
+                        )}
+
                         {/* Response */}
                         <div>
                           <h4 className="text-xs font-semibold text-gray-500 uppercase mb-1">Response</h4>
@@ -355,6 +530,122 @@ export default function Logs() {
           </div>
         </div>
       )}
+
+      {/* Routing evaluation */}
+      <div className="bg-white rounded-xl border border-gray-200 p-5 mt-6">
+        <h2 className="font-semibold">Routing Evaluation</h2>
+        <p className="text-sm text-gray-500 mt-1 mb-4">
+          Replay logged messages through routing providers and compare with the routing they got, or your corrections.
+        </p>
+        <div className="flex flex-wrap items-center gap-3">
+          <input
+            value={evalCandidates}
+            onChange={e => setEvalCandidates(e.target.value)}
+            placeholder="haiku, ollama:llama3.2"
+            className="border border-gray-300 rounded-lg px-3 py-1.5 text-sm flex-1 min-w-[16rem]"
+          />
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            <input type="checkbox" checked={evalCorrectedOnly} onChange={e => setEvalCorrectedOnly(e.target.checked)} />
+            Corrected only
+          </label>
+          <button
+            onClick={runEval}
+            disabled={evalRunning}
+            className="px-4 py-1.5 text-sm font-medium text-white bg-hive-500 rounded-lg hover:bg-hive-600 disabled:opacity-50"
+          >
+            {evalRunning ? 'Running...' : 'Run'}
+          </button>
+        </div>
+
+        {evalReport && (
+          <div className="mt-5 space-y-5">
+            <p className="text-xs text-gray-500">
+              {evalReport.dataset.total} messages ({evalReport.dataset.corrected} corrected), {(evalReport.durationMs / 1000).toFixed(1)}s
+            </p>
+            {evalReport.candidates.map(c => {
+              const expected = Object.keys(c.confusion).sort();
+              const predicted = [...new Set([...expected, ...Object.values(c.confusion).flatMap(row => Object.keys(row))])].sort();
+              return (
+                <div key={c.candidate} className="border border-gray-200 rounded-lg p-4">
+                  <h3 className="font-medium text-sm mb-2">{c.candidate}</h3>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-xs mb-3">
+                    <div><span className="text-gray-500">Intent:</span> <span className="font-medium">{pct(c.intentAccuracy)}</span></div>
+                    <div><span className="text-gray-500">Complexity:</span> <span className="font-medium">{pct(c.complexityAccuracy)}</span></div>
+                    <div><span className="text-gray-500">Model:</span> <span className="font-medium">{pct(c.modelAccuracy)}</span></div>
+                    <div><span className="text-gray-500">All three:</span> <span className="font-medium">{pct(c.exactAccuracy)}</span></div>
+                    <div><span className="text-gray-500">Latency:</span> <span className="font-medium">{c.latencyMs.p50}ms p50 / {c.latencyMs.p95}ms p95</span></div>
+                    <div><span className="text-gray-500">Cost:</span> <span className="font-medium">${(c.costCents / 100).toFixed(4)}</span></div>
+                    <div><span className="text-gray-500">Per 1k msgs:</span> <span className="font-medium">${(c.costPer1kMessagesCents / 100).toFixed(4)}</span></div>
+                    {c.errors > 0 && <div className="text-red-600">Errors: {c.errors}</div>}
+                  </div>
+                  <div className="overflow-x-auto">
+                    <table className="text-xs font-mono">
+                      <thead>
+                        <tr>
+                          <th className="px-2 py-1 text-left text-gray-400 font-normal">expected \ predicted</th>
+                          {predicted.map(p => <th key={p} className="px-2 py-1 text-right text-gray-500 font-normal">{p}</th>)}
+                          <th className="px-2 py-1 text-right text-gray-500 font-normal">recall</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {expected.map(intent => (
+                          <tr key={intent}>
+                            <td className="px-2 py-1 text-gray-600">{intent}</td>
+                            {predicted.map(p => {
+                              const n = c.confusion[intent][p] || 0;
+                              return (
+                                <td key={p} className={`px-2 py-1 text-right ${n === 0 ? 'text-gray-300' : p === intent ? 'text-green-700' : 'text-red-600'}`}>
+                                  {n || '·'}
+                                </td>
+                              );
+                            })}
+                            <td className="px-2 py-1 text-right">{pct(c.perIntent[intent].recall)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/** Tokens per context section as bars, with the part cut to fit the budget shown faded. */
+function ContextBreakdown({ sections, budget }: { sections: ContextSectionUsage[]; budget: number | null }) {
+  const total = sections.reduce((sum, sec) => sum + sec.tokens, 0);
+  const largest = Math.max(...sections.map(sec => sec.originalTokens), 1);
+  const shrunk = sections.some(sec => sec.tokens < sec.originalTokens);
+
+  return (
+    <div>
+      <h4 className="text-xs font-semibold text-gray-500 uppercase mb-1">
+        Context Tokens{' '}
+        <span className="normal-case font-normal">
+          ({total.toLocaleString()}{budget ? ` of ${budget.toLocaleString()} budget` : ''}
+          {shrunk && <span className="text-amber-700">, shrunk to fit</span>})
+        </span>
+      </h4>
+      <div className="bg-white rounded p-3 border border-gray-200 space-y-1">
+        {sections.map(sec => (
+          <div key={sec.name} className="flex items-center gap-2 text-xs">
+            <span className="w-24 text-gray-600">{sec.name.replace('_', ' ')}</span>
+            <div className="flex-1 h-2 bg-gray-100 rounded overflow-hidden flex">
+              <div className="h-full bg-hive-400" style={{ width: `${(sec.tokens / largest) * 100}%` }} />
+              <div className="h-full bg-amber-200" style={{ width: `${((sec.originalTokens - sec.tokens) / largest) * 100}%` }} />
+            </div>
+            <span className="w-28 text-right font-mono text-gray-600">
+              {sec.tokens < sec.originalTokens
+                ? <span title="Shrunk to fit the budget">{sec.originalTokens.toLocaleString()} → {sec.tokens.toLocaleString()}</span>
+                : sec.tokens.toLocaleString()}
+            </span>
+          </div>
+        ))}
+      </div>
     </div>
   );
 }
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { admin, SystemConfig } from '../../api';
+import { admin, SystemConfig, FastPathStatus } from '../../api';
 
 type ModelOption = 'haiku' | 'sonnet' | 'opus';
 const MODEL_OPTIONS: ModelOption[] = ['haiku', 'sonnet', 'opus'];
@@ -13,7 +13,9 @@ export default function System() {
 
   // Editable state
   const [executor, setExecutor] = useState({ default: 'sonnet', simple: 'haiku', complex: 'opus' });
-  const [orchestrator, setOrchestrator] = useState<{ provider: string; fallback: string | null; options?: any }>({ provider: 'haiku', fallback: null });
+  const [orchestrator, setOrchestrator] = useState<{ provider: string; fallback: string | null; options?: any; fastPath?: { enabled?: boolean; threshold?: number } }>({ provider: 'haiku', fallback: null });
+  const [fastPath, setFastPath] = useState<FastPathStatus | null>(null);
+  const [training, setTraining] = useState<{ running: boolean; message: string }>({ running: false, message: '' });
   const [channelsWa, setChannelsWa] = useState({ enabled: false, number: '' });
   const [channelsTg, setChannelsTg] = useState({ enabled: false });
   const [web, setWeb] = useState({ port: 3000, host: 'localhost' });
@@ -38,7 +40,8 @@ export default function System() {
       const data = await admin.system();
       setConfig(data);
       setExecutor({ ...data.ai.executor });
-      setOrchestrator({ provider: data.orchestrator.provider, fallback: data.orchestrator.fallback, options: data.orchestrator.options });
+      setOrchestrator({ provider: data.orchestrator.provider, fallback: data.orchestrator.fallback, options: data.orchestrator.options, fastPath: data.orchestrator.fastPath });
+      setFastPath(await admin.fastPath());
       setChannelsWa({ enabled: data.channels.whatsapp.enabled, number: data.channels.whatsapp.number || '' });
       setChannelsTg({ enabled: data.channels.telegram.enabled });
       setWeb({ port: data.web?.port || 3000, host: data.web?.host || 'localhost' });
@@ -50,6 +53,17 @@ export default function System() {
     }
   };
 
+  // Anthropic tiers, configured providers with a default model, and the
+  // current value (which may be an explicit "<provider>:<model>" reference)
+  const modelOptions = (current: string): string[] => {
+    const providerRefs = Object.entries(config?.ai.providers || {})
+      .filter(([, p]) => p.model)
+      .map(([name]) => name);
+    const options: string[] = [...MODEL_OPTIONS, ...providerRefs];
+    if (current && !options.includes(current)) options.push(current);
+    return options;
+  };
+
   const handleSave = async () => {
     setSaving(true);
     setError('');
@@ -149,6 +163,22 @@ export default function System() {
     }
   };
 
+  const handleTrainFastPath = async () => {
+    setTraining({ running: true, message: '' });
+    try {
+      const report = await admin.trainFastPath();
+      const coverage = report.holdout ? Math.round((report.covered / report.holdout) * 100) : 0;
+      const accuracy = report.covered ? Math.round((report.correct / report.covered) * 100) : 0;
+      setTraining({
+        running: false,
+        message: `Trained on ${report.examples} messages. On held-out messages it skips the LLM for ${coverage}%, matching the label ${accuracy}% of the time.`,
+      });
+      setFastPath(await admin.fastPath());
+    } catch (err: any) {
+      setTraining({ running: false, message: err.message });
+    }
+  };
+
   if (!config) {
     return <div className="text-gray-400">Loading system configuration...</div>;
   }
@@ -187,21 +217,37 @@ export default function System() {
             <div className="flex items-center justify-between">
               <label className={labelClass}>Default Model</label>
               <select className={selectClass} value={executor.default} onChange={e => setExecutor({ ...executor, default: e.target.value })}>
-                {MODEL_OPTIONS.map(m => <option key={m} value={m}>{m}</option>)}
+                {modelOptions(executor.default).map(m => <option key={m} value={m}>{m}</option>)}
               </select>
             </div>
             <div className="flex items-center justify-between">
               <label className={labelClass}>Simple Tasks</label>
               <select className={selectClass} value={executor.simple} onChange={e => setExecutor({ ...executor, simple: e.target.value })}>
-                {MODEL_OPTIONS.map(m => <option key={m} value={m}>{m}</option>)}
+                {modelOptions(executor.simple).map(m => <option key={m} value={m}>{m}</option>)}
               </select>
             </div>
             <div className="flex items-center justify-between">
               <label className={labelClass}>Complex Tasks</label>
               <select className={selectClass} value={executor.complex} onChange={e => setExecutor({ ...executor, complex: e.target.value })}>
-                {MODEL_OPTIONS.map(m => <option key={m} value={m}>{m}</option>)}
+                {modelOptions(executor.complex).map(m => <option key={m} value={m}>{m}</option>)}
               </select>
             </div>
+            {Object.keys(config.ai.providers || {}).length > 0 && (
+              <div className="border-t border-gray-100 pt-3">
+                <label className={labelClass}>Providers</label>
+                <ul className="mt-1 space-y-1">
+                  {Object.entries(config.ai.providers).map(([name, p]) => (
+                    <li key={name} className="text-xs text-gray-600 flex items-center justify-between">
+                      <span className="font-medium">{name}</span>
+                      <span className="text-gray-400">
+                        {p.type}{p.endpoint ? ` @ ${p.endpoint}` : ''}{p.model ? ` · ${p.model}` : ''}
+                        {p.pricing ? ` · $${p.pricing.input}/$${p.pricing.output} per 1M` : ' · free'}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
             <div className="border-t border-gray-100 pt-3">
               <div className="flex items-center justify-between mb-2">
                 <label className={labelClass}>API Key</label>
@@ -290,6 +336,53 @@ export default function System() {
                 </div>
               </>
             )}
+            <div className="border-t border-gray-100 pt-3 space-y-3">
+              <div className="flex items-center justify-between">
+                <div>
+                  <label className="text-sm font-medium">Local fast path</label>
+                  <p className="text-xs text-gray-500 mt-0.5">
+                    Settle greetings, thanks, workflow commands and confidently classified messages without an LLM call.
+                  </p>
+                </div>
+                <button
+                  onClick={() => setOrchestrator({ ...orchestrator, fastPath: { ...orchestrator.fastPath, enabled: orchestrator.fastPath?.enabled === false } })}
+                  className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                    orchestrator.fastPath?.enabled !== false ? 'bg-hive-500' : 'bg-gray-300'
+                  }`}
+                >
+                  <span className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                    orchestrator.fastPath?.enabled !== false ? 'translate-x-6' : 'translate-x-1'
+                  }`} />
+                </button>
+              </div>
+              <div className="flex items-center justify-between">
+                <label className={labelClass}>Confidence threshold</label>
+                <input
+                  type="number"
+                  min={0.5}
+                  max={1}
+                  step={0.01}
+                  className="border border-gray-300 rounded-lg px-3 py-1.5 text-sm w-24"
+                  value={orchestrator.fastPath?.threshold ?? fastPath?.threshold ?? 0.9}
+                  onChange={e => setOrchestrator({ ...orchestrator, fastPath: { ...orchestrator.fastPath, threshold: parseFloat(e.target.value) } })}
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-gray-500">
+                  {fastPath?.trained
+                    ? `Model trained on ${fastPath.examples} messages, ${new Date(fastPath.trainedAt!).toLocaleString()}`
+                    : 'No trained model yet — keyword rules only'}
+                </span>
+                <button
+                  onClick={handleTrainFastPath}
+                  disabled={training.running}
+                  className="px-4 py-1.5 text-sm bg-gray-800 text-white rounded-lg hover:bg-gray-900 disabled:opacity-50"
+                >
+                  {training.running ? 'Training...' : 'Train from logs'}
+                </button>
+              </div>
+              {training.message && <div className="text-sm p-2 rounded bg-gray-50 text-gray-700">{training.message}</div>}
+            </div>
           </div>
         </div>
 
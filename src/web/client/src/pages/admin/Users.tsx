@@ -1,10 +1,12 @@
 import { useState, useEffect } from 'react';
-import { admin, AdminUser } from '../../api';
+import { admin, AdminUser, AdminBudget } from '../../api';
 import { useAuth } from '../../auth-context';
 
 export default function Users() {
   const { user: currentUser } = useAuth();
   const [users, setUsers] = useState<AdminUser[]>([]);
+  const [budgets, setBudgets] = useState<AdminBudget[]>([]);
+  const [budgetForm, setBudgetForm] = useState({ scope: 'user' as 'user' | 'team', targetId: '', daily: '', monthly: '' });
   const [error, setError] = useState('');
 
   useEffect(() => {
@@ -13,13 +15,55 @@ export default function Users() {
 
   const loadUsers = async () => {
     try {
-      const data = await admin.users();
+      const [data, budgetData] = await Promise.all([admin.users(), admin.budgets()]);
       setUsers(data);
+      setBudgets(budgetData);
     } catch (err: any) {
       setError(err.message);
     }
   };
 
+  const editTeam = async (u: AdminUser) => {
+    const team = prompt(`Team for ${u.email} (leave empty for none):`, u.team || '');
+    if (team === null) return;
+    try {
+      await admin.setTeam(u.userId, team.trim() || null);
+      await loadUsers();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const saveBudget = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const toCents = (dollars: string) => dollars.trim() ? Math.round(parseFloat(dollars) * 100) : null;
+    try {
+      await admin.saveBudget(budgetForm.scope, budgetForm.targetId, {
+        dailyCents: toCents(budgetForm.daily),
+        monthlyCents: toCents(budgetForm.monthly),
+      });
+      setBudgetForm({ ...budgetForm, targetId: '', daily: '', monthly: '' });
+      await loadUsers();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const deleteBudget = async (b: AdminBudget) => {
+    try {
+      await admin.deleteBudget(b.scope, b.targetId);
+      await loadUsers();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const formatCap = (limit: number | null, spent: number | null) =>
+    limit === null ? '—' : `$${((spent ?? 0) / 100).toFixed(2)} / $${(limit / 100).toFixed(2)}`;
+  const budgetLabel = (b: AdminBudget) =>
+    b.scope === 'team' ? `Team ${b.targetId}` : users.find(u => u.userId === b.targetId)?.email || b.targetId;
+  const teams = [...new Set(users.map(u => u.team).filter((t): t is string => !!t))];
+
   const toggleAdmin = async (userId: string, isAdmin: boolean) => {
     try {
       await admin.setRole(userId, isAdmin);
@@ -53,6 +97,7 @@ export default function Users() {
             <tr>
               <th className="text-left px-5 py-3 text-sm font-medium text-gray-500">Email</th>
               <th className="text-left px-5 py-3 text-sm font-medium text-gray-500">Role</th>
+              <th className="text-left px-5 py-3 text-sm font-medium text-gray-500">Team</th>
               <th className="text-left px-5 py-3 text-sm font-medium text-gray-500">Last Login</th>
               <th className="text-left px-5 py-3 text-sm font-medium text-gray-500">Joined</th>
               <th className="text-right px-5 py-3 text-sm font-medium text-gray-500">Actions</th>
@@ -74,6 +119,11 @@ export default function Users() {
                     {u.isAdmin ? 'Admin' : 'Member'}
                   </span>
                 </td>
+                <td className="px-5 py-3 text-sm">
+                  <button onClick={() => editTeam(u)} className="text-gray-600 hover:text-hive-700">
+                    {u.team || <span className="text-gray-400">None</span>}
+                  </button>
+                </td>
                 <td className="px-5 py-3 text-sm text-gray-500">{formatDate(u.lastLogin)}</td>
                 <td className="px-5 py-3 text-sm text-gray-500">{formatDate(u.createdAt)}</td>
                 <td className="px-5 py-3 text-sm text-right">
@@ -103,6 +153,85 @@ export default function Users() {
           <div className="p-8 text-center text-gray-400">No users found.</div>
         )}
       </div>
+
+      <h2 className="text-lg font-semibold mt-8 mb-2">Budgets</h2>
+      <p className="text-sm text-gray-500 mb-4">
+        Daily and monthly spending caps. Near a cap the assistant switches to the simple model tier;
+        at the cap it stops answering until the period resets.
+      </p>
+
+      <form onSubmit={saveBudget} className="bg-white rounded-xl border border-gray-200 p-5 mb-4 flex flex-wrap items-end gap-3">
+        <select
+          value={budgetForm.scope}
+          onChange={e => setBudgetForm({ ...budgetForm, scope: e.target.value as 'user' | 'team', targetId: '' })}
+          className="text-sm border border-gray-300 rounded-lg px-3 py-2"
+        >
+          <option value="user">User</option>
+          <option value="team">Team</option>
+        </select>
+        <select
+          value={budgetForm.targetId}
+          onChange={e => setBudgetForm({ ...budgetForm, targetId: e.target.value })}
+          className="text-sm border border-gray-300 rounded-lg px-3 py-2"
+          required
+        >
+          <option value="">Select...</option>
+          {budgetForm.scope === 'user'
+            ? users.map(u => <option key={u.userId} value={u.userId}>{u.email}</option>)
+            : teams.map(t => <option key={t} value={t}>{t}</option>)}
+        </select>
+        <input
+          type="number" min="0" step="0.01" placeholder="Daily $"
+          value={budgetForm.daily}
+          onChange={e => setBudgetForm({ ...budgetForm, daily: e.target.value })}
+          className="w-28 text-sm border border-gray-300 rounded-lg px-3 py-2"
+        />
+        <input
+          type="number" min="0" step="0.01" placeholder="Monthly $"
+          value={budgetForm.monthly}
+          onChange={e => setBudgetForm({ ...budgetForm, monthly: e.target.value })}
+          className="w-28 text-sm border border-gray-300 rounded-lg px-3 py-2"
+        />
+        <button
+          type="submit"
+          disabled={!budgetForm.targetId || (!budgetForm.daily && !budgetForm.monthly)}
+          className="px-4 py-2 bg-hive-500 text-white rounded-lg text-sm font-medium hover:bg-hive-600 transition-colors disabled:opacity-50"
+        >
+          Set budget
+        </button>
+      </form>
+
+      {budgets.length > 0 && (
+        <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="text-left px-5 py-3 text-sm font-medium text-gray-500">Applies to</th>
+                <th className="text-left px-5 py-3 text-sm font-medium text-gray-500">Today</th>
+                <th className="text-left px-5 py-3 text-sm font-medium text-gray-500">This month</th>
+                <th className="text-right px-5 py-3 text-sm font-medium text-gray-500">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {budgets.map(b => (
+                <tr key={`${b.scope}-${b.targetId}`}>
+                  <td className="px-5 py-3 text-sm">{budgetLabel(b)}</td>
+                  <td className="px-5 py-3 text-sm text-gray-500">{formatCap(b.dailyCents, b.dailySpentCents)}</td>
+                  <td className="px-5 py-3 text-sm text-gray-500">{formatCap(b.monthlyCents, b.monthlySpentCents)}</td>
+                  <td className="px-5 py-3 text-sm text-right">
+                    <button
+                      onClick={() => deleteBudget(b)}
+                      className="text-xs px-3 py-1 border border-red-300 text-red-600 rounded hover:bg-red-50 transition-colors"
+                    >
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
     </div>
   );
 }
@@ -1,11 +1,15 @@
 import { Router, Request, Response } from 'express';
-import { Database as IDatabase } from '../../db/interface';
+import { Budget, Database as IDatabase } from '../../db/interface';
 import { requireAuth, requireAdmin } from '../middleware/auth';
 import { getConfig, saveConfig } from '../../utils/config';
-import { testOllamaConnection } from '../../core/orchestrator';
+import { Orchestrator, testOllamaConnection } from '../../core/orchestrator';
+import { DEFAULT_CONFIDENCE_THRESHOLD, IntentClassifier } from '../../core/intent-classifier';
+import { BudgetService } from '../../services/budget';
+import { defaultCandidates, RoutingEvalService } from '../../services/routing-eval';
 
-export function createAdminRoutes(db: IDatabase): Router {
+export function createAdminRoutes(db: IDatabase, budgets: BudgetService, orchestrator?: Orchestrator): Router {
   const router = Router();
+  const routingEval = new RoutingEvalService(db);
 
   router.use(requireAuth);
   router.use(requireAdmin);
@@ -21,6 +25,7 @@ export function createAdminRoutes(db: IDatabase): Router {
         userId: u.userId,
         email: u.email,
         isAdmin: u.isAdmin,
+        team: u.team || null,
         lastLogin: u.lastLogin,
         createdAt: u.createdAt
       })));
@@ -57,6 +62,33 @@ export function createAdminRoutes(db: IDatabase): Router {
     }
   });
 
+  /**
+   * PUT /api/admin/users/:id/team
+   * Assign a user to a team (shares the team's budget), or remove them with null.
+   */
+  router.put('/users/:id/team', async (req: Request, res: Response) => {
+    try {
+      const id = req.params.id as string;
+      const { team } = req.body;
+
+      if (team !== null && (typeof team !== 'string' || !team.trim())) {
+        res.status(400).json({ error: 'team must be a non-empty string or null' });
+        return;
+      }
+
+      if (!await db.getUserAuthByUserId(id)) {
+        res.status(404).json({ error: 'User not found' });
+        return;
+      }
+
+      await db.updateUserAuthTeam(id, team === null ? null : team.trim());
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error('[Admin] Update team error:', error.message);
+      res.status(500).json({ error: 'Failed to update user team' });
+    }
+  });
+
   /**
    * DELETE /api/admin/users/:id
    * Delete a user.
@@ -106,6 +138,82 @@ export function createAdminRoutes(db: IDatabase): Router {
     }
   });
 
+  /**
+   * GET /api/admin/budgets
+   * List all spending caps with this period's spend.
+   */
+  router.get('/budgets', async (_req: Request, res: Response) => {
+    try {
+      const list = await db.listBudgets();
+      const withSpend = await Promise.all(list.map(async (b) => {
+        // A member's status includes the team cap; pick out the one for this budget
+        const memberId = b.scope === 'user' ? b.targetId : (await db.getTeamMemberIds(b.targetId))[0];
+        const status = memberId ? await budgets.getStatus(memberId) : null;
+        const spent = (period: 'daily' | 'monthly') => status?.limits.find(
+          l => l.scope === b.scope && l.targetId === b.targetId && l.period === period
+        )?.spentCents ?? null;
+        return { ...b, dailySpentCents: spent('daily'), monthlySpentCents: spent('monthly') };
+      }));
+      res.json(withSpend);
+    } catch (error: any) {
+      console.error('[Admin] List budgets error:', error.message);
+      res.status(500).json({ error: 'Failed to list budgets' });
+    }
+  });
+
+  /**
+   * PUT /api/admin/budgets/:scope/:targetId
+   * Set a user's or team's caps in cents.
+   * Body: { dailyCents: number | null, monthlyCents: number | null } — null means no cap.
+   */
+  router.put('/budgets/:scope/:targetId', async (req: Request, res: Response) => {
+    try {
+      const scope = req.params.scope as Budget['scope'];
+      const targetId = req.params.targetId as string;
+      const { dailyCents = null, monthlyCents = null } = req.body || {};
+
+      if (scope !== 'user' && scope !== 'team') {
+        res.status(400).json({ error: 'scope must be user or team' });
+        return;
+      }
+      for (const [name, value] of [['dailyCents', dailyCents], ['monthlyCents', monthlyCents]] as const) {
+        if (value !== null && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+          res.status(400).json({ error: `${name} must be a non-negative number or null` });
+          return;
+        }
+      }
+      if (dailyCents === null && monthlyCents === null) {
+        res.status(400).json({ error: 'Set dailyCents or monthlyCents, or delete the budget' });
+        return;
+      }
+      if (scope === 'user' && !await db.getUserAuthByUserId(targetId)) {
+        res.status(404).json({ error: 'User not found' });
+        return;
+      }
+
+      await db.saveBudget({ scope, targetId, dailyCents, monthlyCents });
+      res.json(await db.getBudget(scope, targetId));
+    } catch (error: any) {
+      console.error('[Admin] Save budget error:', error.message);
+      res.status(500).json({ error: 'Failed to save budget' });
+    }
+  });
+
+  /**
+   * DELETE /api/admin/budgets/:scope/:targetId
+   * Remove a user's or team's caps.
+   */
+  router.delete('/budgets/:scope/:targetId', async (req: Request, res: Response) => {
+    try {
+      const scope = req.params.scope as Budget['scope'];
+      await db.deleteBudget(scope, req.params.targetId as string);
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error('[Admin] Delete budget error:', error.message);
+      res.status(500).json({ error: 'Failed to delete budget' });
+    }
+  });
+
   /**
    * GET /api/admin/system
    * Get system configuration (non-sensitive fields).
@@ -119,12 +227,23 @@ export function createAdminRoutes(db: IDatabase): Router {
         ai: {
           provider: config.ai?.provider,
           hasApiKey: !!(config.ai?.apiKey || process.env.ANTHROPIC_API_KEY),
-          executor: config.ai?.executor
+          executor: config.ai?.executor,
+          // Provider API keys are credentials; only report whether one is set
+          providers: Object.fromEntries(
+            Object.entries(config.ai?.providers || {}).map(([name, p]) => [name, {
+              type: p.type,
+              endpoint: p.endpoint || '',
+              model: p.model || '',
+              hasApiKey: !!p.apiKey,
+              pricing: p.pricing || null
+            }])
+          )
         },
         orchestrator: {
           provider: config.orchestrator?.provider,
           fallback: config.orchestrator?.fallback,
-          options: config.orchestrator?.options
+          options: config.orchestrator?.options,
+          fastPath: config.orchestrator?.fastPath
         },
         channels: {
           whatsapp: {
@@ -189,6 +308,9 @@ export function createAdminRoutes(db: IDatabase): Router {
         if (updates.orchestrator.options !== undefined) {
           config.orchestrator.options = { ...config.orchestrator.options, ...updates.orchestrator.options };
         }
+        if (updates.orchestrator.fastPath !== undefined) {
+          config.orchestrator.fastPath = { ...config.orchestrator.fastPath, ...updates.orchestrator.fastPath };
+        }
       }
 
       // Channels (enable/disable and non-sensitive fields)
@@ -279,6 +401,90 @@ export function createAdminRoutes(db: IDatabase): Router {
     }
   });
 
+  /**
+   * GET /api/admin/routing-eval
+   * Size of the routing evaluation dataset and the default candidates.
+   */
+  router.get('/routing-eval', async (req: Request, res: Response) => {
+    try {
+      const limit = parseInt(req.query.limit as string) || undefined;
+      const dataset = await routingEval.buildDataset({ limit });
+      res.json({
+        total: dataset.length,
+        corrected: dataset.filter(e => e.corrected).length,
+        defaultCandidates: defaultCandidates()
+      });
+    } catch (error: any) {
+      console.error('[Admin] Routing eval dataset error:', error.message);
+      res.status(500).json({ error: 'Failed to build routing dataset' });
+    }
+  });
+
+  /**
+   * POST /api/admin/routing-eval
+   * Replay logged messages through routing providers and score them.
+   * Body: { candidates?: string[], limit?: number, correctedOnly?: boolean }
+   */
+  router.post('/routing-eval', async (req: Request, res: Response) => {
+    try {
+      const { candidates, limit, correctedOnly } = req.body || {};
+      if (candidates !== undefined && (!Array.isArray(candidates) || candidates.some((c: unknown) => typeof c !== 'string'))) {
+        res.status(400).json({ error: 'candidates must be an array of strings' });
+        return;
+      }
+      const report = await routingEval.run({
+        candidates,
+        limit: typeof limit === 'number' ? limit : undefined,
+        correctedOnly: correctedOnly === true
+      });
+      res.json(report);
+    } catch (error: any) {
+      console.error('[Admin] Routing eval error:', error.message);
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  /**
+   * GET /api/admin/fast-path
+   * Status of the local fast-path classifier.
+   */
+  router.get('/fast-path', (_req: Request, res: Response) => {
+    try {
+      const config = getConfig();
+      const classifier = IntentClassifier.load(config.dataDir);
+      res.json({
+        enabled: config.orchestrator.fastPath?.enabled !== false,
+        threshold: config.orchestrator.fastPath?.threshold ?? DEFAULT_CONFIDENCE_THRESHOLD,
+        trained: classifier.trained,
+        trainedAt: classifier.trainedAt,
+        examples: classifier.exampleCount
+      });
+    } catch (error: any) {
+      console.error('[Admin] Fast path status error:', error.message);
+      res.status(500).json({ error: 'Failed to get fast path status' });
+    }
+  });
+
+  /**
+   * POST /api/admin/fast-path/train
+   * Train the fast-path classifier on labeled debug logs and start using it.
+   * Body: { limit?: number, correctedOnly?: boolean }
+   */
+  router.post('/fast-path/train', async (req: Request, res: Response) => {
+    try {
+      const { limit, correctedOnly } = req.body || {};
+      const { classifier, report } = await routingEval.trainClassifier({
+        limit: typeof limit === 'number' ? limit : undefined,
+        correctedOnly: correctedOnly === true
+      });
+      orchestrator?.setClassifier(classifier);
+      res.json(report);
+    } catch (error: any) {
+      console.error('[Admin] Fast path training error:', error.message);
+      res.status(400).json({ error: error.message });
+    }
+  });
+
   /**
    * POST /api/admin/ollama/test
    * Test Ollama connectivity and model availability.
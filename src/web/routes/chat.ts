@@ -1,9 +1,28 @@
 import { Router, Request, Response } from 'express';
+import multer from 'multer';
 import { v4 as uuidv4 } from 'uuid';
-import { Database as IDatabase } from '../../db/interface';
-import { Gateway } from '../../core/gateway';
+import { Database as IDatabase, MessageChannel } from '../../db/interface';
+import { Gateway, HandleMessageResult } from '../../core/gateway';
+import { ExecutorStreamEvent } from '../../core/executor';
+import { Attachment, MAX_DOCUMENT_BYTES, toAttachment } from '../../core/attachments';
 import { requireAuth } from '../middleware/auth';
 
+const MAX_ATTACHMENTS = 5;
+
+/**
+ * Markers around matched terms in search snippets. Control characters never
+ * appear in chat text, so the client can split on them without escaping.
+ */
+const HIGHLIGHT: [string, string] = ['\u0002', '\u0003'];
+
+const SEARCH_CHANNELS: MessageChannel[] = ['web', 'telegram', 'whatsapp', 'cli', 'workflow'];
+
+/** Attachments are held in memory only long enough to send them to the model. */
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_DOCUMENT_BYTES, files: MAX_ATTACHMENTS }
+});
+
 /**
  * Create chat routes for the web dashboard.
  * Allows users to chat with the assistant directly from the browser.
@@ -45,6 +64,44 @@ export function createChatRoutes(db: IDatabase, gateway: Gateway): Router {
     }
   });
 
+  /**
+   * GET /api/chat/search?q=...&from=...&to=...&channel=...&limit=...
+   * Full-text search over the current user's messages on every channel,
+   * best match first. Matched terms in snippets are wrapped in \u0002/\u0003.
+   */
+  router.get('/search', async (req: Request, res: Response) => {
+    try {
+      const query = ((req.query.q as string) || '').trim();
+      if (!query) {
+        res.status(400).json({ error: 'Search query (q) is required' });
+        return;
+      }
+      const from = req.query.from ? new Date(req.query.from as string) : undefined;
+      const to = req.query.to ? new Date(req.query.to as string) : undefined;
+      if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+        res.status(400).json({ error: 'from and to must be dates' });
+        return;
+      }
+      const channel = req.query.channel as MessageChannel | undefined;
+      if (channel && !SEARCH_CHANNELS.includes(channel)) {
+        res.status(400).json({ error: `channel must be one of: ${SEARCH_CHANNELS.join(', ')}` });
+        return;
+      }
+
+      const results = await db.searchMessages([req.user!.userId, gatewayUserId(req)], query, {
+        from,
+        to,
+        channel,
+        limit: Math.min(parseInt(req.query.limit as string) || 20, 100),
+        highlight: HIGHLIGHT
+      });
+      res.json(results);
+    } catch (error: any) {
+      console.error('[Chat] Search error:', error.message);
+      res.status(500).json({ error: 'Failed to search messages' });
+    }
+  });
+
   /**
    * POST /api/chat/conversations
    * Create a new conversation.
@@ -94,6 +151,7 @@ export function createChatRoutes(db: IDatabase, gateway: Gateway): Router {
         id: m.id,
         role: m.role,
         content: m.content,
+        toolCall: m.toolCall,
         createdAt: m.createdAt
       })));
     } catch (error: any) {
@@ -102,15 +160,55 @@ export function createChatRoutes(db: IDatabase, gateway: Gateway): Router {
     }
   });
 
+  /** Shape the usage block returned to the client. */
+  function usagePayload(result: HandleMessageResult) {
+    return {
+      model: result.usage.model,
+      tokensIn: result.usage.tokensIn,
+      tokensOut: result.usage.tokensOut,
+      costCents: result.usage.costCents
+    };
+  }
+
+  /** Whether the client asked for a server-sent event stream. */
+  function wantsStream(req: Request): boolean {
+    if (req.query.stream === 'true' || req.query.stream === '1') return true;
+    return (req.headers.accept || '').includes('text/event-stream');
+  }
+
   /**
    * POST /api/chat/conversations/:id/messages
    * Send a message and get the assistant's response.
+   * JSON `{ message, timezone? }`, or multipart/form-data with the same
+   * fields and up to 5 images/PDFs under `files` (the message may then be
+   * empty). `timezone` is the browser's, kept for users who haven't set one.
+   *
+   * With `?stream=true` (or `Accept: text/event-stream`) the response is a
+   * server-sent event stream instead of JSON:
+   *   event: text         data: { delta }
+   *   event: tool_call    data: { name }
+   *   event: tool_result  data: { name, error? }
+   *   event: retry        data: { attempt, model }  (discard text streamed so far)
+   *   event: done         data: { response, conversationId, usage, toolCalls }
+   *   event: error        data: { error }
    */
-  router.post('/conversations/:id/messages', async (req: Request, res: Response) => {
+  router.post('/conversations/:id/messages', upload.array('files', MAX_ATTACHMENTS), async (req: Request, res: Response) => {
+    let streaming = false;
     try {
       const convId = req.params.id as string;
-      const { message } = req.body;
-      if (!message || typeof message !== 'string' || !message.trim()) {
+      const message = typeof req.body?.message === 'string' ? req.body.message : '';
+      const timezone = typeof req.body?.timezone === 'string' ? req.body.timezone : undefined;
+
+      let attachments: Attachment[];
+      try {
+        const files = (req.files as Express.Multer.File[] | undefined) || [];
+        attachments = files.map(f => toAttachment(f.buffer, f.mimetype, f.originalname));
+      } catch (err: any) {
+        res.status(400).json({ error: err.message });
+        return;
+      }
+
+      if (!message.trim() && attachments.length === 0) {
         res.status(400).json({ error: 'Message is required' });
         return;
       }
@@ -125,25 +223,80 @@ export function createChatRoutes(db: IDatabase, gateway: Gateway): Router {
         return;
       }
 
+      if (!wantsStream(req)) {
+        const result = await gateway.handleMessage(
+          gatewayUserId(req),
+          message.trim(),
+          'web',
+          convId,
+          { attachments, timezone }
+        );
+
+        res.json({
+          response: result.response,
+          conversationId: result.conversationId,
+          usage: usagePayload(result),
+          toolCalls: result.toolCalls || []
+        });
+        return;
+      }
+
+      streaming = true;
+      res.status(200);
+      res.setHeader('Content-Type', 'text/event-stream');
+      res.setHeader('Cache-Control', 'no-cache');
+      res.setHeader('Connection', 'keep-alive');
+      res.setHeader('X-Accel-Buffering', 'no');
+      res.flushHeaders();
+
+      const send = (event: string, data: unknown) => {
+        if (res.writableEnded) return;
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      };
+
       const result = await gateway.handleMessage(
         gatewayUserId(req),
         message.trim(),
         'web',
-        convId
+        convId,
+        {
+          attachments,
+          timezone,
+          onEvent: (event: ExecutorStreamEvent) => {
+            switch (event.type) {
+              case 'text':
+                send('text', { delta: event.delta });
+                break;
+              case 'tool_call':
+                send('tool_call', { name: event.name });
+                break;
+              case 'tool_result':
+                send('tool_result', { name: event.name, error: event.error });
+                break;
+              case 'retry':
+                send('retry', { attempt: event.attempt, model: event.model });
+                break;
+            }
+          }
+        }
       );
 
-      res.json({
+      send('done', {
         response: result.response,
         conversationId: result.conversationId,
-        usage: {
-          model: result.usage.model,
-          tokensIn: result.usage.tokensIn,
-          tokensOut: result.usage.tokensOut,
-          costCents: result.usage.costCents
-        }
+        usage: usagePayload(result),
+        toolCalls: result.toolCalls || []
       });
+      res.end();
     } catch (error: any) {
       console.error('[Chat] Send message error:', error.message);
+      if (streaming) {
+        if (!res.writableEnded) {
+          res.write(`event: error\ndata: ${JSON.stringify({ error: 'Failed to send message' })}\n\n`);
+          res.end();
+        }
+        return;
+      }
       res.status(500).json({ error: 'Failed to send message' });
     }
   });
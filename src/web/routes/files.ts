@@ -61,7 +61,7 @@ export function createFilesRoutes(fileAccess: FileAccessService, db: IDatabase):
       // Save the file (with versioning if tracked)
       const savedName = await fileAccess.saveFileWithVersioning(userId, originalName, req.file.buffer);
 
-      // Try text extraction for PDF/Excel
+      // Try text extraction for PDF/Excel/Word
       let extractedName: string | null = null;
       try {
         extractedName = await fileAccess.extractText(userId, savedName);
@@ -83,11 +83,11 @@ export function createFilesRoutes(fileAccess: FileAccessService, db: IDatabase):
 
   /**
    * GET /api/files/:filename
-   * Read a file's text content.
+   * Read a file's text content. PDF, Excel and Word files return their extracted text.
    */
   router.get('/:filename', async (req: Request, res: Response) => {
     try {
-      const content = await fileAccess.readFile(req.user!.userId, req.params.filename as string);
+      const content = await fileAccess.readText(req.user!.userId, req.params.filename as string);
       res.json({ name: req.params.filename, content });
     } catch (error: any) {
       console.error('[Files] Read error:', error.message);
@@ -2,6 +2,10 @@ import { Router, Request, Response } from 'express';
 import { Database as IDatabase } from '../../db/interface';
 import { requireAuth, requireAdmin } from '../middleware/auth';
 import { getConfig, setConfigValue } from '../../utils/config';
+import { ROUTING_INTENTS } from '../../core/orchestrator';
+
+const COMPLEXITIES = ['simple', 'medium', 'complex'];
+const MODELS = ['haiku', 'sonnet', 'opus'];
 
 export function createLogsRoutes(db: IDatabase): Router {
   const router = Router();
@@ -41,10 +45,12 @@ export function createLogsRoutes(db: IDatabase): Router {
       filters.limit = parseInt(req.query.limit as string) || 50;
       filters.offset = parseInt(req.query.offset as string) || 0;
 
-      const [logs, total] = await Promise.all([
+      const [logs, total, labels] = await Promise.all([
         db.getDebugLogs(filters),
-        db.getDebugLogCount({ userId: filters.userId, channel: filters.channel, intent: filters.intent })
+        db.getDebugLogCount({ userId: filters.userId, channel: filters.channel, intent: filters.intent }),
+        db.getRoutingLabels()
       ]);
+      const labelsById = new Map(labels.map(l => [l.debugLogId, l]));
 
       // Return list without heavy fields (systemPrompt, messagesJson)
       res.json({
@@ -57,6 +63,8 @@ export function createLogsRoutes(db: IDatabase): Router {
           complexity: log.complexity,
           suggestedModel: log.suggestedModel,
           selectedSkill: log.selectedSkill,
+          selectedSkills: log.selectedSkills ?? [],
+          routedBy: log.routedBy ?? null,
           personalityLevel: log.personalityLevel,
           includeBio: log.includeBio,
           estimatedTokens: log.estimatedTokens,
@@ -64,11 +72,15 @@ export function createLogsRoutes(db: IDatabase): Router {
           tokensIn: log.tokensIn,
           tokensOut: log.tokensOut,
           costCents: log.costCents,
+          cacheCreationTokens: log.cacheCreationTokens ?? 0,
+          cacheReadTokens: log.cacheReadTokens ?? 0,
+          retryCount: log.retryCount ?? 0,
           tokensSaved: log.tokensSaved,
           durationMs: log.durationMs,
           success: log.success,
           errorMessage: log.errorMessage,
-          createdAt: log.createdAt
+          createdAt: log.createdAt,
+          label: labelsById.get(log.id) ?? null
         })),
         total,
         limit: filters.limit,
@@ -91,13 +103,62 @@ export function createLogsRoutes(db: IDatabase): Router {
         res.status(404).json({ error: 'Log not found' });
         return;
       }
-      res.json(log);
+      const labels = await db.getRoutingLabels();
+      res.json({ ...log, label: labels.find(l => l.debugLogId === log.id) ?? null });
     } catch (error: any) {
       console.error('[Logs] Get error:', error.message);
       res.status(500).json({ error: 'Failed to get log' });
     }
   });
 
+  /**
+   * PUT /api/logs/:id/label
+   * Correct the routing a logged message should have had, for routing evaluation.
+   */
+  router.put('/:id/label', async (req: Request, res: Response) => {
+    try {
+      const { intent, complexity, suggestedModel } = req.body || {};
+      if (!ROUTING_INTENTS.includes(intent)) {
+        res.status(400).json({ error: `intent must be one of: ${ROUTING_INTENTS.join(', ')}` });
+        return;
+      }
+      if (!COMPLEXITIES.includes(complexity)) {
+        res.status(400).json({ error: `complexity must be one of: ${COMPLEXITIES.join(', ')}` });
+        return;
+      }
+      if (!MODELS.includes(suggestedModel)) {
+        res.status(400).json({ error: `suggestedModel must be one of: ${MODELS.join(', ')}` });
+        return;
+      }
+
+      const log = await db.getDebugLog(req.params.id as string);
+      if (!log) {
+        res.status(404).json({ error: 'Log not found' });
+        return;
+      }
+
+      await db.saveRoutingLabel({ debugLogId: log.id, message: log.userMessage, intent, complexity, suggestedModel });
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error('[Logs] Label error:', error.message);
+      res.status(500).json({ error: 'Failed to save label' });
+    }
+  });
+
+  /**
+   * DELETE /api/logs/:id/label
+   * Remove a routing correction.
+   */
+  router.delete('/:id/label', async (req: Request, res: Response) => {
+    try {
+      await db.deleteRoutingLabel(req.params.id as string);
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error('[Logs] Delete label error:', error.message);
+      res.status(500).json({ error: 'Failed to delete label' });
+    }
+  });
+
   /**
    * PUT /api/logs/toggle
    * Enable or disable debug logging.
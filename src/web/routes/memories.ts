@@ -0,0 +1,44 @@
+import { Router, Request, Response } from 'express';
+import { Database as IDatabase } from '../../db/interface';
+import { requireAuth } from '../middleware/auth';
+
+export function createMemoriesRoutes(db: IDatabase): Router {
+  const router = Router();
+
+  router.use(requireAuth);
+
+  /**
+   * GET /api/memories
+   * List what the assistant remembers about the current user.
+   */
+  router.get('/', async (req: Request, res: Response) => {
+    try {
+      const memories = await db.getMemories(req.user!.userId);
+      res.json(memories);
+    } catch (error: any) {
+      console.error('[Memories] List error:', error.message);
+      res.status(500).json({ error: 'Failed to load memories' });
+    }
+  });
+
+  /**
+   * DELETE /api/memories/:id
+   * Forget a memory.
+   */
+  router.delete('/:id', async (req: Request, res: Response) => {
+    try {
+      const memory = await db.getMemory(req.params.id as string);
+      if (!memory || memory.userId !== req.user!.userId) {
+        res.status(404).json({ error: 'Memory not found' });
+        return;
+      }
+      await db.deleteMemory(memory.id);
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error('[Memories] Delete error:', error.message);
+      res.status(500).json({ error: 'Failed to delete memory' });
+    }
+  });
+
+  return router;
+}
@@ -1,9 +1,11 @@
 import { Router, Request, Response } from 'express';
 import { Database as IDatabase } from '../../db/interface';
 import { UserSettingsService } from '../../services/user-settings';
+import { ProfileUpdateService } from '../../services/profile-updates';
 import { requireAuth } from '../middleware/auth';
+import { isValidTimezone } from '../../utils/timezone';
 
-export function createProfileRoutes(db: IDatabase, userSettings: UserSettingsService): Router {
+export function createProfileRoutes(db: IDatabase, userSettings: UserSettingsService, profileUpdates?: ProfileUpdateService): Router {
   const router = Router();
 
   router.use(requireAuth);
@@ -22,6 +24,19 @@ export function createProfileRoutes(db: IDatabase, userSettings: UserSettingsSer
     }
   });
 
+  /**
+   * GET /api/profile/timezone
+   * The timezone the user's times are read and shown in (their own, or the default).
+   */
+  router.get('/timezone', async (req: Request, res: Response) => {
+    try {
+      res.json({ timezone: await userSettings.getTimezone(req.user!.userId) });
+    } catch (error: any) {
+      console.error('[Profile] Timezone error:', error.message);
+      res.status(500).json({ error: 'Failed to load timezone' });
+    }
+  });
+
   /**
    * PUT /api/profile
    * Update the current user's profile.
@@ -29,11 +44,16 @@ export function createProfileRoutes(db: IDatabase, userSettings: UserSettingsSer
   router.put('/', async (req: Request, res: Response) => {
     try {
       const { name, preferredName, timezone, bio, sections } = req.body;
+      // Left blank, the timezone is detected from the browser on the next chat
+      if (timezone && !isValidTimezone(timezone)) {
+        res.status(400).json({ error: `Unknown timezone "${timezone}". Use an IANA name like "Europe/Lisbon".` });
+        return;
+      }
 
       await userSettings.saveProfileConfig(req.user!.userId, {
         name: name || '',
         preferredName: preferredName || '',
-        timezone: timezone || 'UTC',
+        timezone: timezone || '',
         bio: bio || '',
         sections: sections || {}
       });
@@ -46,5 +66,91 @@ export function createProfileRoutes(db: IDatabase, userSettings: UserSettingsSer
     }
   });
 
+  /**
+   * GET /api/profile/updates
+   * List profile updates detected in conversations and waiting for review.
+   */
+  router.get('/updates', async (req: Request, res: Response) => {
+    try {
+      if (!profileUpdates) {
+        res.json([]);
+        return;
+      }
+      res.json(await profileUpdates.list(req.user!.userId));
+    } catch (error: any) {
+      console.error('[Profile] List updates error:', error.message);
+      res.status(500).json({ error: 'Failed to load profile updates' });
+    }
+  });
+
+  /**
+   * PUT /api/profile/updates/:id
+   * Edit a pending update's section or text.
+   */
+  router.put('/updates/:id', async (req: Request, res: Response) => {
+    try {
+      if (!profileUpdates) {
+        res.status(503).json({ error: 'Profile updates not available' });
+        return;
+      }
+      const { section, update } = req.body;
+      const edited = await profileUpdates.edit(req.user!.userId, req.params.id as string, { section, update });
+      if (!edited) {
+        res.status(404).json({ error: 'Profile update not found' });
+        return;
+      }
+      res.json(edited);
+    } catch (error: any) {
+      console.error('[Profile] Edit update error:', error.message);
+      res.status(500).json({ error: 'Failed to edit profile update' });
+    }
+  });
+
+  /**
+   * POST /api/profile/updates/:id/accept
+   * Accept an update, with optional edits, and add it to the profile.
+   * Returns the updated profile.
+   */
+  router.post('/updates/:id/accept', async (req: Request, res: Response) => {
+    try {
+      if (!profileUpdates) {
+        res.status(503).json({ error: 'Profile updates not available' });
+        return;
+      }
+      const { section, update } = req.body || {};
+      const accepted = await profileUpdates.accept(req.user!.userId, req.params.id as string, { section, update });
+      if (!accepted) {
+        res.status(404).json({ error: 'Profile update not found' });
+        return;
+      }
+      res.json(await userSettings.getProfileConfig(req.user!.userId));
+    } catch (error: any) {
+      console.error('[Profile] Accept update error:', error.message);
+      res.status(500).json({ error: 'Failed to accept profile update' });
+    }
+  });
+
+  /**
+   * POST /api/profile/updates/:id/reject
+   * Reject an update so it isn't proposed again.
+   */
+  router.post('/updates/:id/reject', async (req: Request, res: Response) => {
+    try {
+      if (!profileUpdates) {
+        res.status(503).json({ error: 'Profile updates not available' });
+        return;
+      }
+      const rejected = await profileUpdates.reject(req.user!.userId, req.params.id as string);
+      if (!rejected) {
+        res.status(404).json({ error: 'Profile update not found' });
+        return;
+      }
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error('[Profile] Reject update error:', error.message);
+      res.status(500).json({ error: 'Failed to reject profile update' });
+    }
+  });
+
   return router;
 }
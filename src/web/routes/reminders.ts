@@ -1,13 +1,82 @@
 import { Router, Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
-import { Database as IDatabase } from '../../db/interface';
+import { Database as IDatabase, Reminder, ReminderChannel, ReminderUpdates } from '../../db/interface';
+import { DEFAULT_SNOOZE_MINUTES, ReminderService } from '../../services/reminders';
+import { REMINDER_CHANNELS, UserSettingsService } from '../../services/user-settings';
 import { requireAuth } from '../middleware/auth';
+import { parseWhen } from '../../utils/date-parser';
+import { nextOccurrence, parseRecurrence, Recurrence } from '../../utils/recurrence';
 
-export function createRemindersRoutes(db: IDatabase): Router {
+export function createRemindersRoutes(db: IDatabase, userSettings: UserSettingsService, reminders: ReminderService): Router {
   const router = Router();
 
   router.use(requireAuth);
 
+  /** Resolve a future due date in the user's timezone, or the error to return. */
+  async function resolveDue(text: string, userId: string): Promise<Date | string> {
+    const when = parseWhen(text, await userSettings.getTimezone(userId));
+    if (!when) return 'Invalid due date';
+    if (when.kind === 'recurring') return 'Give the first date and time as dueAt and the rule as repeat';
+    if (when.date.getTime() <= Date.now()) return 'Due date has already passed';
+    return when.date;
+  }
+
+  /** Parse a repeat rule anchored on the first due date, or the error to return. */
+  async function resolveRepeat(text: string, userId: string, anchor?: Date): Promise<Recurrence | string> {
+    const recurrence = parseRecurrence(text, await userSettings.getTimezone(userId), anchor);
+    return recurrence || 'Invalid repeat rule';
+  }
+
+  /** Load a reminder owned by the current user, or send 404. */
+  async function ownReminder(req: Request, res: Response): Promise<Reminder | null> {
+    const reminder = await db.getReminder(req.params.id as string);
+    if (!reminder || reminder.userId !== req.user!.userId) {
+      res.status(404).json({ error: 'Reminder not found' });
+      return null;
+    }
+    return reminder;
+  }
+
+  /**
+   * GET /api/reminders/delivery
+   * Channel order and escalation settings for reminder notifications.
+   */
+  router.get('/delivery', async (req: Request, res: Response) => {
+    try {
+      res.json(await userSettings.getReminderDelivery(req.user!.userId));
+    } catch (error: any) {
+      console.error('[Reminders] Get delivery error:', error.message);
+      res.status(500).json({ error: 'Failed to load delivery settings' });
+    }
+  });
+
+  /**
+   * PUT /api/reminders/delivery
+   * Save delivery settings. Body: { channels: ['telegram', 'email', ...], escalateAfterMinutes }
+   * Channels are tried in order; 0 minutes turns escalation off.
+   */
+  router.put('/delivery', async (req: Request, res: Response) => {
+    try {
+      const { channels, escalateAfterMinutes } = req.body;
+      if (!Array.isArray(channels) || channels.length === 0
+        || channels.some((c: unknown) => !REMINDER_CHANNELS.includes(c as ReminderChannel))
+        || new Set(channels).size !== channels.length) {
+        res.status(400).json({ error: `channels must be a list of distinct channels from: ${REMINDER_CHANNELS.join(', ')}` });
+        return;
+      }
+      const minutes = Number(escalateAfterMinutes ?? 0);
+      if (!Number.isInteger(minutes) || minutes < 0) {
+        res.status(400).json({ error: 'escalateAfterMinutes must be a whole number of minutes, 0 for off' });
+        return;
+      }
+      await userSettings.saveReminderDelivery(req.user!.userId, { channels, escalateAfterMinutes: minutes });
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error('[Reminders] Save delivery error:', error.message);
+      res.status(500).json({ error: 'Failed to save delivery settings' });
+    }
+  });
+
   /**
    * GET /api/reminders
    * List reminders for the current user.
@@ -26,22 +95,41 @@ export function createRemindersRoutes(db: IDatabase): Router {
 
   /**
    * POST /api/reminders
-   * Add a new reminder.
+   * Add a new reminder. `dueAt` may be ISO 8601 or a phrase like
+   * "tomorrow at 9", and is read in the user's timezone. `repeat` is an
+   * optional rule ("every weekday", "daily", or an RRULE); without `dueAt`
+   * the reminder starts at the rule's next occurrence.
    */
   router.post('/', async (req: Request, res: Response) => {
     try {
-      const { text, dueAt } = req.body;
+      const { text, dueAt, repeat } = req.body;
+      const userId = req.user!.userId;
       if (!text || typeof text !== 'string' || !text.trim()) {
         res.status(400).json({ error: 'Reminder text is required' });
         return;
       }
+      let due = dueAt ? await resolveDue(String(dueAt), userId) : undefined;
+      if (typeof due === 'string') {
+        res.status(400).json({ error: due });
+        return;
+      }
+      const recurrence = repeat ? await resolveRepeat(String(repeat), userId, due) : undefined;
+      if (typeof recurrence === 'string') {
+        res.status(400).json({ error: recurrence });
+        return;
+      }
+      if (recurrence && !due) {
+        due = nextOccurrence(recurrence.cron, await userSettings.getTimezone(userId)) ?? undefined;
+      }
 
       const reminder = await db.createReminder({
         id: uuidv4(),
-        userId: req.user!.userId,
+        userId,
         text: text.trim(),
         isComplete: false,
-        dueAt: dueAt ? new Date(dueAt) : undefined
+        dueAt: due,
+        recurrence: recurrence?.cron,
+        recurrenceText: recurrence?.description
       });
 
       res.status(201).json(reminder);
@@ -53,18 +141,49 @@ export function createRemindersRoutes(db: IDatabase): Router {
 
   /**
    * PUT /api/reminders/:id
-   * Update a reminder (toggle complete, edit text).
+   * Update a reminder (toggle complete, edit text, due date or repeat rule).
+   * An empty `dueAt` or `repeat` clears it. A new due date is notified again.
    */
   router.put('/:id', async (req: Request, res: Response) => {
     try {
-      const { text, isComplete, dueAt } = req.body;
-      const updates: { text?: string; isComplete?: boolean; dueAt?: Date } = {};
+      const reminder = await ownReminder(req, res);
+      if (!reminder) return;
+      const userId = req.user!.userId;
+      const { text, isComplete, dueAt, repeat } = req.body;
+      const updates: ReminderUpdates = {};
 
       if (text !== undefined) updates.text = text;
       if (isComplete !== undefined) updates.isComplete = isComplete;
-      if (dueAt !== undefined) updates.dueAt = dueAt ? new Date(dueAt) : undefined;
+      if (dueAt !== undefined) {
+        const due = dueAt ? await resolveDue(String(dueAt), userId) : null;
+        if (typeof due === 'string') {
+          res.status(400).json({ error: due });
+          return;
+        }
+        updates.dueAt = due;
+        updates.notifiedAt = null;
+      }
+      if (repeat !== undefined) {
+        if (!repeat) {
+          updates.recurrence = null;
+          updates.recurrenceText = null;
+        } else {
+          const anchor = updates.dueAt !== undefined ? updates.dueAt ?? undefined : reminder.dueAt;
+          const recurrence = await resolveRepeat(String(repeat), userId, anchor);
+          if (typeof recurrence === 'string') {
+            res.status(400).json({ error: recurrence });
+            return;
+          }
+          updates.recurrence = recurrence.cron;
+          updates.recurrenceText = recurrence.description;
+          if (!anchor) {
+            updates.dueAt = nextOccurrence(recurrence.cron, await userSettings.getTimezone(userId));
+            updates.notifiedAt = null;
+          }
+        }
+      }
 
-      const updated = await db.updateReminder(req.params.id as string, updates);
+      const updated = await db.updateReminder(reminder.id, updates);
       res.json(updated);
     } catch (error: any) {
       console.error('[Reminders] Update error:', error.message);
@@ -72,13 +191,65 @@ export function createRemindersRoutes(db: IDatabase): Router {
     }
   });
 
+  /**
+   * POST /api/reminders/:id/done
+   * Acknowledge a reminder: completes it, or moves a repeating one to its next occurrence.
+   */
+  router.post('/:id/done', async (req: Request, res: Response) => {
+    try {
+      const reminder = await ownReminder(req, res);
+      if (!reminder) return;
+      res.json(await reminders.done(reminder));
+    } catch (error: any) {
+      console.error('[Reminders] Done error:', error.message);
+      res.status(500).json({ error: 'Failed to update reminder' });
+    }
+  });
+
+  /**
+   * POST /api/reminders/:id/snooze
+   * Notify again later. Body: { minutes } (default 10).
+   */
+  router.post('/:id/snooze', async (req: Request, res: Response) => {
+    try {
+      const reminder = await ownReminder(req, res);
+      if (!reminder) return;
+      const minutes = req.body?.minutes === undefined ? DEFAULT_SNOOZE_MINUTES : Number(req.body.minutes);
+      if (!Number.isFinite(minutes) || minutes < 1) {
+        res.status(400).json({ error: 'minutes must be a positive number' });
+        return;
+      }
+      res.json(await reminders.snooze(reminder, minutes));
+    } catch (error: any) {
+      console.error('[Reminders] Snooze error:', error.message);
+      res.status(500).json({ error: 'Failed to snooze reminder' });
+    }
+  });
+
+  /**
+   * GET /api/reminders/:id/deliveries
+   * Notification attempts for a reminder, newest first.
+   */
+  router.get('/:id/deliveries', async (req: Request, res: Response) => {
+    try {
+      const reminder = await ownReminder(req, res);
+      if (!reminder) return;
+      res.json(await db.getReminderDeliveries(reminder.id, 50));
+    } catch (error: any) {
+      console.error('[Reminders] Deliveries error:', error.message);
+      res.status(500).json({ error: 'Failed to load delivery history' });
+    }
+  });
+
   /**
    * DELETE /api/reminders/:id
    * Remove a reminder.
    */
   router.delete('/:id', async (req: Request, res: Response) => {
     try {
-      await db.deleteReminder(req.params.id as string);
+      const reminder = await ownReminder(req, res);
+      if (!reminder) return;
+      await db.deleteReminder(reminder.id);
       res.json({ success: true });
     } catch (error: any) {
       console.error('[Reminders] Delete error:', error.message);
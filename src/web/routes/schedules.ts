@@ -3,8 +3,10 @@ import { v4 as uuidv4 } from 'uuid';
 import { Database as IDatabase } from '../../db/interface';
 import { requireAuth } from '../middleware/auth';
 import { WorkflowScheduler } from '../../services/workflow-scheduler';
+import { UserSettingsService } from '../../services/user-settings';
+import { parseWhen } from '../../utils/date-parser';
 
-export function createSchedulesRoutes(db: IDatabase, scheduler?: WorkflowScheduler): Router {
+export function createSchedulesRoutes(db: IDatabase, userSettings: UserSettingsService, scheduler?: WorkflowScheduler): Router {
   const router = Router();
 
   router.use(requireAuth);
@@ -49,25 +51,27 @@ export function createSchedulesRoutes(db: IDatabase, scheduler?: WorkflowSchedul
 
   /**
    * POST /api/schedules
-   * Create a new schedule.
+   * Create a new schedule. Give either `cronExpression` or `when`, a phrase
+   * like "every weekday at 8am" that is turned into one.
    */
   router.post('/', async (req: Request, res: Response) => {
     try {
       const userId = req.user!.userId;
-      const { workflowId, cronExpression, timezone, isActive } = req.body;
+      const { workflowId, when, timezone, isActive } = req.body;
 
       if (!workflowId) {
         res.status(400).json({ error: 'Workflow ID is required' });
         return;
       }
-      if (!cronExpression || typeof cronExpression !== 'string') {
-        res.status(400).json({ error: 'Cron expression is required' });
-        return;
-      }
-      if (!WorkflowScheduler.isValidCron(cronExpression)) {
-        res.status(400).json({ error: 'Invalid cron expression' });
+
+      // Default to the owner's timezone so "7am" means their 7am
+      const tz = timezone || await userSettings.getTimezone(userId);
+      const resolved = resolveCron(req.body.cronExpression, when, tz);
+      if ('error' in resolved) {
+        res.status(400).json({ error: resolved.error });
         return;
       }
+      const cronExpression = resolved.cron;
 
       // Verify user owns the workflow
       const workflow = await db.getWorkflow(workflowId);
@@ -80,7 +84,6 @@ export function createSchedulesRoutes(db: IDatabase, scheduler?: WorkflowSchedul
         return;
       }
 
-      const tz = timezone || 'UTC';
       const active = isActive !== false;
 
       const schedule = await db.createSchedule({
@@ -114,7 +117,7 @@ export function createSchedulesRoutes(db: IDatabase, scheduler?: WorkflowSchedul
 
   /**
    * PUT /api/schedules/:id
-   * Update a schedule.
+   * Update a schedule. Like POST, the timing can be a `when` phrase.
    */
   router.put('/:id', async (req: Request, res: Response) => {
     try {
@@ -133,12 +136,13 @@ export function createSchedulesRoutes(db: IDatabase, scheduler?: WorkflowSchedul
 
       const updates: Record<string, unknown> = {};
 
-      if (req.body.cronExpression !== undefined) {
-        if (!WorkflowScheduler.isValidCron(req.body.cronExpression)) {
-          res.status(400).json({ error: 'Invalid cron expression' });
+      if (req.body.cronExpression !== undefined || req.body.when !== undefined) {
+        const resolved = resolveCron(req.body.cronExpression, req.body.when, req.body.timezone || schedule.timezone);
+        if ('error' in resolved) {
+          res.status(400).json({ error: resolved.error });
           return;
         }
-        updates.cronExpression = req.body.cronExpression;
+        updates.cronExpression = resolved.cron;
       }
       if (req.body.timezone !== undefined) {
         updates.timezone = req.body.timezone;
@@ -208,3 +212,27 @@ export function createSchedulesRoutes(db: IDatabase, scheduler?: WorkflowSchedul
 
   return router;
 }
+
+/**
+ * The cron expression for a request: `cronExpression` as given, or one
+ * generated from a `when` phrase in the schedule's timezone.
+ */
+function resolveCron(cronExpression: unknown, when: unknown, timezone: string): { cron: string } | { error: string } {
+  if (!cronExpression && typeof when === 'string' && when.trim()) {
+    const parsed = parseWhen(when, timezone);
+    if (!parsed) {
+      return { error: `Couldn't understand "${when}". Try something like "every weekday at 8am".` };
+    }
+    if (parsed.kind !== 'recurring') {
+      return { error: 'Schedules need a repeating time, like "every weekday at 8am"' };
+    }
+    return { cron: parsed.cron };
+  }
+  if (!cronExpression || typeof cronExpression !== 'string') {
+    return { error: 'Cron expression is required' };
+  }
+  if (!WorkflowScheduler.isValidCron(cronExpression)) {
+    return { error: 'Invalid cron expression' };
+  }
+  return { cron: cronExpression };
+}
@@ -0,0 +1,113 @@
+import { Router, Request, Response } from 'express';
+import { UserSettingsService, ToolConfirmationPolicy } from '../../services/user-settings';
+import { getToolsMeta, OPT_IN_TOOLS } from '../../core/tools';
+import { requireAuth } from '../middleware/auth';
+
+export function createToolsRoutes(userSettings: UserSettingsService): Router {
+  const router = Router();
+
+  /**
+   * GET /api/tools
+   * List all tools with their category and highest risk level.
+   */
+  router.get('/', (_req: Request, res: Response) => {
+    res.json(getToolsMeta());
+  });
+
+  /**
+   * GET /api/tools/confirmations
+   * Get the current user's confirmation overrides ({ toolName: 'always' | 'never' }).
+   * Tools not listed use the default: confirm high-risk calls only.
+   */
+  router.get('/confirmations', requireAuth, async (req: Request, res: Response) => {
+    try {
+      const policy = await userSettings.getToolConfirmationPolicy(req.user!.userId);
+      res.json(policy);
+    } catch (error: any) {
+      console.error('[Tools] Get confirmations error:', error.message);
+      res.status(500).json({ error: 'Failed to load confirmation settings' });
+    }
+  });
+
+  /**
+   * PUT /api/tools/confirmations
+   * Replace the current user's confirmation overrides.
+   * Body: { toolName: 'always' | 'never' | 'default' } — 'default' removes the override.
+   */
+  router.put('/confirmations', requireAuth, async (req: Request, res: Response) => {
+    try {
+      const body = req.body;
+      if (!body || typeof body !== 'object' || Array.isArray(body)) {
+        res.status(400).json({ error: 'Expected an object of tool name to mode' });
+        return;
+      }
+
+      const known = new Set(getToolsMeta().filter(t => t.risk !== 'none').map(t => t.name));
+      const policy: ToolConfirmationPolicy = {};
+      for (const [name, mode] of Object.entries(body)) {
+        if (!known.has(name)) {
+          res.status(400).json({ error: `Unknown or read-only tool: ${name}` });
+          return;
+        }
+        if (mode === 'always' || mode === 'never') {
+          policy[name] = mode;
+        } else if (mode !== 'default') {
+          res.status(400).json({ error: `Invalid mode for ${name}: use always, never or default` });
+          return;
+        }
+      }
+
+      await userSettings.saveToolConfirmationPolicy(req.user!.userId, policy);
+      res.json(policy);
+    } catch (error: any) {
+      console.error('[Tools] Update confirmations error:', error.message);
+      res.status(500).json({ error: 'Failed to update confirmation settings' });
+    }
+  });
+
+  /**
+   * GET /api/tools/enabled
+   * Get the opt-in tools the current user has turned on, and those that can be.
+   * Tools that are opt-in are only offered to the assistant once turned on
+   * (or when a skill step lists them).
+   */
+  router.get('/enabled', requireAuth, async (req: Request, res: Response) => {
+    try {
+      const enabled = await userSettings.getEnabledTools(req.user!.userId);
+      res.json({ optIn: OPT_IN_TOOLS, enabled });
+    } catch (error: any) {
+      console.error('[Tools] Get enabled tools error:', error.message);
+      res.status(500).json({ error: 'Failed to load enabled tools' });
+    }
+  });
+
+  /**
+   * PUT /api/tools/enabled
+   * Replace the opt-in tools the current user has turned on.
+   * Body: { enabled: string[] }
+   */
+  router.put('/enabled', requireAuth, async (req: Request, res: Response) => {
+    try {
+      const enabled = req.body?.enabled;
+      if (!Array.isArray(enabled)) {
+        res.status(400).json({ error: 'Expected { enabled: string[] }' });
+        return;
+      }
+      for (const name of enabled) {
+        if (!OPT_IN_TOOLS.includes(name)) {
+          res.status(400).json({ error: `Unknown or always-on tool: ${name}` });
+          return;
+        }
+      }
+
+      const tools = [...new Set<string>(enabled)];
+      await userSettings.saveEnabledTools(req.user!.userId, tools);
+      res.json({ optIn: OPT_IN_TOOLS, enabled: tools });
+    } catch (error: any) {
+      console.error('[Tools] Update enabled tools error:', error.message);
+      res.status(500).json({ error: 'Failed to update enabled tools' });
+    }
+  });
+
+  return router;
+}
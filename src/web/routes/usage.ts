@@ -1,8 +1,9 @@
 import { Router, Request, Response } from 'express';
 import { Database as IDatabase } from '../../db/interface';
 import { requireAuth } from '../middleware/auth';
+import { BudgetService } from '../../services/budget';
 
-export function createUsageRoutes(db: IDatabase): Router {
+export function createUsageRoutes(db: IDatabase, budgets: BudgetService): Router {
   const router = Router();
 
   router.use(requireAuth);
@@ -11,6 +12,7 @@ export function createUsageRoutes(db: IDatabase): Router {
    * GET /api/usage/summary
    * Get usage summary for the current user.
    * Query params: period=today|week|month (default: today)
+   * Includes the user's budget status (caps, spend and state).
    */
   router.get('/summary', async (req: Request, res: Response) => {
     try {
@@ -34,7 +36,8 @@ export function createUsageRoutes(db: IDatabase): Router {
       }
 
       const summary = await db.getUsageSummary(req.user!.userId, startDate);
-      res.json({ period, ...summary });
+      const budget = await budgets.getStatus(req.user!.userId);
+      res.json({ period, ...summary, budget });
     } catch (error: any) {
       console.error('[Usage] Summary error:', error.message);
       res.status(500).json({ error: 'Failed to load usage summary' });
@@ -4,6 +4,8 @@ import cors from 'cors';
 import * as path from 'path';
 import { Database as IDatabase } from '../db/interface';
 import { UserSettingsService } from '../services/user-settings';
+import { ProfileUpdateService } from '../services/profile-updates';
+import { BudgetService } from '../services/budget';
 import { errorHandler } from './middleware/error-handler';
 import { createAuthRoutes } from './routes/auth';
 import { createSoulRoutes } from './routes/soul';
@@ -15,6 +17,7 @@ import { createAdminRoutes } from './routes/admin';
 import { createLogsRoutes } from './routes/logs';
 import { createChatRoutes } from './routes/chat';
 import { Gateway } from '../core/gateway';
+import { Orchestrator } from '../core/orchestrator';
 import { SkillResolver } from '../services/skill-resolver';
 import { ScriptRunner } from '../services/script-runner';
 import { ScriptGenerator } from '../services/script-generator';
@@ -29,17 +32,22 @@ import { createCredentialsRoutes } from './routes/credentials';
 import { createChannelIdentitiesRoutes } from './routes/channel-identities';
 import { createRemindersRoutes } from './routes/reminders';
 import { createContactsRoutes } from './routes/contacts';
+import { createMemoriesRoutes } from './routes/memories';
 import { createFilesRoutes } from './routes/files';
 import { createTemplatesRoutes } from './routes/templates';
 import { createIntegrationsRoutes } from './routes/integrations';
+import { createToolsRoutes } from './routes/tools';
 import { FileAccessService } from '../services/file-access';
-import { getToolsMeta } from '../core/tools';
+import { ReminderService } from '../services/reminders';
 
 export interface WebServerConfig {
   db: IDatabase;
   port: number;
   host: string;
   gateway?: Gateway;
+  profileUpdates?: ProfileUpdateService;
+  reminders?: ReminderService;
+  orchestrator?: Orchestrator;
   skillResolver?: SkillResolver;
   scriptRunner?: ScriptRunner;
   scriptGenerator?: ScriptGenerator;
@@ -58,6 +66,7 @@ export function createWebServer(config: WebServerConfig): express.Express {
   const app = express();
   const { db } = config;
   const userSettings = new UserSettingsService(db);
+  const budgets = new BudgetService(db);
 
   // Middleware
   app.use(cors({ origin: true, credentials: true }));
@@ -67,11 +76,11 @@ export function createWebServer(config: WebServerConfig): express.Express {
   // API routes
   app.use('/api/auth', createAuthRoutes(db));
   app.use('/api/soul', createSoulRoutes(db, userSettings));
-  app.use('/api/profile', createProfileRoutes(db, userSettings));
+  app.use('/api/profile', createProfileRoutes(db, userSettings, config.profileUpdates));
   app.use('/api/skills', createSkillsRoutes(db, config.skillResolver));
-  app.use('/api/usage', createUsageRoutes(db));
+  app.use('/api/usage', createUsageRoutes(db, budgets));
   app.use('/api/channels', createChannelsRoutes());
-  app.use('/api/admin', createAdminRoutes(db));
+  app.use('/api/admin', createAdminRoutes(db, budgets, config.orchestrator));
   app.use('/api/logs', createLogsRoutes(db));
   if (config.scriptRunner) {
     app.use('/api/scripts', createScriptsRoutes(db, config.scriptRunner, config.scriptGenerator));
@@ -80,7 +89,7 @@ export function createWebServer(config: WebServerConfig): express.Express {
     app.use('/api/workflows', createWorkflowsRoutes(db, config.workflowEngine));
   }
   if (config.workflowScheduler) {
-    app.use('/api/schedules', createSchedulesRoutes(db, config.workflowScheduler));
+    app.use('/api/schedules', createSchedulesRoutes(db, userSettings, config.workflowScheduler));
   }
   if (config.credentialVault) {
     app.use('/api/credentials', createCredentialsRoutes(config.credentialVault));
@@ -89,11 +98,12 @@ export function createWebServer(config: WebServerConfig): express.Express {
     app.use('/api/integrations', createIntegrationsRoutes(config.googleAuth));
   }
   app.use('/api/channel-identities', createChannelIdentitiesRoutes(db));
-  app.use('/api/reminders', createRemindersRoutes(db));
+  app.use('/api/reminders', createRemindersRoutes(db, userSettings, config.reminders || new ReminderService(db, userSettings)));
   app.use('/api/contacts', createContactsRoutes(db));
+  app.use('/api/memories', createMemoriesRoutes(db));
   app.use('/api/files', createFilesRoutes(new FileAccessService(db), db));
   app.use('/api/templates', createTemplatesRoutes(db, config.workflowEngine));
-  app.get('/api/tools', (_req, res) => { res.json(getToolsMeta()); });
+  app.use('/api/tools', createToolsRoutes(userSettings));
   if (config.gateway) {
     app.use('/api/chat', createChatRoutes(db, config.gateway));
   }
@@ -0,0 +1,140 @@
+import { buildContext, UserPromptOverrides } from '../../src/core/context-builder';
+import type { RoutingDecision } from '../../src/core/orchestrator';
+import type { SkillContent } from '../../src/skills/loader';
+
+const routing: RoutingDecision = {
+  selectedSkill: null,
+  skills: [],
+  contextSummary: 'The user is planning a trip to Lisbon and comparing hotels near the river. '.repeat(8).trim(),
+  intent: 'conversation',
+  complexity: 'simple',
+  suggestedModel: 'sonnet',
+  includePersonality: true,
+  personalityLevel: 'full',
+  includeBio: true,
+  bioSections: []
+};
+
+const sentences = (subject: string, count: number) =>
+  Array.from({ length: count }, (_, i) => `${subject} detail number ${i + 1} goes on for a while.`).join(' ');
+
+const overrides: UserPromptOverrides = {
+  soulPrompt: sentences('Personality', 60),
+  basicIdentity: 'The user is Sam, in Europe/Lisbon.',
+  profilePrompt: sentences('Profile', 60),
+  contactsContext: '## Your Contacts\n- Kai: kai@example.com\n- Ana: ana@example.com\n- Rui: rui@example.com',
+  fileContext: '## Your Files\n- notes.md\n- report.pdf\n- budget.xlsx',
+  memoriesContext: '## Things You Remember\n- Sam prefers window seats\n- Sam is vegetarian\n- Sam works in Porto',
+  documentsContext: '## From the User\'s Files\n- [notes.md, lines 1–3] Hotel shortlist\n- [report.pdf, p. 2] Travel policy',
+  timezone: 'UTC'
+};
+
+const skills: SkillContent[] = [
+  { name: 'travel', description: '', path: '', content: 'Plan trips step by step.' },
+  { name: 'budget', description: '', path: '', content: 'Keep spending under the limit.' }
+];
+
+const history = Array.from({ length: 5 }, (_, i) => ({
+  role: (i % 2 ? 'assistant' : 'user') as 'user' | 'assistant',
+  content: `Earlier message ${i + 1} about the trip.`
+}));
+
+const build = (tokenBudget?: number, route: RoutingDecision = routing) =>
+  buildContext(route, 'Which hotel should I book?', history, skills, overrides, ['manage_reminders'], tokenBudget);
+
+/** Tokens per section name. */
+const tokensBySection = (context: ReturnType<typeof buildContext>) =>
+  Object.fromEntries(context.sections.map(s => [s.name, s.tokens]));
+
+describe('buildContext token budget', () => {
+  const unlimited = build();
+  const full = tokensBySection(unlimited);
+
+  it('should leave every section whole without a budget', () => {
+    expect(unlimited.tokenBudget).toBeNull();
+    expect(unlimited.sections.every(s => s.tokens === s.originalTokens)).toBe(true);
+    expect(unlimited.estimatedTokens).toBe(Object.values(full).reduce((a, b) => a + b, 0));
+    expect(unlimited.messages).toHaveLength(6);
+  });
+
+  it('should drop contact entries from the end first when slightly over', () => {
+    const context = build(unlimited.estimatedTokens - 1);
+    const tokens = tokensBySection(context);
+
+    expect(context.tokenBudget).toBe(unlimited.estimatedTokens - 1);
+    expect(context.estimatedTokens).toBeLessThanOrEqual(unlimited.estimatedTokens - 1);
+    expect(tokens.contacts).toBeLessThan(full.contacts);
+    expect(context.systemPrompt).toContain('- Kai: kai@example.com');
+    expect(context.systemPrompt).not.toContain('- Rui: rui@example.com');
+    // Nothing of a higher priority was touched
+    for (const name of ['files', 'memories', 'documents', 'profile', 'history', 'soul', 'summary', 'skills']) {
+      expect(tokens[name]).toBe(full[name]);
+    }
+  });
+
+  it('should use up the lowest priorities before touching the next', () => {
+    // Just over what contacts and files together can give
+    const context = build(unlimited.estimatedTokens - full.contacts - full.files - 1);
+    const tokens = tokensBySection(context);
+
+    expect(tokens.contacts).toBe(0);
+    expect(tokens.files).toBe(0);
+    expect(context.systemPrompt).not.toContain('## Your Contacts');
+    // At the same priority, the section earliest in the prompt gives way first
+    expect(tokens.profile).toBeLessThan(full.profile);
+    expect(tokens.memories).toBe(full.memories);
+    expect(tokens.documents).toBe(full.documents);
+    expect(tokens.history).toBe(full.history);
+  });
+
+  it('should drop list entries from the end', () => {
+    const noBio = { ...routing, includeBio: false };
+    const whole = tokensBySection(build(undefined, noBio));
+    const total = Object.values(whole).reduce((a, b) => a + b, 0);
+
+    const context = build(total - whole.contacts - whole.files - 1, noBio);
+    const tokens = tokensBySection(context);
+
+    expect(tokens.memories).toBeLessThan(whole.memories);
+    expect(context.systemPrompt).toContain('- Sam prefers window seats');
+    expect(context.systemPrompt).not.toContain('- Sam works in Porto');
+    expect(tokens.documents).toBe(whole.documents);
+  });
+
+  it('should cut long text at a sentence break', () => {
+    const lowerPriorities = full.contacts + full.files + full.memories + full.documents;
+    const context = build(unlimited.estimatedTokens - lowerPriorities - (full.profile - 200));
+    const tokens = tokensBySection(context);
+    const profile = context.systemBlocks[context.systemBlocks.length - 1].text;
+
+    expect(tokens.profile).toBeLessThanOrEqual(200);
+    expect(profile).toMatch(/goes on for a while\.\n\[…cut to fit the context budget\]/);
+    expect(tokens.history).toBe(full.history);
+    expect(tokens.soul).toBe(full.soul);
+  });
+
+  it('should shrink everything it may and keep the rest when the budget is tiny', () => {
+    const context = build(1);
+    const tokens = tokensBySection(context);
+
+    for (const name of ['contacts', 'files', 'memories', 'documents']) {
+      expect(tokens[name]).toBe(0);
+    }
+    // Tail-cut sections keep a minimum
+    expect(tokens.profile).toBeLessThanOrEqual(160);
+    expect(tokens.soul).toBeLessThanOrEqual(160);
+    expect(tokens.soul).toBeGreaterThan(100);
+    // The two newest history messages and the top skill always stay
+    expect(context.messages.map(m => m.content)).toEqual([
+      'Earlier message 4 about the trip.',
+      'Earlier message 5 about the trip.',
+      'Which hotel should I book?'
+    ]);
+    expect(context.skills).toEqual(['travel']);
+    // Identity, tool policy, date and the message are never shrunk
+    for (const name of ['identity', 'tool_policy', 'datetime', 'message']) {
+      expect(tokens[name]).toBe(full[name]);
+    }
+    expect(context.estimatedTokens).toBeGreaterThan(1);
+  });
+});
@@ -0,0 +1,156 @@
+import type { Config } from '../../src/utils/config';
+import type { ExecutorProvider, ProviderRequest, ProviderResponse } from '../../src/core/providers/interface';
+import { ProviderError } from '../../src/core/providers/interface';
+import { Executor, ExecutorStreamEvent } from '../../src/core/executor';
+
+let mockConfig: Config;
+
+jest.mock('../../src/utils/config', () => {
+  const original = jest.requireActual('../../src/utils/config');
+  return {
+    ...original,
+    getConfig: () => mockConfig,
+    loadConfig: () => mockConfig,
+  };
+});
+
+/** What the fake provider does for each call to a model: answer, or throw. */
+type Outcome = string | Error;
+
+/** Stands in for every provider: plays a script of outcomes per model ID. */
+class FakeProvider implements ExecutorProvider {
+  readonly type = 'anthropic' as const;
+  calls: string[] = [];
+
+  constructor(private script: Record<string, Outcome[]>) {}
+
+  async complete(request: ProviderRequest): Promise<ProviderResponse> {
+    this.calls.push(request.model);
+    const outcomes = this.script[request.model] || [];
+    // The last outcome repeats, so a model can fail for good
+    const outcome = outcomes.length > 1 ? outcomes.shift()! : outcomes[0];
+    if (outcome === undefined) throw new Error(`No outcome scripted for ${request.model}`);
+    if (outcome instanceof Error) throw outcome;
+    return {
+      text: outcome,
+      toolCalls: [],
+      stopReason: 'end',
+      usage: { tokensIn: 10, tokensOut: 5, cacheCreationTokens: 0, cacheReadTokens: 0, thinkingTokens: 0 }
+    };
+  }
+
+  calculateCost(): number {
+    return 0;
+  }
+}
+
+let mockProvider: FakeProvider;
+
+jest.mock('../../src/core/providers/interface', () => {
+  const original = jest.requireActual('../../src/core/providers/interface');
+  return {
+    ...original,
+    createProvider: async () => mockProvider,
+  };
+});
+
+const OPUS = 'claude-opus-4-5-20251101';
+const SONNET = 'claude-sonnet-4-5-20250929';
+const HAIKU = 'claude-haiku-4-5-20251001';
+
+const overloaded = () => new ProviderError('Overloaded', 529);
+const badRequest = () => new ProviderError('Invalid request', 400);
+
+describe('Executor retries and fallback', () => {
+  beforeEach(() => {
+    const { getTestConfig } = jest.requireActual('../helpers/setup');
+    mockConfig = getTestConfig();
+    mockConfig.ai.retry = { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 20, fallbackChain: ['opus', 'sonnet', 'haiku'] };
+    mockConfig.ai.providers = { local: { type: 'ollama', model: 'llama3' } };
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const run = (model: string, events?: ExecutorStreamEvent[]) =>
+    new Executor().execute([{ role: 'user', content: 'hi' }], model, events ? { onEvent: e => events.push(e) } : undefined);
+
+  it('should retry a retryable error on the same model and count the retries', async () => {
+    mockProvider = new FakeProvider({ [SONNET]: [overloaded(), overloaded(), 'Hello'] });
+    const events: ExecutorStreamEvent[] = [];
+
+    const result = await run('sonnet', events);
+
+    expect(result.content).toBe('Hello');
+    expect(result.model).toBe(SONNET);
+    expect(result.retries).toBe(2);
+    expect(mockProvider.calls).toEqual([SONNET, SONNET, SONNET]);
+    expect(events.filter(e => e.type === 'retry').map(e => (e as { attempt: number }).attempt)).toEqual([1, 2]);
+  });
+
+  it('should not retry a fatal error', async () => {
+    mockProvider = new FakeProvider({ [SONNET]: [badRequest()] });
+
+    await expect(run('sonnet')).rejects.toThrow('Invalid request');
+    expect(mockProvider.calls).toEqual([SONNET]);
+  });
+
+  it('should not retry errors that are not provider errors', async () => {
+    mockProvider = new FakeProvider({ [SONNET]: [new TypeError('bug')] });
+
+    await expect(run('sonnet')).rejects.toThrow('bug');
+    expect(mockProvider.calls).toEqual([SONNET]);
+  });
+
+  it('should fall back along the chain once retries run out', async () => {
+    mockProvider = new FakeProvider({ [OPUS]: [overloaded()], [SONNET]: [overloaded()], [HAIKU]: ['From haiku'] });
+
+    const result = await run('opus');
+
+    expect(result.content).toBe('From haiku');
+    expect(result.model).toBe(HAIKU);
+    // maxRetries + 1 attempts per model, then one fallback step each
+    expect(mockProvider.calls).toEqual([OPUS, OPUS, OPUS, SONNET, SONNET, SONNET, HAIKU]);
+    expect(result.retries).toBe(6);
+  });
+
+  it('should fall back straight away when the server asks for a longer wait than allowed', async () => {
+    mockProvider = new FakeProvider({ [OPUS]: [new ProviderError('Rate limited', 429, 60_000)], [SONNET]: ['From sonnet'] });
+
+    const result = await run('opus');
+
+    expect(result.content).toBe('From sonnet');
+    expect(mockProvider.calls).toEqual([OPUS, SONNET]);
+  });
+
+  it('should only fall back to models below the requested one', async () => {
+    mockProvider = new FakeProvider({ [HAIKU]: [overloaded()] });
+
+    const err = await run('haiku').catch(e => e);
+
+    expect(err).toBeInstanceOf(ProviderError);
+    expect(mockProvider.calls).toEqual([HAIKU, HAIKU, HAIKU]);
+  });
+
+  it('should carry the retries spent on the error it gives up with', async () => {
+    mockProvider = new FakeProvider({ llama3: [overloaded()] });
+
+    const err = await run('local').catch(e => e);
+
+    // Models outside the chain have no fallback
+    expect(mockProvider.calls).toEqual(['llama3', 'llama3', 'llama3']);
+    expect(err).toBeInstanceOf(ProviderError);
+    expect(err.retries).toBe(2);
+  });
+
+  it('should carry retries across fallbacks on the final error', async () => {
+    mockProvider = new FakeProvider({ [SONNET]: [overloaded()], [HAIKU]: [overloaded()] });
+
+    const err = await run('sonnet').catch(e => e);
+
+    expect(mockProvider.calls).toEqual([SONNET, SONNET, SONNET, HAIKU, HAIKU, HAIKU]);
+    expect(err.retries).toBe(5);
+  });
+});
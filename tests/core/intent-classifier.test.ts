@@ -0,0 +1,140 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CLASSIFIER_FILE, IntentClassifier, TrainingExample } from '../../src/core/intent-classifier';
+
+const FILES = ['parser.ts', 'router.ts', 'config.ts', 'gateway.ts', 'executor.ts'];
+const FUNCTIONS = ['load', 'save', 'parse', 'route', 'merge'];
+const WHEN = ['today', 'tomorrow', 'this week', 'on friday', 'next month'];
+const PHRASES = ['good night', 'thank you', 'where is the station', 'how much is it', 'see you soon'];
+const LANGUAGES = ['french', 'spanish', 'german'];
+
+/**
+ * 60 labeled messages in three groups with separate vocabularies: code
+ * requests, task questions, and translations the LLM sent to a skill.
+ * Interleaved so every group lands in the holdout.
+ */
+function labeledExamples(): TrainingExample[] {
+  const examples: TrainingExample[] = [];
+  for (let i = 0; i < 20; i++) {
+    examples.push({
+      message: `refactor the ${FUNCTIONS[i % 5]} function in ${FILES[Math.floor(i / 4) % 5]}`,
+      intent: 'code', complexity: 'medium', suggestedModel: 'sonnet'
+    });
+    examples.push({
+      message: `what tasks are due ${WHEN[i % 5]}${i % 2 ? ' for me' : ''}`,
+      intent: 'task_query', complexity: 'simple', suggestedModel: 'haiku'
+    });
+    examples.push({
+      message: `translate ${PHRASES[i % 5]} into ${LANGUAGES[i % 3]}`,
+      intent: 'conversation', complexity: 'simple', suggestedModel: 'haiku', selectedSkill: 'translator'
+    });
+  }
+  return examples;
+}
+
+describe('IntentClassifier', () => {
+  describe('keyword rules', () => {
+    const classifier = new IntentClassifier();
+
+    it('should route whole-message greetings and thanks without a model', () => {
+      expect(classifier.predict('Hi there!')).toMatchObject({ intent: 'greeting', confidence: 1, source: 'rule' });
+      expect(classifier.predict('good morning')).toMatchObject({ intent: 'greeting' });
+      expect(classifier.predict('thanks so much.')).toMatchObject({ intent: 'conversation', suggestedModel: 'haiku' });
+    });
+
+    it('should route workflow commands', () => {
+      expect(classifier.predict('run my morning brief')).toMatchObject({ intent: 'workflow_trigger' });
+      expect(classifier.predict('what workflows do I have?')).toMatchObject({ intent: 'workflow_trigger' });
+    });
+
+    it('should leave a greeting followed by a request to the LLM', () => {
+      expect(classifier.matchRules('hi, can you review this code')).toBeNull();
+      expect(classifier.predict('hi, can you review this code')).toBeNull();
+      expect(classifier.predict('thanks, now send the report to Sam')).toBeNull();
+    });
+  });
+
+  describe('trained model', () => {
+    const { classifier, report } = IntentClassifier.train(labeledExamples());
+
+    it('should refuse to train on too few examples', () => {
+      expect(() => IntentClassifier.train(labeledExamples().slice(0, 49))).toThrow('Need at least 50 labeled messages');
+    });
+
+    it('should route a confident message on all three fields', () => {
+      expect(classifier.predict('refactor the parse function in router.ts')).toMatchObject({
+        intent: 'code', complexity: 'medium', suggestedModel: 'sonnet', source: 'model'
+      });
+      expect(classifier.predict('what tasks are due tomorrow')).toMatchObject({
+        intent: 'task_query', complexity: 'simple', suggestedModel: 'haiku'
+      });
+    });
+
+    it('should only answer when the confidence reaches the threshold', () => {
+      // Words from two groups leave the model unsure
+      const message = 'refactor the tasks due today';
+      const guess = classifier.bestGuess(message)!;
+
+      expect(guess.confidence).toBeLessThan(0.9);
+      expect(classifier.predict(message)).toBeNull();
+      expect(classifier.predict(message, guess.confidence)).toEqual(guess);
+      expect(classifier.predict(message, guess.confidence + 0.001)).toBeNull();
+    });
+
+    it('should defer messages like those the LLM sent to a skill', () => {
+      expect(classifier.bestGuess('translate see you soon into german')).toBeNull();
+      expect(classifier.predict('translate see you soon into german', 0)).toBeNull();
+    });
+
+    it('should report coverage and accuracy on every fifth example', () => {
+      // 4 translations in the holdout defer, the other 8 are covered and right
+      expect(report).toEqual({ examples: 60, holdout: 12, threshold: 0.9, covered: 8, correct: 8 });
+      expect(classifier.exampleCount).toBe(60);
+    });
+
+    it('should score the holdout at the threshold it was given', () => {
+      const { report: strict } = IntentClassifier.train(labeledExamples(), 1.01);
+
+      expect(strict).toMatchObject({ threshold: 1.01, covered: 0, correct: 0 });
+    });
+  });
+
+  describe('model file', () => {
+    let dataDir: string;
+
+    beforeEach(() => {
+      dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'hive-classifier-test-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dataDir, { recursive: true, force: true });
+    });
+
+    it('should load a saved model', () => {
+      IntentClassifier.train(labeledExamples()).classifier.save(dataDir);
+
+      const loaded = IntentClassifier.load(dataDir);
+
+      expect(loaded.trained).toBe(true);
+      expect(loaded.predict('what tasks are due today')).toMatchObject({ intent: 'task_query' });
+    });
+
+    it('should ignore a model written by another version', () => {
+      IntentClassifier.train(labeledExamples()).classifier.save(dataDir);
+      const file = path.join(dataDir, CLASSIFIER_FILE);
+      const model = JSON.parse(fs.readFileSync(file, 'utf-8'));
+      fs.writeFileSync(file, JSON.stringify({ ...model, version: model.version + 1 }));
+
+      const loaded = IntentClassifier.load(dataDir);
+
+      expect(loaded.trained).toBe(false);
+      expect(loaded.predict('what tasks are due today', 0)).toBeNull();
+      expect(loaded.predict('hello')).toMatchObject({ intent: 'greeting' });
+    });
+
+    it('should fall back to rules only when there is no model file', () => {
+      expect(IntentClassifier.load(dataDir).trained).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,231 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { OpenAICompatibleProvider } from '../../../src/core/providers/openai-compatible';
+import { ProviderError, ProviderRequest } from '../../../src/core/providers/interface';
+
+/** One server-sent event line. */
+const event = (payload: object | string) => `data: ${typeof payload === 'string' ? payload : JSON.stringify(payload)}\n\n`;
+
+/** A text delta chunk. */
+const delta = (content: string) => event({ choices: [{ delta: { content }, finish_reason: null }] });
+
+/** A chunk carrying one fragment of a tool call. */
+const toolDelta = (index: number, call: { id?: string; name?: string; arguments?: string }) => event({
+  choices: [{
+    delta: { tool_calls: [{ index, id: call.id, function: { name: call.name, arguments: call.arguments } }] },
+    finish_reason: null
+  }]
+});
+
+const finish = (reason: string) => event({ choices: [{ delta: {}, finish_reason: reason }] });
+
+const usage = event({ choices: [], usage: { prompt_tokens: 120, completion_tokens: 15 } });
+
+/**
+ * Stands in for a chat completions server. Each test queues a reply: a
+ * stream written piece by piece (so lines can be cut anywhere), a JSON
+ * body, or an error status.
+ */
+function startServer(): Promise<{ server: http.Server; base: string; replies: Reply[]; bodies: any[] }> {
+  const replies: Reply[] = [];
+  const bodies: any[] = [];
+  const server = http.createServer(async (req, res) => {
+    let raw = '';
+    for await (const piece of req) raw += piece;
+    bodies.push(JSON.parse(raw));
+
+    const reply = replies.shift()!;
+    if ('status' in reply) {
+      res.writeHead(reply.status, reply.headers);
+      res.end(reply.body);
+    } else if ('json' in reply) {
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify(reply.json));
+    } else {
+      res.setHeader('Content-Type', 'text/event-stream');
+      for (const piece of reply.stream) {
+        res.write(piece);
+        await new Promise(resolve => setTimeout(resolve, 5));
+      }
+      res.end();
+    }
+  });
+
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, base: `http://127.0.0.1:${port}/v1`, replies, bodies });
+    });
+  });
+}
+
+type Reply =
+  | { stream: Array<string | Buffer> }
+  | { json: object }
+  | { status: number; body: string; headers?: Record<string, string> };
+
+/** Cut a stream into pieces at the given byte offsets. */
+function cut(stream: string, ...offsets: number[]): Buffer[] {
+  const bytes = Buffer.from(stream);
+  const bounds = [0, ...offsets, bytes.length];
+  return bounds.slice(1).map((end, i) => bytes.subarray(bounds[i], end));
+}
+
+describe('OpenAICompatibleProvider', () => {
+  let server: http.Server;
+  let base: string;
+  let replies: Reply[];
+  let bodies: any[];
+  let provider: OpenAICompatibleProvider;
+
+  const request = (overrides: Partial<ProviderRequest> = {}): ProviderRequest => ({
+    model: 'llama3.2',
+    messages: [{ role: 'user', content: 'What is the weather in Lisbon?' }],
+    maxTokens: 256,
+    ...overrides
+  });
+
+  beforeAll(async () => {
+    ({ server, base, replies, bodies } = await startServer());
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  beforeEach(() => {
+    replies.length = 0;
+    bodies.length = 0;
+    provider = new OpenAICompatibleProvider({ type: 'openai', endpoint: base });
+  });
+
+  describe('streamed responses', () => {
+    it('should forward text deltas and read usage from the last chunk', async () => {
+      const stream = delta('Sunny ') + delta('and 24°C.') + finish('stop') + usage + event('[DONE]');
+      // Cut inside a JSON payload and inside the multi-byte "°"
+      replies.push({ stream: cut(stream, 20, Buffer.from(stream).indexOf('°') + 1) });
+      const deltas: string[] = [];
+
+      const response = await provider.complete(request({ onText: d => deltas.push(d) }));
+
+      expect(deltas).toEqual(['Sunny ', 'and 24°C.']);
+      expect(response).toMatchObject({
+        text: 'Sunny and 24°C.',
+        toolCalls: [],
+        stopReason: 'end',
+        usage: { tokensIn: 120, tokensOut: 15 }
+      });
+      expect(bodies[0]).toMatchObject({ stream: true, stream_options: { include_usage: true } });
+    });
+
+    it('should reassemble tool call arguments sent in fragments', async () => {
+      const stream = [
+        toolDelta(0, { id: 'call_a', name: 'get_weather', arguments: '' }),
+        toolDelta(1, { id: 'call_b', name: 'get_time', arguments: '{"tz":' }),
+        toolDelta(0, { arguments: '{"city": "Lis' }),
+        toolDelta(0, { arguments: 'bon"}' }),
+        toolDelta(1, { arguments: ' "Europe/Lisbon"}' }),
+        finish('tool_calls'),
+        event('[DONE]')
+      ].join('');
+      replies.push({ stream: cut(stream, 50, 51, 200, 333) });
+
+      const response = await provider.complete(request({ onText: () => {} }));
+
+      expect(response.text).toBe('');
+      expect(response.stopReason).toBe('tool_use');
+      expect(response.toolCalls).toEqual([
+        { id: 'call_a', name: 'get_weather', input: { city: 'Lisbon' } },
+        { id: 'call_b', name: 'get_time', input: { tz: 'Europe/Lisbon' } }
+      ]);
+    });
+
+    it('should take tool calls finished with "stop" as tool use, as Ollama sends them', async () => {
+      replies.push({ stream: [toolDelta(0, { name: 'get_weather', arguments: '{"city":"Porto"}' }), finish('stop'), event('[DONE]')] });
+
+      const response = await provider.complete(request({ onText: () => {} }));
+
+      expect(response.stopReason).toBe('tool_use');
+      expect(response.toolCalls).toEqual([{ id: 'call_0', name: 'get_weather', input: { city: 'Porto' } }]);
+    });
+
+    it('should read a last line that has no newline', async () => {
+      replies.push({ stream: [delta('Cut off'), 'data: {"choices":[{"delta":{"content":" here"},"finish_reason":"length"}]}'] });
+
+      const response = await provider.complete(request({ onText: () => {} }));
+
+      expect(response.text).toBe('Cut off here');
+      expect(response.stopReason).toBe('max_tokens');
+    });
+
+    it('should ignore comments and other event fields', async () => {
+      replies.push({ stream: [': keep-alive\n\n', 'event: message\n', delta('Hi'), 'id: 7\n\n', event('[DONE]')] });
+
+      expect((await provider.complete(request({ onText: () => {} }))).text).toBe('Hi');
+    });
+
+    it('should fail a malformed chunk with a retryable error', async () => {
+      replies.push({ stream: [delta('Sunny'), 'data: {"choices":[{"delta":{"content":"and\n\n'] });
+
+      const error = await provider.complete(request({ onText: () => {} })).catch(e => e);
+
+      expect(error).toBeInstanceOf(ProviderError);
+      expect(error.retryable).toBe(true);
+      expect(error.message).toMatch(/^openai sent a malformed stream chunk/);
+    });
+  });
+
+  describe('whole responses', () => {
+    it('should parse text, tool calls and usage', async () => {
+      replies.push({
+        json: {
+          choices: [{
+            message: {
+              content: null,
+              tool_calls: [
+                { id: 'call_abc', function: { name: 'get_weather', arguments: '{"city":"Lisbon"}' } },
+                // Some servers send the arguments as an object
+                { function: { name: 'get_time', arguments: { tz: 'UTC' } } },
+                { function: { name: 'broken', arguments: '{"city":' } }
+              ]
+            },
+            finish_reason: 'tool_calls'
+          }],
+          usage: { prompt_tokens: 80, completion_tokens: 20 }
+        }
+      });
+
+      const response = await provider.complete(request());
+
+      expect(bodies[0].stream).toBe(false);
+      expect(response).toEqual({
+        text: '',
+        toolCalls: [
+          { id: 'call_abc', name: 'get_weather', input: { city: 'Lisbon' } },
+          { id: 'call_1', name: 'get_time', input: { tz: 'UTC' } },
+          { id: 'call_2', name: 'broken', input: {} }
+        ],
+        stopReason: 'tool_use',
+        usage: { tokensIn: 80, tokensOut: 20, cacheCreationTokens: 0, cacheReadTokens: 0, thinkingTokens: 0 }
+      });
+    });
+
+    it('should report a response without choices', async () => {
+      replies.push({ json: { choices: [] } });
+
+      await expect(provider.complete(request())).rejects.toThrow('openai API returned no choices');
+    });
+
+    it('should turn error statuses into provider errors with the retry delay', async () => {
+      replies.push({ status: 429, body: 'slow down', headers: { 'retry-after': '3' } });
+      replies.push({ status: 400, body: 'bad model' });
+
+      const limited = await provider.complete(request()).catch(e => e);
+      expect(limited).toMatchObject({ status: 429, retryAfterMs: 3000, retryable: true });
+      expect(limited.message).toBe('openai API error (429): slow down');
+
+      const invalid = await provider.complete(request()).catch(e => e);
+      expect(invalid).toMatchObject({ status: 400, retryable: false });
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { Config } from '../../src/utils/config';
+import { SQLiteDatabase } from '../../src/db/sqlite';
+import { FileAccessService } from '../../src/services/file-access';
+import { getToolRisk, getTools, ToolDefinition } from '../../src/core/tools';
+
+let mockConfig: Config;
+
+jest.mock('../../src/utils/config', () => {
+  const original = jest.requireActual('../../src/utils/config');
+  return {
+    ...original,
+    getConfig: () => mockConfig,
+  };
+});
+
+/** Monday, October 19 2026, 10:30 in New York. */
+const NOW = new Date('2026-10-19T14:30:00Z');
+
+describe('manage_reminders', () => {
+  let db: SQLiteDatabase;
+  let tool: ToolDefinition;
+
+  beforeEach(async () => {
+    mockConfig = jest.requireActual('../helpers/setup').getTestConfig();
+    jest.useFakeTimers({ now: NOW });
+    db = new SQLiteDatabase(':memory:');
+    await db.initialize();
+    await db.createUser({ id: 'u1', config: {} });
+    [tool] = getTools(['manage_reminders'], { userId: 'web:u1', db, timezone: 'America/New_York' });
+  });
+
+  afterEach(async () => {
+    await db.close();
+    jest.useRealTimers();
+  });
+
+  it('should refuse a due time that has already passed today', async () => {
+    const result = await tool.handler({ action: 'add', text: 'Call Ana', dueAt: 'today at 9' });
+
+    expect(result).toEqual({
+      error: 'dueAt "today at 9" is 2026-10-19T09:00:00-04:00, which has already passed. Ask the user for a time in the future.'
+    });
+    expect(await db.getReminders('u1')).toEqual([]);
+  });
+
+  it('should refuse a past due time when moving a reminder', async () => {
+    const { reminder } = await tool.handler({ action: 'add', text: 'Call Ana', dueAt: 'today at 11' }) as { reminder: { id: string } };
+
+    const result = await tool.handler({ action: 'set_due', reminderId: reminder.id, dueAt: '2026-10-19T10:00' }) as { error?: string };
+
+    expect(result.error).toMatch(/has already passed/);
+    expect((await db.getReminders('u1'))[0].dueAt).toEqual(new Date('2026-10-19T15:00:00Z'));
+  });
+});
+
+describe('write_file', () => {
+  let dataDir: string;
+  let db: SQLiteDatabase;
+  let tool: ToolDefinition;
+
+  beforeEach(async () => {
+    const { getTestConfig } = jest.requireActual('../helpers/setup');
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'hive-tools-test-'));
+    mockConfig = { ...getTestConfig(), dataDir };
+    db = new SQLiteDatabase(':memory:');
+    await db.initialize();
+    await db.createUser({ id: 'u1', config: {} });
+    [tool] = getTools(['write_file'], { userId: 'web:u1', db, fileAccess: new FileAccessService(db) });
+  });
+
+  afterEach(async () => {
+    await db.close();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should ask for confirmation only when replacing an existing file', async () => {
+    const input = { filename: 'notes.md', content: '# Trip' };
+    expect(getToolRisk(tool, input)).toBe('low');
+
+    expect(await tool.handler(input)).toEqual({ success: true, filename: 'notes.md', created: true, versioned: false });
+
+    expect(getToolRisk(tool, input)).toBe('high');
+    expect(getToolRisk(tool, { filename: 'other.md', content: '' })).toBe('low');
+    // The file lands in the account's workspace, not web chat's
+    expect(fs.existsSync(path.join(dataDir, 'users', 'u1', 'files', 'notes.md'))).toBe(true);
+  });
+});
@@ -0,0 +1,135 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SQLiteDatabase } from '../../src/db/sqlite';
+import type { MessageChannel } from '../../src/db/interface';
+
+describe('SQLiteDatabase.searchMessages', () => {
+  let db: SQLiteDatabase;
+  let nextId = 0;
+
+  /** Add a message to a conversation at a given time. */
+  const say = async (conversationId: string, content: string, at: Date, channel: MessageChannel = 'web', role: 'user' | 'assistant' | 'tool' = 'user') => {
+    jest.setSystemTime(at);
+    await db.addMessage({ id: `m${++nextId}`, conversationId, role, content, channel });
+  };
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: new Date('2026-05-01T09:00:00Z') });
+    nextId = 0;
+    db = new SQLiteDatabase(':memory:');
+    await db.initialize();
+    await db.createUser({ id: 'u1', config: {} });
+    await db.createUser({ id: 'u2', config: {} });
+    await db.createConversation({ id: 'c1', userId: 'u1', title: 'Trip planning' });
+    await db.createConversation({ id: 'c2', userId: 'u1', title: 'Work' });
+    await db.createConversation({ id: 'c3', userId: 'u2', title: 'Other user' });
+
+    await say('c1', 'Book the flight to Lisbon for the conference', new Date('2026-05-01T10:00:00Z'), 'telegram');
+    await say('c1', 'The Lisbon hotel is near the river', new Date('2026-05-03T10:00:00Z'), 'web', 'assistant');
+    await say('c2', 'Review the quarterly budget before Friday', new Date('2026-05-05T10:00:00Z'), 'whatsapp');
+    await say('c2', 'lookup lisbon flights', new Date('2026-05-06T10:00:00Z'), 'web', 'tool');
+    await say('c3', 'My Lisbon trip is secret', new Date('2026-05-02T10:00:00Z'));
+  });
+
+  afterEach(async () => {
+    await db.close();
+    jest.useRealTimers();
+  });
+
+  const ids = (results: { messageId: string }[]) => results.map(r => r.messageId).sort();
+
+  it('should find the user\'s own user and assistant messages by prefix', async () => {
+    const results = await db.searchMessages(['u1'], 'lisb');
+
+    // Not the tool message, not another user's message
+    expect(ids(results)).toEqual(['m1', 'm2']);
+    expect(results.find(r => r.messageId === 'm2')).toMatchObject({
+      conversationId: 'c1', conversationTitle: 'Trip planning', role: 'assistant', channel: 'web'
+    });
+  });
+
+  it('should require every word, then fall back to any word', async () => {
+    expect(ids(await db.searchMessages(['u1'], 'Lisbon flight'))).toEqual(['m1']);
+    expect(ids(await db.searchMessages(['u1'], 'Lisbon budget'))).toEqual(['m1', 'm2', 'm3']);
+  });
+
+  it('should filter by date range and channel', async () => {
+    const from = new Date('2026-05-02T00:00:00Z');
+    const to = new Date('2026-05-05T10:00:00Z');
+
+    expect(ids(await db.searchMessages(['u1'], 'the', { from }))).toEqual(['m2', 'm3']);
+    // `to` is exclusive
+    expect(ids(await db.searchMessages(['u1'], 'the', { from, to }))).toEqual(['m2']);
+    expect(ids(await db.searchMessages(['u1'], 'the', { channel: 'telegram' }))).toEqual(['m1']);
+  });
+
+  it('should highlight matched terms in the snippet', async () => {
+    const [hit] = await db.searchMessages(['u1'], 'hotel');
+    expect(hit.snippet).toBe('The Lisbon **hotel** is near the river');
+
+    const [html] = await db.searchMessages(['u1'], 'hotel', { highlight: ['<mark>', '</mark>'] });
+    expect(html.snippet).toBe('The Lisbon <mark>hotel</mark> is near the river');
+  });
+
+  it('should take FTS syntax in the query literally', async () => {
+    const queries = ['"Lisbon', 'Lisbon*', '-hotel', 'hotel NEAR river', 'NEAR(hotel river)', 'river AND', '(budget OR', ':', '^hotel'];
+
+    for (const query of queries) {
+      expect(Array.isArray(await db.searchMessages(['u1'], query))).toBe(true);
+    }
+    // "-hotel" searches for hotel rather than excluding it
+    expect(ids(await db.searchMessages(['u1'], '-hotel'))).toEqual(['m2']);
+    // NEAR is a word to match, not an operator
+    expect(ids(await db.searchMessages(['u1'], 'hotel NEAR river'))).toEqual(['m2']);
+  });
+
+  it('should return nothing for a query without words or without users', async () => {
+    expect(await db.searchMessages(['u1'], '"*- ()')).toEqual([]);
+    expect(await db.searchMessages([], 'Lisbon')).toEqual([]);
+  });
+
+  it('should search several user IDs at once', async () => {
+    expect(ids(await db.searchMessages(['u1', 'u2'], 'secret trip'))).toEqual(['m5']);
+  });
+});
+
+describe('SQLiteDatabase.initialize', () => {
+  let db: SQLiteDatabase;
+  let dir: string;
+
+  const profile = (name: string) => ({ name, preferredName: '', timezone: 'UTC', bio: '', sections: {} });
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'hive-sqlite-test-'));
+    db = new SQLiteDatabase(path.join(dir, 'hive.db'));
+    await db.initialize();
+    // Web chat creates its own user row for `web:<id>`
+    for (const id of ['u1', 'web:u1', 'u2', 'web:u2']) {
+      await db.createUser({ id, config: {} });
+    }
+  });
+
+  afterEach(async () => {
+    await db.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should move reminders and profiles saved by web chat to the account', async () => {
+    await db.createReminder({ id: 'r1', userId: 'web:u1', text: 'Call Ana', isComplete: false });
+    await db.createReminder({ id: 'r2', userId: 'u1', text: 'Pay rent', isComplete: false });
+    await db.saveUserProfile('web:u1', profile('Sam'));
+    await db.saveUserProfile('web:u2', profile('Web Kai'));
+    await db.saveUserProfile('u2', profile('Kai'));
+
+    // Reopen, as on the next start
+    await db.close();
+    await db.initialize();
+
+    expect((await db.getReminders('u1')).map(r => r.id).sort()).toEqual(['r1', 'r2']);
+    expect(await db.getReminders('web:u1')).toEqual([]);
+    expect((await db.getUserProfile('u1'))!.name).toBe('Sam');
+    // The account's own profile wins
+    expect((await db.getUserProfile('u2'))!.name).toBe('Kai');
+  });
+});
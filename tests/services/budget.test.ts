@@ -0,0 +1,191 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { Config } from '../../src/utils/config';
+import { SQLiteDatabase } from '../../src/db/sqlite';
+import { BudgetExceededError, BudgetService } from '../../src/services/budget';
+import { Gateway } from '../../src/core/gateway';
+import type { Executor } from '../../src/core/executor';
+import type { Orchestrator } from '../../src/core/orchestrator';
+import type { SkillResolver } from '../../src/services/skill-resolver';
+
+let mockConfig: Config;
+
+jest.mock('../../src/utils/config', () => {
+  const original = jest.requireActual('../../src/utils/config');
+  return {
+    ...original,
+    getConfig: () => mockConfig,
+    loadConfig: () => mockConfig,
+  };
+});
+
+describe('BudgetService', () => {
+  let db: SQLiteDatabase;
+  let budgets: BudgetService;
+
+  /** Log spending for a user at the current (fake) time. */
+  const spend = (userId: string, costCents: number) =>
+    db.logUsage({ userId, model: 'claude-sonnet', tokensIn: 0, tokensOut: 0, costCents });
+
+  const addMember = async (userId: string, team?: string) => {
+    await db.createUserAuth({ userId, email: `${userId}@example.com`, passwordHash: 'x', isAdmin: false });
+    if (team) await db.updateUserAuthTeam(userId, team);
+  };
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: new Date(2026, 2, 15, 12, 0) });
+    db = new SQLiteDatabase(':memory:');
+    await db.initialize();
+    for (const id of ['u1', 'u2', 'u3', 'web:u1', 'web:u2']) {
+      await db.createUser({ id, config: {} });
+    }
+    budgets = new BudgetService(db);
+  });
+
+  afterEach(async () => {
+    await db.close();
+    jest.useRealTimers();
+  });
+
+  it('should be ok when no budget applies', async () => {
+    await spend('u1', 10_000);
+
+    expect(await budgets.getStatus('u1')).toEqual({ state: 'ok', binding: null, limits: [] });
+  });
+
+  it('should count today\'s and this month\'s spending, web chat included', async () => {
+    await db.saveBudget({ scope: 'user', targetId: 'u1', dailyCents: 100, monthlyCents: 1000 });
+    jest.setSystemTime(new Date(2026, 2, 14, 18, 0));
+    await spend('u1', 500);
+    jest.setSystemTime(new Date(2026, 2, 15, 12, 0));
+    await spend('u1', 50);
+    await spend('web:u1', 30);
+    await spend('u2', 999);
+
+    const status = await budgets.getStatus('web:u1');
+
+    expect(status.limits.map(l => [l.period, l.spentCents, l.remainingCents])).toEqual([
+      ['daily', 80, 20],
+      ['monthly', 580, 420]
+    ]);
+    expect(status.binding).toMatchObject({ scope: 'user', targetId: 'u1', period: 'daily', usedFraction: 0.8 });
+    expect(status.binding!.resetsAt).toEqual(new Date(2026, 2, 16));
+    expect(status.state).toBe('warning');
+  });
+
+  it('should start a new month from zero', async () => {
+    await db.saveBudget({ scope: 'user', targetId: 'u1', dailyCents: null, monthlyCents: 1000 });
+    jest.setSystemTime(new Date(2026, 2, 31, 23, 30));
+    await spend('u1', 1000);
+    expect((await budgets.getStatus('u1')).state).toBe('exceeded');
+
+    jest.setSystemTime(new Date(2026, 3, 1, 0, 30));
+    const status = await budgets.getStatus('u1');
+
+    expect(status.state).toBe('ok');
+    expect(status.binding).toMatchObject({ period: 'monthly', spentCents: 0, resetsAt: new Date(2026, 4, 1) });
+  });
+
+  it('should warn at 80%, downgrade at 90% and refuse at 100%', async () => {
+    await db.saveBudget({ scope: 'user', targetId: 'u1', dailyCents: 100, monthlyCents: null });
+
+    const states: string[] = [];
+    for (const cents of [79, 1, 9, 1, 9, 1]) {
+      await spend('u1', cents);
+      states.push((await budgets.getStatus('u1')).state);
+    }
+
+    expect(states).toEqual(['ok', 'warning', 'warning', 'downgrade', 'downgrade', 'exceeded']);
+  });
+
+  it('should apply the team cap to every member when it is the most used', async () => {
+    await addMember('u1', 'ops');
+    await addMember('u2', 'ops');
+    await addMember('u3');
+    await db.saveBudget({ scope: 'user', targetId: 'u1', dailyCents: null, monthlyCents: 10_000 });
+    await db.saveBudget({ scope: 'team', targetId: 'ops', dailyCents: null, monthlyCents: 1000 });
+    await spend('u1', 100);
+    await spend('web:u2', 850);
+
+    const status = await budgets.getStatus('u1');
+
+    expect(status.limits.map(l => [l.scope, l.spentCents])).toEqual([['user', 100], ['team', 950]]);
+    expect(status.binding).toMatchObject({ scope: 'team', targetId: 'ops' });
+    expect(status.state).toBe('downgrade');
+    expect((await budgets.getStatus('u3')).state).toBe('ok');
+  });
+
+  it('should explain a refusal and warn once per period', async () => {
+    await addMember('u1', 'ops');
+    await db.saveBudget({ scope: 'team', targetId: 'ops', dailyCents: null, monthlyCents: 1000 });
+    await spend('u1', 800);
+
+    const warning = budgets.takeWarning('u1', await budgets.getStatus('u1'));
+    expect(warning).toBe('Heads up: 80% of your team\'s monthly AI budget is used ($8.00 of $10.00). It resets on April 1.');
+    expect(budgets.takeWarning('web:u1', await budgets.getStatus('u1'))).toBeNull();
+
+    await spend('u1', 200);
+    expect(budgets.refusalMessage(await budgets.getStatus('u1'))).toBe(
+      'Your team\'s monthly AI budget of $10.00 has been used up, so I can\'t answer right now. It resets on April 1. An admin can raise the limit.'
+    );
+
+    jest.setSystemTime(new Date(2026, 3, 2, 9, 0));
+    await spend('u1', 850);
+    expect(budgets.takeWarning('u1', await budgets.getStatus('u1'))).toContain('85% of your team\'s monthly AI budget');
+  });
+});
+
+describe('Gateway budget enforcement', () => {
+  let db: SQLiteDatabase;
+  let dataDir: string;
+  let gateway: Gateway;
+  const execute = jest.fn();
+  const route = jest.fn();
+
+  beforeEach(async () => {
+    const { getTestConfig } = jest.requireActual('../helpers/setup');
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'hive-budget-test-'));
+    mockConfig = { ...getTestConfig(), dataDir };
+    db = new SQLiteDatabase(':memory:');
+    await db.initialize();
+    await db.createUser({ id: 'u1', config: {} });
+    await db.saveBudget({ scope: 'user', targetId: 'u1', dailyCents: 100, monthlyCents: null });
+    await db.logUsage({ userId: 'u1', model: 'claude-sonnet', tokensIn: 0, tokensOut: 0, costCents: 100 });
+
+    gateway = new Gateway({
+      db,
+      orchestrator: { route, ruleRoute: () => null } as unknown as Orchestrator,
+      executor: { execute } as unknown as Executor,
+      workspacePath: dataDir,
+      defaultUserId: 'u1',
+      skillResolver: { getSkillsForUser: async () => [] } as unknown as SkillResolver
+    });
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await db.close();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+    execute.mockReset();
+    route.mockReset();
+  });
+
+  it('should throw BudgetExceededError for workflow steps without calling the model', async () => {
+    const run = gateway.handleMessage('u1', 'Summarize the feed', 'workflow');
+
+    await expect(run).rejects.toBeInstanceOf(BudgetExceededError);
+    await expect(run).rejects.toThrow('Your daily AI budget of $1.00 has been used up');
+    expect(route).not.toHaveBeenCalled();
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it('should answer chat with the refusal instead', async () => {
+    const result = await gateway.handleMessage('web:u1', 'Hello there', 'web');
+
+    expect(result.response).toContain('Your daily AI budget of $1.00 has been used up');
+    expect(result.usage.costCents).toBe(0);
+    expect(execute).not.toHaveBeenCalled();
+  });
+});
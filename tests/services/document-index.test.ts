@@ -0,0 +1,91 @@
+import { SQLiteDatabase } from '../../src/db/sqlite';
+import { chunkDocument, citation, DocumentIndexService, formatPassages } from '../../src/services/document-index';
+
+describe('chunkDocument', () => {
+  it('should keep PDF passages within a page, with their page number', () => {
+    const chunks = chunkDocument('[Page 1]\nTerms of the lease\n\n[Page 2]\nNotice period is two months');
+    expect(chunks).toEqual([
+      { chunkIndex: 0, page: 1, startLine: 2, endLine: 2, text: 'Terms of the lease' },
+      { chunkIndex: 1, page: 2, startLine: 5, endLine: 5, text: 'Notice period is two months' }
+    ]);
+  });
+
+  it('should split long text at line breaks, numbering lines as read_file does', () => {
+    const paragraph = 'word '.repeat(140).trim();
+    const text = ['# Notes', '', paragraph, '', paragraph, paragraph, '', 'x'.repeat(3000)].join('\n');
+
+    const chunks = chunkDocument(text);
+    expect(chunks.map(c => [c.startLine, c.endLine])).toEqual([[1, 3], [5, 5], [6, 6], [8, 8], [8, 8], [8, 8]]);
+    expect(chunks[0].text).toBe(`# Notes\n\n${paragraph}`);
+    expect(chunks[0].page).toBeUndefined();
+    expect(chunks.slice(3).map(c => c.text.length)).toEqual([1200, 1200, 600]);
+  });
+
+  it('should return no passages for blank text', () => {
+    expect(chunkDocument('\n\n  \n')).toEqual([]);
+  });
+});
+
+describe('DocumentIndexService', () => {
+  let db: SQLiteDatabase;
+  let index: DocumentIndexService;
+
+  beforeEach(async () => {
+    db = new SQLiteDatabase(':memory:');
+    await db.initialize();
+    index = new DocumentIndexService(db);
+  });
+
+  afterEach(async () => {
+    await db.close();
+    jest.useRealTimers();
+  });
+
+  it('should find passages across files with their references', async () => {
+    await index.index('user-1', 'lease.pdf', '[Page 1]\nRent is due on the first\n\n[Page 2]\nThe notice period is two months');
+    await index.index('user-1', 'notes.md', 'Call the landlord\nAsk about the parking space');
+    await index.index('user-2', 'other.md', 'notice period of one week');
+
+    const passages = await index.search('user-1', 'What is the notice period?');
+    expect(passages).toEqual([
+      { filename: 'lease.pdf', page: 2, startLine: 5, endLine: 5, text: 'The notice period is two months' }
+    ]);
+    expect(citation(passages[0])).toBe('[lease.pdf, p. 2]');
+
+    const [note] = await index.search('user-1', 'parking landlord');
+    expect(citation(note)).toBe('[notes.md, lines 1–2]');
+    expect(formatPassages([note])).toBe(
+      "## From the User's Files (cite the source in brackets for facts you use)\n- [notes.md, lines 1–2] Call the landlord Ask about the parking space"
+    );
+  });
+
+  it('should replace a file\'s passages when it is indexed again, and drop them on removal', async () => {
+    await index.index('user-1', 'notes.md', 'Budget draft');
+    await index.index('user-1', 'notes.md', 'Final budget');
+
+    expect((await index.search('user-1', 'budget')).map(p => p.text)).toEqual(['Final budget']);
+    expect([...(await index.indexed('user-1')).keys()]).toEqual(['notes.md']);
+
+    await index.remove('user-1', 'notes.md');
+    expect(await index.search('user-1', 'budget')).toEqual([]);
+    expect((await index.indexed('user-1')).size).toBe(0);
+  });
+
+  it('should reuse a user\'s built index until their files change', async () => {
+    jest.useFakeTimers({ now: new Date('2026-10-19T10:00:00Z') });
+    await index.index('user-1', 'notes.md', 'Budget draft');
+    const loadChunks = jest.spyOn(db, 'getDocumentChunks');
+
+    await index.search('user-1', 'budget');
+    await index.search('user-1', 'draft');
+    await index.search('user-2', 'budget');
+    expect(loadChunks.mock.calls.map(([userId]) => userId)).toEqual(['user-1', 'user-2']);
+
+    // Indexed by another service sharing the database
+    jest.setSystemTime(new Date('2026-10-19T10:05:00Z'));
+    await new DocumentIndexService(db).index('user-1', 'plan.md', 'Budget plan');
+
+    expect((await index.search('user-1', 'budget')).map(p => p.filename).sort()).toEqual(['notes.md', 'plan.md']);
+    expect(loadChunks).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,94 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { Config } from '../../src/utils/config';
+import { SQLiteDatabase } from '../../src/db/sqlite';
+import { FileAccessService } from '../../src/services/file-access';
+
+let mockConfig: Config;
+
+jest.mock('../../src/utils/config', () => {
+  const original = jest.requireActual('../../src/utils/config');
+  return {
+    ...original,
+    getConfig: () => mockConfig,
+  };
+});
+
+describe('FileAccessService writes', () => {
+  let dataDir: string;
+  let filesDir: string;
+  let db: SQLiteDatabase;
+  let files: FileAccessService;
+
+  beforeEach(async () => {
+    const { getTestConfig } = jest.requireActual('../helpers/setup');
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'hive-files-test-'));
+    mockConfig = { ...getTestConfig(), dataDir };
+    filesDir = path.join(dataDir, 'users', 'u1', 'files');
+    db = new SQLiteDatabase(':memory:');
+    await db.initialize();
+    await db.createUser({ id: 'u1', config: {} });
+    files = new FileAccessService(db);
+  });
+
+  afterEach(async () => {
+    await db.close();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should write and replace a text file', async () => {
+    expect(await files.writeTextFile('u1', 'notes.md', '# Trip')).toBe('notes.md');
+    await files.writeTextFile('u1', 'notes.md', '# Trip to Lisbon');
+
+    expect(fs.readFileSync(path.join(filesDir, 'notes.md'), 'utf-8')).toBe('# Trip to Lisbon');
+  });
+
+  it('should refuse names with folders or ..', async () => {
+    await expect(files.writeTextFile('u1', '../x.md', 'escaped')).rejects.toThrow('Invalid filename: ../x.md');
+    await expect(files.appendTextFile('u1', '../x.md', 'escaped')).rejects.toThrow('Invalid filename');
+    await expect(files.writeTextFile('u1', 'drafts/x.md', 'nested')).rejects.toThrow('Invalid filename');
+
+    expect(fs.existsSync(path.join(dataDir, 'users', 'u1', 'x.md'))).toBe(false);
+    expect(fs.existsSync(path.join(filesDir, 'x.md'))).toBe(false);
+  });
+
+  it('should refuse to write files that are not text', async () => {
+    await expect(files.writeTextFile('u1', 'report.pdf', '%PDF')).rejects.toThrow('Cannot write .pdf files');
+    await expect(files.appendTextFile('u1', 'setup.exe', 'MZ')).rejects.toThrow('Cannot write .exe files');
+
+    expect(fs.existsSync(filesDir) ? fs.readdirSync(filesDir) : []).toEqual([]);
+  });
+
+  it('should append on a new line', async () => {
+    await files.appendTextFile('u1', 'log.txt', 'Ran 5km');
+    await files.appendTextFile('u1', 'log.txt', 'Swam 1km\n');
+    await files.appendTextFile('u1', 'log.txt', 'Rested');
+
+    expect(fs.readFileSync(path.join(filesDir, 'log.txt'), 'utf-8')).toBe('Ran 5km\nSwam 1km\nRested');
+  });
+
+  it('should refuse an append that would pass the size limit, counting the added newline', async () => {
+    const full = 'x'.repeat(1024 * 1024 - 10);
+    await files.writeTextFile('u1', 'big.txt', full);
+
+    await expect(files.appendTextFile('u1', 'big.txt', 'y'.repeat(10))).rejects.toThrow('File too large: appending would exceed 1024KB');
+    expect(fs.readFileSync(path.join(filesDir, 'big.txt'), 'utf-8')).toBe(full);
+
+    await files.appendTextFile('u1', 'big.txt', 'y'.repeat(9));
+    expect(fs.statSync(path.join(filesDir, 'big.txt')).size).toBe(1024 * 1024);
+  });
+
+  it('should keep the old version only of tracked files', async () => {
+    await files.writeTextFile('u1', 'plain.md', 'v1');
+    await files.writeTextFile('u1', 'plain.md', 'v2');
+    await files.writeTextFile('u1', 'budget.csv', 'month,amount\n');
+    await db.setFileTracked('u1', 'budget.csv', true);
+
+    await files.appendTextFile('u1', 'budget.csv', 'oct,120');
+
+    expect(files.hasPreviousVersion('u1', 'plain.md')).toBe(false);
+    expect(fs.readFileSync(path.join(filesDir, 'budget.csv.prev'), 'utf-8')).toBe('month,amount\n');
+    expect(fs.readFileSync(path.join(filesDir, 'budget.csv'), 'utf-8')).toBe('month,amount\noct,120');
+  });
+});
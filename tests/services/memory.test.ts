@@ -0,0 +1,130 @@
+import type { Config } from '../../src/utils/config';
+import { SQLiteDatabase } from '../../src/db/sqlite';
+import type { Executor, ExecutorResult } from '../../src/core/executor';
+import { MemoryService, parseFacts } from '../../src/services/memory';
+
+let mockConfig: Config;
+
+jest.mock('../../src/utils/config', () => {
+  const original = jest.requireActual('../../src/utils/config');
+  return {
+    ...original,
+    getConfig: () => mockConfig,
+  };
+});
+
+describe('parseFacts', () => {
+  it('should read the JSON array out of surrounding prose', () => {
+    const response = 'Here is what I found:\n```json\n[{"category": "person", "content": "Their sister Ana lives in Porto", "expiresAt": null}]\n```\nLet me know!';
+
+    expect(parseFacts(response)).toEqual([
+      { category: 'person', content: 'Their sister Ana lives in Porto', expiresAt: null }
+    ]);
+  });
+
+  it('should file an unknown category as a plain fact', () => {
+    expect(parseFacts('[{"category": "hobby", "content": "Plays the cello"}]')).toEqual([
+      { category: 'fact', content: 'Plays the cello', expiresAt: null }
+    ]);
+  });
+
+  it('should keep a valid expiry and drop one that is not a date', () => {
+    const facts = parseFacts(JSON.stringify([
+      { category: 'commitment', content: 'Sends the report on Friday', expiresAt: '2026-10-24' },
+      { category: 'commitment', content: 'Calls the bank', expiresAt: 'next week' },
+      { category: 'commitment', content: 'Books the flights', expiresAt: 42 }
+    ]));
+
+    expect(facts.map(f => f.expiresAt)).toEqual([new Date('2026-10-24T00:00:00Z'), null, null]);
+  });
+
+  it('should drop empty and over-long content', () => {
+    const facts = parseFacts(JSON.stringify([
+      { category: 'fact', content: '   ' },
+      { category: 'fact', content: 'x'.repeat(301) },
+      { category: 'fact', content: `  ${'y'.repeat(300)}  ` },
+      { category: 'fact' }
+    ]));
+
+    expect(facts.map(f => f.content)).toEqual(['y'.repeat(300)]);
+  });
+
+  it('should return nothing without a well-formed array', () => {
+    expect(parseFacts('Nothing new to remember.')).toEqual([]);
+    expect(parseFacts('[{"category": "fact", "content": "unterminated"')).toEqual([]);
+    expect(parseFacts('[not json]')).toEqual([]);
+  });
+});
+
+describe('MemoryService.extractIfNeeded', () => {
+  let db: SQLiteDatabase;
+  let memory: MemoryService;
+  let replies: string[];
+  let nextId = 0;
+
+  /** An exchange in the conversation, a minute after the last. */
+  const exchange = async (count: number) => {
+    for (let i = 0; i < count; i++) {
+      jest.setSystemTime(Date.now() + 60_000);
+      await db.addMessage({ id: `m${++nextId}`, conversationId: 'c1', role: i % 2 ? 'assistant' : 'user', content: `Message ${nextId}` });
+    }
+  };
+
+  beforeEach(async () => {
+    const { getTestConfig } = jest.requireActual('../helpers/setup');
+    mockConfig = getTestConfig();
+    jest.useFakeTimers({ now: new Date('2026-10-19T14:00:00Z') });
+    nextId = 0;
+    db = new SQLiteDatabase(':memory:');
+    await db.initialize();
+    // Web chat runs as `web:<id>`, with a user row of its own
+    await db.createUser({ id: 'u1', config: {} });
+    await db.createUser({ id: 'web:u1', config: {} });
+    await db.createConversation({ id: 'c1', userId: 'web:u1' });
+
+    replies = [];
+    const executor = {
+      execute: async (): Promise<ExecutorResult> => ({
+        content: replies.shift() ?? '[]', model: 'claude-haiku', tokensIn: 400, tokensOut: 30, costCents: 0.5,
+        cacheCreationTokens: 0, cacheReadTokens: 0, cacheSavingsCents: 0, thinkingTokens: 0, thinkingCostCents: 0, retries: 0
+      })
+    } as unknown as Executor;
+    memory = new MemoryService(db, executor);
+  });
+
+  afterEach(async () => {
+    await db.close();
+    jest.useRealTimers();
+  });
+
+  it('should wait for enough new messages', async () => {
+    await exchange(3);
+
+    expect(await memory.extractIfNeeded('web:u1', 'c1')).toBe(0);
+    expect(await db.getUsage('u1')).toEqual([]);
+  });
+
+  it('should update a near-duplicate fact instead of adding another', async () => {
+    replies.push('[{"category": "preference", "content": "Prefers window seats on flights", "expiresAt": null}]');
+    await exchange(4);
+    expect(await memory.extractIfNeeded('web:u1', 'c1')).toBe(1);
+    const [first] = await db.getMemories('u1');
+
+    replies.push('[{"category": "preference", "content": "Prefers aisle seats on flights", "expiresAt": null}]');
+    await exchange(4);
+    expect(await memory.extractIfNeeded('web:u1', 'c1')).toBe(1);
+
+    const memories = await db.getMemories('u1');
+    expect(memories).toHaveLength(1);
+    expect(memories[0]).toMatchObject({ id: first.id, content: 'Prefers aisle seats on flights' });
+  });
+
+  it('should log each extraction call as the account\'s usage', async () => {
+    await exchange(4);
+    await memory.extractIfNeeded('web:u1', 'c1');
+
+    expect(await db.getUsage('u1')).toEqual([
+      expect.objectContaining({ model: 'claude-haiku', tokensIn: 400, tokensOut: 30, costCents: 0.5 })
+    ]);
+  });
+});
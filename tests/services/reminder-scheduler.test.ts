@@ -0,0 +1,228 @@
+import { SQLiteDatabase } from '../../src/db/sqlite';
+import type { NotificationSender } from '../../src/services/notification-sender';
+import { ReminderScheduler } from '../../src/services/reminder-scheduler';
+import { ReminderService } from '../../src/services/reminders';
+import { UserSettingsService } from '../../src/services/user-settings';
+
+// chalk is ESM-only, which Jest can't load, so colours are dropped
+jest.mock('chalk', () => ({
+  __esModule: true,
+  default: { red: String, yellow: String, gray: String }
+}));
+
+const MINUTE = 60_000;
+
+describe('ReminderScheduler', () => {
+  let db: SQLiteDatabase;
+  let settings: UserSettingsService;
+  let reminders: ReminderService;
+  let scheduler: ReminderScheduler;
+  let sent: Array<{ channel: string; recipient: string; message: string }>;
+
+  /** One pass of the check loop, as start() runs every minute. */
+  const check = () => (scheduler as unknown as { checkDueReminders(): Promise<void> }).checkDueReminders();
+
+  const advance = (minutes: number) => jest.setSystemTime(Date.now() + minutes * MINUTE);
+
+  const setUp = async (now: Date, timezone: string) => {
+    jest.useFakeTimers({ now });
+    db = new SQLiteDatabase(':memory:');
+    await db.initialize();
+    await db.createUser({ id: 'u1', config: {} });
+    await db.createChannelIdentity({ id: 'ci-tg', ownerId: 'u1', channel: 'telegram', channelUserId: '1001', label: 'Telegram' });
+    await db.createChannelIdentity({ id: 'ci-wa', ownerId: 'u1', channel: 'whatsapp', channelUserId: '+351900000000', label: 'WhatsApp' });
+    settings = new UserSettingsService(db);
+    await settings.saveTimezone('u1', timezone);
+    await settings.saveReminderDelivery('u1', { channels: ['telegram', 'whatsapp', 'web'], escalateAfterMinutes: 0 });
+    reminders = new ReminderService(db, settings);
+
+    sent = [];
+    const sender = {
+      send: async (channel: string, recipient: string, message: string) => {
+        sent.push({ channel, recipient, message });
+      }
+    } as unknown as NotificationSender;
+    scheduler = new ReminderScheduler(db, sender, settings);
+  };
+
+  afterEach(async () => {
+    await db.close();
+    jest.useRealTimers();
+  });
+
+  describe('in New York', () => {
+    /** Monday, October 19 2026, 10:00 in New York. */
+    const NOW = new Date('2026-10-19T14:00:00Z');
+
+    beforeEach(() => setUp(NOW, 'America/New_York'));
+
+    it('should notify a due reminder once, on the first channel that works', async () => {
+      await db.deleteChannelIdentity('ci-tg');
+      await db.createReminder({ id: 'r1', userId: 'u1', text: 'Call Ana', isComplete: false, dueAt: NOW });
+
+      await check();
+      await check();
+
+      expect(sent).toEqual([{
+        channel: 'whatsapp',
+        recipient: '+351900000000',
+        message: '⏰ Reminder: Call Ana\n\nReply "done", or "snooze" (10 min) / "snooze 1h".'
+      }]);
+      const deliveries = await db.getReminderDeliveries('r1');
+      expect(deliveries.map(d => [d.channel, d.status])).toEqual([['whatsapp', 'sent'], ['telegram', 'failed']]);
+      expect((await db.getReminder('r1'))!.notifiedAt).toEqual(NOW);
+    });
+
+    it('should not notify a reminder before it is due', async () => {
+      await db.createReminder({ id: 'r1', userId: 'u1', text: 'Call Ana', isComplete: false, dueAt: new Date(NOW.getTime() + MINUTE) });
+
+      await check();
+      expect(sent).toEqual([]);
+
+      advance(1);
+      await check();
+      expect(sent).toHaveLength(1);
+    });
+
+    it('should say when a late notification was due, in the user\'s timezone', async () => {
+      await db.createReminder({ id: 'r1', userId: 'u1', text: 'Call Ana', isComplete: false, dueAt: new Date('2026-10-19T12:00:00Z') });
+
+      await check();
+
+      expect(sent[0].message).toMatch(/^⏰ Reminder: Call Ana \(due Mon, Oct 19, 8:00 AM EDT\)/);
+    });
+
+    it('should notify a snoozed reminder again once the snooze is over', async () => {
+      await db.createReminder({ id: 'r1', userId: 'u1', text: 'Call Ana', isComplete: false, dueAt: NOW });
+      await check();
+
+      await reminders.snooze((await db.getReminder('r1'))!, 30);
+      advance(29);
+      await check();
+      expect(sent).toHaveLength(1);
+
+      advance(1);
+      await check();
+      expect(sent).toHaveLength(2);
+      expect((await db.getReminder('r1'))!.notifiedAt).toEqual(new Date(NOW.getTime() + 30 * MINUTE));
+    });
+
+    it('should escalate an unanswered notification down the channel list', async () => {
+      await settings.saveReminderDelivery('u1', { channels: ['telegram', 'whatsapp'], escalateAfterMinutes: 15 });
+      await db.createReminder({ id: 'r1', userId: 'u1', text: 'Call Ana', isComplete: false, dueAt: NOW });
+      await check();
+
+      advance(14);
+      await check();
+      expect(sent.map(s => s.channel)).toEqual(['telegram']);
+
+      advance(1);
+      await check();
+      expect(sent.map(s => s.channel)).toEqual(['telegram', 'whatsapp']);
+      expect(sent[1].message).toMatch(/^🔔 Still pending: Call Ana/);
+      expect((await db.getReminderDeliveries('r1'))[0]).toMatchObject({ channel: 'whatsapp', escalation: true });
+
+      // No channel left to escalate to
+      advance(30);
+      await check();
+      expect(sent).toHaveLength(2);
+    });
+
+    it('should not escalate once the reminder is done', async () => {
+      await settings.saveReminderDelivery('u1', { channels: ['telegram', 'whatsapp'], escalateAfterMinutes: 15 });
+      await db.createReminder({ id: 'r1', userId: 'u1', text: 'Call Ana', isComplete: false, dueAt: NOW });
+      await check();
+
+      await reminders.done((await db.getReminder('r1'))!);
+      advance(20);
+      await check();
+
+      expect(sent).toHaveLength(1);
+    });
+
+    it('should move an unanswered repeating reminder on to its next occurrence', async () => {
+      await db.createReminder({
+        id: 'r1', userId: 'u1', text: 'Stand-up', isComplete: false, dueAt: NOW, recurrence: '0 10 * * *'
+      });
+      await check();
+
+      // Still today's occurrence the same evening
+      advance(8 * 60);
+      await check();
+      expect(sent).toHaveLength(1);
+
+      // Tomorrow at 10:00 the next occurrence comes round: moved on and notified in the same pass
+      jest.setSystemTime(new Date('2026-10-20T14:00:30Z'));
+      await check();
+      expect(await db.getReminder('r1')).toMatchObject({
+        dueAt: new Date('2026-10-20T14:00:00Z'), notifiedAt: new Date('2026-10-20T14:00:30Z')
+      });
+      expect(sent).toHaveLength(2);
+    });
+
+    it('should keep the wall-clock time when "done" crosses the end of daylight saving', async () => {
+      // Saturday October 31, 10:00 EDT; clocks go back on November 1
+      jest.setSystemTime(new Date('2026-10-31T14:00:00Z'));
+      const reminder = await db.createReminder({
+        id: 'r1', userId: 'u1', text: 'Stand-up', isComplete: false, dueAt: new Date('2026-10-31T14:00:00Z'), recurrence: '0 10 * * *'
+      });
+      await check();
+
+      const updated = await reminders.done(reminder);
+
+      // 10:00 EST is 15:00 UTC
+      expect(updated).toMatchObject({ isComplete: false, dueAt: new Date('2026-11-01T15:00:00Z'), notifiedAt: undefined });
+    });
+
+    it('should complete a one-off reminder on "done"', async () => {
+      const reminder = await db.createReminder({ id: 'r1', userId: 'u1', text: 'Call Ana', isComplete: false, dueAt: NOW });
+
+      expect((await reminders.done(reminder)).isComplete).toBe(true);
+    });
+  });
+
+  describe('in Lisbon', () => {
+    /** Friday, March 27 2026, 09:00 in Lisbon (WET, UTC+0); clocks go forward on Sunday the 29th. */
+    const NOW = new Date('2026-03-27T09:00:00Z');
+
+    beforeEach(() => setUp(NOW, 'Europe/Lisbon'));
+
+    it('should follow a daily repeat across the start of summer time', async () => {
+      await db.createReminder({
+        id: 'r1', userId: 'u1', text: 'Vitamins', isComplete: false, dueAt: NOW, recurrence: '0 9 * * *'
+      });
+
+      const dueTimes: string[] = [];
+      for (let day = 0; day < 4; day++) {
+        const reminder = (await db.getReminder('r1'))!;
+        dueTimes.push(reminder.dueAt!.toISOString());
+        jest.setSystemTime(reminder.dueAt!);
+        await check();
+        await reminders.done((await db.getReminder('r1'))!);
+      }
+
+      // 09:00 local every day: UTC+0 until Sunday, UTC+1 from then on
+      expect(dueTimes).toEqual([
+        '2026-03-27T09:00:00.000Z',
+        '2026-03-28T09:00:00.000Z',
+        '2026-03-29T08:00:00.000Z',
+        '2026-03-30T08:00:00.000Z'
+      ]);
+      expect(sent).toHaveLength(4);
+    });
+
+    it('should move a missed weekly repeat on to the right local time after the change', async () => {
+      // Every Friday at 09:00; last notified the Friday before the change
+      await db.createReminder({
+        id: 'r1', userId: 'u1', text: 'Timesheet', isComplete: false, dueAt: NOW, recurrence: '0 9 * * 5'
+      });
+      await check();
+
+      jest.setSystemTime(new Date('2026-04-03T08:30:00Z'));
+      await check();
+
+      // 09:00 WEST on April 3 is 08:00 UTC
+      expect((await db.getReminder('r1'))!.dueAt).toEqual(new Date('2026-04-03T08:00:00Z'));
+    });
+  });
+});
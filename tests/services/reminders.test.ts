@@ -0,0 +1,102 @@
+import { v4 as uuidv4 } from 'uuid';
+import { SQLiteDatabase } from '../../src/db/sqlite';
+import type { MessageChannel, ReminderChannel } from '../../src/db/interface';
+import { ReminderService } from '../../src/services/reminders';
+import { UserSettingsService } from '../../src/services/user-settings';
+
+/** Monday, October 19 2026, 10:00 in New York. */
+const NOW = new Date('2026-10-19T14:00:00Z');
+const MINUTE = 60_000;
+
+describe('ReminderService.handleReply', () => {
+  let db: SQLiteDatabase;
+  let reminders: ReminderService;
+
+  /** Notify the reminder now on a channel, as the scheduler does. */
+  const notify = async (channel: ReminderChannel, escalation = false) => {
+    if (!escalation) await db.updateReminder('r1', { notifiedAt: new Date() });
+    await db.createReminderDelivery({ id: uuidv4(), reminderId: 'r1', userId: 'u1', channel, status: 'sent', escalation });
+  };
+
+  /** A message from the user a minute later, saved first as the gateway does. */
+  const userSays = async (channel: MessageChannel, text: string) => {
+    jest.setSystemTime(Date.now() + MINUTE);
+    await db.addMessage({ id: uuidv4(), conversationId: 'c1', role: 'user', channel, content: text });
+    return reminders.handleReply('u1', channel, text);
+  };
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: NOW });
+    db = new SQLiteDatabase(':memory:');
+    await db.initialize();
+    await db.createUser({ id: 'u1', config: {} });
+    await db.createConversation({ id: 'c1', userId: 'u1' });
+    const settings = new UserSettingsService(db);
+    await settings.saveTimezone('u1', 'America/New_York');
+    reminders = new ReminderService(db, settings);
+    await db.createReminder({ id: 'r1', userId: 'u1', text: 'Water the plants', isComplete: false, dueAt: NOW });
+  });
+
+  afterEach(async () => {
+    await db.close();
+    jest.useRealTimers();
+  });
+
+  it('should mark the reminder done when the next message on that chat is "done"', async () => {
+    await notify('telegram');
+
+    expect(await userSays('telegram', 'Done!')).toBe('✅ Marked "Water the plants" as done.');
+    expect((await db.getReminder('r1'))!.isComplete).toBe(true);
+  });
+
+  it('should snooze the reminder for the length given', async () => {
+    await notify('whatsapp');
+
+    expect(await userSays('whatsapp', 'snooze 30')).toBe('💤 Snoozed "Water the plants" until 10:31 AM.');
+    expect(await db.getReminder('r1')).toMatchObject({ dueAt: new Date(NOW.getTime() + 31 * MINUTE), notifiedAt: undefined });
+  });
+
+  it('should leave "done" on another channel to the conversation', async () => {
+    await notify('telegram');
+
+    expect(await userSays('whatsapp', 'done')).toBeNull();
+    expect(await userSays('web', 'done')).toBeNull();
+    expect((await db.getReminder('r1'))!.isComplete).toBe(false);
+  });
+
+  it('should only take the first message after the notification as a reply', async () => {
+    await notify('telegram');
+
+    expect(await userSays('telegram', 'Can you check the build?')).toBeNull();
+    expect(await userSays('telegram', 'done')).toBeNull();
+    expect((await db.getReminder('r1'))!.isComplete).toBe(false);
+  });
+
+  it('should not take replies to a notification that asked for none', async () => {
+    await notify('web');
+
+    expect(await userSays('web', 'done')).toBeNull();
+  });
+
+  it('should take the reply on the channel it escalated to', async () => {
+    await notify('telegram');
+    jest.setSystemTime(Date.now() + 15 * MINUTE);
+    await notify('whatsapp', true);
+
+    expect(await userSays('telegram', 'done')).toBeNull();
+    expect(await userSays('whatsapp', 'done')).toBe('✅ Marked "Water the plants" as done.');
+  });
+
+  it('should ignore replies once the hour is up', async () => {
+    await notify('telegram');
+    jest.setSystemTime(Date.now() + 60 * MINUTE);
+
+    expect(await userSays('telegram', 'done')).toBeNull();
+  });
+
+  it('should ignore messages that are not a reply', async () => {
+    await notify('telegram');
+
+    expect(await reminders.handleReply('u1', 'telegram', 'done with the report, what next?')).toBeNull();
+  });
+});
@@ -0,0 +1,52 @@
+import { SQLiteDatabase } from '../../src/db/sqlite';
+import type { RoutedBy } from '../../src/db/interface';
+import { RoutingEvalService } from '../../src/services/routing-eval';
+
+describe('RoutingEvalService.buildDataset', () => {
+  let db: SQLiteDatabase;
+  let evals: RoutingEvalService;
+
+  /** Log a routed message, as the gateway does with debug logging on. */
+  const log = (id: string, message: string, routedBy: RoutedBy | null, selectedSkill: string | null = null) =>
+    db.saveDebugLog({
+      id, userId: 'u1', conversationId: 'c1', channel: 'web', userMessage: message,
+      intent: 'conversation', complexity: 'simple', suggestedModel: 'haiku', selectedSkill, routedBy,
+      personalityLevel: 'minimal', includeBio: false, bioSections: [], contextSummary: null,
+      systemPrompt: '', messagesJson: '[]', estimatedTokens: 0, responseText: '', actualModel: 'haiku',
+      tokensIn: 0, tokensOut: 0, costCents: 0, tokensSaved: 0, durationMs: 0, success: true, errorMessage: null
+    });
+
+  beforeEach(async () => {
+    db = new SQLiteDatabase(':memory:');
+    await db.initialize();
+    evals = new RoutingEvalService(db);
+
+    await log('llm', 'translate good night into french', 'llm', 'translator');
+    await log('fast', 'what tasks are due today', 'fast_path');
+    await log('fallback', 'is it going to rain', 'fallback');
+    await log('old', 'hello there', null);
+    await log('fixed', 'refactor the parser', 'fast_path');
+    await db.saveRoutingLabel({
+      debugLogId: 'fixed', message: 'refactor the parser', intent: 'code', complexity: 'medium', suggestedModel: 'sonnet'
+    });
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('should leave out routing the classifier made itself unless it was corrected', async () => {
+    const dataset = await evals.buildDataset();
+
+    expect(dataset.map(e => [e.debugLogId, e.corrected]).sort()).toEqual([
+      ['fixed', true], ['llm', false], ['old', false]
+    ]);
+    expect(dataset.find(e => e.debugLogId === 'fixed')).toMatchObject({ intent: 'code', selectedSkill: null });
+    expect(dataset.find(e => e.debugLogId === 'llm')).toMatchObject({ selectedSkill: 'translator' });
+  });
+
+  it('should keep where the routing came from on the log', async () => {
+    expect((await db.getDebugLog('fast'))!.routedBy).toBe('fast_path');
+    expect((await db.getDebugLog('old'))!.routedBy).toBeNull();
+  });
+});
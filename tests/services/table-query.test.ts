@@ -0,0 +1,86 @@
+import * as XLSX from 'xlsx';
+import { queryTables } from '../../src/services/table-query';
+
+const csv = (filename: string, text: string) => ({ filename, data: Buffer.from(text) });
+
+describe('queryTables', () => {
+  const sales = csv('Q3 Sales.csv', 'Region,Amount ($),Zip\nNorth,120.5,0101\nSouth,80,0202\nNorth,30,0303\n');
+
+  it('should load CSV columns with inferred types and describe them', async () => {
+    const { tables, schema, result } = await queryTables([sales]);
+
+    expect(result).toBeUndefined();
+    expect(tables[0]).toMatchObject({
+      name: 'q3_sales',
+      rowCount: 3,
+      columns: [
+        { name: 'region', type: 'TEXT', header: 'Region' },
+        { name: 'amount', type: 'REAL', header: 'Amount ($)' },
+        { name: 'zip', type: 'TEXT', header: 'Zip' }
+      ]
+    });
+    expect(schema).toContain('-- Q3 Sales.csv: 3 rows\nCREATE TABLE q3_sales (\n  region TEXT,  -- "Region"\n  amount REAL,  -- "Amount ($)"\n  zip TEXT  -- "Zip"\n);');
+    expect(schema).toContain('| North | 120.5 | 0101 |');
+  });
+
+  it('should return results as a markdown table, cut at the row limit', async () => {
+    const { result } = await queryTables(
+      [sales],
+      'SELECT region, SUM(amount) AS total FROM q3_sales GROUP BY region ORDER BY total DESC',
+      1
+    );
+
+    expect(result!.rows).toEqual([{ region: 'North', total: 150.5 }]);
+    expect(result!.truncated).toBe(true);
+    expect(result!.markdown).toBe('| region | total |\n| --- | --- |\n| North | 150.5 |\n\n[Only the first 1 rows are shown]');
+  });
+
+  it('should join across files and workbook sheets', async () => {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['Region', 'Target'], ['North', 100], ['South', 100]]), 'Targets');
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['Note'], ['Draft']]), 'Notes');
+    const targets = { filename: 'plan.xlsx', data: XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }) as Buffer };
+
+    const { tables, result } = await queryTables(
+      [sales, targets],
+      'SELECT t.region, SUM(s.amount) >= t.target AS met FROM plan_targets t JOIN q3_sales s USING (region) GROUP BY t.region ORDER BY t.region'
+    );
+
+    expect(tables.map(t => [t.name, t.sheet])).toEqual([['q3_sales', undefined], ['plan_targets', 'Targets'], ['plan_notes', 'Notes']]);
+    expect(result!.rows).toEqual([{ region: 'North', met: 1 }, { region: 'South', met: 0 }]);
+  });
+
+  it('should only run read-only SQL', async () => {
+    await expect(queryTables([sales], 'DELETE FROM q3_sales')).rejects.toThrow('Only read-only queries');
+    await expect(queryTables([sales], "ATTACH DATABASE '/tmp/x.db' AS x")).rejects.toThrow('Only read-only queries');
+    await expect(queryTables([sales], 'SELECT 1; DROP TABLE q3_sales')).rejects.toThrow('SQL error');
+    await expect(queryTables([sales], 'SELECT nope FROM q3_sales')).rejects.toThrow('SQL error: no such column: nope');
+  });
+
+  it('should stop a query that runs past the time limit', async () => {
+    const started = Date.now();
+
+    await expect(queryTables(
+      [sales],
+      'WITH RECURSIVE c(x) AS (SELECT 1 UNION ALL SELECT x + 1 FROM c) SELECT count(*) FROM c',
+      50,
+      500
+    )).rejects.toThrow('Query stopped after 0.5 seconds');
+    expect(Date.now() - started).toBeLessThan(5000);
+  });
+
+  it('should still run recursive queries that end', async () => {
+    const { result } = await queryTables(
+      [sales],
+      'WITH RECURSIVE c(x) AS (SELECT 1 UNION ALL SELECT x + 1 FROM c WHERE x < 1000) SELECT x FROM c',
+      3
+    );
+
+    expect(result!.rows).toEqual([{ x: 1 }, { x: 2 }, { x: 3 }]);
+    expect(result!.truncated).toBe(true);
+  });
+
+  it('should report errors raised while the query runs', async () => {
+    await expect(queryTables([sales], "SELECT json_extract('not json', '$.a')")).rejects.toThrow('SQL error: malformed JSON');
+  });
+});
@@ -0,0 +1,178 @@
+import type { ToolDefinition } from '../../src/core/tools';
+import type { ToolConfirmationPolicy, UserSettingsService } from '../../src/services/user-settings';
+import { HeldToolCall, ToolConfirmationService } from '../../src/services/tool-confirmation';
+import { parseConfirmationReply, PendingConfirmations } from '../../src/services/pending-confirmations';
+
+/** A tool that records its calls, with a fixed or per-action risk. */
+function fakeTool(name: string, risk: ToolDefinition['risk']): ToolDefinition & { calls: unknown[] } {
+  const calls: unknown[] = [];
+  return {
+    name,
+    description: name,
+    input_schema: { type: 'object' },
+    risk,
+    describe: (input: { to?: string }) => `Send an email to ${input.to}`,
+    handler: async (input: unknown) => {
+      calls.push(input);
+      return { sent: true };
+    },
+    calls
+  };
+}
+
+/** User settings holding just a confirmation policy per user. */
+function fakeSettings(policies: Record<string, ToolConfirmationPolicy> = {}): UserSettingsService {
+  return {
+    getToolConfirmationPolicy: async (userId: string) => policies[userId] || {}
+  } as unknown as UserSettingsService;
+}
+
+describe('ToolConfirmationService', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should hold a high-risk call instead of running it', async () => {
+    const service = new ToolConfirmationService(fakeSettings());
+    const email = fakeTool('send_email', 'high');
+    const held: HeldToolCall[] = [];
+
+    const [gated] = await service.gateTools('user-1', 'telegram', [email], held);
+    const result = await gated.handler({ to: 'kai@example.com' });
+
+    expect(result).toMatchObject({ status: 'awaiting_confirmation', action: 'Send an email to kai@example.com' });
+    expect(email.calls).toEqual([]);
+    expect(held.map(h => h.description)).toEqual(['Send an email to kai@example.com']);
+    expect(service.hold('user-1', held)).toBe('Send an email to kai@example.com? (yes/no)');
+    expect(service.hasPending('user-1')).toBe(true);
+  });
+
+  it('should run low-risk and read-only calls straight away by default', async () => {
+    const service = new ToolConfirmationService(fakeSettings());
+    const contacts = fakeTool('manage_contacts', (input: { action?: string }) =>
+      input.action === 'delete' ? 'high' : input.action === 'add' ? 'low' : 'none');
+    const held: HeldToolCall[] = [];
+
+    const [gated] = await service.gateTools('user-1', 'web', [contacts], held);
+    await gated.handler({ action: 'add' });
+    await gated.handler({ action: 'list' });
+    await gated.handler({ action: 'delete' });
+
+    expect(contacts.calls).toEqual([{ action: 'add' }, { action: 'list' }]);
+    expect(held).toHaveLength(1);
+  });
+
+  it('should run the held calls when the user approves', async () => {
+    const service = new ToolConfirmationService(fakeSettings());
+    const email = fakeTool('send_email', 'high');
+    const held: HeldToolCall[] = [];
+    const [gated] = await service.gateTools('user-1', 'telegram', [email], held);
+    await gated.handler({ to: 'kai@example.com' });
+    service.hold('user-1', held);
+
+    const outcome = await service.handleReply('user-1', 'Yes!');
+
+    expect(outcome!.message).toBe('Done: Send an email to kai@example.com.');
+    expect(outcome!.executed).toMatchObject([{ name: 'send_email', input: { to: 'kai@example.com' }, output: '{"sent":true}' }]);
+    expect(email.calls).toEqual([{ to: 'kai@example.com' }]);
+    expect(service.hasPending('user-1')).toBe(false);
+  });
+
+  it('should cancel the held calls when the user says no', async () => {
+    const service = new ToolConfirmationService(fakeSettings());
+    const email = fakeTool('send_email', 'high');
+    service.hold('user-1', [{ tool: email, input: { to: 'kai@example.com' }, description: 'Send an email to kai@example.com' }]);
+
+    const outcome = await service.handleReply('user-1', 'no');
+
+    expect(outcome).toEqual({ message: 'Cancelled — nothing was done.', executed: [] });
+    expect(email.calls).toEqual([]);
+    expect(await service.handleReply('user-1', 'yes')).toBeNull();
+  });
+
+  it('should drop the held calls when the reply is something else', async () => {
+    const service = new ToolConfirmationService(fakeSettings());
+    const email = fakeTool('send_email', 'high');
+    service.hold('user-1', [{ tool: email, input: {}, description: 'Send an email' }]);
+
+    expect(await service.handleReply('user-1', 'what is the weather?')).toBeNull();
+    expect(service.hasPending('user-1')).toBe(false);
+    expect(email.calls).toEqual([]);
+  });
+
+  it('should not run held calls once the confirmation has expired', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+    const service = new ToolConfirmationService(fakeSettings(), { confirmationTimeoutMs: 60_000 });
+    const email = fakeTool('send_email', 'high');
+    service.hold('user-1', [{ tool: email, input: {}, description: 'Send an email' }]);
+
+    now.mockReturnValue(1_000_000 + 60_001);
+
+    expect(service.hasPending('user-1')).toBe(false);
+    expect(await service.handleReply('user-1', 'yes')).toBeNull();
+    expect(email.calls).toEqual([]);
+  });
+
+  it('should follow each user\'s policy overrides', async () => {
+    const service = new ToolConfirmationService(fakeSettings({
+      'user-1': { send_email: 'never', set_timezone: 'always', fetch_url: 'always' }
+    }));
+    const email = fakeTool('send_email', 'high');
+    const timezone = fakeTool('set_timezone', 'low');
+    const fetchUrl = fakeTool('fetch_url', 'none');
+
+    const held: HeldToolCall[] = [];
+    const gated = await service.gateTools('user-1', 'web', [email, timezone, fetchUrl], held);
+    for (const tool of gated) await tool.handler({});
+
+    // 'never' skips the check, 'always' asks even for low risk; read-only tools are never held
+    expect(email.calls).toHaveLength(1);
+    expect(timezone.calls).toHaveLength(0);
+    expect(fetchUrl.calls).toHaveLength(1);
+    expect(held.map(h => h.tool.name)).toEqual(['set_timezone']);
+
+    // Another user keeps the default
+    const otherHeld: HeldToolCall[] = [];
+    const [otherEmail] = await service.gateTools('user-2', 'web', [email], otherHeld);
+    await otherEmail.handler({});
+    expect(otherHeld).toHaveLength(1);
+  });
+
+  it('should not gate tools on the workflow channel', async () => {
+    const service = new ToolConfirmationService(fakeSettings());
+    const email = fakeTool('send_email', 'high');
+    const held: HeldToolCall[] = [];
+
+    const [tool] = await service.gateTools('user-1', 'workflow', [email], held);
+    await tool.handler({ to: 'kai@example.com' });
+
+    expect(tool).toBe(email);
+    expect(email.calls).toHaveLength(1);
+    expect(held).toEqual([]);
+  });
+});
+
+describe('parseConfirmationReply', () => {
+  it('should read yes, no and numbered choices', () => {
+    expect(parseConfirmationReply(' Yep. ')).toEqual({ type: 'yes' });
+    expect(parseConfirmationReply('never mind')).toEqual({ type: 'no' });
+    expect(parseConfirmationReply('2', 3)).toEqual({ type: 'choice', index: 1 });
+    expect(parseConfirmationReply('4', 3)).toEqual({ type: 'unrecognized' });
+    expect(parseConfirmationReply('yes please send it')).toEqual({ type: 'unrecognized' });
+  });
+});
+
+describe('PendingConfirmations', () => {
+  it('should replace a user\'s pending action and forget it once taken', () => {
+    const pending = new PendingConfirmations<string>(60_000);
+    pending.set('user-1', 'first');
+    pending.set('user-1', 'second');
+
+    expect(pending.take('user-1')).toBe('second');
+    expect(pending.take('user-1')).toBeNull();
+  });
+});
@@ -0,0 +1,115 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  createTranscriptionService,
+  StubTranscriber,
+  WhisperCppTranscriber
+} from '../../src/services/transcription';
+
+/** Write an executable shell script standing in for a real binary. */
+function fakeBinary(dir: string, name: string, body: string): string {
+  const file = path.join(dir, name);
+  fs.writeFileSync(file, `#!/bin/sh\n${body}\n`, { mode: 0o755 });
+  return file;
+}
+
+describe('Transcription', () => {
+  let binDir: string;
+
+  beforeAll(() => {
+    binDir = fs.mkdtempSync(path.join(os.tmpdir(), 'hive-transcription-test-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(binDir, { recursive: true, force: true });
+  });
+
+  describe('createTranscriptionService', () => {
+    it('should return null when transcription is not enabled', () => {
+      expect(createTranscriptionService(undefined)).toBeNull();
+      expect(createTranscriptionService({ enabled: false, backend: 'stub' })).toBeNull();
+    });
+
+    it('should create the stub backend with its configured transcript', async () => {
+      const service = createTranscriptionService({ enabled: true, backend: 'stub', stubTranscript: 'remind me at 5' });
+      expect(service).toBeInstanceOf(StubTranscriber);
+      expect(await service!.transcribe(Buffer.from('audio'), 'audio/ogg')).toBe('remind me at 5');
+    });
+
+    it('should require a model path for whisper-cpp', () => {
+      expect(() => createTranscriptionService({ enabled: true, backend: 'whisper-cpp' }))
+        .toThrow('modelPath is required');
+    });
+  });
+
+  describe('StubTranscriber', () => {
+    it('should record each clip it receives', async () => {
+      const stub = new StubTranscriber();
+      await stub.transcribe(Buffer.alloc(42), 'audio/ogg; codecs=opus');
+
+      expect(stub.received).toEqual([{ bytes: 42, mimeType: 'audio/ogg; codecs=opus' }]);
+    });
+  });
+
+  describe('WhisperCppTranscriber', () => {
+    it('should convert with ffmpeg, run whisper and clean up its output', async () => {
+      const argsLog = path.join(binDir, 'whisper-args.txt');
+      // ffmpeg stand-in: copy the input (after -i) to the output (last argument)
+      const ffmpeg = fakeBinary(binDir, 'ffmpeg', [
+        'while [ "$1" != "-i" ]; do shift; done',
+        'in="$2"',
+        'for last; do :; done',
+        'cp "$in" "$last"'
+      ].join('\n'));
+      const whisper = fakeBinary(binDir, 'whisper-cli', [
+        `echo "$@" > ${argsLog}`,
+        'printf " Remind me to call Kai.\\n [BLANK_AUDIO]\\n  Tomorrow at nine.\\n"'
+      ].join('\n'));
+
+      const transcriber = new WhisperCppTranscriber({
+        enabled: true,
+        backend: 'whisper-cpp',
+        binaryPath: whisper,
+        ffmpegPath: ffmpeg,
+        modelPath: '/models/ggml-base.en.bin',
+        language: 'en'
+      });
+
+      const transcript = await transcriber.transcribe(Buffer.from('OggS'), 'audio/ogg; codecs=opus');
+
+      expect(transcript).toBe('Remind me to call Kai. Tomorrow at nine.');
+      const args = fs.readFileSync(argsLog, 'utf-8');
+      expect(args).toContain('-m /models/ggml-base.en.bin');
+      expect(args).toContain('-l en');
+      expect(args).toMatch(/-f \S+speech\.wav/);
+    });
+
+    it('should pass WAV input straight to whisper', async () => {
+      const whisper = fakeBinary(binDir, 'whisper-wav', 'echo "$@"');
+      const transcriber = new WhisperCppTranscriber({
+        enabled: true,
+        backend: 'whisper-cpp',
+        binaryPath: whisper,
+        ffmpegPath: path.join(binDir, 'missing-ffmpeg'),
+        modelPath: '/models/m.bin'
+      });
+
+      const transcript = await transcriber.transcribe(Buffer.from('RIFF'), 'audio/wav');
+      expect(transcript).toMatch(/-f \S+input\.wav -l auto -nt -np/);
+    });
+
+    it('should reject with the process error output on failure', async () => {
+      const whisper = fakeBinary(binDir, 'whisper-fail', 'echo "failed to load model" >&2; exit 3');
+      const transcriber = new WhisperCppTranscriber({
+        enabled: true,
+        backend: 'whisper-cpp',
+        binaryPath: whisper,
+        modelPath: '/models/m.bin'
+      });
+
+      await expect(transcriber.transcribe(Buffer.from('RIFF'), 'audio/wav'))
+        .rejects.toThrow('exited with code 3: failed to load model');
+    });
+  });
+});
@@ -0,0 +1,165 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import type { Database } from '../../src/db/interface';
+import { getTools } from '../../src/core/tools';
+import {
+  createWebSearchService,
+  HttpSearchProvider,
+  pageExcerpt,
+  rankResults,
+  SearxngSearchProvider,
+  WebSearchService
+} from '../../src/services/web-search';
+
+/** A SearXNG result list in which two engines found the same page. */
+const SEARXNG_RESULTS = [
+  { title: 'Weather archive', url: 'https://example.org/archive', content: 'Old forecasts' },
+  { title: 'Lisbon weather', url: 'https://www.example.com/lisbon/?utm_source=bing', content: 'Sunny' },
+  { title: 'Lisbon weather', url: 'http://example.com/lisbon', content: 'Lisbon weather forecast: sunny, 24°C' },
+  { title: 'Not a web page', url: 'javascript:alert(1)', content: 'Lisbon weather' }
+];
+
+/** Stands in for a SearXNG instance (/search) and a Brave-style API (/api). */
+function startServer(): Promise<{ server: http.Server; base: string; requests: http.IncomingMessage[] }> {
+  const requests: http.IncomingMessage[] = [];
+  const server = http.createServer((req, res) => {
+    requests.push(req);
+    const url = new URL(req.url!, 'http://localhost');
+    res.setHeader('Content-Type', 'application/json');
+
+    if (url.pathname === '/search' && url.searchParams.get('format') === 'json') {
+      res.end(JSON.stringify({ query: url.searchParams.get('q'), results: SEARXNG_RESULTS }));
+    } else if (url.pathname === '/api' && req.headers['x-subscription-token'] === 'secret') {
+      res.end(JSON.stringify({
+        web: {
+          results: [
+            { title: '<strong>Hive</strong> docs', url: 'https://hive.example/docs', description: 'Setting up &amp; running <strong>Hive</strong>' }
+          ]
+        }
+      }));
+    } else if (url.pathname === '/api') {
+      res.statusCode = 401;
+      res.end('{}');
+    } else {
+      res.setHeader('Content-Type', 'text/html');
+      res.end('<html><body>Internal page</body></html>');
+    }
+  });
+
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, base: `http://127.0.0.1:${port}`, requests });
+    });
+  });
+}
+
+describe('Web search', () => {
+  let server: http.Server;
+  let base: string;
+  let requests: http.IncomingMessage[];
+
+  beforeAll(async () => {
+    ({ server, base, requests } = await startServer());
+  });
+
+  afterAll(done => {
+    server.close(done);
+  });
+
+  describe('createWebSearchService', () => {
+    it('should return null when web search is not enabled', () => {
+      expect(createWebSearchService(undefined)).toBeNull();
+      expect(createWebSearchService({ enabled: false, backend: 'stub' })).toBeNull();
+    });
+
+    it('should require a URL for searxng and reject unknown backends', () => {
+      expect(() => createWebSearchService({ enabled: true, backend: 'searxng' })).toThrow('webSearch.url is required');
+      expect(() => createWebSearchService({ enabled: true, backend: 'bing' as any })).toThrow('Unknown web search backend: bing');
+    });
+
+    it('should create the stub backend with its configured results', async () => {
+      const service = createWebSearchService({
+        enabled: true,
+        backend: 'stub',
+        stubResults: [{ title: 'Hive', url: 'https://hive.example', snippet: 'Personal assistant' }]
+      });
+      expect(await service!.search('hive')).toEqual([{ title: 'Hive', url: 'https://hive.example', snippet: 'Personal assistant' }]);
+    });
+  });
+
+  describe('SearxngSearchProvider', () => {
+    it('should query the JSON API and keep only http(s) results', async () => {
+      const results = await new SearxngSearchProvider(`${base}/search`).search('lisbon weather', 10);
+
+      expect(results.map(r => r.url)).toEqual([
+        'https://example.org/archive',
+        'https://www.example.com/lisbon/?utm_source=bing',
+        'http://example.com/lisbon'
+      ]);
+      expect(new URL(requests[requests.length - 1].url!, base).searchParams.get('q')).toBe('lisbon weather');
+    });
+  });
+
+  describe('HttpSearchProvider', () => {
+    it('should send the API key and map Brave-style results to plain text', async () => {
+      const provider = new HttpSearchProvider({ url: `${base}/api`, apiKey: 'secret' });
+
+      expect(await provider.search('hive', 3)).toEqual([
+        { title: 'Hive docs', url: 'https://hive.example/docs', snippet: 'Setting up & running Hive' }
+      ]);
+      expect(new URL(requests[requests.length - 1].url!, base).searchParams.get('count')).toBe('3');
+    });
+
+    it('should report HTTP errors', async () => {
+      await expect(new HttpSearchProvider({ url: `${base}/api` }).search('hive', 3)).rejects.toThrow('Search failed: HTTP 401');
+    });
+  });
+
+  describe('rankResults', () => {
+    it('should merge copies of a page and rank snippet matches first', () => {
+      const results = rankResults('lisbon weather forecast', [
+        { title: 'Weather archive', url: 'https://example.org/archive', snippet: 'Old forecasts' },
+        { title: 'Lisbon weather', url: 'https://www.example.com/lisbon/?utm_source=bing#today', snippet: 'Sunny' },
+        { title: 'Lisbon weather', url: 'http://example.com/lisbon', snippet: 'Lisbon weather forecast: sunny, 24°C' }
+      ], 5);
+
+      expect(results).toEqual([
+        { title: 'Lisbon weather', url: 'https://www.example.com/lisbon/?utm_source=bing#today', snippet: 'Lisbon weather forecast: sunny, 24°C' },
+        { title: 'Weather archive', url: 'https://example.org/archive', snippet: 'Old forecasts' }
+      ]);
+    });
+  });
+
+  describe('pageExcerpt', () => {
+    it('should keep the parts of a long page that match the query', () => {
+      const text = 'filler '.repeat(300) + 'The notice period is two months. ' + 'filler '.repeat(300);
+      const excerpt = pageExcerpt(text, 'notice period', 600);
+
+      expect(excerpt).toContain('notice period is two months');
+      expect(excerpt.length).toBeLessThanOrEqual(604);
+    });
+  });
+
+  describe('web_search tool', () => {
+    it('should search, and refuse to fetch result pages on private addresses', async () => {
+      const webSearch = new WebSearchService(new SearxngSearchProvider(`${base}/search`));
+      const [tool] = getTools(['web_search'], { userId: 'user-1', db: {} as Database, webSearch });
+      // The stand-in serves its own address as a result, as a search engine could
+      SEARXNG_RESULTS.push({ title: 'Lisbon weather station', url: `${base}/station`, content: 'Lisbon weather forecast station' });
+
+      const output = await tool.handler({ query: 'lisbon weather forecast station', fetch: 1 }) as any;
+      SEARXNG_RESULTS.pop();
+
+      expect(output.results[0].url).toBe(`${base}/station`);
+      expect(output.results[0].fetchError).toContain('Private/reserved IP blocked');
+      expect(output.results[0].excerpt).toBeUndefined();
+      expect(output.results[1].fetchError).toBeUndefined();
+      expect(requests.some(r => r.url === '/station')).toBe(false);
+    });
+
+    it('should only be offered when web search is configured', () => {
+      expect(getTools(['web_search'], { userId: 'user-1', db: {} as Database })).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import { parseWhen } from '../../src/utils/date-parser';
+import { WorkflowScheduler } from '../../src/services/workflow-scheduler';
+
+/** Monday, October 19 2026, 10:00 in New York (EDT, UTC-4). */
+const NOW = new Date('2026-10-19T14:00:00Z');
+const NY = 'America/New_York';
+
+/** Parse a one-off phrase in New York and return the instant as UTC ISO. */
+function once(text: string, timezone = NY): string | null {
+  const parsed = parseWhen(text, timezone, NOW);
+  if (!parsed) return null;
+  if (parsed.kind !== 'once') throw new Error(`"${text}" parsed as recurring`);
+  return parsed.date.toISOString();
+}
+
+/** Parse a repeating phrase and return its cron expression. */
+function cron(text: string): string | null {
+  const parsed = parseWhen(text, NY, NOW);
+  if (!parsed) return null;
+  if (parsed.kind !== 'recurring') throw new Error(`"${text}" parsed as one-off`);
+  return parsed.cron;
+}
+
+describe('parseWhen', () => {
+  describe('one-off phrases', () => {
+    it('should resolve named days in the user\'s timezone', () => {
+      expect(once('tomorrow at 9')).toBe('2026-10-20T13:00:00.000Z');
+      expect(once('9 a.m. tomorrow')).toBe('2026-10-20T13:00:00.000Z');
+      expect(once('the day after tomorrow at noon')).toBe('2026-10-21T16:00:00.000Z');
+      expect(once('today at 4:30pm')).toBe('2026-10-19T20:30:00.000Z');
+    });
+
+    it('should use the user\'s date, not the server\'s', () => {
+      // 23:00 Monday in Tokyo, so tomorrow is Tuesday there
+      expect(once('tomorrow at 9', 'Asia/Tokyo')).toBe('2026-10-20T00:00:00.000Z');
+    });
+
+    it('should resolve weekdays and parts of the day', () => {
+      expect(once('next Friday evening')).toBe('2026-10-23T22:00:00.000Z');
+      expect(once('friday at 5')).toBe('2026-10-23T21:00:00.000Z');
+      expect(once('tomorrow morning at 7')).toBe('2026-10-20T11:00:00.000Z');
+      expect(once('tonight')).toBe('2026-10-20T00:00:00.000Z');
+    });
+
+    it('should move today\'s weekday to next week once its time has passed', () => {
+      expect(once('monday')).toBe('2026-10-26T13:00:00.000Z');
+      expect(once('monday at 3pm')).toBe('2026-10-19T19:00:00.000Z');
+      expect(once('next monday at 3pm')).toBe('2026-10-26T19:00:00.000Z');
+    });
+
+    it('should read a time on its own as the next time the clock shows it', () => {
+      expect(once('at 11am')).toBe('2026-10-19T15:00:00.000Z');
+      expect(once('at 9')).toBe('2026-10-20T13:00:00.000Z');
+      expect(once('17:30')).toBe('2026-10-19T21:30:00.000Z');
+      expect(once('midnight')).toBe('2026-10-20T04:00:00.000Z');
+    });
+
+    it('should resolve relative durations', () => {
+      expect(once('in 2 hours')).toBe('2026-10-19T16:00:00.000Z');
+      expect(once('in an hour and a half')).toBe('2026-10-19T15:30:00.000Z');
+      expect(once('in 20 min')).toBe('2026-10-19T14:20:00.000Z');
+      expect(once('3 days from now')).toBe('2026-10-22T14:00:00.000Z');
+      expect(once('in 3 days at 8am')).toBe('2026-10-22T12:00:00.000Z');
+    });
+
+    it('should resolve relative months, not read them as minutes', () => {
+      // Months move the calendar date and keep 10:00, which is EST by then
+      expect(once('in 2 months')).toBe('2026-12-19T15:00:00.000Z');
+      expect(once('in a month')).toBe('2026-11-19T15:00:00.000Z');
+      expect(once('in one month and 2 days')).toBe('2026-11-21T15:00:00.000Z');
+      expect(once('a month from now')).toBe('2026-11-19T15:00:00.000Z');
+      expect(once('in half a month')).toBeNull();
+      // Single-letter units still work, with or without a space between parts
+      expect(once('in 5m')).toBe('2026-10-19T14:05:00.000Z');
+      expect(once('in 2h30m')).toBe('2026-10-19T16:30:00.000Z');
+      expect(once('in 2h 30m')).toBe('2026-10-19T16:30:00.000Z');
+    });
+
+    it('should keep the wall-clock time across a daylight-saving change', () => {
+      // Clocks go back on November 1, so 10:00 is 15:00 UTC afterwards
+      expect(once('in 2 weeks')).toBe('2026-11-02T15:00:00.000Z');
+      expect(once('the 1st')).toBe('2026-11-01T14:00:00.000Z');
+    });
+
+    it('should resolve calendar dates, rolling to next year once passed', () => {
+      expect(once('december 25')).toBe('2026-12-25T14:00:00.000Z');
+      expect(once('March 5th at 3pm')).toBe('2027-03-05T20:00:00.000Z');
+      expect(once('5 march 2028')).toBe('2028-03-05T14:00:00.000Z');
+      expect(once('2026-10-21 at 8am')).toBe('2026-10-21T12:00:00.000Z');
+    });
+
+    it('should accept ISO 8601, reading times without an offset as local', () => {
+      expect(once('2026-10-21T08:00:00')).toBe('2026-10-21T12:00:00.000Z');
+      expect(once('2026-10-21T08:00:00Z')).toBe('2026-10-21T08:00:00.000Z');
+    });
+
+    it('should return null for phrases it does not understand', () => {
+      expect(once('whenever you like')).toBeNull();
+      expect(once('february 30')).toBeNull();
+      expect(once('at 25:00')).toBeNull();
+      expect(once('13pm')).toBeNull();
+      expect(once('in 2 hours at 5pm')).toBeNull();
+      expect(once('')).toBeNull();
+    });
+  });
+
+  describe('repeating phrases', () => {
+    it('should build cron expressions for days of the week', () => {
+      expect(cron('every weekday at 8am')).toBe('0 8 * * 1-5');
+      expect(cron('every Monday and Thursday at 9')).toBe('0 9 * * 1,4');
+      expect(cron('mondays')).toBe('0 9 * * 1');
+      expect(cron('every weekend morning')).toBe('0 9 * * 0,6');
+      expect(cron('every week')).toBe('0 9 * * 1');
+    });
+
+    it('should build cron expressions for days, months and years', () => {
+      expect(cron('daily at 7:30pm')).toBe('30 19 * * *');
+      expect(cron('every night at 11')).toBe('0 23 * * *');
+      expect(cron('every month on the 1st')).toBe('0 9 1 * *');
+      expect(cron('on the 15th of every month at noon')).toBe('0 12 15 * *');
+      expect(cron('every year on March 5')).toBe('0 9 5 3 *');
+    });
+
+    it('should say when a day of the month is skipped', () => {
+      const description = (text: string) => {
+        const parsed = parseWhen(text, NY, NOW);
+        return parsed?.kind === 'recurring' ? parsed.description : null;
+      };
+
+      expect(parseWhen('every month on the 31st', NY, NOW)).toEqual({
+        kind: 'recurring', cron: '0 9 31 * *', description: 'every month on the 31st at 9:00 AM (skipped in months without a 31st)'
+      });
+      expect(description('monthly on the 29th')).toBe('every month on the 29th at 9:00 AM (skipped in months without a 29th)');
+      expect(description('every year on February 29')).toBe('every year on February 29 at 9:00 AM (only in leap years)');
+      expect(description('every month on the 28th')).toBe('every month on the 28th at 9:00 AM');
+      expect(description('every year on January 31')).toBe('every year on January 31 at 9:00 AM');
+    });
+
+    it('should build cron expressions for intervals', () => {
+      expect(cron('every 15 minutes')).toBe('*/15 * * * *');
+      expect(cron('every hour')).toBe('0 * * * *');
+      expect(cron('every 2 hours')).toBe('0 */2 * * *');
+    });
+
+    it('should describe the schedule for people', () => {
+      const parsed = parseWhen('every weekday at 8am', NY, NOW);
+      expect(parsed).toEqual({ kind: 'recurring', cron: '0 8 * * 1-5', description: 'every weekday at 8:00 AM' });
+    });
+
+    it('should only produce cron expressions the scheduler accepts', () => {
+      for (const text of ['every weekday at 8am', 'every 15 minutes', 'every year on March 5', 'every night at midnight']) {
+        expect(WorkflowScheduler.isValidCron(cron(text)!)).toBe(true);
+      }
+    });
+
+    it('should return null for repeats it cannot express', () => {
+      expect(cron('every other day')).toBeNull();
+      expect(cron('every 90 minutes')).toBeNull();
+      expect(cron('every monday on the 1st')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import * as XLSX from 'xlsx';
+import { extractDocumentText, isExtractable } from '../../src/utils/document-text';
+
+// pdfjs can't start its worker inside Jest's module sandbox, so the parser is stubbed
+jest.mock('pdf-parse', () => ({
+  PDFParse: class {
+    async getText() {
+      return { pages: [{ num: 1, text: 'Quarterly report\n' }, { num: 2, text: '  Q3 revenue grew' }] };
+    }
+    async destroy() {}
+  }
+}));
+
+/** A .docx archive holding only the given document body. */
+function makeDocx(body: string): Buffer {
+  const xml = `<?xml version="1.0"?><w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${body}</w:body></w:document>`;
+  const archive = XLSX.CFB.utils.cfb_new();
+  XLSX.CFB.utils.cfb_add(archive, '/word/document.xml', Buffer.from(xml));
+  return XLSX.CFB.write(archive, { type: 'buffer', fileType: 'zip' });
+}
+
+const paragraph = (text: string) => `<w:p><w:pPr/><w:r><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+const cell = (text: string) => `<w:tc><w:tcPr/>${paragraph(text)}</w:tc>`;
+
+describe('extractDocumentText', () => {
+  it('should tag each PDF page with its number', async () => {
+    const { text } = await extractDocumentText(Buffer.from('%PDF-1.4'), 'report.pdf');
+    expect(text).toBe('[Page 1]\nQuarterly report\n\n[Page 2]\nQ3 revenue grew');
+  });
+
+  it('should turn each sheet into a markdown table, with CSV for scripts', async () => {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['Item', 'Amount'], ['Rent', 1000], ['A|B', 5]]), 'Budget');
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['Note'], ['Paid']]), 'Notes');
+    const buffer = XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }) as Buffer;
+
+    const extracted = await extractDocumentText(buffer, 'budget.xlsx');
+    expect(extracted.text).toBe([
+      '## Sheet: Budget',
+      '',
+      '| Item | Amount |',
+      '| --- | --- |',
+      '| Rent | 1000 |',
+      '| A\\|B | 5 |',
+      '',
+      '## Sheet: Notes',
+      '',
+      '| Note |',
+      '| --- |',
+      '| Paid |'
+    ].join('\n'));
+    expect(extracted.csv).toBe('--- Sheet: Budget ---\nItem,Amount\nRent,1000\nA|B,5\n\n--- Sheet: Notes ---\nNote\nPaid');
+  });
+
+  it('should read Word paragraphs and tables in order', async () => {
+    const body = paragraph('Meeting notes')
+      + `<w:tbl><w:tblPr/><w:tr>${cell('Owner')}${cell('Task')}</w:tr><w:tr>${cell('Kai')}${cell('Q3 plan &amp; budget')}</w:tr></w:tbl>`
+      + '<w:p/>'
+      + `<w:p><w:r><w:t>Next</w:t><w:tab/><w:t>Friday</w:t></w:r></w:p>`;
+
+    const { text } = await extractDocumentText(makeDocx(body), 'notes.docx');
+    expect(text).toBe('Meeting notes\n\n| Owner | Task |\n| --- | --- |\n| Kai | Q3 plan & budget |\n\nNext\tFriday');
+  });
+
+  it('should reject files without an extractor', async () => {
+    await expect(extractDocumentText(Buffer.from('hi'), 'notes.txt')).rejects.toThrow('No text extractor');
+    await expect(extractDocumentText(Buffer.from('not a zip'), 'notes.docx')).rejects.toThrow();
+    expect(isExtractable('Report.PDF')).toBe(true);
+    expect(isExtractable('notes.md')).toBe(false);
+  });
+});
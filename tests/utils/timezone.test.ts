@@ -0,0 +1,73 @@
+import { parseDateTime, toZonedIso, zonedTimeToDate } from '../../src/utils/timezone';
+
+const iso = (date: Date | null) => date?.toISOString();
+
+describe('zonedTimeToDate', () => {
+  it('should read ordinary times with the offset in force', () => {
+    expect(iso(zonedTimeToDate(2026, 2, 2, 15, 0, 0, 'America/New_York'))).toBe('2026-02-02T20:00:00.000Z');
+    expect(iso(zonedTimeToDate(2026, 7, 2, 15, 0, 0, 'America/New_York'))).toBe('2026-07-02T19:00:00.000Z');
+    expect(iso(zonedTimeToDate(2026, 2, 2, 15, 0, 0, 'Asia/Kolkata'))).toBe('2026-02-02T09:30:00.000Z');
+  });
+
+  it('should move a time in a spring-forward gap forward with the clocks', () => {
+    // New York skips 02:00–03:00 on March 8, 2026: 2:30 is read as 3:30 EDT
+    expect(iso(zonedTimeToDate(2026, 3, 8, 2, 30, 0, 'America/New_York'))).toBe('2026-03-08T07:30:00.000Z');
+    // Lisbon skips 01:00–02:00 on March 29, 2026
+    expect(iso(zonedTimeToDate(2026, 3, 29, 1, 30, 0, 'Europe/Lisbon'))).toBe('2026-03-29T01:30:00.000Z');
+    // Sydney skips 02:00–03:00 on October 4, 2026
+    expect(iso(zonedTimeToDate(2026, 10, 4, 2, 30, 0, 'Australia/Sydney'))).toBe('2026-10-03T16:30:00.000Z');
+  });
+
+  it('should take the first occurrence of a time repeated at fall-back', () => {
+    // New York repeats 01:00–02:00 on November 1, 2026: first as EDT, then EST
+    expect(iso(zonedTimeToDate(2026, 11, 1, 1, 30, 0, 'America/New_York'))).toBe('2026-11-01T05:30:00.000Z');
+    // Lisbon repeats 01:00–02:00 on October 25, 2026
+    expect(iso(zonedTimeToDate(2026, 10, 25, 1, 30, 0, 'Europe/Lisbon'))).toBe('2026-10-25T00:30:00.000Z');
+    // Sydney repeats 02:00–03:00 on April 5, 2026
+    expect(iso(zonedTimeToDate(2026, 4, 5, 2, 30, 0, 'Australia/Sydney'))).toBe('2026-04-04T15:30:00.000Z');
+  });
+
+  it('should be unaffected by times just outside the change', () => {
+    expect(iso(zonedTimeToDate(2026, 3, 8, 1, 59, 0, 'America/New_York'))).toBe('2026-03-08T06:59:00.000Z');
+    expect(iso(zonedTimeToDate(2026, 3, 8, 3, 0, 0, 'America/New_York'))).toBe('2026-03-08T07:00:00.000Z');
+    expect(iso(zonedTimeToDate(2026, 11, 1, 2, 0, 0, 'America/New_York'))).toBe('2026-11-01T07:00:00.000Z');
+  });
+});
+
+describe('parseDateTime', () => {
+  it('should read a local date and time in the given timezone', () => {
+    expect(iso(parseDateTime('2026-02-02T15:00:00', 'America/New_York'))).toBe('2026-02-02T20:00:00.000Z');
+    expect(iso(parseDateTime('2026-02-02 15:00', 'Europe/Lisbon'))).toBe('2026-02-02T15:00:00.000Z');
+    expect(iso(parseDateTime(' 2026-07-02T15:00:30.5 ', 'Europe/Lisbon'))).toBe('2026-07-02T14:00:30.000Z');
+  });
+
+  it('should read a date alone as midnight in the timezone', () => {
+    expect(iso(parseDateTime('2026-02-02', 'America/New_York'))).toBe('2026-02-02T05:00:00.000Z');
+  });
+
+  it('should keep the instant of a time with an offset, whatever the timezone', () => {
+    for (const timezone of ['America/New_York', 'Asia/Tokyo']) {
+      expect(iso(parseDateTime('2026-02-02T15:00:00-05:00', timezone))).toBe('2026-02-02T20:00:00.000Z');
+      expect(iso(parseDateTime('2026-02-02T15:00:00Z', timezone))).toBe('2026-02-02T15:00:00.000Z');
+      expect(iso(parseDateTime('2026-02-02T15:00:00+0100', timezone))).toBe('2026-02-02T14:00:00.000Z');
+    }
+  });
+
+  it('should apply the DST rules to local times', () => {
+    expect(iso(parseDateTime('2026-03-08T02:30:00', 'America/New_York'))).toBe('2026-03-08T07:30:00.000Z');
+    expect(iso(parseDateTime('2026-11-01T01:30', 'America/New_York'))).toBe('2026-11-01T05:30:00.000Z');
+  });
+
+  it('should return null for text that is not a date', () => {
+    expect(parseDateTime('next tuesday', 'UTC')).toBeNull();
+    expect(parseDateTime('', 'UTC')).toBeNull();
+  });
+});
+
+describe('toZonedIso', () => {
+  it('should show local time with the offset on either side of a change', () => {
+    expect(toZonedIso(new Date('2026-11-01T05:30:00Z'), 'America/New_York')).toBe('2026-11-01T01:30:00-04:00');
+    expect(toZonedIso(new Date('2026-11-01T06:30:00Z'), 'America/New_York')).toBe('2026-11-01T01:30:00-05:00');
+    expect(toZonedIso(new Date('2026-02-02T09:30:00Z'), 'Asia/Kolkata')).toBe('2026-02-02T15:00:00+05:30');
+  });
+});
@@ -0,0 +1,50 @@
+import { estimateTokens } from '../../src/utils/tokens';
+
+/** Texts with their token counts from a BPE tokenizer (cl100k). */
+const REFERENCE: Array<[string, number]> = [
+  ['Hello, world!', 4],
+  ['The quick brown fox jumps over the lazy dog.', 10],
+  ['Please summarize the quarterly report and send it to the team by Friday.', 14],
+  ['function add(a, b) {\n  return a + b;\n}', 14],
+  ['The meeting is on 2026-03-15 at 14:30.', 17]
+];
+
+describe('estimateTokens', () => {
+  it('should be zero for empty text', () => {
+    expect(estimateTokens('')).toBe(0);
+  });
+
+  it.each(REFERENCE)('should estimate %j within 30%% of %i tokens', (text, expected) => {
+    const estimate = estimateTokens(text);
+
+    expect(estimate).toBeGreaterThanOrEqual(Math.floor(expected * 0.7));
+    expect(estimate).toBeLessThanOrEqual(Math.ceil(expected * 1.3));
+  });
+
+  it('should count exactly the short-word prose cases', () => {
+    expect(estimateTokens('Hello, world!')).toBe(4);
+    expect(estimateTokens('The quick brown fox jumps over the lazy dog.')).toBe(10);
+  });
+
+  it('should cost code and numbers more than characters / 4 would', () => {
+    const code = 'function add(a, b) {\n  return a + b;\n}';
+    const date = 'The meeting is on 2026-03-15 at 14:30.';
+
+    expect(estimateTokens(code)).toBeGreaterThan(Math.ceil(code.length / 4));
+    expect(estimateTokens(date)).toBeGreaterThan(Math.ceil(date.length / 4));
+  });
+
+  it('should count about one token per character in scripts without spaces', () => {
+    expect(estimateTokens('今日は天気がいいですね')).toBe(11);
+  });
+
+  it('should split non-ASCII words more often than English ones', () => {
+    // Same length, one in Latin and one in Cyrillic letters
+    expect(estimateTokens('Privet kak dela')).toBe(3);
+    expect(estimateTokens('Привет как дела')).toBe(7);
+  });
+
+  it('should merge runs of whitespace', () => {
+    expect(estimateTokens('a\n\n\n\n\n\n\n\nb')).toBe(3);
+  });
+});